@@ -9,9 +9,11 @@ import {
   streamText,
   wrapLanguageModel,
   type ToolSet,
+  type ToolResultPart,
   type StopCondition,
   type LanguageModel,
   type LanguageModelMiddleware,
+  type LanguageModelUsage,
 } from "ai";
 import type {
   CreateDeepAgentParams,
@@ -23,9 +25,23 @@ import type {
   StreamWithEventsOptions,
   ModelMessage,
   SandboxBackendProtocol,
+  NetworkPolicy,
   InterruptOnConfig,
+  ApprovalPolicyProtocol,
+  PriceTable,
+  BudgetConfig,
+  RunUsage,
+  SubagentUsage,
+  TokenUsage,
 } from "./types.ts";
-import type { BaseCheckpointSaver, Checkpoint, InterruptData } from "./checkpointer/types.ts";
+import type {
+  BaseCheckpointSaver,
+  Checkpoint,
+  InterruptData,
+  ResumeDecision,
+  ThreadMetadata,
+} from "./checkpointer/types.ts";
+import { mergeThreadMetadata } from "./checkpointer/threads.ts";
 import { isSandboxBackend } from "./types.ts";
 import {
   BASE_PROMPT,
@@ -40,10 +56,36 @@ import { createFilesystemTools } from "./tools/filesystem.ts";
 import { createSubagentTool } from "./tools/subagent.ts";
 import { createExecuteTool } from "./tools/execute.ts";
 import { createWebTools } from "./tools/web.ts";
+import type { WebSearchProvider } from "./tools/web-search.ts";
+import type { WebCache } from "./tools/web-cache.ts";
 import { StateBackend } from "./backends/state.ts";
 import { patchToolCalls } from "./utils/patch-tool-calls.ts";
 import { summarizeIfNeeded } from "./utils/summarization.ts";
-import { applyInterruptConfig, wrapToolsWithApproval, type ApprovalCallback } from "./utils/approval.ts";
+import { EventQueue } from "./utils/event-queue.ts";
+import {
+  addTokenUsage,
+  createRunUsage,
+  emptyTokenUsage,
+  getModelId,
+  toTokenUsage,
+} from "./utils/usage.ts";
+import {
+  BudgetTracker,
+  applyBudget,
+  budgetExceeded,
+  mergeBudgets,
+} from "./utils/budget.ts";
+import {
+  applyInterruptConfig,
+  applyApprovalPolicy,
+  getPendingApprovals,
+  getInterruptToolCalls,
+  matchResumeDecisions,
+  resolveInterrupt,
+  createBatchInterruptData,
+  applyEditedToolArgs,
+  type PendingApproval,
+} from "./utils/approval.ts";
 import type { SummarizationConfig } from "./types.ts";
 
 /**
@@ -93,13 +135,23 @@ export class DeepAgent {
     defaultTools: ToolSet;
     subagents: CreateDeepAgentParams["subagents"];
     includeGeneralPurposeAgent: boolean;
+    maxConcurrentSubagents?: number;
+    maxSubagentDepth?: number;
+    middleware?: LanguageModelMiddleware | LanguageModelMiddleware[];
   };
   private toolResultEvictionLimit?: number;
+  private readImages: boolean;
+  private webSearchProvider?: WebSearchProvider;
+  private networkPolicy?: NetworkPolicy;
+  private webCache?: WebCache;
   private enablePromptCaching: boolean;
   private summarizationConfig?: SummarizationConfig;
   private hasSandboxBackend: boolean;
   private interruptOn?: InterruptOnConfig;
+  private approvalPolicy?: ApprovalPolicyProtocol;
   private checkpointer?: BaseCheckpointSaver;
+  private pricing?: PriceTable;
+  private budget?: BudgetConfig;
   private skillsMetadata: Array<{ name: string; description: string; path: string }> = [];
 
   constructor(params: CreateDeepAgentParams) {
@@ -113,10 +165,19 @@ export class DeepAgent {
       maxSteps = 100,
       includeGeneralPurposeAgent = true,
       toolResultEvictionLimit,
+      readImages = false,
+      webSearchProvider,
+      networkPolicy,
+      webCache,
       enablePromptCaching = false,
       summarization,
       interruptOn,
+      approvalPolicy,
       checkpointer,
+      pricing,
+      budget,
+      maxConcurrentSubagents,
+      maxSubagentDepth,
       skillsDir,
       agentId,
     } = params;
@@ -138,10 +199,17 @@ export class DeepAgent {
     this.backend =
       backend || ((state: DeepAgentState) => new StateBackend(state));
     this.toolResultEvictionLimit = toolResultEvictionLimit;
+    this.readImages = readImages;
+    this.webSearchProvider = webSearchProvider;
+    this.networkPolicy = networkPolicy;
+    this.webCache = webCache;
     this.enablePromptCaching = enablePromptCaching;
     this.summarizationConfig = summarization;
     this.interruptOn = interruptOn;
+    this.approvalPolicy = approvalPolicy;
     this.checkpointer = checkpointer;
+    this.pricing = pricing;
+    this.budget = budget;
 
     // Load skills - prefer agentId over legacy skillsDir
     if (agentId) {
@@ -182,6 +250,9 @@ export class DeepAgent {
       defaultTools: tools,
       subagents,
       includeGeneralPurposeAgent,
+      maxConcurrentSubagents,
+      maxSubagentDepth,
+      middleware,
     };
   }
 
@@ -189,13 +260,19 @@ export class DeepAgent {
    * Create all tools for a given state.
    * @param state - The shared agent state
    * @param onEvent - Optional callback for emitting events
+   * @param budget - Optional budget tracker of the run
    */
-  private createTools(state: DeepAgentState, onEvent?: EventCallback): ToolSet {
+  private createTools(
+    state: DeepAgentState,
+    onEvent?: EventCallback,
+    budget?: BudgetTracker
+  ): ToolSet {
     const todosTool = createTodosTool(state, onEvent);
     const filesystemTools = createFilesystemTools(state, {
       backend: this.backend,
       onEvent,
       toolResultEvictionLimit: this.toolResultEvictionLimit,
+      readImages: this.readImages,
     });
 
     let allTools: ToolSet = {
@@ -204,11 +281,14 @@ export class DeepAgent {
       ...this.userTools,
     };
 
-    // Add web tools if TAVILY_API_KEY is available
+    // Add web tools if a search provider or TAVILY_API_KEY is available
     const webTools = createWebTools(state, {
       backend: this.backend,
       onEvent,
       toolResultEvictionLimit: this.toolResultEvictionLimit,
+      searchProvider: this.webSearchProvider,
+      networkPolicy: this.networkPolicy,
+      cache: this.webCache,
     });
     // Only spread if webTools has actual tools (not empty object)
     if (Object.keys(webTools).length > 0) {
@@ -233,18 +313,32 @@ export class DeepAgent {
       const subagentTool = createSubagentTool(state, {
         defaultModel: this.subagentOptions.defaultModel,
         defaultTools: this.userTools,
+        defaultMiddleware: this.subagentOptions.middleware,
+        skills: this.skillsMetadata,
         subagents: this.subagentOptions.subagents,
         includeGeneralPurposeAgent:
           this.subagentOptions.includeGeneralPurposeAgent,
         backend: this.backend,
         onEvent,
         interruptOn: this.interruptOn,
+        approvalPolicy: this.approvalPolicy,
+        pricing: this.pricing,
+        budget,
+        maxConcurrency: this.subagentOptions.maxConcurrentSubagents,
+        maxDepth: this.subagentOptions.maxSubagentDepth,
+        toolResultEvictionLimit: this.toolResultEvictionLimit,
+        readImages: this.readImages,
+        webSearchProvider: this.webSearchProvider,
+        networkPolicy: this.networkPolicy,
+        webCache: this.webCache,
       });
       allTools.task = subagentTool;
     }
 
-    // Apply interruptOn configuration to tools
+    // Apply interruptOn configuration, approval policy rules and budget to tools
     allTools = applyInterruptConfig(allTools, this.interruptOn);
+    allTools = applyApprovalPolicy(allTools, this.approvalPolicy);
+    allTools = applyBudget(allTools, budget);
 
     return allTools;
   }
@@ -256,16 +350,48 @@ export class DeepAgent {
    * @param onEvent - Optional callback for emitting events
    */
   private createAgent(state: DeepAgentState, maxSteps?: number, onEvent?: EventCallback) {
-    const tools = this.createTools(state, onEvent);
+    const budget = this.budget ? new BudgetTracker(this.budget) : undefined;
+    const tools = this.createTools(state, onEvent, budget);
+    const stepLimit = stepCountIs(maxSteps ?? this.maxSteps);
 
     return new ToolLoopAgent({
       model: this.model,
       instructions: this.systemPrompt,
       tools,
-      stopWhen: stepCountIs(maxSteps ?? this.maxSteps),
+      stopWhen: budget ? [stepLimit, budgetExceeded(budget)] : stepLimit,
+      onStepFinish: budget
+        ? ({ usage, response }) => budget.addUsage(this.toStepUsage(usage, response.modelId))
+        : undefined,
     });
   }
 
+  /**
+   * Event callback that collects the usage of finished subagent invocations.
+   */
+  private collectSubagentUsage(subagentUsage: SubagentUsage[]): EventCallback {
+    return (event) => {
+      if (event.type === "subagent-finish" && event.usage) {
+        subagentUsage.push({ name: event.name, task: event.task, usage: event.usage });
+      }
+    };
+  }
+
+  /**
+   * Usage of the main agent's model calls, priced per step.
+   */
+  private getStepsUsage(
+    steps: ReadonlyArray<{ usage: LanguageModelUsage; response: { modelId: string } }>
+  ): TokenUsage {
+    return addTokenUsage(...steps.map((step) => this.toStepUsage(step.usage, step.response.modelId)));
+  }
+
+  /**
+   * Price the usage of one model call, falling back to the agent's model ID.
+   */
+  private toStepUsage(usage: LanguageModelUsage | undefined, modelId: string | undefined): TokenUsage {
+    return toTokenUsage(usage, modelId || getModelId(this.model), this.pricing);
+  }
+
   /**
    * Load skills from directory asynchronously.
    * Supports both legacy skillsDir and new agentId modes.
@@ -296,7 +422,8 @@ export class DeepAgent {
       files: {},
     };
 
-    const agent = this.createAgent(state, options.maxSteps);
+    const subagentUsage: SubagentUsage[] = [];
+    const agent = this.createAgent(state, options.maxSteps, this.collectSubagentUsage(subagentUsage));
     const result = await agent.generate({ prompt: options.prompt });
 
     // Return result with state attached
@@ -306,8 +433,13 @@ export class DeepAgent {
       enumerable: true,
       writable: false,
     });
+    Object.defineProperty(result, 'runUsage', {
+      value: createRunUsage(this.getStepsUsage(result.steps), subagentUsage),
+      enumerable: true,
+      writable: false,
+    });
 
-    return result as typeof result & { state: DeepAgentState };
+    return result as typeof result & { state: DeepAgentState; runUsage: RunUsage };
   }
 
   /**
@@ -320,7 +452,8 @@ export class DeepAgent {
       files: {},
     };
 
-    const agent = this.createAgent(state, options.maxSteps);
+    const subagentUsage: SubagentUsage[] = [];
+    const agent = this.createAgent(state, options.maxSteps, this.collectSubagentUsage(subagentUsage));
     const result = await agent.stream({ prompt: options.prompt });
 
     // Return result with state attached
@@ -330,8 +463,16 @@ export class DeepAgent {
       enumerable: true,
       writable: false,
     });
+    // Usage is known once the stream finishes, so it is resolved lazily
+    Object.defineProperty(result, 'runUsage', {
+      get: () =>
+        Promise.resolve(result.steps).then((steps) =>
+          createRunUsage(this.getStepsUsage(steps), subagentUsage)
+        ),
+      enumerable: true,
+    });
 
-    return result as typeof result & { state: DeepAgentState };
+    return result as typeof result & { state: DeepAgentState; runUsage: Promise<RunUsage> };
   }
 
   /**
@@ -342,7 +483,8 @@ export class DeepAgent {
     state: DeepAgentState;
     maxSteps?: number;
   }) {
-    const agent = this.createAgent(options.state, options.maxSteps);
+    const subagentUsage: SubagentUsage[] = [];
+    const agent = this.createAgent(options.state, options.maxSteps, this.collectSubagentUsage(subagentUsage));
     const result = await agent.generate({ prompt: options.prompt });
 
     // Return result with state attached
@@ -352,8 +494,13 @@ export class DeepAgent {
       enumerable: true,
       writable: false,
     });
+    Object.defineProperty(result, 'runUsage', {
+      value: createRunUsage(this.getStepsUsage(result.steps), subagentUsage),
+      enumerable: true,
+      writable: false,
+    });
 
-    return result as typeof result & { state: DeepAgentState };
+    return result as typeof result & { state: DeepAgentState; runUsage: RunUsage };
   }
 
   /**
@@ -405,9 +552,10 @@ export class DeepAgent {
     
     // Load checkpoint if threadId is provided and checkpointer exists
     let state: DeepAgentState = options.state || { todos: [], files: {} };
-    let patchedHistory: ModelMessage[] = [];
+    let patchedHistory: ModelMessage[] = options.messages ?? [];
     let currentStep = 0;
     let pendingInterrupt: InterruptData | undefined;
+    let savedMetadata: ThreadMetadata | undefined;
     
     if (threadId && this.checkpointer) {
       const checkpoint = await this.checkpointer.load(threadId);
@@ -417,6 +565,7 @@ export class DeepAgent {
         patchedHistory = checkpoint.messages;
         currentStep = checkpoint.step;
         pendingInterrupt = checkpoint.interrupt;
+        savedMetadata = checkpoint.metadata;
         
         yield {
           type: "checkpoint-loaded",
@@ -427,20 +576,6 @@ export class DeepAgent {
       }
     }
     
-    // Handle resume from interrupt
-    if (resume && pendingInterrupt) {
-      // Process the resume decision (approve/deny the pending tool call)
-      const decision = resume.decisions[0];
-      if (decision?.type === 'approve') {
-        // Clear the interrupt and continue
-        pendingInterrupt = undefined;
-      } else {
-        // Deny - the tool was rejected, clear interrupt
-        pendingInterrupt = undefined;
-        // Could add a denied message to history here if needed
-      }
-    }
-    
     // Require prompt unless resuming
     if (!options.prompt && !resume) {
       yield {
@@ -449,171 +584,297 @@ export class DeepAgent {
       };
       return;
     }
+
+    // Resuming needs a pending interrupt from the checkpoint
+    if (resume && !pendingInterrupt) {
+      yield {
+        type: "error",
+        error: new Error(
+          threadId
+            ? `No pending interrupt to resume for thread '${threadId}'`
+            : "Resuming requires a 'threadId' and a checkpointer"
+        ),
+      };
+      return;
+    }
     
     // If no prompt but resuming, use an empty prompt (the checkpoint has context)
     const prompt = options.prompt || "";
 
-    // Build messages array: previous history + new user message
-    // Patch any dangling tool calls in the history first
-    patchedHistory = patchToolCalls(patchedHistory);
-
-    // Apply summarization if enabled and needed
-    if (this.summarizationConfig?.enabled && patchedHistory.length > 0) {
-      const summarizationResult = await summarizeIfNeeded(patchedHistory, {
-        model: this.summarizationConfig.model || this.model,
-        tokenThreshold: this.summarizationConfig.tokenThreshold,
-        keepMessages: this.summarizationConfig.keepMessages,
-      });
-      patchedHistory = summarizationResult.messages;
-    }
-
-    const inputMessages: ModelMessage[] = [
-      ...patchedHistory,
-      ...(prompt ? [{ role: "user", content: prompt } as ModelMessage] : []),
-    ];
+    const metadata = this.getThreadMetadata(savedMetadata, options.metadata, prompt);
 
     // Event queue for collecting events from tool executions
-    const eventQueue: DeepAgentEvent[] = [];
+    const eventQueue = new EventQueue();
     let stepNumber = 0; // Relative to current execution
     const baseStep = currentStep; // Cumulative step from checkpoint
+    const maxSteps = options.maxSteps ?? this.maxSteps;
+
+    // Usage of the main agent's model calls and of each subagent invocation
+    let agentUsage = emptyTokenUsage();
+    const subagentUsage: SubagentUsage[] = [];
+    const collectUsage = this.collectSubagentUsage(subagentUsage);
 
     // Event callback that tools will use to emit events
     const onEvent: EventCallback = (event) => {
+      collectUsage(event);
       eventQueue.push(event);
     };
 
-    // Create tools with event callback
-    let tools = this.createTools(state, onEvent);
+    // Budget shared by the agent and its subagents for this run
+    const budgetConfig = mergeBudgets(this.budget, options.budget);
+    const budget = budgetConfig ? new BudgetTracker(budgetConfig) : undefined;
 
-    // Wrap tools with approval checking if interruptOn is configured and callback provided
-    // This intercepts tool execution and requests approval before running
-    const hasInterruptOn = !!this.interruptOn;
-    const hasApprovalCallback = !!options.onApprovalRequest;
-    
-    if (hasInterruptOn && hasApprovalCallback) {
-      tools = wrapToolsWithApproval(tools, this.interruptOn, options.onApprovalRequest);
-    }
+    // Create tools with event callback
+    const tools = this.createTools(state, onEvent, budget);
 
     try {
-      // Build streamText options
-      const streamOptions: Parameters<typeof streamText>[0] = {
-        model: this.model,
-        messages: inputMessages,
-        tools,
-        stopWhen: stepCountIs(options.maxSteps ?? this.maxSteps),
-        abortSignal: options.abortSignal,
-        onStepFinish: async ({ toolCalls, toolResults }) => {
-          stepNumber++;
-          const cumulativeStep = baseStep + stepNumber;
-
-          // Emit step finish event (relative step number)
-          const stepEvent: DeepAgentEvent = {
-            type: "step-finish",
-            stepNumber,
-            toolCalls: toolCalls.map((tc, i) => ({
-              toolName: tc.toolName,
-              args: "input" in tc ? tc.input : undefined,
-              result: toolResults[i] ? ("output" in toolResults[i] ? toolResults[i].output : undefined) : undefined,
-            })),
-          };
-          eventQueue.push(stepEvent);
-          
-          // Save checkpoint if configured
+      // Handle resume from interrupt: run (or reject) the exact pending tool calls
+      // and append their results so the model continues from where it paused.
+      // A new prompt without `resume` drops the interrupt instead (the dangling
+      // calls are patched as cancelled below).
+      if (resume && pendingInterrupt) {
+        const approvals = getInterruptToolCalls(pendingInterrupt);
+        patchedHistory = yield* this.resolveApprovals(
+          tools,
+          approvals,
+          matchResumeDecisions(approvals, resume.decisions),
+          patchedHistory,
+          eventQueue,
+          options.abortSignal
+        );
+      }
+
+      // Build messages array: previous history + new user message
+      // Patch any dangling tool calls in the history first
+      patchedHistory = patchToolCalls(patchedHistory);
+
+      // Apply summarization if enabled and needed
+      if (this.summarizationConfig?.enabled && patchedHistory.length > 0) {
+        const summarizationResult = await summarizeIfNeeded(patchedHistory, {
+          model: this.summarizationConfig.model || this.model,
+          tokenThreshold: this.summarizationConfig.tokenThreshold,
+          keepMessages: this.summarizationConfig.keepMessages,
+        });
+        patchedHistory = summarizationResult.messages;
+        if (summarizationResult.summarized) {
+          const summaryUsage = this.toStepUsage(summarizationResult.usage, summarizationResult.modelId);
+          agentUsage = addTokenUsage(agentUsage, summaryUsage);
+          budget?.addUsage(summaryUsage);
+        }
+      }
+
+      const inputMessages: ModelMessage[] = [
+        ...patchedHistory,
+        ...(prompt ? [{ role: "user", content: prompt } as ModelMessage] : []),
+      ];
+
+      // Tools in interruptOn keep their needsApproval flag, so the AI SDK stops at
+      // the end of a step with all of its tool calls that need approval. With an
+      // approval callback they are decided as one batch and the loop continues;
+      // without one the run pauses.
+      const hasApprovalCallback = !!(options.onApprovalBatchRequest || options.onApprovalRequest);
+
+      // Messages for the current model call (grows as approvals are resolved)
+      let runMessages = inputMessages;
+      let finalText = "";
+      let startedStep = 0;
+
+      while (true) {
+        const stepMessages = runMessages;
+
+        // Build streamText options
+        const streamOptions: Parameters<typeof streamText>[0] = {
+          model: this.model,
+          messages: stepMessages,
+          tools,
+          stopWhen: budget
+            ? [stepCountIs(maxSteps - stepNumber), budgetExceeded(budget)]
+            : stepCountIs(maxSteps - stepNumber),
+          abortSignal: options.abortSignal,
+          onStepFinish: async ({ toolCalls, toolResults, response, usage }) => {
+            stepNumber++;
+            const cumulativeStep = baseStep + stepNumber;
+            const stepUsage = this.toStepUsage(usage, response.modelId);
+            agentUsage = addTokenUsage(agentUsage, stepUsage);
+            budget?.addUsage(stepUsage);
+
+            // Emit step finish event (relative step number)
+            const stepEvent: DeepAgentEvent = {
+              type: "step-finish",
+              stepNumber,
+              toolCalls: toolCalls.map((tc, i) => ({
+                toolName: tc.toolName,
+                args: "input" in tc ? tc.input : undefined,
+                result: toolResults[i] ? ("output" in toolResults[i] ? toolResults[i].output : undefined) : undefined,
+              })),
+              usage: stepUsage,
+            };
+            eventQueue.push(stepEvent);
+
+            // Save checkpoint if configured
+            if (threadId && this.checkpointer) {
+              const checkpoint: Checkpoint = {
+                threadId,
+                step: cumulativeStep, // Cumulative step number
+                // Input plus everything generated so far (tool calls, tool results, text)
+                messages: [...stepMessages, ...response.messages],
+                state: { ...state },
+                metadata,
+                createdAt: new Date().toISOString(),
+                updatedAt: new Date().toISOString(),
+              };
+              await this.checkpointer.save(checkpoint);
+
+              eventQueue.push({
+                type: "checkpoint-saved",
+                threadId,
+                step: cumulativeStep,
+              });
+            }
+          },
+        };
+
+        // Add system prompt with optional caching for Anthropic models
+        if (this.enablePromptCaching) {
+          // Use messages format with cache control for Anthropic
+          streamOptions.messages = [
+            {
+              role: "system",
+              content: this.systemPrompt,
+              providerOptions: {
+                anthropic: { cacheControl: { type: "ephemeral" } },
+              },
+            } as ModelMessage,
+            ...stepMessages,
+          ];
+        } else {
+          // Use standard system prompt
+          streamOptions.system = this.systemPrompt;
+        }
+
+        // Use streamText with messages array for conversation history
+        const result = streamText(streamOptions);
+
+        // Yield step start event (unless already yielded after the previous step)
+        if (startedStep <= stepNumber) {
+          startedStep = stepNumber + 1;
+          yield { type: "step-start", stepNumber: startedStep };
+        }
+
+        // Stream text chunks, yielding events from tool executions (including
+        // subagent progress) as they are emitted
+        const parts = result.fullStream[Symbol.asyncIterator]();
+        while (true) {
+          const part = yield* eventQueue.drainUntil(parts.next());
+          if (part.done) {
+            break;
+          }
+
+          if (part.value.type === "start-step" && startedStep <= stepNumber) {
+            // The previous step finished and the loop continues
+            startedStep = stepNumber + 1;
+            yield { type: "step-start", stepNumber: startedStep };
+          } else if (part.value.type === "text-delta" && part.value.text) {
+            yield { type: "text", text: part.value.text };
+          }
+        }
+
+        // Get the final text
+        finalText = await result.text;
+
+        // Collect all tool calls of the last step that are waiting for approval
+        const pendingApprovals = getPendingApprovals(await result.content);
+
+        // Response messages of all steps: assistant text and tool calls, tool results
+        const response = await result.response;
+
+        // Out of budget: stop without asking (dangling calls are patched next run)
+        if (pendingApprovals.length === 0 || budget?.exceeded) {
+          runMessages = [...runMessages, ...response.messages];
+          break;
+        }
+
+        const pausedMessages = [...runMessages, ...response.messages];
+
+        for (const approval of pendingApprovals) {
+          yield { type: "approval-requested", ...approval };
+        }
+
+        if (!hasApprovalCallback) {
+          // Pause: save the batch of pending tool calls so the run can be resumed
+          const interrupt = createBatchInterruptData(pendingApprovals, baseStep + stepNumber);
+
           if (threadId && this.checkpointer) {
-            // Get current messages state - we need to track messages as they're built
-            // For now, we'll save with the input messages (will be updated after assistant response)
-            const checkpoint: Checkpoint = {
+            const interruptCheckpoint: Checkpoint = {
               threadId,
-              step: cumulativeStep, // Cumulative step number
-              messages: inputMessages, // Current messages before assistant response
-              state: { ...state },
-              interrupt: pendingInterrupt,
+              step: baseStep + stepNumber,
+              messages: pausedMessages,
+              state,
+              interrupt,
+              metadata,
               createdAt: new Date().toISOString(),
               updatedAt: new Date().toISOString(),
             };
-            await this.checkpointer.save(checkpoint);
-            
-            eventQueue.push({
+            await this.checkpointer.save(interruptCheckpoint);
+
+            yield {
               type: "checkpoint-saved",
               threadId,
-              step: cumulativeStep,
-            });
+              step: baseStep + stepNumber,
+            };
           }
-        },
-      };
 
-      // Add system prompt with optional caching for Anthropic models
-      if (this.enablePromptCaching) {
-        // Use messages format with cache control for Anthropic
-        streamOptions.messages = [
-          {
-            role: "system",
-            content: this.systemPrompt,
-            providerOptions: {
-              anthropic: { cacheControl: { type: "ephemeral" } },
-            },
-          } as ModelMessage,
-          ...inputMessages,
-        ];
-      } else {
-        // Use standard system prompt
-        streamOptions.system = this.systemPrompt;
-      }
-
-      // Use streamText with messages array for conversation history
-      const result = streamText(streamOptions);
-
-      // Yield step start event
-      yield { type: "step-start", stepNumber: 1 };
-
-      // Stream text chunks
-      for await (const chunk of result.textStream) {
-        // First, yield any queued events from tool executions
-        while (eventQueue.length > 0) {
-          const event = eventQueue.shift()!;
-          yield event;
-          
-          // If a step finished, yield the next step start
-          if (event.type === "step-finish") {
-            yield { type: "step-start", stepNumber: event.stepNumber + 1 };
-          }
+          yield {
+            type: "interrupt",
+            threadId,
+            interrupt,
+            messages: pausedMessages,
+            usage: createRunUsage(agentUsage, subagentUsage),
+          };
+          return;
         }
 
-        // Then yield the text chunk
-        if (chunk) {
-          yield { type: "text", text: chunk };
+        const decisions = await this.requestApprovals(pendingApprovals, options);
+        runMessages = yield* this.resolveApprovals(
+          tools,
+          pendingApprovals,
+          decisions,
+          pausedMessages,
+          eventQueue,
+          options.abortSignal
+        );
+
+        // Out of steps or budget: finish with the tool results in the history
+        if (stepNumber >= maxSteps || budget?.exceeded) {
+          break;
         }
       }
 
-      // Yield any remaining queued events
-      while (eventQueue.length > 0) {
-        yield eventQueue.shift()!;
+      if (budget?.exceeded) {
+        yield {
+          type: "budget-exceeded",
+          ...budget.exceeded,
+          usage: createRunUsage(agentUsage, subagentUsage),
+        };
       }
 
-      // Get the final text
-      const finalText = await result.text;
-
-      // Build updated messages array with assistant response
-      const updatedMessages: ModelMessage[] = [
-        ...inputMessages,
-        { role: "assistant", content: finalText } as ModelMessage,
-      ];
-
       // Yield done event with updated messages
       yield {
         type: "done",
         state,
         text: finalText,
-        messages: updatedMessages,
+        messages: runMessages,
+        usage: createRunUsage(agentUsage, subagentUsage),
       };
-      
+
       // Save final checkpoint after done event
       if (threadId && this.checkpointer) {
         const finalCheckpoint: Checkpoint = {
           threadId,
           step: baseStep + stepNumber, // Cumulative step number
-          messages: updatedMessages,
+          messages: runMessages,
           state,
+          metadata,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         };
@@ -628,6 +889,105 @@ export class DeepAgent {
     }
   }
 
+  /**
+   * Build the thread metadata saved with checkpoints.
+   *
+   * Merges the caller's metadata into the saved metadata and fills in the
+   * creation time, model ID and a title from the first prompt.
+   */
+  private getThreadMetadata(
+    saved: ThreadMetadata | undefined,
+    update: ThreadMetadata | undefined,
+    prompt: string
+  ): ThreadMetadata {
+    const metadata = mergeThreadMetadata(saved, update);
+    metadata.createdAt ??= new Date().toISOString();
+    metadata.model ??= getModelId(this.model);
+
+    const title = prompt.trim().replace(/\s+/g, " ");
+    if (!metadata.title && title) {
+      metadata.title = title.length > 80 ? `${title.slice(0, 77)}...` : title;
+    }
+    return metadata;
+  }
+
+  /**
+   * Ask the approval callback for decisions on a batch of tool calls.
+   *
+   * Uses `onApprovalBatchRequest` when provided, otherwise asks
+   * `onApprovalRequest` once per call, in order.
+   */
+  private async requestApprovals(
+    approvals: PendingApproval[],
+    options: StreamWithEventsOptions
+  ): Promise<ResumeDecision[]> {
+    const toDecision = (answer: boolean | ResumeDecision | undefined): ResumeDecision =>
+      typeof answer === "object" ? answer : { type: answer ? "approve" : "deny" };
+
+    if (options.onApprovalBatchRequest) {
+      const answers = await options.onApprovalBatchRequest(approvals);
+      return approvals.map((_, i) => toDecision(answers[i]));
+    }
+
+    const decisions: ResumeDecision[] = [];
+    for (const approval of approvals) {
+      decisions.push(toDecision(await options.onApprovalRequest?.(approval)));
+    }
+    return decisions;
+  }
+
+  /**
+   * Run (or reject) a batch of approved tool calls.
+   *
+   * Yields an `approval-response` and `tool-result` event per call (plus any
+   * events the tools emit) and returns the history with one tool message
+   * holding all results. Edited arguments replace the model's arguments in
+   * the history.
+   */
+  private async *resolveApprovals(
+    tools: ToolSet,
+    approvals: PendingApproval[],
+    decisions: Array<ResumeDecision | undefined>,
+    messages: ModelMessage[],
+    eventQueue: EventQueue,
+    abortSignal?: AbortSignal
+  ): AsyncGenerator<DeepAgentEvent, ModelMessage[], unknown> {
+    const editedArgs = new Map<string, unknown>();
+    const results: ToolResultPart[] = [];
+
+    for (const [i, approval] of approvals.entries()) {
+      // Yield events emitted by the tool while it executes
+      const resolved = yield* eventQueue.drainUntil(
+        resolveInterrupt(tools, approval, decisions[i], {
+          messages,
+          abortSignal,
+        })
+      );
+
+      yield {
+        type: "approval-response",
+        approvalId: approval.approvalId,
+        approved: resolved.approved,
+        toolCallId: approval.toolCallId,
+        ...(resolved.modifiedArgs !== undefined ? { modifiedArgs: resolved.modifiedArgs } : {}),
+      };
+
+      yield {
+        type: "tool-result",
+        toolName: approval.toolName,
+        toolCallId: approval.toolCallId,
+        result: resolved.output,
+      };
+
+      if (resolved.modifiedArgs !== undefined) {
+        editedArgs.set(approval.toolCallId, resolved.modifiedArgs);
+      }
+      results.push(resolved.part);
+    }
+
+    return [...applyEditedToolArgs(messages, editedArgs), { role: "tool", content: results }];
+  }
+
   /**
    * Stream with a simple callback interface.
    * This is a convenience wrapper around streamWithEvents.
@@ -666,6 +1026,10 @@ export class DeepAgent {
  * @param params.maxSteps - Optional maximum number of steps for the agent loop (default: 100)
  * @param params.includeGeneralPurposeAgent - Optional flag to include general-purpose subagent (default: true)
  * @param params.toolResultEvictionLimit - Optional token limit before evicting large tool results to filesystem (default: disabled)
+ * @param params.readImages - Optional flag to return images from read_file as image content for vision-capable models (default: false)
+ * @param params.webSearchProvider - Optional search provider for web_search (default: Tavily when TAVILY_API_KEY is set)
+ * @param params.networkPolicy - Optional host, private network, robots.txt, rate and size restrictions for http_request and fetch_url
+ * @param params.webCache - Optional cache for fetch_url pages and web_search results, shared with subagents
  * @param params.enablePromptCaching - Optional flag to enable prompt caching for improved performance (Anthropic only, default: false)
  * @param params.summarization - Optional summarization configuration for automatic conversation summarization
  * @returns A configured DeepAgent instance
@@ -4,12 +4,15 @@
 
 import type {
   BackendProtocol,
+  DeleteResult,
   EditResult,
   FileData,
   FileInfo,
   GrepMatch,
+  MoveResult,
   WriteResult,
 } from "../types.ts";
+import { fileDataToBytes, fileDataToString, isBinaryFileData } from "./utils.ts";
 
 /**
  * Backend that routes file operations to different backends based on path prefix.
@@ -257,6 +260,17 @@ export class CompositeBackend implements BackendProtocol {
     return await backend.write(strippedKey, content);
   }
 
+  /**
+   * Create a new binary file, routing to appropriate backend.
+   */
+  async writeBinary(filePath: string, data: Uint8Array, mimeType?: string): Promise<WriteResult> {
+    const [backend, strippedKey] = this.getBackendAndKey(filePath);
+    if (!backend.writeBinary) {
+      return { error: `Error: Writing binary file '${filePath}' is not supported by its backend` };
+    }
+    return await backend.writeBinary(strippedKey, data, mimeType);
+  }
+
   /**
    * Edit a file, routing to appropriate backend.
    */
@@ -269,5 +283,86 @@ export class CompositeBackend implements BackendProtocol {
     const [backend, strippedKey] = this.getBackendAndKey(filePath);
     return await backend.edit(strippedKey, oldString, newString, replaceAll);
   }
+
+  /**
+   * Delete a file, routing to appropriate backend.
+   */
+  async delete(filePath: string): Promise<DeleteResult> {
+    const [backend, strippedKey] = this.getBackendAndKey(filePath);
+    if (!backend.delete) {
+      return { error: `Error: Deleting '${filePath}' is not supported by its backend` };
+    }
+
+    const result = await backend.delete(strippedKey);
+    return result.error ? result : { path: filePath };
+  }
+
+  /**
+   * Move a file, also between routes.
+   */
+  async move(fromPath: string, toPath: string): Promise<MoveResult> {
+    return this.transfer(fromPath, toPath, "move");
+  }
+
+  /**
+   * Copy a file, also between routes.
+   */
+  async copy(fromPath: string, toPath: string): Promise<MoveResult> {
+    return this.transfer(fromPath, toPath, "copy");
+  }
+
+  /**
+   * Move or copy a file. Within one backend its own operation is used;
+   * across routes the content is written to the destination backend (and
+   * deleted from the source backend when moving).
+   */
+  private async transfer(
+    fromPath: string,
+    toPath: string,
+    mode: "move" | "copy"
+  ): Promise<MoveResult> {
+    const [fromBackend, fromKey] = this.getBackendAndKey(fromPath);
+    const [toBackend, toKey] = this.getBackendAndKey(toPath);
+
+    const operation = mode === "move" ? fromBackend.move : fromBackend.copy;
+    if (fromBackend === toBackend && operation) {
+      const result = await operation.call(fromBackend, fromKey, toKey);
+      return result.error ? result : { from: fromPath, to: toPath };
+    }
+
+    if (mode === "move" && !fromBackend.delete) {
+      return { error: `Error: Moving '${fromPath}' is not supported by its backend` };
+    }
+
+    let fileData: FileData;
+    try {
+      fileData = await fromBackend.readRaw(fromKey);
+    } catch {
+      return { error: `Error: File '${fromPath}' not found` };
+    }
+
+    let written: WriteResult;
+    if (!isBinaryFileData(fileData)) {
+      written = await toBackend.write(toKey, fileDataToString(fileData));
+    } else if (toBackend.writeBinary) {
+      written = await toBackend.writeBinary(toKey, fileDataToBytes(fileData), fileData.mimeType);
+    } else {
+      written = {
+        error: `Error: Cannot store binary file '${fromPath}' at '${toPath}': its backend only stores text`,
+      };
+    }
+    if (written.error) {
+      return { error: written.error };
+    }
+
+    if (mode === "move") {
+      const deleted = await fromBackend.delete!(fromKey);
+      if (deleted.error) {
+        return { error: deleted.error };
+      }
+    }
+
+    return { from: fromPath, to: toPath };
+  }
 }
 
@@ -10,7 +10,9 @@ import fg from "fast-glob";
 import micromatch from "micromatch";
 import type {
   BackendProtocol,
+  DeleteResult,
   EditResult,
+  MoveResult,
   FileData,
   FileInfo,
   GrepMatch,
@@ -18,7 +20,11 @@ import type {
 } from "../types.ts";
 import {
   checkEmptyContent,
+  describeBinaryFile,
+  fileDataFromBytes,
   formatContentWithLineNumbers,
+  getBinaryMimeType,
+  isBinaryContent,
   performStringReplacement,
 } from "./utils.ts";
 
@@ -78,6 +84,13 @@ export class FilesystemBackend implements BackendProtocol {
     this.maxFileSizeBytes = maxFileSizeMb * 1024 * 1024;
   }
 
+  /**
+   * Root directory that absolute paths are real paths below, unless in virtual mode.
+   */
+  get rootDir(): string | undefined {
+    return this.virtualMode ? undefined : this.cwd;
+  }
+
   /**
    * Resolve a file path with security checks.
    */
@@ -198,7 +211,7 @@ export class FilesystemBackend implements BackendProtocol {
     try {
       const resolvedPath = this.resolvePath(filePath);
 
-      let content: string;
+      let data: Buffer;
 
       if (SUPPORTS_NOFOLLOW) {
         const stat = await fs.stat(resolvedPath);
@@ -210,7 +223,7 @@ export class FilesystemBackend implements BackendProtocol {
           fsSync.constants.O_RDONLY | fsSync.constants.O_NOFOLLOW
         );
         try {
-          content = await fd.readFile({ encoding: "utf-8" });
+          data = await fd.readFile();
         } finally {
           await fd.close();
         }
@@ -222,9 +235,15 @@ export class FilesystemBackend implements BackendProtocol {
         if (!stat.isFile()) {
           return `Error: File '${filePath}' not found`;
         }
-        content = await fs.readFile(resolvedPath, "utf-8");
+        data = await fs.readFile(resolvedPath);
       }
 
+      const mimeType = getBinaryMimeType(filePath);
+      if (mimeType || isBinaryContent(data)) {
+        return `Error: ${describeBinaryFile(filePath, mimeType, data.length)}`;
+      }
+      const content = data.toString("utf-8");
+
       const emptyMsg = checkEmptyContent(content);
       if (emptyMsg) {
         return emptyMsg;
@@ -252,7 +271,7 @@ export class FilesystemBackend implements BackendProtocol {
   async readRaw(filePath: string): Promise<FileData> {
     const resolvedPath = this.resolvePath(filePath);
 
-    let content: string;
+    let data: Buffer;
     let stat: fsSync.Stats;
 
     if (SUPPORTS_NOFOLLOW) {
@@ -263,7 +282,7 @@ export class FilesystemBackend implements BackendProtocol {
         fsSync.constants.O_RDONLY | fsSync.constants.O_NOFOLLOW
       );
       try {
-        content = await fd.readFile({ encoding: "utf-8" });
+        data = await fd.readFile();
       } finally {
         await fd.close();
       }
@@ -273,20 +292,36 @@ export class FilesystemBackend implements BackendProtocol {
         throw new Error(`Symlinks are not allowed: ${filePath}`);
       }
       if (!stat.isFile()) throw new Error(`File '${filePath}' not found`);
-      content = await fs.readFile(resolvedPath, "utf-8");
+      data = await fs.readFile(resolvedPath);
     }
 
-    return {
-      content: content.split("\n"),
-      created_at: stat.ctime.toISOString(),
-      modified_at: stat.mtime.toISOString(),
-    };
+    return fileDataFromBytes(
+      filePath,
+      data,
+      stat.ctime.toISOString(),
+      stat.mtime.toISOString()
+    );
   }
 
   /**
    * Create a new file with content.
    */
   async write(filePath: string, content: string): Promise<WriteResult> {
+    return await this.createFile(filePath, content);
+  }
+
+  /**
+   * Create a new binary file. The MIME type is not stored: it is guessed
+   * from the extension when the file is read.
+   */
+  async writeBinary(filePath: string, data: Uint8Array): Promise<WriteResult> {
+    return await this.createFile(filePath, data);
+  }
+
+  /**
+   * Create a new file with text or binary content.
+   */
+  private async createFile(filePath: string, content: string | Uint8Array): Promise<WriteResult> {
     try {
       const resolvedPath = this.resolvePath(filePath);
 
@@ -315,12 +350,12 @@ export class FilesystemBackend implements BackendProtocol {
 
         const fd = await fs.open(resolvedPath, flags, 0o644);
         try {
-          await fd.writeFile(content, "utf-8");
+          await fd.writeFile(content);
         } finally {
           await fd.close();
         }
       } else {
-        await fs.writeFile(resolvedPath, content, "utf-8");
+        await fs.writeFile(resolvedPath, content);
       }
 
       return { path: filePath };
@@ -342,7 +377,7 @@ export class FilesystemBackend implements BackendProtocol {
     try {
       const resolvedPath = this.resolvePath(filePath);
 
-      let content: string;
+      let data: Buffer;
 
       if (SUPPORTS_NOFOLLOW) {
         const stat = await fs.stat(resolvedPath);
@@ -355,7 +390,7 @@ export class FilesystemBackend implements BackendProtocol {
           fsSync.constants.O_RDONLY | fsSync.constants.O_NOFOLLOW
         );
         try {
-          content = await fd.readFile({ encoding: "utf-8" });
+          data = await fd.readFile();
         } finally {
           await fd.close();
         }
@@ -367,8 +402,16 @@ export class FilesystemBackend implements BackendProtocol {
         if (!stat.isFile()) {
           return { error: `Error: File '${filePath}' not found` };
         }
-        content = await fs.readFile(resolvedPath, "utf-8");
+        data = await fs.readFile(resolvedPath);
+      }
+
+      const mimeType = getBinaryMimeType(filePath);
+      if (mimeType || isBinaryContent(data)) {
+        return {
+          error: `Error: Cannot edit. ${describeBinaryFile(filePath, mimeType, data.length)}`,
+        };
       }
+      const content = data.toString("utf-8");
 
       const result = performStringReplacement(
         content,
@@ -406,6 +449,101 @@ export class FilesystemBackend implements BackendProtocol {
     }
   }
 
+  /**
+   * Delete a file.
+   */
+  async delete(filePath: string): Promise<DeleteResult> {
+    try {
+      const resolvedPath = this.resolvePath(filePath);
+
+      const error = await this.checkRegularFile(resolvedPath, filePath);
+      if (error) {
+        return { error };
+      }
+
+      await fs.unlink(resolvedPath);
+      return { path: filePath };
+    } catch (e: unknown) {
+      const error = e as Error;
+      return { error: `Error deleting file '${filePath}': ${error.message}` };
+    }
+  }
+
+  /**
+   * Move a file to a new path.
+   */
+  async move(fromPath: string, toPath: string): Promise<MoveResult> {
+    try {
+      const [resolvedFrom, resolvedTo] = await this.prepareTransfer(fromPath, toPath);
+      await fs.rename(resolvedFrom, resolvedTo);
+      return { from: fromPath, to: toPath };
+    } catch (e: unknown) {
+      const error = e as Error;
+      return { error: `Error moving file '${fromPath}': ${error.message}` };
+    }
+  }
+
+  /**
+   * Copy a file to a new path.
+   */
+  async copy(fromPath: string, toPath: string): Promise<MoveResult> {
+    try {
+      const [resolvedFrom, resolvedTo] = await this.prepareTransfer(fromPath, toPath);
+      await fs.copyFile(resolvedFrom, resolvedTo, fsSync.constants.COPYFILE_EXCL);
+      return { from: fromPath, to: toPath };
+    } catch (e: unknown) {
+      const error = e as Error;
+      return { error: `Error copying file '${fromPath}': ${error.message}` };
+    }
+  }
+
+  /**
+   * Error message if the path is not a regular file (symlinks are not allowed).
+   */
+  private async checkRegularFile(
+    resolvedPath: string,
+    filePath: string
+  ): Promise<string | undefined> {
+    let stat: fsSync.Stats;
+    try {
+      stat = await fs.lstat(resolvedPath);
+    } catch {
+      return `Error: File '${filePath}' not found`;
+    }
+    if (stat.isSymbolicLink()) {
+      return `Error: Symlinks are not allowed: ${filePath}`;
+    }
+    if (!stat.isFile()) {
+      return `Error: File '${filePath}' not found`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve and check both paths of a move or copy, and create the
+   * destination directory. Throws if the file can't be transferred.
+   */
+  private async prepareTransfer(fromPath: string, toPath: string): Promise<[string, string]> {
+    const resolvedFrom = this.resolvePath(fromPath);
+    const resolvedTo = this.resolvePath(toPath);
+
+    const error = await this.checkRegularFile(resolvedFrom, fromPath);
+    if (error) {
+      throw new Error(error.replace(/^Error: /, ""));
+    }
+
+    const destinationExists = await fs.lstat(resolvedTo).then(
+      () => true,
+      () => false
+    );
+    if (destinationExists) {
+      throw new Error(`Cannot write to ${toPath} because it already exists`);
+    }
+
+    await fs.mkdir(path.dirname(resolvedTo), { recursive: true });
+    return [resolvedFrom, resolvedTo];
+  }
+
   /**
    * Structured search results or error string for invalid input.
    */
@@ -567,8 +705,11 @@ export class FilesystemBackend implements BackendProtocol {
           continue;
         }
 
-        const content = await fs.readFile(fp, "utf-8");
-        const lines = content.split("\n");
+        const data = await fs.readFile(fp);
+        if (isBinaryContent(data)) {
+          continue;
+        }
+        const lines = data.toString("utf-8").split("\n");
 
         for (let i = 0; i < lines.length; i++) {
           const line = lines[i];
@@ -6,12 +6,14 @@
 export { StateBackend } from "./state.ts";
 export { FilesystemBackend } from "./filesystem.ts";
 export { CompositeBackend } from "./composite.ts";
+export { PolicyBackend, PolicySandbox, withPolicy } from "./policy.ts";
 export {
   PersistentBackend,
   InMemoryStore,
   type KeyValueStore,
   type PersistentBackendOptions,
 } from "./persistent.ts";
+export { SqliteStore, type SqliteStoreOptions } from "./sqlite-store.ts";
 
 // Sandbox backends (SandboxBackendProtocol)
 export { BaseSandbox } from "./sandbox.ts";
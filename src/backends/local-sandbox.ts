@@ -7,6 +7,7 @@
  */
 
 import { spawn } from "child_process";
+import * as path from "path";
 import type { ExecuteResponse } from "../types.ts";
 import { BaseSandbox } from "./sandbox.ts";
 
@@ -103,6 +104,13 @@ export class LocalSandbox extends BaseSandbox {
     this._id = `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
   }
 
+  /**
+   * Directory that file operations resolve paths against.
+   */
+  get rootDir(): string {
+    return path.resolve(this.cwd);
+  }
+
   /**
    * Unique identifier for this sandbox instance.
    * Format: `local-{timestamp}-{random}`
@@ -8,16 +8,23 @@
 
 import type {
   BackendProtocol,
+  DeleteResult,
   EditResult,
+  MoveResult,
   FileData,
   FileInfo,
   GrepMatch,
   WriteResult,
 } from "../types.js";
 import {
+  createBinaryFileData,
   createFileData,
+  describeBinaryFile,
+  fileDataSize,
   fileDataToString,
   formatReadResponse,
+  getBinaryMimeType,
+  isBinaryFileData,
   globSearchFiles,
   grepMatchesFromFiles,
   performStringReplacement,
@@ -338,6 +345,10 @@ export class PersistentBackend implements BackendProtocol {
       content: value.content as string[],
       created_at: value.created_at,
       modified_at: value.modified_at,
+      ...(value.encoding === "base64" && {
+        encoding: "base64",
+        mimeType: typeof value.mimeType === "string" ? value.mimeType : undefined,
+      }),
     };
   }
 
@@ -349,6 +360,10 @@ export class PersistentBackend implements BackendProtocol {
       content: fileData.content,
       created_at: fileData.created_at,
       modified_at: fileData.modified_at,
+      ...(isBinaryFileData(fileData) && {
+        encoding: fileData.encoding,
+        mimeType: fileData.mimeType,
+      }),
     };
   }
 
@@ -386,7 +401,7 @@ export class PersistentBackend implements BackendProtocol {
       // This is a file directly in the current directory
       try {
         const fd = this.convertToFileData(item.value);
-        const size = fd.content.join("\n").length;
+        const size = fileDataSize(fd);
         infos.push({
           path: itemKey,
           is_dir: false,
@@ -423,7 +438,7 @@ export class PersistentBackend implements BackendProtocol {
   ): Promise<string> {
     try {
       const fileData = await this.readRaw(filePath);
-      return formatReadResponse(fileData, offset, limit);
+      return formatReadResponse(fileData, offset, limit, filePath);
     } catch (e: unknown) {
       const error = e as Error;
       return `Error: ${error.message}`;
@@ -465,6 +480,23 @@ export class PersistentBackend implements BackendProtocol {
     return { path: filePath };
   }
 
+  /**
+   * Create a new binary file.
+   */
+  async writeBinary(filePath: string, data: Uint8Array, mimeType?: string): Promise<WriteResult> {
+    const namespace = this.getNamespace();
+
+    if (await this.store.get(namespace, filePath)) {
+      return {
+        error: `Cannot write to ${filePath} because it already exists. Read and then make an edit, or write to a new path.`,
+      };
+    }
+
+    const fileData = createBinaryFileData(data, mimeType ?? getBinaryMimeType(filePath));
+    await this.store.put(namespace, filePath, this.convertFromFileData(fileData));
+    return { path: filePath };
+  }
+
   /**
    * Edit a file by replacing string occurrences.
    */
@@ -484,6 +516,11 @@ export class PersistentBackend implements BackendProtocol {
 
     try {
       const fileData = this.convertToFileData(value);
+      if (isBinaryFileData(fileData)) {
+        return {
+          error: `Error: Cannot edit. ${describeBinaryFile(filePath, fileData.mimeType, fileDataSize(fileData))}`,
+        };
+      }
       const content = fileDataToString(fileData);
       const result = performStringReplacement(
         content,
@@ -559,7 +596,7 @@ export class PersistentBackend implements BackendProtocol {
     const infos: FileInfo[] = [];
     for (const p of paths) {
       const fd = files[p];
-      const size = fd ? fd.content.join("\n").length : 0;
+      const size = fd ? fileDataSize(fd) : 0;
       infos.push({
         path: p,
         is_dir: false,
@@ -573,6 +610,22 @@ export class PersistentBackend implements BackendProtocol {
   /**
    * Delete a file.
    */
+  async delete(filePath: string): Promise<DeleteResult> {
+    const namespace = this.getNamespace();
+    const existing = await this.store.get(namespace, filePath);
+
+    if (!existing) {
+      return { error: `Error: File '${filePath}' not found` };
+    }
+
+    await this.store.delete(namespace, filePath);
+    return { path: filePath };
+  }
+
+  /**
+   * Delete a file.
+   * @deprecated Use `delete()` instead.
+   */
   async deleteFile(filePath: string): Promise<{ error?: string }> {
     const namespace = this.getNamespace();
     const existing = await this.store.get(namespace, filePath);
@@ -584,5 +637,55 @@ export class PersistentBackend implements BackendProtocol {
     await this.store.delete(namespace, filePath);
     return {};
   }
+
+  /**
+   * Move a file to a new path.
+   */
+  async move(fromPath: string, toPath: string): Promise<MoveResult> {
+    const namespace = this.getNamespace();
+    const result = await this.checkTransfer(fromPath, toPath);
+    if ("error" in result) {
+      return result;
+    }
+
+    await this.store.put(namespace, toPath, result.value);
+    await this.store.delete(namespace, fromPath);
+    return { from: fromPath, to: toPath };
+  }
+
+  /**
+   * Copy a file to a new path.
+   */
+  async copy(fromPath: string, toPath: string): Promise<MoveResult> {
+    const namespace = this.getNamespace();
+    const result = await this.checkTransfer(fromPath, toPath);
+    if ("error" in result) {
+      return result;
+    }
+
+    const now = new Date().toISOString();
+    const fileData = { ...this.convertToFileData(result.value), created_at: now, modified_at: now };
+    await this.store.put(namespace, toPath, this.convertFromFileData(fileData));
+    return { from: fromPath, to: toPath };
+  }
+
+  /**
+   * Check that a file can be moved or copied. Returns the stored source file.
+   */
+  private async checkTransfer(
+    fromPath: string,
+    toPath: string
+  ): Promise<{ value: Record<string, unknown> } | { error: string }> {
+    const namespace = this.getNamespace();
+    const value = await this.store.get(namespace, fromPath);
+
+    if (!value) {
+      return { error: `Error: File '${fromPath}' not found` };
+    }
+    if (await this.store.get(namespace, toPath)) {
+      return { error: `Error: Cannot write to ${toPath} because it already exists` };
+    }
+    return { value };
+  }
 }
 
@@ -0,0 +1,514 @@
+/**
+ * PolicyBackend: Enforce read-only mode, path, size and command rules on any backend.
+ */
+
+import micromatch from "micromatch";
+import * as path from "path";
+import type {
+  BackendFactory,
+  BackendPolicy,
+  BackendProtocol,
+  DeepAgentState,
+  DeleteResult,
+  EditResult,
+  ExecuteResponse,
+  FileData,
+  FileInfo,
+  GrepMatch,
+  MoveResult,
+  SandboxBackendProtocol,
+  WriteResult,
+} from "../types.ts";
+import { isSandboxBackend } from "../types.ts";
+import { fileDataSize } from "./utils.ts";
+
+/**
+ * Backend that checks every operation against a policy before passing it to
+ * an inner backend. Read-only mode rejects `write`, `writeBinary`, `edit`, `delete`,
+ * `move` and `copy`.
+ *
+ * Path rules match paths from the inner backend's root, so `/secrets/**`
+ * means the `secrets` directory of the project. For backends on the local
+ * disk (see `BackendProtocol.rootDir`) paths are resolved against their root
+ * directory, and paths outside it are rejected.
+ *
+ * Violations are returned the same way the inner backend reports errors, so
+ * tools show them to the model as normal tool output. Files outside the
+ * allowed paths are left out of listings and search results.
+ *
+ * @example Read-only view of a project
+ * ```typescript
+ * import { PolicyBackend, FilesystemBackend } from 'ai-sdk-deep-agent';
+ *
+ * const backend = new PolicyBackend(new FilesystemBackend({ rootDir: './project', virtualMode: true }), {
+ *   readOnly: true,
+ *   denyPaths: ['**\/.env', '/secrets/**'],
+ *   maxFileSize: 1_000_000,
+ * });
+ * ```
+ */
+export class PolicyBackend implements BackendProtocol {
+  protected inner: BackendProtocol;
+  protected policy: BackendPolicy;
+
+  /**
+   * @param inner - Backend that performs the allowed operations
+   * @param policy - Restrictions to enforce
+   */
+  constructor(inner: BackendProtocol, policy: BackendPolicy) {
+    this.inner = inner;
+    this.policy = policy;
+  }
+
+  get rootDir(): string | undefined {
+    return this.inner.rootDir;
+  }
+
+  /**
+   * Resolve a path against the inner backend's root. Returns the path the
+   * rules match ("/" being the root) and the path to pass to the inner
+   * backend, or an error for paths outside the root.
+   *
+   * Paths are normalized, so "/./secrets/key", "secrets/key" and, on local
+   * disk backends, "<rootDir>/secrets/key" all resolve to "/secrets/key".
+   */
+  private resolvePath(filePath: string): { policyPath: string; path: string } | { error: string } {
+    const { rootDir } = this.inner;
+    const outside = { error: `Error: Access to '${filePath}' is denied by policy: paths may not leave the root` };
+
+    let relative: string;
+    if (rootDir) {
+      relative = path.relative(rootDir, path.resolve(rootDir, filePath));
+      if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        return outside;
+      }
+      relative = relative.split(path.sep).join("/");
+    } else {
+      // Normalized relative to the root, so "/a/../../b" can't silently become "/b"
+      relative = path.posix.normalize(filePath.replace(/^\/+/, ""));
+      if (relative.split("/").includes("..")) {
+        return outside;
+      }
+    }
+
+    const policyPath = path.posix.join("/", relative);
+    if (rootDir) {
+      return { policyPath, path: path.join(rootDir, relative) };
+    }
+    // Relative paths stay relative, e.g. to a sandbox's working directory
+    return { policyPath, path: filePath.startsWith("/") ? policyPath : relative };
+  }
+
+  /**
+   * Resolve a path (see `resolvePath`) and check it against the path rules.
+   * Returns the path to pass to the inner backend, or why the path may not
+   * be accessed.
+   */
+  protected checkPath(filePath: string): { path: string } | { error: string } {
+    const { allowPaths, denyPaths } = this.policy;
+    const resolved = this.resolvePath(filePath);
+    if ("error" in resolved) {
+      return resolved;
+    }
+    if (denyPaths && micromatch.isMatch(resolved.policyPath, denyPaths, { dot: true })) {
+      return { error: `Error: Access to '${filePath}' is denied by policy` };
+    }
+    if (allowPaths && !micromatch.isMatch(resolved.policyPath, allowPaths, { dot: true })) {
+      return { error: `Error: Access to '${filePath}' is not allowed by policy` };
+    }
+    return { path: resolved.path };
+  }
+
+  /**
+   * Resolve the directory of a listing or search. Directories stay
+   * accessible so allowed files below them can be reached, and "/" (the
+   * tools' default) is the root of the inner backend, also on disk.
+   */
+  private resolveDir(dirPath: string): { path: string } | { error: string } {
+    const { rootDir } = this.inner;
+    return rootDir && dirPath === "/" ? { path: rootDir } : this.resolvePath(dirPath);
+  }
+
+  /**
+   * Reason why content of the given size may not be read or written, if any.
+   */
+  private checkSize(path: string, size: number): string | undefined {
+    const { maxFileSize } = this.policy;
+    if (maxFileSize !== undefined && size > maxFileSize) {
+      return `Error: '${path}' is ${size} bytes, more than the ${maxFileSize} bytes allowed by policy`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Size of a file in the inner backend, or undefined if it can't be read.
+   */
+  private async getFileSize(path: string): Promise<number | undefined> {
+    try {
+      const fileData = await this.inner.readRaw(path);
+      return fileDataSize(fileData);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a listed entry may be shown. Directories stay visible so allowed
+   * files below them can be reached.
+   */
+  private isVisible(info: FileInfo, dir: string): boolean {
+    if (info.is_dir) {
+      return true;
+    }
+    const filePath = info.path.startsWith("/")
+      ? info.path
+      : `${dir.replace(/\/$/, "")}/${info.path}`;
+    return "path" in this.checkPath(filePath);
+  }
+
+  /**
+   * List files and directories, without the files the policy hides.
+   */
+  async lsInfo(dirPath: string): Promise<FileInfo[]> {
+    const dir = this.resolveDir(dirPath);
+    if ("error" in dir) {
+      return [];
+    }
+    const infos = await this.inner.lsInfo(dir.path);
+    return infos.filter((info) => this.isVisible(info, dir.path));
+  }
+
+  /**
+   * Read file content if the path and size are allowed.
+   */
+  async read(filePath: string, offset?: number, limit?: number): Promise<string> {
+    const checked = this.checkPath(filePath);
+    if ("error" in checked) {
+      return checked.error;
+    }
+
+    if (this.policy.maxFileSize !== undefined) {
+      const size = await this.getFileSize(checked.path);
+      const sizeError = size === undefined ? undefined : this.checkSize(filePath, size);
+      if (sizeError) {
+        return sizeError;
+      }
+    }
+
+    return await this.inner.read(checked.path, offset, limit);
+  }
+
+  /**
+   * Read raw file data if the path and size are allowed. Throws otherwise.
+   */
+  async readRaw(filePath: string): Promise<FileData> {
+    const checked = this.checkPath(filePath);
+    if ("error" in checked) {
+      throw new Error(checked.error.replace(/^Error: /, ""));
+    }
+
+    const fileData = await this.inner.readRaw(checked.path);
+    const sizeError = this.checkSize(filePath, fileDataSize(fileData));
+    if (sizeError) {
+      throw new Error(sizeError.replace(/^Error: /, ""));
+    }
+    return fileData;
+  }
+
+  /**
+   * Search file contents, without matches in files the policy hides.
+   */
+  async grepRaw(
+    pattern: string,
+    path?: string | null,
+    glob?: string | null
+  ): Promise<GrepMatch[] | string> {
+    let searchPath = path;
+    if (path) {
+      const dir = this.resolveDir(path);
+      if ("error" in dir) {
+        return dir.error;
+      }
+      searchPath = dir.path;
+    }
+    const raw = await this.inner.grepRaw(pattern, searchPath, glob);
+    if (typeof raw === "string") {
+      return raw;
+    }
+    return raw.filter((match) => "path" in this.checkPath(match.path));
+  }
+
+  /**
+   * Find files matching a glob, without the files the policy hides.
+   */
+  async globInfo(pattern: string, path?: string): Promise<FileInfo[]> {
+    let searchPath = path;
+    if (path) {
+      const dir = this.resolveDir(path);
+      if ("error" in dir) {
+        return [];
+      }
+      searchPath = dir.path;
+    }
+    const infos = await this.inner.globInfo(pattern, searchPath);
+    return infos.filter((info) => this.isVisible(info, searchPath ?? "/"));
+  }
+
+  /**
+   * Create a new file unless the backend is read-only or the path or size is not allowed.
+   */
+  async write(filePath: string, content: string): Promise<WriteResult> {
+    if (this.policy.readOnly) {
+      return { error: `Error: Cannot write '${filePath}': the filesystem is read-only` };
+    }
+
+    const checked = this.checkPath(filePath);
+    if ("error" in checked) {
+      return checked;
+    }
+    const error = this.checkSize(filePath, Buffer.byteLength(content));
+    if (error) {
+      return { error };
+    }
+
+    return await this.inner.write(checked.path, content);
+  }
+
+  /**
+   * Create a new binary file unless the backend is read-only or the path or size is not allowed.
+   */
+  async writeBinary(filePath: string, data: Uint8Array, mimeType?: string): Promise<WriteResult> {
+    if (this.policy.readOnly) {
+      return { error: `Error: Cannot write '${filePath}': the filesystem is read-only` };
+    }
+
+    const checked = this.checkPath(filePath);
+    if ("error" in checked) {
+      return checked;
+    }
+    const error = this.checkSize(filePath, data.byteLength);
+    if (error) {
+      return { error };
+    }
+    if (!this.inner.writeBinary) {
+      return { error: `Error: Writing binary file '${filePath}' is not supported by this backend` };
+    }
+
+    return await this.inner.writeBinary(checked.path, data, mimeType);
+  }
+
+  /**
+   * Edit a file unless the backend is read-only or the path or resulting size is not allowed.
+   */
+  async edit(
+    filePath: string,
+    oldString: string,
+    newString: string,
+    replaceAll?: boolean
+  ): Promise<EditResult> {
+    if (this.policy.readOnly) {
+      return { error: `Error: Cannot edit '${filePath}': the filesystem is read-only` };
+    }
+
+    const checked = this.checkPath(filePath);
+    if ("error" in checked) {
+      return checked;
+    }
+
+    if (this.policy.maxFileSize !== undefined) {
+      const error = await this.checkEditedSize(filePath, checked.path, oldString, newString, replaceAll);
+      if (error) {
+        return { error };
+      }
+    }
+
+    return await this.inner.edit(checked.path, oldString, newString, replaceAll);
+  }
+
+  /**
+   * Delete a file unless the backend is read-only or the path is not allowed.
+   */
+  async delete(filePath: string): Promise<DeleteResult> {
+    if (this.policy.readOnly) {
+      return { error: `Error: Cannot delete '${filePath}': the filesystem is read-only` };
+    }
+
+    const checked = this.checkPath(filePath);
+    if ("error" in checked) {
+      return checked;
+    }
+    if (!this.inner.delete) {
+      return { error: `Error: Deleting '${filePath}' is not supported by this backend` };
+    }
+
+    return await this.inner.delete(checked.path);
+  }
+
+  /**
+   * Move a file unless the backend is read-only or either path is not allowed.
+   */
+  async move(fromPath: string, toPath: string): Promise<MoveResult> {
+    if (this.policy.readOnly) {
+      return { error: `Error: Cannot move '${fromPath}': the filesystem is read-only` };
+    }
+
+    const from = this.checkPath(fromPath);
+    if ("error" in from) {
+      return from;
+    }
+    const to = this.checkPath(toPath);
+    if ("error" in to) {
+      return to;
+    }
+    if (!this.inner.move) {
+      return { error: `Error: Moving '${fromPath}' is not supported by this backend` };
+    }
+
+    return await this.inner.move(from.path, to.path);
+  }
+
+  /**
+   * Copy a file unless the backend is read-only or either path or the size is not allowed.
+   */
+  async copy(fromPath: string, toPath: string): Promise<MoveResult> {
+    if (this.policy.readOnly) {
+      return { error: `Error: Cannot copy to '${toPath}': the filesystem is read-only` };
+    }
+
+    const from = this.checkPath(fromPath);
+    if ("error" in from) {
+      return from;
+    }
+    const to = this.checkPath(toPath);
+    if ("error" in to) {
+      return to;
+    }
+    if (!this.inner.copy) {
+      return { error: `Error: Copying '${fromPath}' is not supported by this backend` };
+    }
+
+    if (this.policy.maxFileSize !== undefined) {
+      const size = await this.getFileSize(from.path);
+      const sizeError = size === undefined ? undefined : this.checkSize(fromPath, size);
+      if (sizeError) {
+        return { error: sizeError };
+      }
+    }
+
+    return await this.inner.copy(from.path, to.path);
+  }
+
+  /**
+   * Check the size a file would have after an edit.
+   */
+  private async checkEditedSize(
+    filePath: string,
+    innerPath: string,
+    oldString: string,
+    newString: string,
+    replaceAll?: boolean
+  ): Promise<string | undefined> {
+    let content: string;
+    try {
+      content = (await this.inner.readRaw(innerPath)).content.join("\n");
+    } catch {
+      // Let the inner backend report the missing file
+      return undefined;
+    }
+
+    const occurrences = oldString ? content.split(oldString).length - 1 : 0;
+    const replaced = replaceAll ? occurrences : Math.min(occurrences, 1);
+    const size =
+      Buffer.byteLength(content) +
+      replaced * (Buffer.byteLength(newString) - Buffer.byteLength(oldString));
+    return this.checkSize(filePath, size);
+  }
+}
+
+/**
+ * Sandbox backend that enforces a policy on file operations (see
+ * `PolicyBackend`) and on executed commands.
+ *
+ * Note that `readOnly` and path rules only apply to the file operations:
+ * use `allowCommands`/`denyCommands` to restrict what commands can do.
+ *
+ * @example Only allow running the tests
+ * ```typescript
+ * import { PolicySandbox, LocalSandbox } from 'ai-sdk-deep-agent';
+ *
+ * const backend = new PolicySandbox(new LocalSandbox({ cwd: './workspace' }), {
+ *   allowCommands: ['^npm test\\b', '^bun test\\b'],
+ *   denyCommands: ['[;&|`$]'],
+ * });
+ * ```
+ */
+export class PolicySandbox extends PolicyBackend implements SandboxBackendProtocol {
+  protected override inner: SandboxBackendProtocol;
+
+  /**
+   * @param inner - Sandbox that runs the allowed operations
+   * @param policy - Restrictions to enforce
+   */
+  constructor(inner: SandboxBackendProtocol, policy: BackendPolicy) {
+    super(inner, policy);
+    this.inner = inner;
+  }
+
+  get id(): string {
+    return this.inner.id;
+  }
+
+  /**
+   * Execute a command if the policy allows it.
+   */
+  async execute(command: string): Promise<ExecuteResponse> {
+    const { allowCommands, denyCommands } = this.policy;
+
+    let error: string | undefined;
+    if (denyCommands?.some((pattern) => new RegExp(pattern).test(command))) {
+      error = `Error: Command denied by policy: ${command}`;
+    } else if (allowCommands && !allowCommands.some((pattern) => new RegExp(pattern).test(command))) {
+      error = `Error: Command not allowed by policy: ${command}`;
+    }
+
+    if (error) {
+      // 126: the command was found but could not be run
+      return { output: error, exitCode: 126, truncated: false };
+    }
+
+    return await this.inner.execute(command);
+  }
+}
+
+/**
+ * Wrap a backend (or backend factory) with a policy.
+ * Sandboxes are wrapped in a `PolicySandbox` so they keep their `execute` tool.
+ *
+ * @example Read-only subagent
+ * ```typescript
+ * const reviewer: SubAgent = {
+ *   name: 'reviewer',
+ *   description: 'Reviews code without changing it',
+ *   systemPrompt: 'You review code...',
+ *   backend: withPolicy(new FilesystemBackend({ rootDir: './project', virtualMode: true }), { readOnly: true }),
+ * };
+ * ```
+ */
+export function withPolicy(backend: SandboxBackendProtocol, policy: BackendPolicy): PolicySandbox;
+export function withPolicy(backend: BackendProtocol, policy: BackendPolicy): PolicyBackend;
+export function withPolicy(backend: BackendFactory, policy: BackendPolicy): BackendFactory;
+export function withPolicy(
+  backend: BackendProtocol | BackendFactory,
+  policy: BackendPolicy
+): BackendProtocol | BackendFactory;
+export function withPolicy(
+  backend: BackendProtocol | BackendFactory,
+  policy: BackendPolicy
+): BackendProtocol | BackendFactory {
+  if (typeof backend === "function") {
+    return (state: DeepAgentState) => withPolicy(backend(state), policy);
+  }
+  return isSandboxBackend(backend)
+    ? new PolicySandbox(backend, policy)
+    : new PolicyBackend(backend, policy);
+}
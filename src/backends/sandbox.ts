@@ -10,7 +10,9 @@
  */
 
 import type {
+  DeleteResult,
   EditResult,
+  MoveResult,
   ExecuteResponse,
   FileData,
   FileInfo,
@@ -18,6 +20,7 @@ import type {
   SandboxBackendProtocol,
   WriteResult,
 } from "../types.ts";
+import { describeBinaryFile, getBinaryMimeType } from "./utils.ts";
 
 /**
  * Encode string to base64 for safe shell transmission.
@@ -26,6 +29,16 @@ function toBase64(str: string): string {
   return Buffer.from(str, "utf-8").toString("base64");
 }
 
+/**
+ * Script snippet that sets `binary` for the bytes in `data`: true if they
+ * contain a NUL byte near the start or are not valid UTF-8.
+ */
+const DETECT_BINARY_SCRIPT = `
+const binary = __BINARY_EXT__ ||
+  data.subarray(0, 8000).includes(0) ||
+  !Buffer.from(data.toString("utf-8"), "utf-8").equals(data);
+`;
+
 /**
  * Build a Node.js script command with embedded base64 arguments.
  * This avoids shell argument parsing issues by embedding values directly in the script.
@@ -131,6 +144,7 @@ try {
     limit: number = 2000
   ): Promise<string> {
     const pathB64 = toBase64(filePath);
+    const mimeType = getBinaryMimeType(filePath);
     const script = `
 const fs = require("fs");
 const filePath = Buffer.from("__PATH__", "base64").toString("utf-8");
@@ -148,7 +162,14 @@ if (stat.size === 0) {
   process.exit(0);
 }
 
-const content = fs.readFileSync(filePath, "utf-8");
+const data = fs.readFileSync(filePath);
+${DETECT_BINARY_SCRIPT}
+if (binary) {
+  console.log(stat.size);
+  process.exit(4);
+}
+
+const content = data.toString("utf-8");
 const lines = content.split("\\n");
 const selected = lines.slice(offset, offset + limit);
 
@@ -162,9 +183,14 @@ for (let i = 0; i < selected.length; i++) {
         PATH: pathB64,
         OFFSET: String(offset),
         LIMIT: String(limit),
+        BINARY_EXT: String(mimeType !== undefined),
       })
     );
 
+    if (result.exitCode === 4) {
+      const size = parseInt(result.output.trim(), 10) || 0;
+      return `Error: ${describeBinaryFile(filePath, mimeType, size)}`;
+    }
     if (result.exitCode !== 0) {
       if (result.output.includes("Error: File not found")) {
         return `Error: File '${filePath}' not found`;
@@ -180,6 +206,7 @@ for (let i = 0; i < selected.length; i++) {
    */
   async readRaw(filePath: string): Promise<FileData> {
     const pathB64 = toBase64(filePath);
+    const mimeType = getBinaryMimeType(filePath);
     const script = `
 const fs = require("fs");
 const filePath = Buffer.from("__PATH__", "base64").toString("utf-8");
@@ -190,15 +217,19 @@ if (!fs.existsSync(filePath)) {
 }
 
 const stat = fs.statSync(filePath);
-const content = fs.readFileSync(filePath, "utf-8");
+const data = fs.readFileSync(filePath);
+${DETECT_BINARY_SCRIPT}
 
 console.log(JSON.stringify({
-  content: content.split("\\n"),
+  content: binary ? [data.toString("base64")] : data.toString("utf-8").split("\\n"),
+  binary,
   created_at: stat.birthtime.toISOString(),
   modified_at: stat.mtime.toISOString()
 }));
 `;
-    const result = await this.execute(buildNodeScript(script, { PATH: pathB64 }));
+    const result = await this.execute(
+      buildNodeScript(script, { PATH: pathB64, BINARY_EXT: String(mimeType !== undefined) })
+    );
 
     if (result.exitCode !== 0) {
       throw new Error(`File '${filePath}' not found`);
@@ -210,6 +241,10 @@ console.log(JSON.stringify({
         content: data.content,
         created_at: data.created_at,
         modified_at: data.modified_at,
+        ...(data.binary && {
+          encoding: "base64",
+          mimeType: mimeType ?? "application/octet-stream",
+        }),
       };
     } catch {
       throw new Error(`Failed to parse file data for '${filePath}'`);
@@ -220,14 +255,29 @@ console.log(JSON.stringify({
    * Write content to a new file.
    */
   async write(filePath: string, content: string): Promise<WriteResult> {
+    return await this.createFile(filePath, Buffer.from(content, "utf-8"));
+  }
+
+  /**
+   * Write data to a new binary file. The MIME type is not stored: it is
+   * guessed from the extension when the file is read.
+   */
+  async writeBinary(filePath: string, data: Uint8Array): Promise<WriteResult> {
+    return await this.createFile(filePath, data);
+  }
+
+  /**
+   * Write bytes to a new file.
+   */
+  private async createFile(filePath: string, data: Uint8Array): Promise<WriteResult> {
     const pathB64 = toBase64(filePath);
-    const contentB64 = toBase64(content);
+    const contentB64 = Buffer.from(data).toString("base64");
     const script = `
 const fs = require("fs");
 const path = require("path");
 
 const filePath = Buffer.from("__PATH__", "base64").toString("utf-8");
-const content = Buffer.from("__CONTENT__", "base64").toString("utf-8");
+const content = Buffer.from("__CONTENT__", "base64");
 
 if (fs.existsSync(filePath)) {
   console.error("Error: File already exists");
@@ -239,7 +289,7 @@ if (dir && dir !== ".") {
   fs.mkdirSync(dir, { recursive: true });
 }
 
-fs.writeFileSync(filePath, content, "utf-8");
+fs.writeFileSync(filePath, content);
 `;
     const result = await this.execute(
       buildNodeScript(script, { PATH: pathB64, CONTENT: contentB64 })
@@ -267,6 +317,7 @@ fs.writeFileSync(filePath, content, "utf-8");
     replaceAll: boolean = false
   ): Promise<EditResult> {
     const pathB64 = toBase64(filePath);
+    const mimeType = getBinaryMimeType(filePath);
     const oldB64 = toBase64(oldString);
     const newB64 = toBase64(newString);
     const script = `
@@ -282,7 +333,14 @@ if (!fs.existsSync(filePath)) {
   process.exit(1);
 }
 
-let content = fs.readFileSync(filePath, "utf-8");
+const data = fs.readFileSync(filePath);
+${DETECT_BINARY_SCRIPT}
+if (binary) {
+  console.log(data.length);
+  process.exit(4);
+}
+
+let content = data.toString("utf-8");
 const count = content.split(oldStr).length - 1;
 
 if (count === 0) {
@@ -307,6 +365,7 @@ console.log(count);
         OLD: oldB64,
         NEW: newB64,
         REPLACE_ALL: String(replaceAll),
+        BINARY_EXT: String(mimeType !== undefined),
       })
     );
 
@@ -321,11 +380,113 @@ console.log(count);
         error: `Error: String '${oldString}' appears multiple times. Use replaceAll=true to replace all occurrences.`,
       };
     }
+    if (result.exitCode === 4) {
+      const size = parseInt(result.output.trim(), 10) || 0;
+      return { error: `Error: Cannot edit. ${describeBinaryFile(filePath, mimeType, size)}` };
+    }
 
     const count = parseInt(result.output.trim(), 10) || 1;
     return { path: filePath, occurrences: count };
   }
 
+  /**
+   * Delete a file.
+   */
+  async delete(filePath: string): Promise<DeleteResult> {
+    const pathB64 = toBase64(filePath);
+    const script = `
+const fs = require("fs");
+
+const filePath = Buffer.from("__PATH__", "base64").toString("utf-8");
+
+if (!fs.existsSync(filePath) || !fs.lstatSync(filePath).isFile()) {
+  process.exit(1);
+}
+
+fs.unlinkSync(filePath);
+`;
+    const result = await this.execute(buildNodeScript(script, { PATH: pathB64 }));
+
+    if (result.exitCode === 1) {
+      return { error: `Error: File '${filePath}' not found` };
+    }
+    if (result.exitCode !== 0) {
+      return { error: result.output.trim() || `Failed to delete '${filePath}'` };
+    }
+
+    return { path: filePath };
+  }
+
+  /**
+   * Move a file to a new path.
+   */
+  async move(fromPath: string, toPath: string): Promise<MoveResult> {
+    return this.transfer(fromPath, toPath, "move");
+  }
+
+  /**
+   * Copy a file to a new path.
+   */
+  async copy(fromPath: string, toPath: string): Promise<MoveResult> {
+    return this.transfer(fromPath, toPath, "copy");
+  }
+
+  /**
+   * Move or copy a file, refusing to overwrite the destination.
+   */
+  private async transfer(
+    fromPath: string,
+    toPath: string,
+    mode: "move" | "copy"
+  ): Promise<MoveResult> {
+    const fromB64 = toBase64(fromPath);
+    const toB64 = toBase64(toPath);
+    const script = `
+const fs = require("fs");
+const path = require("path");
+
+const fromPath = Buffer.from("__FROM__", "base64").toString("utf-8");
+const toPath = Buffer.from("__TO__", "base64").toString("utf-8");
+
+if (!fs.existsSync(fromPath) || !fs.lstatSync(fromPath).isFile()) {
+  process.exit(1);
+}
+if (fs.existsSync(toPath)) {
+  process.exit(2);
+}
+
+const dir = path.dirname(toPath);
+if (dir && dir !== ".") {
+  fs.mkdirSync(dir, { recursive: true });
+}
+
+if (__MOVE__) {
+  fs.renameSync(fromPath, toPath);
+} else {
+  fs.copyFileSync(fromPath, toPath, fs.constants.COPYFILE_EXCL);
+}
+`;
+    const result = await this.execute(
+      buildNodeScript(script, {
+        FROM: fromB64,
+        TO: toB64,
+        MOVE: String(mode === "move"),
+      })
+    );
+
+    if (result.exitCode === 1) {
+      return { error: `Error: File '${fromPath}' not found` };
+    }
+    if (result.exitCode === 2) {
+      return { error: `Error: Cannot write to ${toPath} because it already exists` };
+    }
+    if (result.exitCode !== 0) {
+      return { error: result.output.trim() || `Failed to ${mode} '${fromPath}'` };
+    }
+
+    return { from: fromPath, to: toPath };
+  }
+
   /**
    * Search for pattern in files.
    */
@@ -380,8 +541,9 @@ const files = allFiles.filter(f => matchGlob(f, fileGlob)).sort();
 for (const file of files) {
   try {
     const fullPath = path.join(basePath, file);
-    const content = fs.readFileSync(fullPath, "utf-8");
-    const lines = content.split("\\n");
+    const data = fs.readFileSync(fullPath);
+    if (data.subarray(0, 8000).includes(0)) continue;
+    const lines = data.toString("utf-8").split("\\n");
     
     for (let i = 0; i < lines.length; i++) {
       if (lines[i].includes(pattern)) {
@@ -0,0 +1,140 @@
+/**
+ * SQLite implementation of KeyValueStore using Bun's built-in sqlite.
+ */
+
+import { Database } from "bun:sqlite";
+import type { KeyValueStore } from "./persistent.ts";
+
+/**
+ * Options for SqliteStore.
+ */
+export interface SqliteStoreOptions {
+  /**
+   * Path of the database file. Defaults to ":memory:".
+   * Ignored when `database` is provided.
+   */
+  path?: string;
+  /** Existing database connection to use (e.g. shared with SqliteSaver) */
+  database?: Database;
+  /** Table name for stored values. Defaults to "kv_store". */
+  tableName?: string;
+}
+
+/**
+ * Open a SQLite database configured for concurrent access.
+ *
+ * Enables WAL journaling (readers don't block the writer) and a busy timeout,
+ * so several processes can share one database file.
+ *
+ * @internal
+ */
+export function openSqliteDatabase(path = ":memory:"): Database {
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA busy_timeout = 5000");
+  if (path !== ":memory:" && path !== "") {
+    db.exec("PRAGMA journal_mode = WAL");
+  }
+  return db;
+}
+
+/**
+ * Check that a table name is a plain SQL identifier.
+ *
+ * @internal
+ */
+export function assertSqlIdentifier(name: string): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid SQLite table name: ${name}`);
+  }
+}
+
+/**
+ * SQLite-backed KeyValueStore.
+ *
+ * Stores each value as a JSON row keyed by namespace and key. The primary key
+ * on (namespace, key) serves both lookups and namespace listings.
+ *
+ * @example
+ * ```typescript
+ * import { PersistentBackend, SqliteStore } from 'ai-sdk-deep-agent';
+ *
+ * const store = new SqliteStore({ path: './agent-data.db' });
+ * const backend = new PersistentBackend({ store, namespace: 'project-a' });
+ * ```
+ */
+export class SqliteStore implements KeyValueStore {
+  private db: Database;
+  private table: string;
+  private ownsDatabase: boolean;
+
+  constructor(options: SqliteStoreOptions = {}) {
+    this.table = options.tableName ?? "kv_store";
+    assertSqlIdentifier(this.table);
+
+    this.ownsDatabase = !options.database;
+    this.db = options.database ?? openSqliteDatabase(options.path);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (namespace, key)
+      ) WITHOUT ROWID
+    `);
+  }
+
+  /**
+   * Encode a namespace as a single column value.
+   * JSON keeps namespaces with separators in their parts unambiguous.
+   */
+  private encodeNamespace(namespace: string[]): string {
+    return JSON.stringify(namespace);
+  }
+
+  async get(namespace: string[], key: string): Promise<Record<string, unknown> | undefined> {
+    const row = this.db
+      .query<{ value: string }, [string, string]>(
+        `SELECT value FROM ${this.table} WHERE namespace = ? AND key = ?`
+      )
+      .get(this.encodeNamespace(namespace), key);
+    return row ? (JSON.parse(row.value) as Record<string, unknown>) : undefined;
+  }
+
+  async put(namespace: string[], key: string, value: Record<string, unknown>): Promise<void> {
+    this.db
+      .query(
+        `INSERT INTO ${this.table} (namespace, key, value, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      )
+      .run(this.encodeNamespace(namespace), key, JSON.stringify(value), new Date().toISOString());
+  }
+
+  async delete(namespace: string[], key: string): Promise<void> {
+    this.db
+      .query(`DELETE FROM ${this.table} WHERE namespace = ? AND key = ?`)
+      .run(this.encodeNamespace(namespace), key);
+  }
+
+  async list(namespace: string[]): Promise<Array<{ key: string; value: Record<string, unknown> }>> {
+    const rows = this.db
+      .query<{ key: string; value: string }, [string]>(
+        `SELECT key, value FROM ${this.table} WHERE namespace = ? ORDER BY key`
+      )
+      .all(this.encodeNamespace(namespace));
+    return rows.map((row) => ({
+      key: row.key,
+      value: JSON.parse(row.value) as Record<string, unknown>,
+    }));
+  }
+
+  /**
+   * Close the database connection (only if this store opened it).
+   */
+  close(): void {
+    if (this.ownsDatabase) {
+      this.db.close();
+    }
+  }
+}
@@ -4,7 +4,9 @@
 
 import type {
   BackendProtocol,
+  DeleteResult,
   EditResult,
+  MoveResult,
   FileData,
   FileInfo,
   GrepMatch,
@@ -12,8 +14,13 @@ import type {
   DeepAgentState,
 } from "../types.ts";
 import {
+  createBinaryFileData,
   createFileData,
+  describeBinaryFile,
+  fileDataSize,
   fileDataToString,
+  getBinaryMimeType,
+  isBinaryFileData,
   formatReadResponse,
   globSearchFiles,
   grepMatchesFromFiles,
@@ -92,7 +99,7 @@ export class StateBackend implements BackendProtocol {
         continue;
       }
 
-      const size = fd.content.join("\n").length;
+      const size = fileDataSize(fd);
       infos.push({
         path: k,
         is_dir: false,
@@ -125,7 +132,7 @@ export class StateBackend implements BackendProtocol {
       return `Error: File '${filePath}' not found`;
     }
 
-    return formatReadResponse(fileData, offset, limit);
+    return formatReadResponse(fileData, offset, limit, filePath);
   }
 
   /**
@@ -156,6 +163,25 @@ export class StateBackend implements BackendProtocol {
     return { path: filePath };
   }
 
+  /**
+   * Create a new binary file.
+   */
+  writeBinary(filePath: string, data: Uint8Array, mimeType?: string): WriteResult {
+    const files = this.getFiles();
+
+    if (filePath in files) {
+      return {
+        error: `Cannot write to ${filePath} because it already exists. Read and then make an edit, or write to a new path.`,
+      };
+    }
+
+    this.state.files[filePath] = createBinaryFileData(
+      data,
+      mimeType ?? getBinaryMimeType(filePath)
+    );
+    return { path: filePath };
+  }
+
   /**
    * Edit a file by replacing string occurrences.
    */
@@ -171,6 +197,9 @@ export class StateBackend implements BackendProtocol {
     if (!fileData) {
       return { error: `Error: File '${filePath}' not found` };
     }
+    if (isBinaryFileData(fileData)) {
+      return { error: `Error: Cannot edit. ${describeBinaryFile(filePath, fileData.mimeType, fileDataSize(fileData))}` };
+    }
 
     const content = fileDataToString(fileData);
     const result = performStringReplacement(
@@ -190,6 +219,63 @@ export class StateBackend implements BackendProtocol {
     return { path: filePath, occurrences };
   }
 
+  /**
+   * Delete a file.
+   */
+  delete(filePath: string): DeleteResult {
+    const files = this.getFiles();
+
+    if (!(filePath in files)) {
+      return { error: `Error: File '${filePath}' not found` };
+    }
+
+    delete this.state.files[filePath];
+    return { path: filePath };
+  }
+
+  /**
+   * Move a file to a new path.
+   */
+  move(fromPath: string, toPath: string): MoveResult {
+    const error = this.checkTransfer(fromPath, toPath);
+    if (error) {
+      return { error };
+    }
+
+    this.state.files[toPath] = this.state.files[fromPath]!;
+    delete this.state.files[fromPath];
+    return { from: fromPath, to: toPath };
+  }
+
+  /**
+   * Copy a file to a new path.
+   */
+  copy(fromPath: string, toPath: string): MoveResult {
+    const error = this.checkTransfer(fromPath, toPath);
+    if (error) {
+      return { error };
+    }
+
+    const now = new Date().toISOString();
+    this.state.files[toPath] = { ...this.state.files[fromPath]!, created_at: now, modified_at: now };
+    return { from: fromPath, to: toPath };
+  }
+
+  /**
+   * Check that a file can be moved or copied.
+   */
+  private checkTransfer(fromPath: string, toPath: string): string | undefined {
+    const files = this.getFiles();
+
+    if (!(fromPath in files)) {
+      return `Error: File '${fromPath}' not found`;
+    }
+    if (toPath in files) {
+      return `Error: Cannot write to ${toPath} because it already exists`;
+    }
+    return undefined;
+  }
+
   /**
    * Structured search results or error string for invalid input.
    */
@@ -217,7 +303,7 @@ export class StateBackend implements BackendProtocol {
     const infos: FileInfo[] = [];
     for (const p of paths) {
       const fd = files[p];
-      const size = fd ? fd.content.join("\n").length : 0;
+      const size = fd ? fileDataSize(fd) : 0;
       infos.push({
         path: p,
         is_dir: false,
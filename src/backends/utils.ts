@@ -79,13 +79,151 @@ export function checkEmptyContent(content: string): string | null {
   return null;
 }
 
+/** MIME types of common binary file extensions */
+const BINARY_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  ico: "image/x-icon",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  tar: "application/x-tar",
+  wasm: "application/wasm",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+/** Images that vision-capable models accept as content parts */
+const MODEL_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+/**
+ * MIME type of a binary file, guessed from its extension.
+ * Returns undefined for extensions not known to be binary.
+ */
+export function getBinaryMimeType(filePath: string): string | undefined {
+  const extension = filePath.split(".").pop()?.toLowerCase() ?? "";
+  return BINARY_MIME_TYPES[extension];
+}
+
+/**
+ * Check if a MIME type is an image format models can view.
+ */
+export function isModelImageType(mimeType: string | undefined): boolean {
+  return mimeType !== undefined && MODEL_IMAGE_TYPES.has(mimeType);
+}
+
+/**
+ * Check if bytes look like binary data: a NUL byte near the start or
+ * invalid UTF-8.
+ */
+export function isBinaryContent(data: Uint8Array): boolean {
+  if (data.subarray(0, 8000).includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Check if FileData holds a binary file.
+ */
+export function isBinaryFileData(fileData: FileData): boolean {
+  return fileData.encoding === "base64";
+}
+
 /**
  * Convert FileData to plain string content.
+ * For binary files this is the base64 data: check `isBinaryFileData` first.
  */
 export function fileDataToString(fileData: FileData): string {
   return fileData.content.join("\n");
 }
 
+/**
+ * Convert FileData to bytes.
+ */
+export function fileDataToBytes(fileData: FileData): Uint8Array {
+  return isBinaryFileData(fileData)
+    ? Buffer.from(fileData.content[0] ?? "", "base64")
+    : Buffer.from(fileDataToString(fileData), "utf-8");
+}
+
+/**
+ * Size of a file in bytes.
+ */
+export function fileDataSize(fileData: FileData): number {
+  return isBinaryFileData(fileData)
+    ? Buffer.byteLength(fileData.content[0] ?? "", "base64")
+    : Buffer.byteLength(fileDataToString(fileData));
+}
+
+/**
+ * Describe a binary file that can't be shown as text.
+ */
+export function describeBinaryFile(
+  filePath: string,
+  mimeType: string | undefined,
+  size: number
+): string {
+  return `Binary file '${filePath}' (${mimeType ?? "application/octet-stream"}, ${size} bytes) can't be shown as text`;
+}
+
+/**
+ * Create a FileData object for a binary file.
+ */
+export function createBinaryFileData(
+  data: Uint8Array,
+  mimeType: string = "application/octet-stream",
+  createdAt?: string
+): FileData {
+  const now = new Date().toISOString();
+
+  return {
+    content: [Buffer.from(data).toString("base64")],
+    created_at: createdAt || now,
+    modified_at: now,
+    encoding: "base64",
+    mimeType,
+  };
+}
+
+/**
+ * Create FileData from bytes read from a file: text if they are valid UTF-8,
+ * binary otherwise or if the extension is a known binary format.
+ */
+export function fileDataFromBytes(
+  filePath: string,
+  data: Uint8Array,
+  createdAt: string,
+  modifiedAt: string
+): FileData {
+  const mimeType = getBinaryMimeType(filePath);
+  if (mimeType || isBinaryContent(data)) {
+    return { ...createBinaryFileData(data, mimeType, createdAt), modified_at: modifiedAt };
+  }
+  return {
+    content: Buffer.from(data).toString("utf-8").split("\n"),
+    created_at: createdAt,
+    modified_at: modifiedAt,
+  };
+}
+
 /**
  * Create a FileData object with timestamps.
  */
@@ -120,8 +258,13 @@ export function updateFileData(fileData: FileData, content: string): FileData {
 export function formatReadResponse(
   fileData: FileData,
   offset: number,
-  limit: number
+  limit: number,
+  filePath: string = "file"
 ): string {
+  if (isBinaryFileData(fileData)) {
+    return `Error: ${describeBinaryFile(filePath, fileData.mimeType, fileDataSize(fileData))}`;
+  }
+
   const content = fileDataToString(fileData);
   const emptyMsg = checkEmptyContent(content);
   if (emptyMsg) {
@@ -268,6 +411,9 @@ export function grepMatchesFromFiles(
 
   const matches: GrepMatch[] = [];
   for (const [filePath, fileData] of Object.entries(filtered)) {
+    if (isBinaryFileData(fileData)) {
+      continue;
+    }
     for (let i = 0; i < fileData.content.length; i++) {
       const line = fileData.content[i];
       const lineNum = i + 1;
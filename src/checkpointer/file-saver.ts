@@ -2,9 +2,22 @@
  * File-based checkpoint saver for local development.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, readdirSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, readdirSync, rmSync, statSync } from "node:fs";
 import { join } from "node:path";
-import type { Checkpoint, BaseCheckpointSaver } from "./types.ts";
+import type {
+  Checkpoint,
+  CheckpointSerializer,
+  CheckpointSummary,
+  ListThreadsOptions,
+  PruneResult,
+  RetentionPolicy,
+  SearchableCheckpointSaver,
+  ThreadInfo,
+  VersionedCheckpointSaver,
+} from "./types.ts";
+import { forkCheckpointThread, toCheckpointSummary } from "./history.ts";
+import { isPruneDue, pruneThreads, queryThreads, toThreadInfo, type ThreadUsage } from "./threads.ts";
+import { JsonCheckpointSerializer } from "./serializer.ts";
 
 /**
  * Options for FileSaver.
@@ -12,13 +25,20 @@ import type { Checkpoint, BaseCheckpointSaver } from "./types.ts";
 export interface FileSaverOptions {
   /** Directory to store checkpoint files */
   dir: string;
+  /** Retention policy applied after every save */
+  retention?: RetentionPolicy;
+  /** Serializer for checkpoint files (default: indented JSON) */
+  serializer?: CheckpointSerializer;
 }
 
 /**
  * File-based checkpoint saver.
  * 
  * Stores checkpoints as JSON files in a directory. Each thread gets
- * its own file named `{threadId}.json`.
+ * its own file named `{threadId}.json` with the latest checkpoint, and
+ * every step is kept in `{threadId}.history/{step}.json`. Characters other
+ * than letters, digits, `_` and `-` are percent-encoded in file names.
+ * Pass a `serializer` to compress or encrypt the files.
  * 
  * @example
  * ```typescript
@@ -29,11 +49,16 @@ export interface FileSaverOptions {
  * });
  * ```
  */
-export class FileSaver implements BaseCheckpointSaver {
+export class FileSaver implements VersionedCheckpointSaver, SearchableCheckpointSaver {
   private dir: string;
+  private retention?: RetentionPolicy;
+  private saveCount = 0;
+  private serializer: CheckpointSerializer;
 
   constructor(options: FileSaverOptions) {
     this.dir = options.dir;
+    this.retention = options.retention;
+    this.serializer = options.serializer ?? new JsonCheckpointSerializer({ space: 2 });
     
     // Ensure directory exists
     if (!existsSync(this.dir)) {
@@ -41,34 +66,115 @@ export class FileSaver implements BaseCheckpointSaver {
     }
   }
 
+  private getSafeId(threadId: string): string {
+    // Percent-encode everything but letters, digits, "_" and "-", so every
+    // thread ID gets its own file and `list` can decode the IDs again
+    return threadId.replace(/[^a-zA-Z0-9_-]/gu, (char) =>
+      Array.from(Buffer.from(char, 'utf-8'), (byte) => `%${byte.toString(16).toUpperCase().padStart(2, '0')}`).join('')
+    );
+  }
+
+  private getThreadId(safeId: string): string {
+    try {
+      return decodeURIComponent(safeId);
+    } catch {
+      // Not written by this saver
+      return safeId;
+    }
+  }
+
   private getFilePath(threadId: string): string {
-    // Sanitize threadId to be safe for filenames
-    const safeId = threadId.replace(/[^a-zA-Z0-9_-]/g, '_');
-    return join(this.dir, `${safeId}.json`);
+    return join(this.dir, `${this.getSafeId(threadId)}.json`);
+  }
+
+  private getHistoryDir(threadId: string): string {
+    return join(this.dir, `${this.getSafeId(threadId)}.history`);
   }
 
   async save(checkpoint: Checkpoint): Promise<void> {
+    await this.write(checkpoint);
+
+    if (this.retention && isPruneDue(this.retention, ++this.saveCount)) {
+      await this.pruneWith(this.retention, [checkpoint.threadId]);
+    }
+  }
+
+  /**
+   * Write a checkpoint as the latest file and as a version, without pruning.
+   */
+  private async write(checkpoint: Checkpoint): Promise<void> {
     const filePath = this.getFilePath(checkpoint.threadId);
     const data = {
       ...checkpoint,
       updatedAt: new Date().toISOString(),
     };
-    writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    const content = await this.serializer.serialize(data);
+    writeFileSync(filePath, content, 'utf-8');
+
+    const historyDir = this.getHistoryDir(checkpoint.threadId);
+    if (!existsSync(historyDir)) {
+      mkdirSync(historyDir, { recursive: true });
+    }
+    writeFileSync(join(historyDir, `${checkpoint.step}.json`), content, 'utf-8');
+    // Saving an earlier step rewinds the thread: later versions are dropped,
+    // so the latest file is always the newest version
+    for (const step of this.getVersionSteps(checkpoint.threadId)) {
+      if (step > checkpoint.step) {
+        unlinkSync(join(historyDir, `${step}.json`));
+      }
+    }
   }
 
-  async load(threadId: string): Promise<Checkpoint | undefined> {
-    const filePath = this.getFilePath(threadId);
-    
+  /**
+   * Steps with a version in a thread's history.
+   */
+  private getVersionSteps(threadId: string): number[] {
+    const historyDir = this.getHistoryDir(threadId);
+    if (!existsSync(historyDir)) {
+      return [];
+    }
+    return readdirSync(historyDir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => Number(file.slice(0, -'.json'.length)))
+      .filter((step) => Number.isInteger(step));
+  }
+
+  /**
+   * Read the latest checkpoint file of a thread, or the file of a step.
+   * Missing and unparseable files load as undefined; serializer errors
+   * (such as a wrong encryption key) are thrown, as is a latest file older
+   * than the thread's newest version.
+   */
+  private async readCheckpoint(threadId: string, step?: number): Promise<Checkpoint | undefined> {
+    const filePath =
+      step === undefined ? this.getFilePath(threadId) : join(this.getHistoryDir(threadId), `${step}.json`);
     if (!existsSync(filePath)) {
       return undefined;
     }
-    
+
+    let checkpoint: Checkpoint;
     try {
       const content = readFileSync(filePath, 'utf-8');
-      return JSON.parse(content) as Checkpoint;
-    } catch {
-      return undefined;
+      checkpoint = await this.serializer.deserialize(content, { threadId, step });
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    // An older version copied over the latest file would still decrypt.
+    // Newer is fine: save writes the latest file before the history
+    if (step === undefined && checkpoint.step < Math.max(...this.getVersionSteps(threadId))) {
+      throw new Error(
+        `Latest checkpoint of thread '${threadId}' is older than its history; it may have been replaced`
+      );
     }
+    return checkpoint;
+  }
+
+  async load(threadId: string): Promise<Checkpoint | undefined> {
+    return this.readCheckpoint(threadId);
   }
 
   async list(): Promise<string[]> {
@@ -79,7 +185,7 @@ export class FileSaver implements BaseCheckpointSaver {
     const files = readdirSync(this.dir);
     return files
       .filter(f => f.endsWith('.json'))
-      .map(f => f.replace('.json', ''));
+      .map(f => this.getThreadId(f.slice(0, -'.json'.length)));
   }
 
   async delete(threadId: string): Promise<void> {
@@ -88,11 +194,74 @@ export class FileSaver implements BaseCheckpointSaver {
     if (existsSync(filePath)) {
       unlinkSync(filePath);
     }
+    rmSync(this.getHistoryDir(threadId), { recursive: true, force: true });
   }
 
   async exists(threadId: string): Promise<boolean> {
     const filePath = this.getFilePath(threadId);
     return existsSync(filePath);
   }
-}
 
+  async listVersions(threadId: string): Promise<CheckpointSummary[]> {
+    const summaries: CheckpointSummary[] = [];
+    for (const step of this.getVersionSteps(threadId)) {
+      const checkpoint = await this.loadVersion(threadId, step);
+      if (checkpoint) {
+        summaries.push(toCheckpointSummary(checkpoint));
+      }
+    }
+    return summaries.sort((a, b) => a.step - b.step);
+  }
+
+  async loadVersion(threadId: string, step: number): Promise<Checkpoint | undefined> {
+    return this.readCheckpoint(threadId, step);
+  }
+
+  async fork(threadId: string, step: number, newThreadId: string): Promise<Checkpoint> {
+    return forkCheckpointThread(this, threadId, step, newThreadId, (checkpoint) => this.write(checkpoint));
+  }
+
+  /**
+   * Disk usage of a thread's latest checkpoint and history, in bytes.
+   */
+  private getThreadSize(threadId: string): number {
+    let size = existsSync(this.getFilePath(threadId)) ? statSync(this.getFilePath(threadId)).size : 0;
+    const historyDir = this.getHistoryDir(threadId);
+    if (existsSync(historyDir)) {
+      for (const file of readdirSync(historyDir)) {
+        size += statSync(join(historyDir, file)).size;
+      }
+    }
+    return size;
+  }
+
+  async listThreads(options?: ListThreadsOptions): Promise<ThreadInfo[]> {
+    const threads: ThreadInfo[] = [];
+    for (const id of await this.list()) {
+      const checkpoint = await this.load(id);
+      if (checkpoint) {
+        threads.push(toThreadInfo(checkpoint, this.getThreadSize(id)));
+      }
+    }
+    return queryThreads(threads, options);
+  }
+
+  async prune(policy?: RetentionPolicy): Promise<PruneResult> {
+    return this.pruneWith(policy ?? this.retention ?? {});
+  }
+
+  /**
+   * Prune using file modification times, so checkpoints don't have to be parsed.
+   */
+  private async pruneWith(policy: RetentionPolicy, keep?: string[]): Promise<PruneResult> {
+    const threads: ThreadUsage[] = [];
+    for (const id of await this.list()) {
+      threads.push({
+        threadId: id,
+        updatedAt: statSync(this.getFilePath(id)).mtime.toISOString(),
+        sizeBytes: this.getThreadSize(id),
+      });
+    }
+    return pruneThreads(this, threads, policy, keep);
+  }
+}
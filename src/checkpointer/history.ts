@@ -0,0 +1,77 @@
+/**
+ * Shared helpers for versioned checkpoint savers.
+ */
+
+import type {
+  Checkpoint,
+  CheckpointSummary,
+  BaseCheckpointSaver,
+  VersionedCheckpointSaver,
+} from "./types.ts";
+
+/**
+ * Type guard to check if a checkpoint saver keeps checkpoint history.
+ */
+export function isVersionedCheckpointSaver(
+  saver: BaseCheckpointSaver
+): saver is VersionedCheckpointSaver {
+  return (
+    typeof (saver as VersionedCheckpointSaver).listVersions === "function" &&
+    typeof (saver as VersionedCheckpointSaver).loadVersion === "function" &&
+    typeof (saver as VersionedCheckpointSaver).fork === "function"
+  );
+}
+
+/**
+ * Summarize a checkpoint for version listings.
+ */
+export function toCheckpointSummary(checkpoint: Checkpoint): CheckpointSummary {
+  return {
+    threadId: checkpoint.threadId,
+    step: checkpoint.step,
+    messagesCount: checkpoint.messages.length,
+    hasInterrupt: checkpoint.interrupt !== undefined,
+    createdAt: checkpoint.createdAt,
+    updatedAt: checkpoint.updatedAt,
+  };
+}
+
+/**
+ * Fork a thread by copying its versions up to `step` into a new thread.
+ * 
+ * Versions are saved in step order, so the checkpoint at `step` ends up as
+ * the latest checkpoint of the new thread. Savers with a retention policy
+ * pass a `save` that doesn't prune, so neither thread is pruned mid-fork.
+ */
+export async function forkCheckpointThread(
+  saver: VersionedCheckpointSaver,
+  threadId: string,
+  step: number,
+  newThreadId: string,
+  save: (checkpoint: Checkpoint) => Promise<void> = (checkpoint) => saver.save(checkpoint)
+): Promise<Checkpoint> {
+  if (await saver.exists(newThreadId)) {
+    throw new Error(`Thread '${newThreadId}' already exists`);
+  }
+
+  const versions = (await saver.listVersions(threadId)).filter((version) => version.step <= step);
+  if (!versions.some((version) => version.step === step)) {
+    throw new Error(`No checkpoint at step ${step} for thread '${threadId}'`);
+  }
+
+  let forked: Checkpoint | undefined;
+  for (const version of versions) {
+    const checkpoint = await saver.loadVersion(threadId, version.step);
+    if (!checkpoint) {
+      continue;
+    }
+    forked = {
+      ...checkpoint,
+      threadId: newThreadId,
+      parent: { threadId, step },
+    };
+    await save(forked);
+  }
+
+  return forked!;
+}
@@ -1,5 +1,8 @@
 export * from "./types.ts";
+export * from "./history.ts";
+export * from "./threads.ts";
+export * from "./serializer.ts";
 export * from "./memory-saver.ts";
 export * from "./file-saver.ts";
 export * from "./kv-saver.ts";
-
+export * from "./sqlite-saver.ts";
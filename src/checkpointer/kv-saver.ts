@@ -6,7 +6,22 @@
  */
 
 import type { KeyValueStore } from "../backends/persistent.ts";
-import type { Checkpoint, BaseCheckpointSaver, CheckpointSaverOptions } from "./types.ts";
+import type {
+  Checkpoint,
+  CheckpointLocation,
+  CheckpointSummary,
+  CheckpointSaverOptions,
+  CheckpointSerializer,
+  ListThreadsOptions,
+  PruneResult,
+  RetentionPolicy,
+  SearchableCheckpointSaver,
+  ThreadInfo,
+  VersionedCheckpointSaver,
+} from "./types.ts";
+import { forkCheckpointThread, toCheckpointSummary } from "./history.ts";
+import { isPruneDue, jsonByteLength, pruneThreads, queryThreads, toThreadInfo } from "./threads.ts";
+import { JsonCheckpointSerializer } from "./serializer.ts";
 
 /**
  * Options for KeyValueStoreSaver.
@@ -20,7 +35,10 @@ export interface KeyValueStoreSaverOptions extends CheckpointSaverOptions {
  * Checkpoint saver using KeyValueStore interface.
  * 
  * This adapter allows using any KeyValueStore implementation (Redis,
- * database, cloud storage, etc.) for checkpoint storage.
+ * database, cloud storage, etc.) for checkpoint storage. Every step of a
+ * thread is kept under `[namespace, "checkpoint-history", threadId]`.
+ * Values are stored as `{ data }` with the serialized checkpoint; plain
+ * checkpoint records written by earlier versions still load.
  * 
  * @example
  * ```typescript
@@ -40,21 +58,53 @@ export interface KeyValueStoreSaverOptions extends CheckpointSaverOptions {
  * const saver = new KeyValueStoreSaver({ store: redisStore });
  * ```
  */
-export class KeyValueStoreSaver implements BaseCheckpointSaver {
+export class KeyValueStoreSaver implements VersionedCheckpointSaver, SearchableCheckpointSaver {
   private store: KeyValueStore;
   private namespace: string[];
+  private historyNamespace: string[];
+  private retention?: RetentionPolicy;
+  private saveCount = 0;
+  private serializer: CheckpointSerializer;
 
   constructor(options: KeyValueStoreSaverOptions) {
     this.store = options.store;
+    this.retention = options.retention;
+    this.serializer = options.serializer ?? new JsonCheckpointSerializer();
     this.namespace = [options.namespace || "default", "checkpoints"];
+    this.historyNamespace = [options.namespace || "default", "checkpoint-history"];
+  }
+
+  private getHistoryNamespace(threadId: string): string[] {
+    return [...this.historyNamespace, threadId];
+  }
+
+  private decode(value: Record<string, unknown>, location: CheckpointLocation): Promise<Checkpoint> {
+    return this.serializer.deserialize(
+      typeof value.data === "string" ? value.data : JSON.stringify(value),
+      location
+    );
   }
 
   async save(checkpoint: Checkpoint): Promise<void> {
+    await this.write(checkpoint);
+
+    if (this.retention && isPruneDue(this.retention, ++this.saveCount)) {
+      await this.pruneWith(this.retention, [checkpoint.threadId]);
+    }
+  }
+
+  /**
+   * Store a checkpoint as the latest and as a version, without pruning.
+   */
+  private async write(checkpoint: Checkpoint): Promise<void> {
     const data = {
-      ...checkpoint,
-      updatedAt: new Date().toISOString(),
+      data: await this.serializer.serialize({
+        ...checkpoint,
+        updatedAt: new Date().toISOString(),
+      }),
     };
-    await this.store.put(this.namespace, checkpoint.threadId, data as unknown as Record<string, unknown>);
+    await this.store.put(this.namespace, checkpoint.threadId, data);
+    await this.store.put(this.getHistoryNamespace(checkpoint.threadId), String(checkpoint.step), data);
   }
 
   async load(threadId: string): Promise<Checkpoint | undefined> {
@@ -62,7 +112,7 @@ export class KeyValueStoreSaver implements BaseCheckpointSaver {
     if (!data) {
       return undefined;
     }
-    return data as unknown as Checkpoint;
+    return this.decode(data, { threadId });
   }
 
   async list(): Promise<string[]> {
@@ -72,11 +122,52 @@ export class KeyValueStoreSaver implements BaseCheckpointSaver {
 
   async delete(threadId: string): Promise<void> {
     await this.store.delete(this.namespace, threadId);
+
+    const historyNamespace = this.getHistoryNamespace(threadId);
+    for (const item of await this.store.list(historyNamespace)) {
+      await this.store.delete(historyNamespace, item.key);
+    }
   }
 
   async exists(threadId: string): Promise<boolean> {
     const data = await this.store.get(this.namespace, threadId);
     return data !== undefined;
   }
+
+  async listVersions(threadId: string): Promise<CheckpointSummary[]> {
+    const items = await this.store.list(this.getHistoryNamespace(threadId));
+    const checkpoints = await Promise.all(items.map((item) => this.decode(item.value, { threadId, step: Number(item.key) })));
+    return checkpoints.map(toCheckpointSummary).sort((a, b) => a.step - b.step);
+  }
+
+  async loadVersion(threadId: string, step: number): Promise<Checkpoint | undefined> {
+    const data = await this.store.get(this.getHistoryNamespace(threadId), String(step));
+    if (!data) {
+      return undefined;
+    }
+    return this.decode(data, { threadId, step });
+  }
+
+  async fork(threadId: string, step: number, newThreadId: string): Promise<Checkpoint> {
+    return forkCheckpointThread(this, threadId, step, newThreadId, (checkpoint) => this.write(checkpoint));
+  }
+
+  async listThreads(options?: ListThreadsOptions): Promise<ThreadInfo[]> {
+    const threads: ThreadInfo[] = [];
+    for (const item of await this.store.list(this.namespace)) {
+      const history = await this.store.list(this.getHistoryNamespace(item.key));
+      const sizeBytes = history.reduce((sum, version) => sum + jsonByteLength(version.value), 0);
+      threads.push(toThreadInfo(await this.decode(item.value, { threadId: item.key }), sizeBytes));
+    }
+    return queryThreads(threads, options);
+  }
+
+  async prune(policy?: RetentionPolicy): Promise<PruneResult> {
+    return this.pruneWith(policy ?? this.retention ?? {});
+  }
+
+  private async pruneWith(policy: RetentionPolicy, keep?: string[]): Promise<PruneResult> {
+    return pruneThreads(this, await this.listThreads(), policy, keep);
+  }
 }
 
@@ -2,13 +2,28 @@
  * In-memory checkpoint saver for testing and single-session use.
  */
 
-import type { Checkpoint, BaseCheckpointSaver, CheckpointSaverOptions } from "./types.ts";
+import type {
+  Checkpoint,
+  CheckpointSummary,
+  CheckpointSaverOptions,
+  CheckpointSerializer,
+  ListThreadsOptions,
+  PruneResult,
+  RetentionPolicy,
+  SearchableCheckpointSaver,
+  ThreadInfo,
+  VersionedCheckpointSaver,
+} from "./types.ts";
+import { forkCheckpointThread, toCheckpointSummary } from "./history.ts";
+import { isPruneDue, pruneThreads, queryThreads, toThreadInfo } from "./threads.ts";
+import { JsonCheckpointSerializer } from "./serializer.ts";
 
 /**
  * In-memory checkpoint saver.
  * 
  * Stores checkpoints in a Map. Data is lost when the process exits.
- * Useful for testing or single-session applications.
+ * Useful for testing or single-session applications. Keeps every step of a
+ * thread for time-travel (`listVersions`, `loadVersion`, `fork`).
  * 
  * @example
  * ```typescript
@@ -19,12 +34,18 @@ import type { Checkpoint, BaseCheckpointSaver, CheckpointSaverOptions } from "./
  * });
  * ```
  */
-export class MemorySaver implements BaseCheckpointSaver {
-  private checkpoints = new Map<string, Checkpoint>();
+export class MemorySaver implements VersionedCheckpointSaver, SearchableCheckpointSaver {
+  private checkpoints = new Map<string, string>();
+  private versions = new Map<string, Map<number, string>>();
   private namespace: string;
+  private retention?: RetentionPolicy;
+  private saveCount = 0;
+  private serializer: CheckpointSerializer;
 
   constructor(options: CheckpointSaverOptions = {}) {
     this.namespace = options.namespace || "default";
+    this.retention = options.retention;
+    this.serializer = options.serializer ?? new JsonCheckpointSerializer();
   }
 
   private getKey(threadId: string): string {
@@ -32,16 +53,37 @@ export class MemorySaver implements BaseCheckpointSaver {
   }
 
   async save(checkpoint: Checkpoint): Promise<void> {
+    await this.write(checkpoint);
+
+    if (this.retention && isPruneDue(this.retention, ++this.saveCount)) {
+      await this.pruneWith(this.retention, [checkpoint.threadId]);
+    }
+  }
+
+  /**
+   * Store a checkpoint as the latest and as a version, without pruning.
+   */
+  private async write(checkpoint: Checkpoint): Promise<void> {
     const key = this.getKey(checkpoint.threadId);
-    this.checkpoints.set(key, {
+    // Store serialized, so later changes to the agent state don't alter saved versions
+    const data = await this.serializer.serialize({
       ...checkpoint,
       updatedAt: new Date().toISOString(),
     });
+    this.checkpoints.set(key, data);
+
+    let threadVersions = this.versions.get(key);
+    if (!threadVersions) {
+      threadVersions = new Map();
+      this.versions.set(key, threadVersions);
+    }
+    threadVersions.set(checkpoint.step, data);
   }
 
   async load(threadId: string): Promise<Checkpoint | undefined> {
     const key = this.getKey(threadId);
-    return this.checkpoints.get(key);
+    const data = this.checkpoints.get(key);
+    return data !== undefined ? this.serializer.deserialize(data, { threadId }) : undefined;
   }
 
   async list(): Promise<string[]> {
@@ -58,6 +100,7 @@ export class MemorySaver implements BaseCheckpointSaver {
   async delete(threadId: string): Promise<void> {
     const key = this.getKey(threadId);
     this.checkpoints.delete(key);
+    this.versions.delete(key);
   }
 
   async exists(threadId: string): Promise<boolean> {
@@ -65,11 +108,52 @@ export class MemorySaver implements BaseCheckpointSaver {
     return this.checkpoints.has(key);
   }
 
+  async listVersions(threadId: string): Promise<CheckpointSummary[]> {
+    const threadVersions = this.versions.get(this.getKey(threadId));
+    if (!threadVersions) {
+      return [];
+    }
+    const checkpoints = await Promise.all(
+      [...threadVersions].map(([step, data]) => this.serializer.deserialize(data, { threadId, step }))
+    );
+    return checkpoints.sort((a, b) => a.step - b.step).map(toCheckpointSummary);
+  }
+
+  async loadVersion(threadId: string, step: number): Promise<Checkpoint | undefined> {
+    const data = this.versions.get(this.getKey(threadId))?.get(step);
+    return data !== undefined ? this.serializer.deserialize(data, { threadId, step }) : undefined;
+  }
+
+  async fork(threadId: string, step: number, newThreadId: string): Promise<Checkpoint> {
+    return forkCheckpointThread(this, threadId, step, newThreadId, (checkpoint) => this.write(checkpoint));
+  }
+
+  async listThreads(options?: ListThreadsOptions): Promise<ThreadInfo[]> {
+    const threads: ThreadInfo[] = [];
+    for (const threadId of await this.list()) {
+      const key = this.getKey(threadId);
+      const checkpoint = await this.serializer.deserialize(this.checkpoints.get(key)!, { threadId });
+      const versions = [...(this.versions.get(key)?.values() ?? [])];
+      const sizeBytes = versions.reduce((sum, data) => sum + Buffer.byteLength(data, "utf-8"), 0);
+      threads.push(toThreadInfo(checkpoint, sizeBytes));
+    }
+    return queryThreads(threads, options);
+  }
+
+  async prune(policy?: RetentionPolicy): Promise<PruneResult> {
+    return this.pruneWith(policy ?? this.retention ?? {});
+  }
+
+  private async pruneWith(policy: RetentionPolicy, keep?: string[]): Promise<PruneResult> {
+    return pruneThreads(this, await this.listThreads(), policy, keep);
+  }
+
   /**
    * Clear all checkpoints (useful for testing).
    */
   clear(): void {
     this.checkpoints.clear();
+    this.versions.clear();
   }
 
   /**
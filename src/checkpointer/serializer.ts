@@ -0,0 +1,273 @@
+/**
+ * Checkpoint serialization with optional compression and encryption.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync } from "node:zlib";
+import type { Checkpoint, CheckpointLocation, CheckpointSerializer } from "./types.ts";
+
+/**
+ * Current checkpoint schema version, written with every serialized checkpoint.
+ */
+export const CHECKPOINT_SCHEMA_VERSION = 1;
+
+/**
+ * Upgrades checkpoint data from one schema version to the next.
+ *
+ * Keyed by the version the migration starts from; `1` upgrades version 1
+ * data to version 2, and so on.
+ */
+export type CheckpointMigrations = Record<number, (data: Record<string, unknown>) => Record<string, unknown>>;
+
+/**
+ * Built-in schema migrations.
+ *
+ * Version 0 is data written before checkpoints were versioned.
+ */
+export const checkpointMigrations: CheckpointMigrations = {
+  // Interrupts used to hold a single `toolCall` without the `toolCalls` batch
+  0: (data) => {
+    const interrupt = data.interrupt as Record<string, unknown> | undefined;
+    if (interrupt && !interrupt.toolCalls && interrupt.toolCall) {
+      const toolCall = interrupt.toolCall as Record<string, unknown>;
+      return {
+        ...data,
+        interrupt: {
+          ...interrupt,
+          toolCalls: [{ ...toolCall, approvalId: interrupt.approvalId }],
+        },
+      };
+    }
+    return data;
+  },
+};
+
+/**
+ * Options for JsonCheckpointSerializer.
+ */
+export interface JsonCheckpointSerializerOptions {
+  /** Compress serialized checkpoints */
+  compression?: "gzip" | "brotli";
+
+  /**
+   * AES-256-GCM key (32 bytes, or a base64 string of 32 bytes).
+   * When set, checkpoints are encrypted and bound to their thread ID and step;
+   * loading them requires the same key and location.
+   */
+  encryptionKey?: Uint8Array | string;
+
+  /**
+   * With `encryptionKey`, also load checkpoints that are not encrypted, or were
+   * encrypted without being bound to their thread and step.
+   *
+   * Only for migrating an existing store to encryption: anyone who can write
+   * to the store can plant such checkpoints.
+   */
+  allowPlaintext?: boolean;
+
+  /** Indentation of plain JSON output (ignored when compressing or encrypting) */
+  space?: number;
+
+  /** Additional migrations, applied after the built-in ones for each version */
+  migrations?: CheckpointMigrations;
+}
+
+/**
+ * Envelope for compressed and/or encrypted checkpoints.
+ */
+interface CheckpointEnvelope {
+  format: "deepagents-checkpoint";
+  schemaVersion: number;
+  compression?: "gzip" | "brotli";
+  encryption?: {
+    algorithm: "aes-256-gcm";
+    iv: string;
+    tag: string;
+    /** Step the checkpoint is bound to (missing in unbound checkpoints) */
+    step?: number;
+  };
+  /** Base64-encoded payload */
+  data: string;
+}
+
+function isEnvelope(value: Record<string, unknown>): value is Record<string, unknown> & CheckpointEnvelope {
+  return value.format === "deepagents-checkpoint" && typeof value.data === "string";
+}
+
+/**
+ * Additional authenticated data binding an encrypted checkpoint to its location.
+ */
+function toAad(threadId: string, step: number): Buffer {
+  return Buffer.from(JSON.stringify([threadId, step]), "utf-8");
+}
+
+function toKey(key: Uint8Array | string): Buffer {
+  const buffer = typeof key === "string" ? Buffer.from(key, "base64") : Buffer.from(key);
+  if (buffer.length !== 32) {
+    throw new Error(`Checkpoint encryption key must be 32 bytes, got ${buffer.length}`);
+  }
+  return buffer;
+}
+
+/**
+ * JSON checkpoint serializer.
+ *
+ * Without options it writes plain JSON with a `schemaVersion` field. With
+ * `compression` or `encryptionKey` it writes a JSON envelope holding the
+ * compressed (then encrypted) payload as base64.
+ *
+ * Loading detects the format of each checkpoint, so plain, compressed and
+ * encrypted checkpoints (and checkpoints written before versioning) can be
+ * mixed in one store. Older schema versions are migrated on load. With
+ * `encryptionKey`, checkpoints that aren't encrypted are rejected unless
+ * `allowPlaintext` is set.
+ *
+ * @example
+ * ```typescript
+ * const saver = new FileSaver({
+ *   dir: './.checkpoints',
+ *   serializer: new JsonCheckpointSerializer({
+ *     compression: 'gzip',
+ *     encryptionKey: process.env.CHECKPOINT_KEY, // base64, 32 bytes
+ *   }),
+ * });
+ * ```
+ */
+export class JsonCheckpointSerializer implements CheckpointSerializer {
+  private compression?: "gzip" | "brotli";
+  private key?: Buffer;
+  private allowPlaintext: boolean;
+  private space?: number;
+  private migrations: CheckpointMigrations;
+
+  constructor(options: JsonCheckpointSerializerOptions = {}) {
+    this.compression = options.compression;
+    this.key = options.encryptionKey !== undefined ? toKey(options.encryptionKey) : undefined;
+    this.allowPlaintext = options.allowPlaintext ?? false;
+    this.space = options.space;
+    this.migrations = options.migrations ?? {};
+  }
+
+  async serialize(checkpoint: Checkpoint, location?: CheckpointLocation): Promise<string> {
+    const json = JSON.stringify(
+      { schemaVersion: CHECKPOINT_SCHEMA_VERSION, ...checkpoint },
+      null,
+      this.compression || this.key ? undefined : this.space
+    );
+    if (!this.compression && !this.key) {
+      return json;
+    }
+
+    let payload: Buffer = Buffer.from(json, "utf-8");
+    if (this.compression === "gzip") {
+      payload = gzipSync(payload);
+    } else if (this.compression === "brotli") {
+      payload = brotliCompressSync(payload);
+    }
+
+    const envelope: CheckpointEnvelope = {
+      format: "deepagents-checkpoint",
+      schemaVersion: CHECKPOINT_SCHEMA_VERSION,
+      compression: this.compression,
+      data: "",
+    };
+
+    if (this.key) {
+      const step = location?.step ?? checkpoint.step;
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+      cipher.setAAD(toAad(location?.threadId ?? checkpoint.threadId, step));
+      payload = Buffer.concat([cipher.update(payload), cipher.final()]);
+      envelope.encryption = {
+        algorithm: "aes-256-gcm",
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        step,
+      };
+    }
+
+    envelope.data = payload.toString("base64");
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Parse a serialized checkpoint.
+   *
+   * Encrypted checkpoints only load from the location they were saved to.
+   * Without `location.step` the step recorded in the envelope is used.
+   *
+   * @throws SyntaxError if the data is not valid JSON
+   * @throws Error if the checkpoint is encrypted and the key is missing or wrong,
+   *   it was saved to another location, it isn't encrypted although a key is
+   *   set, or its schema version is newer than supported
+   */
+  async deserialize(data: string, location?: CheckpointLocation): Promise<Checkpoint> {
+    let value = JSON.parse(data) as Record<string, unknown>;
+    const encryption = isEnvelope(value) ? value.encryption : undefined;
+
+    if (this.key && !this.allowPlaintext && encryption?.step === undefined) {
+      throw new Error(
+        encryption
+          ? "Checkpoint is not bound to its thread and step; set allowPlaintext to load it"
+          : "Checkpoint is not encrypted; set allowPlaintext to load it"
+      );
+    }
+
+    if (isEnvelope(value)) {
+      let payload: Buffer = Buffer.from(value.data, "base64");
+
+      if (encryption) {
+        if (!this.key) {
+          throw new Error("Checkpoint is encrypted but no encryption key was provided");
+        }
+        if (encryption.step !== undefined && !location) {
+          throw new Error("Encrypted checkpoints can only be loaded with their thread ID");
+        }
+        try {
+          const decipher = createDecipheriv("aes-256-gcm", this.key, Buffer.from(encryption.iv, "base64"));
+          if (location && encryption.step !== undefined) {
+            decipher.setAAD(toAad(location.threadId, location.step ?? encryption.step));
+          }
+          decipher.setAuthTag(Buffer.from(encryption.tag, "base64"));
+          payload = Buffer.concat([decipher.update(payload), decipher.final()]);
+        } catch {
+          throw new Error(
+            "Failed to decrypt checkpoint: wrong key, corrupted data or saved to another thread or step"
+          );
+        }
+      }
+
+      if (value.compression === "gzip") {
+        payload = gunzipSync(payload);
+      } else if (value.compression === "brotli") {
+        payload = brotliDecompressSync(payload);
+      }
+
+      value = JSON.parse(payload.toString("utf-8")) as Record<string, unknown>;
+    }
+
+    return this.migrate(value);
+  }
+
+  /**
+   * Upgrade checkpoint data to the current schema version.
+   */
+  private migrate(value: Record<string, unknown>): Checkpoint {
+    const { schemaVersion, ...rest } = value;
+    let version = typeof schemaVersion === "number" ? schemaVersion : 0;
+    if (version > CHECKPOINT_SCHEMA_VERSION) {
+      throw new Error(
+        `Checkpoint schema version ${version} is newer than supported (${CHECKPOINT_SCHEMA_VERSION})`
+      );
+    }
+
+    let data = rest;
+    for (; version < CHECKPOINT_SCHEMA_VERSION; version++) {
+      const builtIn = checkpointMigrations[version];
+      const custom = this.migrations[version];
+      if (builtIn) data = builtIn(data);
+      if (custom) data = custom(data);
+    }
+    return data as unknown as Checkpoint;
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * SQLite checkpoint saver using Bun's built-in sqlite.
+ */
+
+import type { Database } from "bun:sqlite";
+import { assertSqlIdentifier, openSqliteDatabase } from "../backends/sqlite-store.ts";
+import type {
+  Checkpoint,
+  CheckpointSummary,
+  CheckpointSaverOptions,
+  CheckpointSerializer,
+  ListThreadsOptions,
+  PruneResult,
+  RetentionPolicy,
+  SearchableCheckpointSaver,
+  ThreadInfo,
+  VersionedCheckpointSaver,
+} from "./types.ts";
+import { isPruneDue, pruneThreads, queryThreads, toThreadInfo, type ThreadUsage } from "./threads.ts";
+import { JsonCheckpointSerializer } from "./serializer.ts";
+
+/**
+ * Options for SqliteSaver.
+ */
+export interface SqliteSaverOptions extends CheckpointSaverOptions {
+  /**
+   * Path of the database file. Defaults to ":memory:".
+   * Ignored when `database` is provided.
+   */
+  path?: string;
+  /** Existing database connection to use (e.g. shared with SqliteStore) */
+  database?: Database;
+  /** Prefix for the saver's tables. Defaults to "checkpoint". */
+  tablePrefix?: string;
+}
+
+interface CheckpointRow {
+  data: string;
+  step: number;
+}
+
+interface SummaryRow {
+  thread_id: string;
+  step: number;
+  messages_count: number;
+  has_interrupt: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ThreadRow {
+  data: string;
+  thread_id: string;
+  step: number;
+  size_bytes: number;
+}
+
+/**
+ * SQLite checkpoint saver.
+ *
+ * Keeps every step of a thread in a `{prefix}_versions` table and the latest
+ * step per thread in `{prefix}_threads`, both indexed by namespace and thread.
+ * The threads table also keeps each thread's total size in bytes, so
+ * retention doesn't have to scan the checkpoints.
+ * Writes run in immediate transactions and the database uses WAL mode with a
+ * busy timeout, so several agents or processes can share one file.
+ *
+ * @example
+ * ```typescript
+ * const saver = new SqliteSaver({ path: './checkpoints.db' });
+ * const agent = createDeepAgent({
+ *   model: anthropic('claude-sonnet-4-20250514'),
+ *   checkpointer: saver,
+ * });
+ * ```
+ */
+export class SqliteSaver implements VersionedCheckpointSaver, SearchableCheckpointSaver {
+  private db: Database;
+  private namespace: string;
+  private retention?: RetentionPolicy;
+  private saveCount = 0;
+  private serializer: CheckpointSerializer;
+  private versionsTable: string;
+  private threadsTable: string;
+  private ownsDatabase: boolean;
+
+  constructor(options: SqliteSaverOptions = {}) {
+    this.namespace = options.namespace || "default";
+    this.retention = options.retention;
+    this.serializer = options.serializer ?? new JsonCheckpointSerializer();
+
+    const prefix = options.tablePrefix ?? "checkpoint";
+    assertSqlIdentifier(prefix);
+    this.versionsTable = `${prefix}_versions`;
+    this.threadsTable = `${prefix}_threads`;
+
+    this.ownsDatabase = !options.database;
+    this.db = options.database ?? openSqliteDatabase(options.path);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.versionsTable} (
+        namespace TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        step INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        messages_count INTEGER NOT NULL,
+        has_interrupt INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (namespace, thread_id, step)
+      ) WITHOUT ROWID;
+      CREATE TABLE IF NOT EXISTS ${this.threadsTable} (
+        namespace TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        latest_step INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        PRIMARY KEY (namespace, thread_id)
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS ${this.threadsTable}_updated_at
+        ON ${this.threadsTable} (namespace, updated_at);
+    `);
+    this.addSizeColumns();
+  }
+
+  /**
+   * Add the size_bytes columns to tables created by older versions.
+   */
+  private addSizeColumns(): void {
+    const hasSizeColumn = (table: string) =>
+      this.db
+        .query<{ name: string }, []>(`PRAGMA table_info(${table})`)
+        .all()
+        .some((column) => column.name === "size_bytes");
+    if (hasSizeColumn(this.versionsTable) && hasSizeColumn(this.threadsTable)) {
+      return;
+    }
+
+    this.db
+      .transaction(() => {
+        // Checked again inside the transaction, another process may have migrated
+        if (!hasSizeColumn(this.versionsTable)) {
+          this.db.exec(`
+            ALTER TABLE ${this.versionsTable} ADD COLUMN size_bytes INTEGER NOT NULL DEFAULT 0;
+            UPDATE ${this.versionsTable} SET size_bytes = length(CAST(data AS BLOB));
+          `);
+        }
+        if (!hasSizeColumn(this.threadsTable)) {
+          this.db.exec(`
+            ALTER TABLE ${this.threadsTable} ADD COLUMN size_bytes INTEGER NOT NULL DEFAULT 0;
+            UPDATE ${this.threadsTable} SET size_bytes = COALESCE(
+              (SELECT SUM(v.size_bytes) FROM ${this.versionsTable} v
+               WHERE v.namespace = ${this.threadsTable}.namespace
+                 AND v.thread_id = ${this.threadsTable}.thread_id),
+              0
+            );
+          `);
+        }
+      })
+      .immediate();
+  }
+
+  /**
+   * Write a checkpoint row and point the thread at it.
+   * Must run inside a transaction.
+   */
+  private write(checkpoint: Checkpoint, data: string): void {
+    const sizeBytes = Buffer.byteLength(data, "utf-8");
+    // Size of the step being replaced, if it was saved before
+    const previous = this.db
+      .query<{ size_bytes: number }, [string, string, number]>(
+        `SELECT size_bytes FROM ${this.versionsTable} WHERE namespace = ? AND thread_id = ? AND step = ?`
+      )
+      .get(this.namespace, checkpoint.threadId, checkpoint.step);
+
+    this.db
+      .query(
+        `INSERT INTO ${this.versionsTable}
+           (namespace, thread_id, step, data, size_bytes, messages_count, has_interrupt, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (namespace, thread_id, step) DO UPDATE SET
+           data = excluded.data,
+           size_bytes = excluded.size_bytes,
+           messages_count = excluded.messages_count,
+           has_interrupt = excluded.has_interrupt,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        this.namespace,
+        checkpoint.threadId,
+        checkpoint.step,
+        data,
+        sizeBytes,
+        checkpoint.messages.length,
+        checkpoint.interrupt ? 1 : 0,
+        checkpoint.createdAt,
+        checkpoint.updatedAt
+      );
+
+    this.db
+      .query(
+        `INSERT INTO ${this.threadsTable} (namespace, thread_id, latest_step, updated_at, size_bytes)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (namespace, thread_id) DO UPDATE SET
+           latest_step = excluded.latest_step,
+           updated_at = excluded.updated_at,
+           size_bytes = size_bytes + ?`
+      )
+      .run(
+        this.namespace,
+        checkpoint.threadId,
+        checkpoint.step,
+        checkpoint.updatedAt,
+        sizeBytes,
+        sizeBytes - (previous?.size_bytes ?? 0)
+      );
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    const data: Checkpoint = {
+      ...checkpoint,
+      updatedAt: new Date().toISOString(),
+    };
+    const serialized = await this.serializer.serialize(data);
+    this.db.transaction(() => this.write(data, serialized)).immediate();
+
+    if (this.retention && isPruneDue(this.retention, ++this.saveCount)) {
+      await this.pruneWith(this.retention, [checkpoint.threadId]);
+    }
+  }
+
+  async load(threadId: string): Promise<Checkpoint | undefined> {
+    const row = this.db
+      .query<CheckpointRow, [string, string]>(
+        `SELECT v.data, v.step FROM ${this.threadsTable} t
+         JOIN ${this.versionsTable} v
+           ON v.namespace = t.namespace AND v.thread_id = t.thread_id AND v.step = t.latest_step
+         WHERE t.namespace = ? AND t.thread_id = ?`
+      )
+      .get(this.namespace, threadId);
+    return row ? this.serializer.deserialize(row.data, { threadId, step: row.step }) : undefined;
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.db
+      .query<{ thread_id: string }, [string]>(
+        `SELECT thread_id FROM ${this.threadsTable} WHERE namespace = ? ORDER BY thread_id`
+      )
+      .all(this.namespace);
+    return rows.map((row) => row.thread_id);
+  }
+
+  async delete(threadId: string): Promise<void> {
+    this.db
+      .transaction(() => {
+        this.db
+          .query(`DELETE FROM ${this.versionsTable} WHERE namespace = ? AND thread_id = ?`)
+          .run(this.namespace, threadId);
+        this.db
+          .query(`DELETE FROM ${this.threadsTable} WHERE namespace = ? AND thread_id = ?`)
+          .run(this.namespace, threadId);
+      })
+      .immediate();
+  }
+
+  private hasThread(threadId: string): boolean {
+    const row = this.db
+      .query<{ found: number }, [string, string]>(
+        `SELECT 1 AS found FROM ${this.threadsTable} WHERE namespace = ? AND thread_id = ?`
+      )
+      .get(this.namespace, threadId);
+    return row !== null;
+  }
+
+  async exists(threadId: string): Promise<boolean> {
+    return this.hasThread(threadId);
+  }
+
+  async listVersions(threadId: string): Promise<CheckpointSummary[]> {
+    const rows = this.db
+      .query<SummaryRow, [string, string]>(
+        `SELECT thread_id, step, messages_count, has_interrupt, created_at, updated_at
+         FROM ${this.versionsTable}
+         WHERE namespace = ? AND thread_id = ?
+         ORDER BY step`
+      )
+      .all(this.namespace, threadId);
+    return rows.map((row) => ({
+      threadId: row.thread_id,
+      step: row.step,
+      messagesCount: row.messages_count,
+      hasInterrupt: row.has_interrupt === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async loadVersion(threadId: string, step: number): Promise<Checkpoint | undefined> {
+    const row = this.db
+      .query<CheckpointRow, [string, string, number]>(
+        `SELECT data, step FROM ${this.versionsTable} WHERE namespace = ? AND thread_id = ? AND step = ?`
+      )
+      .get(this.namespace, threadId, step);
+    return row ? this.serializer.deserialize(row.data, { threadId, step }) : undefined;
+  }
+
+  /**
+   * Fork a thread. The new thread is written in a single transaction, so
+   * concurrent forks to the same new thread ID can't both succeed.
+   */
+  async fork(threadId: string, step: number, newThreadId: string): Promise<Checkpoint> {
+    const rows = this.db
+      .query<CheckpointRow, [string, string, number]>(
+        `SELECT data, step FROM ${this.versionsTable}
+         WHERE namespace = ? AND thread_id = ? AND step <= ?
+         ORDER BY step`
+      )
+      .all(this.namespace, threadId, step);
+
+    const versions = await Promise.all(rows.map((row) => this.serializer.deserialize(row.data, { threadId, step: row.step })));
+    const target = versions.at(-1);
+    if (!target || target.step !== step) {
+      throw new Error(`No checkpoint at step ${step} for thread '${threadId}'`);
+    }
+
+    const now = new Date().toISOString();
+    const forked = versions.map((version): Checkpoint => ({
+      ...version,
+      threadId: newThreadId,
+      parent: { threadId, step },
+      updatedAt: now,
+    }));
+    const serialized = await Promise.all(forked.map((checkpoint) => this.serializer.serialize(checkpoint)));
+
+    this.db
+      .transaction(() => {
+        if (this.hasThread(newThreadId)) {
+          throw new Error(`Thread '${newThreadId}' already exists`);
+        }
+        forked.forEach((checkpoint, i) => this.write(checkpoint, serialized[i]!));
+      })
+      .immediate();
+
+    return forked.at(-1)!;
+  }
+
+  async listThreads(options?: ListThreadsOptions): Promise<ThreadInfo[]> {
+    const rows = this.db
+      .query<ThreadRow, [string]>(
+        `SELECT v.data, v.thread_id, v.step, t.size_bytes
+         FROM ${this.threadsTable} t
+         JOIN ${this.versionsTable} v
+           ON v.namespace = t.namespace AND v.thread_id = t.thread_id AND v.step = t.latest_step
+         WHERE t.namespace = ?`
+      )
+      .all(this.namespace);
+
+    const threads: ThreadInfo[] = [];
+    for (const row of rows) {
+      threads.push(toThreadInfo(
+          await this.serializer.deserialize(row.data, { threadId: row.thread_id, step: row.step }),
+          row.size_bytes
+        ));
+    }
+    return queryThreads(threads, options);
+  }
+
+  async prune(policy?: RetentionPolicy): Promise<PruneResult> {
+    return this.pruneWith(policy ?? this.retention ?? {});
+  }
+
+  /**
+   * Prune using the threads table only, so checkpoints don't have to be read.
+   */
+  private async pruneWith(policy: RetentionPolicy, keep?: string[]): Promise<PruneResult> {
+    const rows = this.db
+      .query<{ thread_id: string; updated_at: string; size_bytes: number }, [string]>(
+        `SELECT thread_id, updated_at, size_bytes FROM ${this.threadsTable} WHERE namespace = ?`
+      )
+      .all(this.namespace);
+    const threads: ThreadUsage[] = rows.map((row) => ({
+      threadId: row.thread_id,
+      updatedAt: row.updated_at,
+      sizeBytes: row.size_bytes,
+    }));
+    return pruneThreads(this, threads, policy, keep);
+  }
+
+  /**
+   * Close the database connection (only if this saver opened it).
+   */
+  close(): void {
+    if (this.ownsDatabase) {
+      this.db.close();
+    }
+  }
+}
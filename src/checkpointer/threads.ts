@@ -0,0 +1,260 @@
+/**
+ * Shared helpers for thread listings and retention.
+ */
+
+import type {
+  Checkpoint,
+  BaseCheckpointSaver,
+  ListThreadsOptions,
+  PruneResult,
+  RetentionPolicy,
+  SearchableCheckpointSaver,
+  ThreadInfo,
+  ThreadMetadata,
+} from "./types.ts";
+
+/**
+ * Storage usage of a thread, as needed for pruning.
+ */
+export type ThreadUsage = Pick<ThreadInfo, "threadId" | "updatedAt" | "sizeBytes">;
+
+/**
+ * Saves between automatic prunes when a retention policy doesn't set `pruneEvery`.
+ */
+export const DEFAULT_PRUNE_EVERY = 50;
+
+/**
+ * Whether a saver with a retention policy should prune after its
+ * `saveCount`th save (counting from 1): on the first save, then every
+ * `pruneEvery` saves.
+ */
+export function isPruneDue(retention: RetentionPolicy, saveCount: number): boolean {
+  const every = Math.max(1, retention.pruneEvery ?? DEFAULT_PRUNE_EVERY);
+  return (saveCount - 1) % every === 0;
+}
+
+/**
+ * Type guard to check if a checkpoint saver supports thread listings and pruning.
+ */
+export function isSearchableCheckpointSaver(
+  saver: BaseCheckpointSaver
+): saver is SearchableCheckpointSaver {
+  return (
+    typeof (saver as SearchableCheckpointSaver).listThreads === "function" &&
+    typeof (saver as SearchableCheckpointSaver).prune === "function"
+  );
+}
+
+/**
+ * Size of a value serialized as JSON, in bytes.
+ */
+export function jsonByteLength(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value), "utf-8");
+}
+
+/**
+ * Describe a thread from its latest checkpoint.
+ */
+export function toThreadInfo(checkpoint: Checkpoint, sizeBytes: number): ThreadInfo {
+  const metadata = checkpoint.metadata ?? {};
+  return {
+    threadId: checkpoint.threadId,
+    title: metadata.title,
+    tags: metadata.tags ?? [],
+    model: metadata.model,
+    custom: metadata.custom ?? {},
+    step: checkpoint.step,
+    messagesCount: checkpoint.messages.length,
+    hasInterrupt: checkpoint.interrupt !== undefined,
+    sizeBytes,
+    createdAt: metadata.createdAt ?? checkpoint.createdAt,
+    updatedAt: checkpoint.updatedAt,
+  };
+}
+
+/**
+ * Merge a metadata update into existing metadata.
+ * `tags` are replaced, `custom` fields are merged.
+ */
+export function mergeThreadMetadata(
+  existing: ThreadMetadata | undefined,
+  update: ThreadMetadata | undefined
+): ThreadMetadata {
+  const merged: ThreadMetadata = { ...existing, ...update };
+  if (existing?.custom || update?.custom) {
+    merged.custom = { ...existing?.custom, ...update?.custom };
+  }
+  return merged;
+}
+
+function toTime(value: Date | string): number {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+/**
+ * Filter, sort and page a list of threads.
+ */
+export function queryThreads(threads: ThreadInfo[], options: ListThreadsOptions = {}): ThreadInfo[] {
+  const search = options.search?.toLowerCase();
+  const after = options.updatedAfter !== undefined ? toTime(options.updatedAfter) : undefined;
+  const before = options.updatedBefore !== undefined ? toTime(options.updatedBefore) : undefined;
+
+  const filtered = threads.filter((thread) => {
+    if (
+      search &&
+      ![thread.threadId, thread.title ?? "", ...thread.tags].some((text) =>
+        text.toLowerCase().includes(search)
+      )
+    ) {
+      return false;
+    }
+    if (options.tags && !options.tags.every((tag) => thread.tags.includes(tag))) {
+      return false;
+    }
+    const updated = Date.parse(thread.updatedAt);
+    if (after !== undefined && updated < after) {
+      return false;
+    }
+    if (before !== undefined && updated > before) {
+      return false;
+    }
+    return options.filter ? options.filter(thread) : true;
+  });
+
+  const sortBy = options.sortBy ?? "updatedAt";
+  const direction = (options.order ?? "desc") === "asc" ? 1 : -1;
+  filtered.sort((a, b) => {
+    let result: number;
+    switch (sortBy) {
+      case "title":
+        result = (a.title ?? a.threadId).localeCompare(b.title ?? b.threadId);
+        break;
+      case "messagesCount":
+      case "sizeBytes":
+        result = a[sortBy] - b[sortBy];
+        break;
+      default:
+        result = Date.parse(a[sortBy]) - Date.parse(b[sortBy]);
+    }
+    return result * direction || a.threadId.localeCompare(b.threadId);
+  });
+
+  const offset = options.offset ?? 0;
+  return filtered.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+}
+
+/**
+ * Pick the threads a retention policy removes.
+ *
+ * @param threads - Usage of all threads
+ * @param policy - Limits to apply
+ * @param options.now - Current time in milliseconds (for TTL)
+ * @param options.keep - Thread IDs that are never removed
+ * @returns Thread IDs to delete, oldest first
+ */
+export function selectThreadsToPrune(
+  threads: ThreadUsage[],
+  policy: RetentionPolicy,
+  options: { now?: number; keep?: string[] } = {}
+): string[] {
+  const now = options.now ?? Date.now();
+  const keep = new Set(options.keep);
+  const doomed: string[] = [];
+
+  // Newest first, so the tail holds the threads to drop
+  let remaining = [...threads].sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+
+  if (policy.ttlMs !== undefined) {
+    const cutoff = now - policy.ttlMs;
+    const expired = remaining.filter((t) => !keep.has(t.threadId) && Date.parse(t.updatedAt) < cutoff);
+    doomed.push(...expired.reverse().map((t) => t.threadId));
+    remaining = remaining.filter((t) => !doomed.includes(t.threadId));
+  }
+
+  let totalBytes = remaining.reduce((sum, t) => sum + t.sizeBytes, 0);
+  const overLimit = () =>
+    (policy.maxThreads !== undefined && remaining.length > policy.maxThreads) ||
+    (policy.maxTotalBytes !== undefined && totalBytes > policy.maxTotalBytes);
+
+  for (let i = remaining.length - 1; i >= 0 && overLimit(); i--) {
+    const thread = remaining[i]!;
+    if (keep.has(thread.threadId)) {
+      continue;
+    }
+    doomed.push(thread.threadId);
+    totalBytes -= thread.sizeBytes;
+    remaining = remaining.filter((t) => t !== thread);
+  }
+
+  return doomed;
+}
+
+/**
+ * Apply a retention policy by deleting threads from a saver.
+ */
+export async function pruneThreads(
+  saver: BaseCheckpointSaver,
+  threads: ThreadUsage[],
+  policy: RetentionPolicy,
+  keep?: string[]
+): Promise<PruneResult> {
+  const deleted = selectThreadsToPrune(threads, policy, { keep });
+  for (const threadId of deleted) {
+    await saver.delete(threadId);
+  }
+
+  const remaining = threads.filter((t) => !deleted.includes(t.threadId));
+  return {
+    deleted,
+    remaining: remaining.length,
+    totalBytes: remaining.reduce((sum, t) => sum + t.sizeBytes, 0),
+  };
+}
+
+/**
+ * List threads of any checkpoint saver.
+ *
+ * Uses `listThreads` when the saver supports it, otherwise loads the latest
+ * checkpoint of every thread (sizes then exclude history).
+ */
+export async function listThreads(
+  saver: BaseCheckpointSaver,
+  options?: ListThreadsOptions
+): Promise<ThreadInfo[]> {
+  if (isSearchableCheckpointSaver(saver)) {
+    return saver.listThreads(options);
+  }
+
+  const threads: ThreadInfo[] = [];
+  for (const threadId of await saver.list()) {
+    const checkpoint = await saver.load(threadId);
+    if (checkpoint) {
+      threads.push(toThreadInfo(checkpoint, jsonByteLength(checkpoint)));
+    }
+  }
+  return queryThreads(threads, options);
+}
+
+/**
+ * Update the metadata of a thread's latest checkpoint.
+ *
+ * @returns The updated checkpoint
+ * @throws Error if the thread doesn't exist
+ */
+export async function updateThreadMetadata(
+  saver: BaseCheckpointSaver,
+  threadId: string,
+  metadata: ThreadMetadata
+): Promise<Checkpoint> {
+  const checkpoint = await saver.load(threadId);
+  if (!checkpoint) {
+    throw new Error(`Thread '${threadId}' not found`);
+  }
+
+  const updated: Checkpoint = {
+    ...checkpoint,
+    metadata: mergeThreadMetadata(checkpoint.metadata, metadata),
+  };
+  await saver.save(updated);
+  return updated;
+}
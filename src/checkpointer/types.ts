@@ -27,6 +27,18 @@ export interface Checkpoint {
    */
   interrupt?: InterruptData;
   
+  /**
+   * Thread and step this checkpoint was forked from.
+   * Present on checkpoints created by `fork()`.
+   */
+  parent?: {
+    threadId: string;
+    step: number;
+  };
+  
+  /** Thread-level metadata (title, tags, model, custom fields) */
+  metadata?: ThreadMetadata;
+  
   /** ISO 8601 timestamp when checkpoint was created */
   createdAt: string;
   
@@ -34,30 +46,82 @@ export interface Checkpoint {
   updatedAt: string;
 }
 
+/**
+ * Metadata describing a conversation thread.
+ * 
+ * Saved with every checkpoint of the thread. The agent fills in `createdAt`,
+ * `model` and a `title` from the first user message; pass `metadata` in
+ * `streamWithEvents` options or call `updateThreadMetadata` to change them.
+ */
+export interface ThreadMetadata {
+  /** Human-readable title */
+  title?: string;
+  
+  /** Tags for filtering */
+  tags?: string[];
+  
+  /** Model ID used by the agent */
+  model?: string;
+  
+  /** ISO 8601 timestamp when the thread was created */
+  createdAt?: string;
+  
+  /** Application-defined fields */
+  custom?: Record<string, unknown>;
+}
+
 /**
  * Data about an interrupted tool execution.
  * Used to resume from approval requests.
  */
 export interface InterruptData {
-  /** The tool call that requires approval */
+  /** The (first) tool call that requires approval */
   toolCall: {
     toolCallId: string;
     toolName: string;
     args: unknown;
   };
+
+  /**
+   * All tool calls from the interrupted step that require approval, in the
+   * order the model made them. Resume with one decision per call.
+   * Missing in checkpoints that only hold a single `toolCall`.
+   */
+  toolCalls?: Array<{
+    toolCallId: string;
+    toolName: string;
+    args: unknown;
+    approvalId?: string;
+  }>;
   
   /** Step number where interrupt occurred */
   step: number;
+
+  /** Approval ID emitted with the `approval-requested` event */
+  approvalId?: string;
 }
 
 /**
  * Decision to resume from an interrupt.
+ *
+ * - `approve`: Execute the pending tool call and continue the agent loop
+ * - `deny`: Skip the tool call; the model receives a denial message instead
+ * - `edit`: Execute the tool call with `modifiedArgs` instead of the model's arguments
  */
 export interface ResumeDecision {
   /** Type of decision */
-  type: 'approve' | 'deny';
+  type: 'approve' | 'deny' | 'edit';
+
+  /**
+   * Tool call this decision applies to.
+   * When omitted, decisions are matched to pending tool calls by position.
+   */
+  toolCallId?: string;
   
-  /** Optional modified arguments (for future "edit" feature) */
+  /**
+   * Replacement arguments for `edit` decisions.
+   * Validated against the tool's input schema before execution.
+   */
   modifiedArgs?: unknown;
 }
 
@@ -65,7 +129,10 @@ export interface ResumeDecision {
  * Options for resuming from a checkpoint.
  */
 export interface ResumeOptions {
-  /** Decisions for pending tool approvals */
+  /**
+   * Decisions for pending tool approvals, one per pending tool call.
+   * Tool calls without a decision are denied.
+   */
   decisions: ResumeDecision[];
 }
 
@@ -115,11 +182,255 @@ export interface BaseCheckpointSaver {
   exists(threadId: string): Promise<boolean>;
 }
 
+/**
+ * Summary of a saved checkpoint version (without messages and state).
+ */
+export interface CheckpointSummary {
+  /** Thread identifier */
+  threadId: string;
+  
+  /** Step number of this checkpoint */
+  step: number;
+  
+  /** Number of messages in the checkpoint */
+  messagesCount: number;
+  
+  /** Whether the checkpoint has a pending interrupt */
+  hasInterrupt: boolean;
+  
+  /** ISO 8601 timestamp when checkpoint was created */
+  createdAt: string;
+  
+  /** ISO 8601 timestamp when checkpoint was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Checkpoint saver that keeps every step of a thread (time-travel).
+ * 
+ * `save` still updates the latest checkpoint returned by `load`, and in
+ * addition records the checkpoint as the version for its step. Saving the
+ * same step again replaces that version.
+ */
+export interface VersionedCheckpointSaver extends BaseCheckpointSaver {
+  /**
+   * List all saved checkpoint versions of a thread.
+   * 
+   * @param threadId - The thread identifier
+   * @returns Summaries ordered by step (empty if the thread doesn't exist)
+   */
+  listVersions(threadId: string): Promise<CheckpointSummary[]>;
+  
+  /**
+   * Load the checkpoint saved for a specific step.
+   * 
+   * @param threadId - The thread identifier
+   * @param step - The step number
+   * @returns The checkpoint, or undefined if no version exists for the step
+   */
+  loadVersion(threadId: string, step: number): Promise<Checkpoint | undefined>;
+  
+  /**
+   * Create a new thread from an earlier checkpoint.
+   * 
+   * Copies all versions up to and including `step` to `newThreadId` and makes
+   * the checkpoint at `step` its latest. The original thread is not changed.
+   * 
+   * @param threadId - The thread to fork from
+   * @param step - The step to fork at
+   * @param newThreadId - The thread identifier for the fork
+   * @returns The latest checkpoint of the new thread
+   * @throws Error if no version exists for the step, or `newThreadId` already exists
+   */
+  fork(threadId: string, step: number, newThreadId: string): Promise<Checkpoint>;
+}
+
+/**
+ * Overview of a saved thread, used for listings.
+ */
+export interface ThreadInfo {
+  /** Thread identifier */
+  threadId: string;
+  
+  /** Thread title (from metadata) */
+  title?: string;
+  
+  /** Thread tags (from metadata) */
+  tags: string[];
+  
+  /** Model ID (from metadata) */
+  model?: string;
+  
+  /** Custom metadata fields */
+  custom: Record<string, unknown>;
+  
+  /** Step of the latest checkpoint */
+  step: number;
+  
+  /** Number of messages in the latest checkpoint */
+  messagesCount: number;
+  
+  /** Whether the latest checkpoint has a pending interrupt */
+  hasInterrupt: boolean;
+  
+  /** Approximate storage used by the thread, including history, in bytes */
+  sizeBytes: number;
+  
+  /** ISO 8601 timestamp when the thread was created */
+  createdAt: string;
+  
+  /** ISO 8601 timestamp of the latest checkpoint */
+  updatedAt: string;
+}
+
+/**
+ * Filtering, sorting and paging options for `listThreads`.
+ */
+export interface ListThreadsOptions {
+  /** Case-insensitive text matched against thread ID, title and tags */
+  search?: string;
+  
+  /** Only threads that have all of these tags */
+  tags?: string[];
+  
+  /** Only threads updated at or after this time */
+  updatedAfter?: Date | string;
+  
+  /** Only threads updated at or before this time */
+  updatedBefore?: Date | string;
+  
+  /** Custom filter applied after the other filters */
+  filter?: (thread: ThreadInfo) => boolean;
+  
+  /** Sort field (default: `updatedAt`) */
+  sortBy?: 'updatedAt' | 'createdAt' | 'title' | 'messagesCount' | 'sizeBytes';
+  
+  /** Sort order (default: `desc`, newest first) */
+  order?: 'asc' | 'desc';
+  
+  /** Number of threads to skip */
+  offset?: number;
+  
+  /** Maximum number of threads to return */
+  limit?: number;
+}
+
+/**
+ * Limits for how many checkpoints a saver keeps.
+ * 
+ * Threads are pruned whole (latest checkpoint and history). Expired threads
+ * go first, then the least recently updated ones until both `maxThreads` and
+ * `maxTotalBytes` are met.
+ */
+export interface RetentionPolicy {
+  /** Maximum number of threads to keep */
+  maxThreads?: number;
+  
+  /** Delete threads not updated for this many milliseconds */
+  ttlMs?: number;
+  
+  /** Maximum total storage of all threads in bytes */
+  maxTotalBytes?: number;
+
+  /**
+   * Prune automatically on the first save and then on every `pruneEvery`th
+   * save (default: 50). Pruning looks at all threads, so doing it on every
+   * save would slow down every agent step.
+   */
+  pruneEvery?: number;
+}
+
+/**
+ * Result of pruning a checkpoint saver.
+ */
+export interface PruneResult {
+  /** Thread IDs that were deleted */
+  deleted: string[];
+  
+  /** Number of threads left */
+  remaining: number;
+  
+  /** Storage used by the remaining threads in bytes */
+  totalBytes: number;
+}
+
+/**
+ * Checkpoint saver with thread metadata listings and retention.
+ * 
+ * All built-in savers implement this interface. When created with a
+ * `retention` policy they prune on the first save and then every
+ * `pruneEvery` saves, never deleting the thread that was just saved.
+ */
+export interface SearchableCheckpointSaver extends BaseCheckpointSaver {
+  /**
+   * List threads with their metadata.
+   * 
+   * @param options - Filters, sort order and paging
+   * @returns Matching threads (newest first by default)
+   */
+  listThreads(options?: ListThreadsOptions): Promise<ThreadInfo[]>;
+  
+  /**
+   * Delete threads that exceed a retention policy.
+   * 
+   * @param policy - Limits to apply (defaults to the saver's `retention` option)
+   * @returns Deleted thread IDs and remaining usage
+   */
+  prune(policy?: RetentionPolicy): Promise<PruneResult>;
+}
+
+/**
+ * Where a saver stores a checkpoint.
+ * 
+ * Encrypting serializers bind checkpoints to their location, so stored data
+ * can't be copied to another thread or step.
+ */
+export interface CheckpointLocation {
+  /** Thread ID the checkpoint is stored under */
+  threadId: string;
+  
+  /** Step of the checkpoint, if known */
+  step?: number;
+}
+
+/**
+ * Converts checkpoints to and from their stored form.
+ * 
+ * Savers store the serialized string as-is. Implementations decide on
+ * encoding, compression and encryption, and upgrade checkpoints written with
+ * older schema versions on `deserialize`.
+ */
+export interface CheckpointSerializer {
+  /**
+   * Serialize a checkpoint for storage.
+   * 
+   * @param checkpoint - The checkpoint to serialize
+   * @param location - Where it is stored (default: its thread ID and step)
+   * @returns The stored representation
+   */
+  serialize(checkpoint: Checkpoint, location?: CheckpointLocation): Promise<string>;
+  
+  /**
+   * Restore a checkpoint from its stored representation.
+   * 
+   * @param data - Data returned by `serialize` (possibly from an older version)
+   * @param location - Where the data was loaded from
+   * @returns The checkpoint in the current schema
+   */
+  deserialize(data: string, location?: CheckpointLocation): Promise<Checkpoint>;
+}
+
 /**
  * Options for creating a checkpoint saver.
  */
 export interface CheckpointSaverOptions {
   /** Optional namespace prefix for isolation */
   namespace?: string;
+  
+  /** Retention policy applied automatically as checkpoints are saved */
+  retention?: RetentionPolicy;
+  
+  /** Serializer for stored checkpoints (default: plain JSON) */
+  serializer?: CheckpointSerializer;
 }
 
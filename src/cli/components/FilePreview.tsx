@@ -90,6 +90,42 @@ export function FileWritten({ path }: FileWrittenProps): React.ReactElement {
   );
 }
 
+/**
+ * Compact file deleted notification.
+ */
+interface FileDeletedProps {
+  path: string;
+}
+
+export function FileDeleted({ path }: FileDeletedProps): React.ReactElement {
+  return (
+    <Box>
+      <Text color={colors.success}>✓ Deleted: </Text>
+      <Text color={colors.file}>{path}</Text>
+    </Box>
+  );
+}
+
+/**
+ * Compact file moved or copied notification.
+ */
+interface FileTransferredProps {
+  from: string;
+  to: string;
+  copied?: boolean;
+}
+
+export function FileTransferred({ from, to, copied }: FileTransferredProps): React.ReactElement {
+  return (
+    <Box>
+      <Text color={colors.success}>✓ {copied ? "Copied" : "Moved"}: </Text>
+      <Text color={colors.file}>{from}</Text>
+      <Text dimColor> → </Text>
+      <Text color={colors.file}>{to}</Text>
+    </Box>
+  );
+}
+
 /**
  * Compact file edited notification.
  */
@@ -58,17 +58,36 @@ export function SubagentFinish({
 
 /**
  * Subagent running indicator (for when a subagent is actively working).
+ * Shows live progress streamed from the subagent; nested subagents are indented.
  */
 interface SubagentRunningProps {
   name: string;
   task: string;
+  /** Nesting depth (1 for subagents of the main agent) */
+  depth?: number;
+  /** Steps finished so far */
+  steps?: number;
+  /** Tool calls made so far */
+  toolCalls?: number;
+  /** Tool currently running */
+  currentTool?: string;
+  /** Text streamed in the current step */
+  text?: string;
 }
 
 export function SubagentRunning({
   name,
   task,
+  depth = 1,
+  steps = 0,
+  toolCalls = 0,
+  currentTool,
+  text,
 }: SubagentRunningProps): React.ReactElement {
   const shortTask = task.length > 50 ? task.substring(0, 50) + "..." : task;
+  // Last line of the streamed text, as a one-line preview
+  const lastLine = text?.trim().split("\n").pop() ?? "";
+  const preview = lastLine.length > 70 ? "..." + lastLine.slice(-67) : lastLine;
 
   return (
     <Box
@@ -76,16 +95,28 @@ export function SubagentRunning({
       borderStyle="single"
       borderColor={colors.secondary}
       paddingX={2}
-      paddingY={1}
-      marginY={1}
+      marginLeft={(depth - 1) * 2}
     >
       <Box>
         <Spinner label={`${emoji.subagent} ${name}`} />
+        <Text dimColor>
+          {" "}
+          · step {steps + 1} · {toolCalls} tool call{toolCalls === 1 ? "" : "s"}
+        </Text>
       </Box>
       <Box paddingLeft={2}>
         <Text dimColor>{shortTask}</Text>
       </Box>
+      {currentTool && (
+        <Box paddingLeft={2}>
+          <Text color={colors.tool}>→ {currentTool}</Text>
+        </Box>
+      )}
+      {!currentTool && preview && (
+        <Box paddingLeft={2}>
+          <Text>{preview}</Text>
+        </Box>
+      )}
     </Box>
   );
 }
-
@@ -1,40 +1,127 @@
 /**
  * Tool approval component for interactive approval flow.
+ *
+ * Shows all tool calls of a step that need approval together and collects
+ * one decision per call.
  */
-import React from "react";
+import React, { useState } from "react";
 import { Box, Text, useInput } from "ink";
+import { TextInput } from "@inkjs/ui";
+import type { ResumeDecision } from "../../checkpointer/types.js";
+import type { ApprovalRuleScope } from "../../types.js";
 
-interface ToolApprovalProps {
+export interface ApprovalRequestData {
+  approvalId: string;
+  toolCallId: string;
   toolName: string;
   args: unknown;
-  onApprove: () => void;
-  onDeny: () => void;
+}
+
+interface ToolApprovalProps {
+  /** Tool calls awaiting a decision (one batch per step) */
+  requests: ApprovalRequestData[];
+  /** Called with one decision per request, in order */
+  onSubmit: (decisions: ResumeDecision[]) => void;
   onApproveAll?: () => void;
+  /** Create an "always allow" rule for a request (enables the S/P/U keys) */
+  onAlwaysAllow?: (request: ApprovalRequestData, scope: ApprovalRuleScope) => void;
+}
+
+const ALWAYS_ALLOW_KEYS: Record<string, ApprovalRuleScope> = {
+  s: "session",
+  p: "project",
+  u: "user",
+};
+
+/**
+ * Format args for display (truncate if too long).
+ */
+function formatArgs(args: unknown, maxLength: number): string {
+  const argsDisplay = JSON.stringify(args, null, 2);
+  return argsDisplay.length > maxLength
+    ? argsDisplay.slice(0, maxLength) + "\n... (truncated)"
+    : argsDisplay;
 }
 
 export function ToolApproval({
-  toolName,
-  args,
-  onApprove,
-  onDeny,
+  requests,
+  onSubmit,
   onApproveAll,
+  onAlwaysAllow,
 }: ToolApprovalProps): React.ReactElement {
-  useInput((input, key) => {
-    if (input === "y" || input === "Y") {
-      onApprove();
-    } else if (input === "n" || input === "N" || key.escape) {
-      onDeny();
-    } else if ((input === "a" || input === "A") && onApproveAll) {
-      onApproveAll();
+  const [decisions, setDecisions] = useState<ResumeDecision[]>(() =>
+    requests.map(() => ({ type: "approve" }))
+  );
+  const [selected, setSelected] = useState(0);
+  const [editing, setEditing] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const isBatch = requests.length > 1;
+
+  const setDecision = (index: number, decision: ResumeDecision) => {
+    setDecisions((prev) => prev.map((d, i) => (i === index ? decision : d)));
+  };
+
+  useInput(
+    (input, key) => {
+      if (input === "y" || input === "Y") {
+        // Approve everything that was not edited
+        onSubmit(decisions.map((d) => (d.type === "edit" ? d : { type: "approve" })));
+      } else if (input === "n" || input === "N" || key.escape) {
+        onSubmit(requests.map(() => ({ type: "deny" })));
+      } else if ((input === "a" || input === "A") && onApproveAll) {
+        onApproveAll();
+      } else if (onAlwaysAllow && ALWAYS_ALLOW_KEYS[input.toLowerCase()] && requests[selected]) {
+        // Always allow: save a rule and approve the selected call
+        onAlwaysAllow(requests[selected], ALWAYS_ALLOW_KEYS[input.toLowerCase()]!);
+        const approved = decisions.map((d, i): ResumeDecision => (i === selected ? { type: "approve" } : d));
+        setDecisions(approved);
+        if (!isBatch) {
+          onSubmit(approved);
+        }
+      } else if (input === "e" || input === "E") {
+        setEditError(null);
+        setEditing(true);
+      } else if (isBatch && key.upArrow) {
+        setSelected((prev) => Math.max(0, prev - 1));
+      } else if (isBatch && key.downArrow) {
+        setSelected((prev) => Math.min(requests.length - 1, prev + 1));
+      } else if (isBatch && input === " ") {
+        // Toggle between approve and deny for the selected call
+        setDecision(selected, {
+          type: decisions[selected]?.type === "deny" ? "approve" : "deny",
+        });
+      } else if (isBatch && key.return) {
+        onSubmit(decisions);
+      }
+    },
+    { isActive: !editing }
+  );
+
+  const handleEditSubmit = (value: string) => {
+    try {
+      const decision: ResumeDecision = { type: "edit", modifiedArgs: JSON.parse(value) };
+      setDecision(selected, decision);
+      setEditing(false);
+      if (!isBatch) {
+        onSubmit([decision]);
+      }
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : String(error));
     }
-  });
+  };
 
-  // Format args for display (truncate if too long)
-  const argsDisplay = JSON.stringify(args, null, 2);
-  const truncatedArgs =
-    argsDisplay.length > 500
-      ? argsDisplay.slice(0, 500) + "\n... (truncated)"
-      : argsDisplay;
+  const decisionLabel = (decision: ResumeDecision | undefined) => {
+    switch (decision?.type) {
+      case "deny":
+        return <Text color="red">✗ deny</Text>;
+      case "edit":
+        return <Text color="blue">✎ edit</Text>;
+      default:
+        return <Text color="green">✓ approve</Text>;
+    }
+  };
+
+  const current = requests[selected];
 
   return (
     <Box
@@ -46,24 +133,65 @@ export function ToolApproval({
     >
       <Text bold color="yellow">
         🛑 Tool Approval Required
+        {isBatch && <Text> ({requests.length} tool calls)</Text>}
       </Text>
-      <Text>
-        Tool: <Text bold>{toolName}</Text>
-      </Text>
-      <Box marginTop={1}>
-        <Text dimColor>Arguments:</Text>
-      </Box>
-      <Text>{truncatedArgs}</Text>
-      <Box marginTop={1}>
+      {isBatch ? (
+        requests.map((request, i) => (
+          <Text key={request.toolCallId}>
+            {i === selected ? "› " : "  "}
+            {decisionLabel(decisions[i])} <Text bold>{request.toolName}</Text>{" "}
+            <Text dimColor>{formatArgs(request.args, 80).replace(/\s+/g, " ")}</Text>
+          </Text>
+        ))
+      ) : (
         <Text>
-          Press <Text bold color="green">[Y]</Text> to approve,{" "}
-          <Text bold color="red">[N]</Text> to deny
-          {onApproveAll && (
-            <>
-              , <Text bold color="blue">[A]</Text> to approve all (enable auto-approve)
-            </>
-          )}
+          Tool: <Text bold>{current?.toolName}</Text>
         </Text>
+      )}
+      {current && (
+        <>
+          <Box marginTop={1}>
+            <Text dimColor>Arguments{isBatch ? ` of ${current.toolName}` : ""}:</Text>
+          </Box>
+          {editing ? (
+            <Box flexDirection="column">
+              <TextInput
+                defaultValue={JSON.stringify(decisions[selected]?.modifiedArgs ?? current.args)}
+                onSubmit={handleEditSubmit}
+              />
+              {editError && <Text color="red">Invalid JSON: {editError}</Text>}
+            </Box>
+          ) : (
+            <Text>{formatArgs(decisions[selected]?.modifiedArgs ?? current.args, 500)}</Text>
+          )}
+        </>
+      )}
+      <Box marginTop={1}>
+        {editing ? (
+          <Text dimColor>Edit the arguments as JSON and press Enter</Text>
+        ) : (
+          <Text>
+            Press <Text bold color="green">[Y]</Text> to approve{isBatch ? " all" : ""},{" "}
+            <Text bold color="red">[N]</Text> to deny{isBatch ? " all" : ""},{" "}
+            <Text bold color="blue">[E]</Text> to edit arguments
+            {isBatch && (
+              <>
+                , <Text bold>[↑/↓]</Text> to select, <Text bold>[Space]</Text> to toggle,{" "}
+                <Text bold>[Enter]</Text> to submit
+              </>
+            )}
+            {onApproveAll && (
+              <>
+                , <Text bold color="blue">[A]</Text> to approve all (enable auto-approve)
+              </>
+            )}
+            {onAlwaysAllow && (
+              <>
+                , <Text bold color="green">[S/P/U]</Text> to always allow for this session/project/user
+              </>
+            )}
+          </Text>
+        )}
       </Box>
     </Box>
   );
@@ -6,7 +6,7 @@ export { Input } from "./Input.js";
 export { SlashMenu, SlashMenuPanel } from "./SlashMenu.js";
 export { Message, StreamingMessage, type MessageData, type MessageRole, type ToolCallData } from "./Message.js";
 export { TodoList, TodosChanged } from "./TodoList.js";
-export { FilePreview, FileWritten, FileEdited, FileRead, LsResult, GlobResult, GrepResult, FileList } from "./FilePreview.js";
+export { FilePreview, FileWritten, FileEdited, FileDeleted, FileTransferred, FileRead, LsResult, GlobResult, GrepResult, FileList } from "./FilePreview.js";
 export {
   ToolCall,
   ToolResult,
@@ -20,5 +20,5 @@ export { StatusBar } from "./StatusBar.js";
 export { ToolCallSummary, InlineToolCall } from "./ToolCallSummary.js";
 export { ModelSelectionPanel } from "./ModelSelection.js";
 export { ApiKeyInputPanel, ApiKeyStatus } from "./ApiKeyInput.js";
-export { ToolApproval } from "./ToolApproval.js";
+export { ToolApproval, type ApprovalRequestData } from "./ToolApproval.js";
 
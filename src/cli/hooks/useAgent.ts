@@ -9,12 +9,18 @@ import type {
   ModelMessage,
   SummarizationConfig,
   InterruptOnConfig,
+  ApprovalRule,
+  ApprovalRuleScope,
+  TokenUsage,
 } from "../../types.js";
-import type { BaseCheckpointSaver } from "../../checkpointer/types.js";
+import type { BaseCheckpointSaver, ResumeDecision } from "../../checkpointer/types.js";
 import { createDeepAgent } from "../../agent.js";
 import { parseModelString } from "../../utils/model-parser.js";
+import { addTokenUsage, emptyTokenUsage } from "../../utils/usage.js";
+import { suggestApprovalRule, type ApprovalPolicy } from "../../utils/approval-policy.js";
 import type { FilesystemBackend } from "../../backends/filesystem.js";
 import type { ToolCallData } from "../components/Message.js";
+import type { ApprovalRequestData } from "../components/ToolApproval.js";
 import { useEffect } from "react";
 
 export type AgentStatus =
@@ -33,6 +39,58 @@ export interface AgentEventLog {
   timestamp: Date;
 }
 
+/**
+ * Live progress of a running subagent.
+ */
+export interface SubagentProgress {
+  /** Subagent invocation ID */
+  invocationId: string;
+  /** Subagent type */
+  name: string;
+  /** Task given to the subagent */
+  task: string;
+  /** Nesting depth (1 for subagents of the main agent) */
+  depth: number;
+  /** Steps finished so far */
+  steps: number;
+  /** Tool calls made so far */
+  toolCalls: number;
+  /** Tool currently running, if any */
+  currentTool?: string;
+  /** Text streamed in the current step */
+  text: string;
+}
+
+/**
+ * Events of a running subagent that only update its progress display.
+ */
+const SUBAGENT_PROGRESS_EVENTS = new Set<DeepAgentEvent["type"]>([
+  "text",
+  "step-start",
+  "step-finish",
+  "tool-call",
+  "tool-result",
+  "todos-changed",
+]);
+
+/**
+ * Apply an event emitted inside a subagent to its progress.
+ */
+function updateSubagentProgress(progress: SubagentProgress, event: DeepAgentEvent): SubagentProgress {
+  switch (event.type) {
+    case "text":
+      return { ...progress, text: progress.text + event.text };
+    case "step-finish":
+      return { ...progress, steps: progress.steps + 1, text: "" };
+    case "tool-call":
+      return { ...progress, toolCalls: progress.toolCalls + 1, currentTool: event.toolName };
+    case "tool-result":
+      return { ...progress, currentTool: undefined };
+    default:
+      return progress;
+  }
+}
+
 export interface UseAgentOptions {
   model: string;
   maxSteps: number;
@@ -46,13 +104,16 @@ export interface UseAgentOptions {
   summarization?: SummarizationConfig;
   /** 
    * Default interruptOn config for CLI.
-   * Default: { execute: true, write_file: true, edit_file: true }
+   * Default: { execute: true, write_file: true, edit_file: true, multi_edit: true,
+   *   apply_patch: true, delete_file: true, move_file: true }
    */
   interruptOn?: InterruptOnConfig;
   /** Session ID for checkpoint persistence */
   sessionId?: string;
   /** Checkpoint saver for session persistence */
   checkpointer?: BaseCheckpointSaver;
+  /** Approval policy for "always allow" rules */
+  approvalPolicy?: ApprovalPolicy;
 }
 
 export interface UseAgentReturn {
@@ -72,6 +133,10 @@ export interface UseAgentReturn {
   toolCalls: ToolCallData[];
   /** Current error if any */
   error: Error | null;
+  /** Provider-reported token usage of all runs in this session */
+  sessionUsage: TokenUsage;
+  /** Subagents that are currently running, in start order */
+  subagents: SubagentProgress[];
   /** Send a prompt to the agent, returns the final text and tool calls */
   sendPrompt: (prompt: string) => Promise<{ text: string; toolCalls: ToolCallData[] }>;
   /** Abort current generation */
@@ -98,14 +163,12 @@ export interface UseAgentReturn {
   setEviction: (enabled: boolean) => void;
   /** Toggle summarization */
   setSummarization: (enabled: boolean) => void;
-  /** Current approval request if any */
-  pendingApproval: {
-    approvalId: string;
-    toolName: string;
-    args: unknown;
-  } | null;
-  /** Respond to approval request */
-  respondToApproval: (approved: boolean) => void;
+  /** Current batch of approval requests if any (all calls of one step) */
+  pendingApprovals: ApprovalRequestData[] | null;
+  /** Respond to the pending approvals: one decision per request, or a boolean for all */
+  respondToApproval: (decisions: boolean | ResumeDecision[]) => void;
+  /** Create an "always allow" rule from an approval request */
+  alwaysAllow: (request: ApprovalRequestData, scope: ApprovalRuleScope) => Promise<ApprovalRule>;
   /** Whether auto-approve mode is enabled */
   autoApproveEnabled: boolean;
   /** Toggle auto-approve mode */
@@ -124,8 +187,13 @@ const DEFAULT_CLI_INTERRUPT_ON: InterruptOnConfig = {
   execute: true,
   write_file: true,
   edit_file: true,
+  multi_edit: true,
+  apply_patch: true,
+  delete_file: true,
+  move_file: true,
   web_search: true,
   fetch_url: true,
+  crawl_site: true,
   // Note: http_request does NOT require approval per LangChain pattern
 };
 
@@ -141,6 +209,8 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
   const [messages, setMessages] = useState<ModelMessage[]>([]);
   const [toolCalls, setToolCalls] = useState<ToolCallData[]>([]);
   const [error, setError] = useState<Error | null>(null);
+  const [sessionUsage, setSessionUsage] = useState<TokenUsage>(emptyTokenUsage);
+  const [subagents, setSubagents] = useState<SubagentProgress[]>([]);
   const [currentModel, setCurrentModel] = useState(options.model);
   
   // Load session on mount if sessionId and checkpointer are provided
@@ -177,12 +247,8 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
   const [autoApproveEnabled, setAutoApproveEnabled] = useState(false);
   
   // Pending approval state
-  const [pendingApproval, setPendingApproval] = useState<{
-    approvalId: string;
-    toolName: string;
-    args: unknown;
-  } | null>(null);
-  const approvalResolverRef = useRef<((approved: boolean) => void) | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequestData[] | null>(null);
+  const approvalResolverRef = useRef<((decisions: ResumeDecision[]) => void) | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
   // Use a ref to track accumulated text during streaming (current segment, gets flushed)
@@ -213,6 +279,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
       toolResultEvictionLimit: evictionLimit,
       summarization: summarizationConfig,
       interruptOn: autoApproveEnabled ? undefined : (options.interruptOn ?? DEFAULT_CLI_INTERRUPT_ON),
+      approvalPolicy: options.approvalPolicy,
       checkpointer: options.checkpointer,
     })
   );
@@ -270,36 +337,47 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
           messages: messagesRef.current,
           threadId: options.sessionId,
           abortSignal: abortControllerRef.current.signal,
-          // Approval callback - auto-approve or prompt user
-          onApprovalRequest: async (request) => {
+          // Approval callback - auto-approve or prompt user with the whole batch
+          onApprovalBatchRequest: async (requests) => {
+            for (const request of requests) {
+              addEvent({ type: "approval-requested", ...request });
+            }
+
             // If auto-approve is enabled, immediately approve
             if (autoApproveEnabled) {
-              addEvent({ 
-                type: "approval-requested", 
-                ...request,
-              });
-              addEvent({ 
-                type: "approval-response", 
-                approvalId: request.approvalId, 
-                approved: true 
-              });
-              return true;
+              for (const request of requests) {
+                addEvent({
+                  type: "approval-response",
+                  approvalId: request.approvalId,
+                  toolCallId: request.toolCallId,
+                  approved: true,
+                });
+              }
+              return requests.map(() => true);
             }
-            
+
             // Otherwise, show approval UI and wait for user response
-            setPendingApproval({
-              approvalId: request.approvalId,
-              toolName: request.toolName,
-              args: request.args,
-            });
-            addEvent({ type: "approval-requested", ...request });
-            
+            setPendingApprovals(requests);
+
             // Return a promise that resolves when user responds
-            return new Promise<boolean>((resolve) => {
+            return new Promise<ResumeDecision[]>((resolve) => {
               approvalResolverRef.current = resolve;
             });
           },
         })) {
+          // Progress of a running subagent: shown live, not in the event log
+          const source = event.subagent;
+          if (source && SUBAGENT_PROGRESS_EVENTS.has(event.type)) {
+            setSubagents((prev) =>
+              prev.map((progress) =>
+                progress.invocationId === source.invocationId
+                  ? updateSubagentProgress(progress, event)
+                  : progress
+              )
+            );
+            continue;
+          }
+
           // Handle different event types
           switch (event.type) {
             case "text":
@@ -364,6 +442,9 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
               break;
 
             case "file-edited":
+            case "file-deleted":
+            case "file-moved":
+            case "file-copied":
               setStatus("tool-call");
               addEvent(event);
               break;
@@ -433,16 +514,37 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
               break;
 
             case "subagent-start":
+              flushTextSegment();
               setStatus("subagent");
+              setSubagents((prev) => [
+                ...prev,
+                {
+                  invocationId: event.invocationId,
+                  name: event.name,
+                  task: event.task,
+                  depth: event.depth,
+                  steps: 0,
+                  toolCalls: 0,
+                  text: "",
+                },
+              ]);
               addEvent(event);
               break;
 
             case "subagent-finish":
+              setSubagents((prev) =>
+                prev.filter((progress) => progress.invocationId !== event.invocationId)
+              );
+              addEvent(event);
+              break;
+
+            case "budget-exceeded":
+              flushTextSegment();
               addEvent(event);
               break;
 
             case "approval-requested":
-              // Approval request is handled in onApprovalRequest callback
+              // Approval request is handled in onApprovalBatchRequest callback
               // Event is already emitted there, no need to duplicate
               break;
 
@@ -462,6 +564,10 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
                 setMessages(event.messages);
                 messagesRef.current = event.messages;
               }
+              if (event.usage) {
+                const runUsage = event.usage.total;
+                setSessionUsage((usage) => addTokenUsage(usage, runUsage));
+              }
               addEvent(event);
               break;
 
@@ -503,6 +609,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
         }
       } finally {
         abortControllerRef.current = null;
+        setSubagents([]);
       }
         },
     [state, messages, addEvent, flushTextSegment, autoApproveEnabled]
@@ -526,6 +633,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     toolCallsRef.current = [];
     pendingToolCallsRef.current.clear();
     setError(null);
+    setSessionUsage(emptyTokenUsage());
     setStatus("idle");
   }, []);
 
@@ -574,9 +682,10 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
         toolResultEvictionLimit: newEvictionLimit,
         summarization: newSummarization,
         interruptOn: newInterruptOn,
+        approvalPolicy: options.approvalPolicy,
       });
     },
-    [currentModel, promptCachingEnabled, evictionLimit, summarizationConfig, autoApproveEnabled, options.maxSteps, options.systemPrompt, options.backend, options.interruptOn]
+    [currentModel, promptCachingEnabled, evictionLimit, summarizationConfig, autoApproveEnabled, options.maxSteps, options.systemPrompt, options.backend, options.interruptOn, options.approvalPolicy]
   );
 
   const setModel = useCallback(
@@ -617,21 +726,41 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
   );
 
   // Respond to approval request
-  const respondToApproval = useCallback((approved: boolean) => {
-    if (approvalResolverRef.current) {
-      approvalResolverRef.current(approved);
+  const respondToApproval = useCallback((answer: boolean | ResumeDecision[]) => {
+    if (approvalResolverRef.current && pendingApprovals) {
+      const decisions: ResumeDecision[] =
+        typeof answer === "boolean"
+          ? pendingApprovals.map(() => ({ type: answer ? "approve" : "deny" }))
+          : answer;
+
+      approvalResolverRef.current(decisions);
       approvalResolverRef.current = null;
-      const currentApproval = pendingApproval;
-      setPendingApproval(null);
-      if (currentApproval) {
-        addEvent({ 
-          type: "approval-response", 
-          approvalId: currentApproval.approvalId, 
-          approved 
+      setPendingApprovals(null);
+      pendingApprovals.forEach((request, i) => {
+        const decision = decisions[i];
+        addEvent({
+          type: "approval-response",
+          approvalId: request.approvalId,
+          toolCallId: request.toolCallId,
+          approved: decision?.type === "approve" || decision?.type === "edit",
+          ...(decision?.type === "edit" ? { modifiedArgs: decision.modifiedArgs } : {}),
         });
-      }
+      });
     }
-  }, [addEvent]);
+  }, [addEvent, pendingApprovals]);
+
+  // Save an "always allow" rule for a tool call
+  const alwaysAllow = useCallback(
+    async (request: ApprovalRequestData, scope: ApprovalRuleScope) => {
+      if (!options.approvalPolicy) {
+        throw new Error("Approval policies are not enabled");
+      }
+      const rule = suggestApprovalRule(request.toolName, request.args, scope);
+      await options.approvalPolicy.addRule(rule);
+      return rule;
+    },
+    [options.approvalPolicy]
+  );
 
   // Toggle auto-approve and recreate agent
   const setAutoApprove = useCallback((enabled: boolean) => {
@@ -658,6 +787,8 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     messages,
     toolCalls,
     error,
+    sessionUsage,
+    subagents,
     sendPrompt,
     abort,
     clear,
@@ -669,8 +800,9 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     setPromptCaching,
     setEviction,
     setSummarization,
-    pendingApproval,
+    pendingApprovals,
     respondToApproval,
+    alwaysAllow,
     autoApproveEnabled,
     setAutoApprove,
   };
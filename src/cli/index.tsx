@@ -14,6 +14,7 @@ import React, { useState, useEffect, useCallback } from "react";
 import { render, useApp, useInput, Box, Text, Static } from "ink";
 import { FilesystemBackend } from "../backends/filesystem.js";
 import { FileSaver } from "../checkpointer/file-saver.js";
+import { ApprovalPolicy, formatApprovalRule } from "../utils/approval-policy.js";
 import { useAgent, type AgentEventLog } from "./hooks/useAgent.js";
 import {
   Welcome,
@@ -26,6 +27,8 @@ import {
   FilePreview,
   FileWritten,
   FileEdited,
+  FileDeleted,
+  FileTransferred,
   FileRead,
   LsResult,
   GlobResult,
@@ -38,6 +41,7 @@ import {
   ErrorDisplay,
   SubagentStart,
   SubagentFinish,
+  SubagentRunning,
   StatusBar,
   ModelSelectionPanel,
   ApiKeyInputPanel,
@@ -45,8 +49,9 @@ import {
   type MessageData,
 } from "./components/index.js";
 import { parseCommand, colors, SLASH_COMMANDS } from "./theme.js";
-import type { FileInfo } from "../types.js";
+import type { FileInfo, TokenUsage } from "../types.js";
 import { estimateMessagesTokens } from "../utils/summarization.js";
+import { formatBudgetExceeded } from "../utils/budget.js";
 
 // ============================================================================
 // CLI Arguments
@@ -218,6 +223,11 @@ function App({ options, backend }: AppProps): React.ReactElement {
     ? new FileSaver({ dir: "./.checkpoints" })
     : undefined;
 
+  // Approval policy for "always allow" rules (project rules go to .deepagents/)
+  const [approvalPolicy] = useState(
+    () => new ApprovalPolicy({ workingDirectory: options.workDir })
+  );
+
   // Agent hook with new feature options
   const agent = useAgent({
     model: options.model || "anthropic/claude-haiku-4-5-20251001",
@@ -229,11 +239,16 @@ function App({ options, backend }: AppProps): React.ReactElement {
     summarization: summarizationConfig,
     sessionId: options.session,
     checkpointer,
+    approvalPolicy,
     // Default interruptOn config for CLI - safe defaults
     interruptOn: {
       execute: true,
       write_file: true,
       edit_file: true,
+      multi_edit: true,
+      apply_patch: true,
+      delete_file: true,
+      move_file: true,
     },
   });
 
@@ -242,6 +257,19 @@ function App({ options, backend }: AppProps): React.ReactElement {
   const [showWelcome, setShowWelcome] = useState(true);
   const [panel, setPanel] = useState<PanelState>({ view: "none" });
 
+  // Show a short notice from the CLI in the message list
+  const addSystemMessage = useCallback((content: string) => {
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: `system-${Date.now()}`,
+        role: "assistant",
+        content,
+        timestamp: new Date(),
+      },
+    ]);
+  }, []);
+
   // Handle Ctrl+C to abort generation
   useInput((input, key) => {
     if (key.ctrl && input === "c") {
@@ -355,40 +383,28 @@ function App({ options, backend }: AppProps): React.ReactElement {
       case "sessions":
       case "session-list":
         if (checkpointer) {
-          const sessions = await checkpointer.list();
-          if (sessions.length > 0) {
-            // Show sessions list
-            const sessionList = sessions.map(s => `  - ${s}`).join('\n');
-            setMessages((prev) => [
-              ...prev,
-              {
-                id: `session-list-${Date.now()}`,
-                role: "assistant",
-                content: `Saved sessions:\n${sessionList}`,
-                timestamp: new Date(),
-              },
-            ]);
+          // Optional search text matches session ID, title and tags
+          const search = args?.trim();
+          const threads = await checkpointer.listThreads({ search: search || undefined });
+          if (threads.length > 0) {
+            const sessionList = threads
+              .map((t) => {
+                const current = t.threadId === options.session ? " (current)" : "";
+                const details = [
+                  `updated ${new Date(t.updatedAt).toLocaleString()}`,
+                  `${t.step} steps`,
+                  `${t.messagesCount} messages`,
+                  t.model,
+                ].filter(Boolean).join(", ");
+                return `  - ${t.threadId}${current}${t.title ? `: ${t.title}` : ""}\n    ${details}`;
+              })
+              .join("\n");
+            addSystemMessage(`Saved sessions:\n${sessionList}`);
           } else {
-            setMessages((prev) => [
-              ...prev,
-              {
-                id: `session-list-empty-${Date.now()}`,
-                role: "assistant",
-                content: "No saved sessions",
-                timestamp: new Date(),
-              },
-            ]);
+            addSystemMessage(search ? `No saved sessions match "${search}"` : "No saved sessions");
           }
         } else {
-          setMessages((prev) => [
-            ...prev,
-            {
-              id: `session-error-${Date.now()}`,
-              role: "assistant",
-              content: "Checkpointing not enabled. Use --session to enable.",
-              timestamp: new Date(),
-            },
-          ]);
+          addSystemMessage("Checkpointing not enabled. Use --session to enable.");
         }
         break;
 
@@ -399,7 +415,7 @@ function App({ options, backend }: AppProps): React.ReactElement {
             {
               id: `session-usage-${Date.now()}`,
               role: "assistant",
-              content: "Usage: /session clear",
+              content: "Usage: /session clear | /session prune [days]",
               timestamp: new Date(),
             },
           ]);
@@ -420,6 +436,17 @@ function App({ options, backend }: AppProps): React.ReactElement {
               timestamp: new Date(),
             },
           ]);
+        } else if (args.trim().startsWith("prune") && checkpointer) {
+          // Delete sessions not updated for the given number of days
+          const days = Number(args.trim().split(/\s+/)[1] ?? 30);
+          if (!Number.isFinite(days) || days < 0) {
+            addSystemMessage("Usage: /session prune [days]");
+            return;
+          }
+          const result = await checkpointer.prune({ ttlMs: days * 24 * 60 * 60 * 1000 });
+          addSystemMessage(
+            `Pruned ${result.deleted.length} session(s) older than ${days} days. ${result.remaining} remaining.`
+          );
         }
         break;
 
@@ -469,11 +496,34 @@ function App({ options, backend }: AppProps): React.ReactElement {
         setPanel({ view: "features" });
         break;
 
-      case "approve":
+      case "approve": {
+        const [subcommand, scopeArg] = (args ?? "").trim().split(/\s+/);
+
+        if (subcommand === "rules") {
+          const rules = await approvalPolicy.getRules();
+          addSystemMessage(
+            rules.length > 0
+              ? `Approval rules:\n${rules.map((rule) => `  - ${formatApprovalRule(rule)}`).join("\n")}`
+              : "No approval rules"
+          );
+          return;
+        }
+
+        if (subcommand === "clear") {
+          if (scopeArg !== "session" && scopeArg !== "project" && scopeArg !== "user") {
+            addSystemMessage("Usage: /approve clear session|project|user");
+            return;
+          }
+          await approvalPolicy.clearRules(scopeArg);
+          addSystemMessage(`Cleared ${scopeArg} approval rules.`);
+          return;
+        }
+
         const newValue = !agent.autoApproveEnabled;
         agent.setAutoApprove(newValue);
         // Show a brief message (could be improved with a toast/notification)
         return;
+      }
 
       case "help":
       case "h":
@@ -526,7 +576,7 @@ function App({ options, backend }: AppProps): React.ReactElement {
         />
       )}
       {panel.view === "features" && <FeaturesPanel features={agent.features} options={options} />}
-      {panel.view === "tokens" && <TokensPanel tokenCount={panel.tokenCount || 0} messageCount={agent.messages.length} />}
+      {panel.view === "tokens" && <TokensPanel tokenCount={panel.tokenCount || 0} messageCount={agent.messages.length} usage={agent.sessionUsage} />}
       {panel.view === "models" && (
         <ModelSelectionPanel
           currentModel={agent.currentModel}
@@ -563,6 +613,20 @@ function App({ options, backend }: AppProps): React.ReactElement {
             </Box>
           )}
 
+          {/* Live progress of running subagents */}
+          {agent.subagents.map((subagent) => (
+            <SubagentRunning
+              key={subagent.invocationId}
+              name={subagent.name}
+              task={subagent.task}
+              depth={subagent.depth}
+              steps={subagent.steps}
+              toolCalls={subagent.toolCalls}
+              currentTool={subagent.currentTool}
+              text={subagent.text}
+            />
+          ))}
+
           {/* Loading indicator when thinking or executing tools */}
           {(agent.status === "thinking" || agent.status === "tool-call") && !agent.streamingText && (
             <Box marginY={1}>
@@ -576,12 +640,17 @@ function App({ options, backend }: AppProps): React.ReactElement {
       {agent.error && <ErrorDisplay error={agent.error} />}
 
       {/* Approval UI - show when pending and not in auto-approve mode */}
-      {agent.pendingApproval && !agent.autoApproveEnabled && (
+      {agent.pendingApprovals && !agent.autoApproveEnabled && (
         <ToolApproval
-          toolName={agent.pendingApproval.toolName}
-          args={agent.pendingApproval.args}
-          onApprove={() => agent.respondToApproval(true)}
-          onDeny={() => agent.respondToApproval(false)}
+          key={agent.pendingApprovals[0]?.approvalId}
+          requests={agent.pendingApprovals}
+          onSubmit={(decisions) => agent.respondToApproval(decisions)}
+          onAlwaysAllow={(request, scope) => {
+            agent.alwaysAllow(request, scope).then(
+              (rule) => addSystemMessage(`Added approval rule: ${formatApprovalRule(rule)}`),
+              (err) => addSystemMessage(`Failed to add approval rule: ${err instanceof Error ? err.message : String(err)}`)
+            );
+          }}
           onApproveAll={() => {
             agent.setAutoApprove(true);
             agent.respondToApproval(true);
@@ -625,10 +694,16 @@ const TOOLS_WITH_SPECIFIC_EVENTS = new Set([
   "grep",
   "write_file",
   "edit_file",
+  "multi_edit",
+  "apply_patch",
+  "delete_file",
+  "move_file",
+  "copy_file",
   "write_todos",
   "web_search",
   "http_request",
   "fetch_url",
+  "crawl_site",
 ]);
 
 function EventRenderer({ event }: EventRendererProps): React.ReactElement | null {
@@ -689,6 +764,15 @@ function EventRenderer({ event }: EventRendererProps): React.ReactElement | null
     case "file-edited":
       return <FileEdited path={e.path} occurrences={e.occurrences} />;
 
+    case "file-deleted":
+      return <FileDeleted path={e.path} />;
+
+    case "file-moved":
+      return <FileTransferred from={e.from} to={e.to} />;
+
+    case "file-copied":
+      return <FileTransferred from={e.from} to={e.to} copied />;
+
     case "file-read":
       return <FileRead path={e.path} lines={e.lines} />;
 
@@ -717,6 +801,7 @@ function EventRenderer({ event }: EventRendererProps): React.ReactElement | null
           <Text>Found </Text>
           <Text color={colors.info}>{e.resultCount}</Text>
           <Text> results</Text>
+          {e.cached && <Text dimColor> (cached)</Text>}
         </Box>
       );
 
@@ -758,6 +843,7 @@ function EventRenderer({ event }: EventRendererProps): React.ReactElement | null
             {e.success ? "✓" : "✗"}{" "}
           </Text>
           <Text>{e.success ? "Content fetched" : "Failed to fetch"}</Text>
+          {e.cached && <Text dimColor> (cached)</Text>}
         </Box>
       );
 
@@ -767,6 +853,14 @@ function EventRenderer({ event }: EventRendererProps): React.ReactElement | null
     case "subagent-finish":
       return <SubagentFinish name={e.name} />;
 
+    case "budget-exceeded":
+      return (
+        <Box>
+          <Text color={colors.warning}>⚠️ Stopped: </Text>
+          <Text>{formatBudgetExceeded(e)}</Text>
+        </Box>
+      );
+
     case "done":
       return (
         <DoneIndicator
@@ -871,9 +965,11 @@ function FeaturesPanel({ features, options }: FeaturesPanelProps): React.ReactEl
 interface TokensPanelProps {
   tokenCount: number;
   messageCount: number;
+  /** Provider-reported usage of the session */
+  usage: TokenUsage;
 }
 
-function TokensPanel({ tokenCount, messageCount }: TokensPanelProps): React.ReactElement {
+function TokensPanel({ tokenCount, messageCount, usage }: TokensPanelProps): React.ReactElement {
   const formatNumber = (n: number) => n.toLocaleString();
   
   // Estimate percentage of typical context window (200k for Claude)
@@ -914,6 +1010,28 @@ function TokensPanel({ tokenCount, messageCount }: TokensPanelProps): React.Reac
         <Text color={usageColor}>{percentage}%</Text>
         <Text dimColor> (of ~200k)</Text>
       </Box>
+      {usage.totalTokens > 0 && (
+        <>
+          <Box height={1} />
+          <Text bold>Session Usage (reported by provider)</Text>
+          <Box>
+            <Text>Input: </Text>
+            <Text color={colors.primary}>{formatNumber(usage.inputTokens)}</Text>
+            <Text dimColor> ({formatNumber(usage.cachedInputTokens)} cached)</Text>
+          </Box>
+          <Box>
+            <Text>Output: </Text>
+            <Text color={colors.primary}>{formatNumber(usage.outputTokens)}</Text>
+            <Text dimColor> ({formatNumber(usage.reasoningTokens)} reasoning)</Text>
+          </Box>
+          {usage.cost !== undefined && (
+            <Box>
+              <Text>Cost: </Text>
+              <Text color={colors.primary}>${usage.cost.toFixed(4)}</Text>
+            </Box>
+          )}
+        </>
+      )}
       <Box height={1} />
       {percentage > 50 && (
         <Text color={colors.warning}>
@@ -129,7 +129,7 @@ export const SLASH_COMMANDS: SlashCommand[] = [
   {
     command: "/approve",
     aliases: [],
-    description: "Toggle auto-approve mode for tool executions",
+    description: "Toggle auto-approve mode (usage: /approve [rules|clear <scope>])",
   },
   {
     command: "/clear",
@@ -139,12 +139,12 @@ export const SLASH_COMMANDS: SlashCommand[] = [
   {
     command: "/sessions",
     aliases: ["/session-list"],
-    description: "List saved sessions",
+    description: "List saved sessions (usage: /sessions [search])",
   },
   {
     command: "/session",
     aliases: [],
-    description: "Session management (usage: /session clear)",
+    description: "Session management (usage: /session clear | prune [days])",
   },
   {
     command: "/help",
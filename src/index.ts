@@ -4,7 +4,7 @@
  * A TypeScript library for building controllable AI agents using Vercel AI SDK v6.
  * Implements the four pillars of deep agents:
  * - Planning tools (write_todos)
- * - Filesystem access (ls, read_file, write_file, edit_file, glob, grep)
+ * - Filesystem access (ls, read_file, write_file, edit_file, multi_edit, apply_patch, delete_file, move_file, copy_file, glob, grep)
  * - Subagent spawning (task)
  * - Detailed prompting
  */
@@ -20,15 +20,28 @@ export type {
   CreateDeepAgentParams,
   DeepAgentState,
   SubAgent,
+  SubagentToolGroup,
   TodoItem,
   FileData,
   FileInfo,
   GrepMatch,
   WriteResult,
   EditResult,
+  DeleteResult,
+  MoveResult,
   BackendProtocol,
   BackendFactory,
+  BackendPolicy,
+  NetworkPolicy,
   SummarizationConfig,
+  // Usage and cost types
+  TokenUsage,
+  ModelPrice,
+  PriceTable,
+  SubagentUsage,
+  RunUsage,
+  BudgetConfig,
+  BudgetExceeded,
   // Sandbox types
   ExecuteResponse,
   SandboxBackendProtocol,
@@ -44,6 +57,9 @@ export type {
   FileWriteStartEvent,
   FileWrittenEvent,
   FileEditedEvent,
+  FileDeletedEvent,
+  FileMovedEvent,
+  FileCopiedEvent,
   ExecuteStartEvent,
   ExecuteFinishEvent,
   WebSearchStartEvent,
@@ -54,8 +70,12 @@ export type {
   FetchUrlFinishEvent,
   SubagentStartEvent,
   SubagentFinishEvent,
+  SubagentEventSource,
+  FileConflict,
   ApprovalRequestedEvent,
   ApprovalResponseEvent,
+  InterruptEvent,
+  BudgetExceededEvent,
   CheckpointSavedEvent,
   CheckpointLoadedEvent,
   DoneEvent,
@@ -63,6 +83,9 @@ export type {
   // Approval configuration types
   InterruptOnConfig,
   DynamicApprovalConfig,
+  ApprovalRule,
+  ApprovalRuleScope,
+  ApprovalPolicyProtocol,
 } from "./types.ts";
 
 // Type guard for sandbox backends
@@ -73,10 +96,15 @@ export {
   StateBackend,
   FilesystemBackend,
   CompositeBackend,
+  PolicyBackend,
+  PolicySandbox,
+  withPolicy,
   PersistentBackend,
   InMemoryStore,
   type KeyValueStore,
   type PersistentBackendOptions,
+  SqliteStore,
+  type SqliteStoreOptions,
   // Sandbox backends
   BaseSandbox,
   LocalSandbox,
@@ -97,6 +125,27 @@ export {
   createWebTools,
   htmlToMarkdown,
   type CreateWebToolsOptions,
+  // Web search providers
+  TavilySearchProvider,
+  BraveSearchProvider,
+  SearxngSearchProvider,
+  BingSearchProvider,
+  FixtureSearchProvider,
+  type WebSearchProvider,
+  type WebSearchResult,
+  type WebSearchOptions,
+  type TavilySearchProviderOptions,
+  type BraveSearchProviderOptions,
+  type SearxngSearchProviderOptions,
+  type BingSearchProviderOptions,
+  type FixtureSearchProviderOptions,
+  // Web cache
+  WebCache,
+  type WebCacheOptions,
+  type CachedPage,
+  // Document extraction for fetch_url
+  extractContent,
+  type ExtractInput,
 } from "./tools/index.ts";
 
 // Prompts (for customization)
@@ -129,6 +178,23 @@ export {
   DEFAULT_KEEP_MESSAGES,
   type SummarizationOptions,
   type SummarizationResult,
+  findModelPrice,
+  calculateCost,
+  toTokenUsage,
+  addTokenUsage,
+  BudgetTracker,
+  formatBudgetExceeded,
+  ApprovalPolicy,
+  suggestApprovalRule,
+  formatApprovalRule,
+  type ApprovalPolicyOptions,
+  parseUnifiedDiff,
+  applyHunks,
+  type FilePatch,
+  type PatchHunk,
+  NetworkGuard,
+  getNetworkGuard,
+  type GuardedFetchOptions,
 } from "./utils/index.ts";
 
 // Checkpointer
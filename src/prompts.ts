@@ -47,6 +47,11 @@ You have access to a virtual filesystem. All file paths must start with a /.
 - read_file: read a file from the filesystem
 - write_file: write to a file in the filesystem
 - edit_file: edit a file in the filesystem
+- multi_edit: make several edits to one or more files at once
+- apply_patch: apply a unified diff to one or more files
+- delete_file: delete a file that is no longer needed
+- move_file: move or rename a file
+- copy_file: copy a file to a new path
 - glob: find files matching a pattern (e.g., "**/*.py")
 - grep: search for text within files`;
 
@@ -75,6 +80,7 @@ When NOT to use the task tool:
 
 ## Important Task Tool Usage Notes
 - Whenever possible, parallelize the work that you do. Whenever you have independent steps to complete - kick off tasks (subagents) in parallel to accomplish them faster.
+- Give parallel tasks separate files to work on. If two of them change the same file, only one version is kept and the task result lists the conflicts.
 - Remember to use the \`task\` tool to silo independent tasks within a multi-part objective.
 - You should use the \`task\` tool whenever you have a complex task that will take multiple steps, and is independent from other tasks that the agent needs to complete.`;
 
@@ -136,6 +142,10 @@ export const DEFAULT_GENERAL_PURPOSE_DESCRIPTION =
 export const DEFAULT_SUBAGENT_PROMPT =
   "In order to complete the objective that the user asks of you, you have access to a number of standard tools.";
 
+export const STRUCTURED_OUTPUT_PROMPT = `## Final answer
+
+Your final answer is read by code, not a person. When you are done, reply with only a JSON object matching the required output schema - no prose, no code fences.`;
+
 export const EXECUTE_SYSTEM_PROMPT = `## \`execute\` (shell command execution)
 
 You have access to an \`execute\` tool to run shell commands in the sandbox environment.
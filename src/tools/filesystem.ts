@@ -9,8 +9,17 @@ import type {
   DeepAgentState,
   BackendFactory,
   EventCallback,
+  FileData,
 } from "../types.ts";
 import { StateBackend } from "../backends/state.ts";
+import {
+  fileDataToString,
+  getBinaryMimeType,
+  isBinaryFileData,
+  isModelImageType,
+  performStringReplacement,
+} from "../backends/utils.ts";
+import { applyHunks, parseUnifiedDiff } from "../utils/patch.ts";
 import {
   evictToolResult,
   DEFAULT_EVICTION_TOKEN_LIMIT,
@@ -27,6 +36,16 @@ const GLOB_TOOL_DESCRIPTION =
   "Find files matching a glob pattern (e.g., '**/*.py' for all Python files). Paths are relative to the working directory.";
 const GREP_TOOL_DESCRIPTION =
   "Search for a regex pattern in files. Returns matching files and line numbers. Paths are relative to the working directory.";
+const DELETE_FILE_TOOL_DESCRIPTION =
+  "Delete a file. Use this to remove files that are no longer needed instead of emptying them. Paths are relative to the working directory.";
+const MOVE_FILE_TOOL_DESCRIPTION =
+  "Move or rename a file. Returns an error if the destination already exists. Paths are relative to the working directory.";
+const COPY_FILE_TOOL_DESCRIPTION =
+  "Copy a file to a new path. Returns an error if the destination already exists. Paths are relative to the working directory.";
+const MULTI_EDIT_TOOL_DESCRIPTION =
+  "Make several string replacements in one or more files in a single call. Edits to the same file are applied in order, each to the result of the previous one. If any edit fails, no file is changed. Paths are relative to the working directory.";
+const APPLY_PATCH_TOOL_DESCRIPTION =
+  "Apply a unified diff to one or more files. Each file starts with '--- path' and '+++ path' lines followed by '@@' hunks; use '/dev/null' as the old path to create a file or as the new path to delete one. If any hunk fails, no file is changed. Paths are relative to the working directory.";
 
 /**
  * Resolve backend from factory or instance.
@@ -88,6 +107,43 @@ function createLsTool(
   });
 }
 
+/**
+ * Image read by read_file, sent to the model as image content.
+ */
+interface ImageFileOutput {
+  type: "image";
+  path: string;
+  mimeType: string;
+  /** Base64-encoded image data */
+  data: string;
+}
+
+/**
+ * Read a file as an image if it is one models can view.
+ */
+async function readImageFile(
+  backend: BackendProtocol,
+  filePath: string
+): Promise<ImageFileOutput | undefined> {
+  // Avoid reading other files twice
+  if (!isModelImageType(getBinaryMimeType(filePath))) {
+    return undefined;
+  }
+
+  let fileData: FileData;
+  try {
+    fileData = await backend.readRaw(filePath);
+  } catch {
+    // Let read() report the error
+    return undefined;
+  }
+
+  if (!isBinaryFileData(fileData) || !isModelImageType(fileData.mimeType)) {
+    return undefined;
+  }
+  return { type: "image", path: filePath, mimeType: fileData.mimeType!, data: fileData.content[0] ?? "" };
+}
+
 /**
  * Create the read_file tool.
  */
@@ -95,7 +151,8 @@ function createReadFileTool(
   state: DeepAgentState,
   backend: BackendProtocol | BackendFactory,
   evictionLimit?: number,
-  onEvent?: EventCallback
+  onEvent?: EventCallback,
+  readImages: boolean = false
 ) {
   return tool({
     description: READ_FILE_TOOL_DESCRIPTION,
@@ -110,8 +167,17 @@ function createReadFileTool(
         .default(2000)
         .describe("Maximum number of lines to read"),
     }),
-    execute: async ({ file_path, offset, limit }, { toolCallId }) => {
+    execute: async ({ file_path, offset, limit }, { toolCallId }): Promise<string | ImageFileOutput> => {
       const resolvedBackend = getBackend(backend, state);
+
+      if (readImages) {
+        const image = await readImageFile(resolvedBackend, file_path);
+        if (image) {
+          onEvent?.({ type: "file-read", path: file_path, lines: 0 });
+          return image;
+        }
+      }
+
       const content = await resolvedBackend.read(file_path, offset ?? 0, limit ?? 2000);
       
       // Emit file-read event
@@ -138,6 +204,16 @@ function createReadFileTool(
       
       return content;
     },
+    toModelOutput: (output) =>
+      typeof output === "string"
+        ? { type: "text", value: output }
+        : {
+            type: "content",
+            value: [
+              { type: "text", text: `Image '${output.path}' (${output.mimeType}):` },
+              { type: "image-data", data: output.data, mediaType: output.mimeType },
+            ],
+          },
   });
 }
 
@@ -359,6 +435,450 @@ function createGrepTool(
   });
 }
 
+/**
+ * Create the delete_file tool.
+ */
+function createDeleteFileTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: DELETE_FILE_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      file_path: z.string().describe("Path to the file to delete (e.g., '/src/old.ts' or 'old.ts')"),
+    }),
+    execute: async ({ file_path }) => {
+      const resolvedBackend = getBackend(backend, state);
+      if (!resolvedBackend.delete) {
+        return "Error: Deleting files is not supported by this backend";
+      }
+
+      const result = await resolvedBackend.delete(file_path);
+
+      if (result.error) {
+        return result.error;
+      }
+
+      // Emit file-deleted event
+      if (onEvent) {
+        onEvent({
+          type: "file-deleted",
+          path: file_path,
+        });
+      }
+
+      return `Successfully deleted '${file_path}'`;
+    },
+  });
+}
+
+/**
+ * Create the move_file tool.
+ */
+function createMoveFileTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: MOVE_FILE_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      source_path: z.string().describe("Path of the file to move"),
+      destination_path: z.string().describe("New path for the file (must not exist)"),
+    }),
+    execute: async ({ source_path, destination_path }) => {
+      const resolvedBackend = getBackend(backend, state);
+      if (!resolvedBackend.move) {
+        return "Error: Moving files is not supported by this backend";
+      }
+
+      const result = await resolvedBackend.move(source_path, destination_path);
+
+      if (result.error) {
+        return result.error;
+      }
+
+      // Emit file-moved event
+      if (onEvent) {
+        onEvent({
+          type: "file-moved",
+          from: source_path,
+          to: destination_path,
+        });
+      }
+
+      return `Successfully moved '${source_path}' to '${destination_path}'`;
+    },
+  });
+}
+
+/**
+ * Create the copy_file tool.
+ */
+function createCopyFileTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: COPY_FILE_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      source_path: z.string().describe("Path of the file to copy"),
+      destination_path: z.string().describe("Path for the copy (must not exist)"),
+    }),
+    execute: async ({ source_path, destination_path }) => {
+      const resolvedBackend = getBackend(backend, state);
+      if (!resolvedBackend.copy) {
+        return "Error: Copying files is not supported by this backend";
+      }
+
+      const result = await resolvedBackend.copy(source_path, destination_path);
+
+      if (result.error) {
+        return result.error;
+      }
+
+      // Emit file-copied event
+      if (onEvent) {
+        onEvent({
+          type: "file-copied",
+          from: source_path,
+          to: destination_path,
+        });
+      }
+
+      return `Successfully copied '${source_path}' to '${destination_path}'`;
+    },
+  });
+}
+
+/**
+ * A file change planned by multi_edit or apply_patch.
+ */
+interface PlannedChange {
+  path: string;
+  /** Content before the change, undefined for new files */
+  oldContent?: string;
+  /** Content after the change, undefined for deleted files */
+  newContent?: string;
+  /** New path when the file is renamed */
+  movedTo?: string;
+  /** Number of replacements or hunks applied */
+  occurrences: number;
+}
+
+/**
+ * Read a text file to edit. Missing and binary files are errors.
+ */
+async function readTextFile(
+  backend: BackendProtocol,
+  path: string
+): Promise<{ content: string } | { error: string }> {
+  let fileData: FileData;
+  try {
+    fileData = await backend.readRaw(path);
+  } catch {
+    return { error: `File '${path}' not found` };
+  }
+  if (isBinaryFileData(fileData)) {
+    return { error: `'${path}' is a binary file and can't be edited` };
+  }
+  return { content: fileDataToString(fileData) };
+}
+
+/**
+ * Check if a file exists.
+ */
+async function fileExists(backend: BackendProtocol, path: string): Promise<boolean> {
+  try {
+    await backend.readRaw(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replace the whole content of a file. Returns an error message on failure.
+ */
+async function replaceContent(
+  backend: BackendProtocol,
+  path: string,
+  oldContent: string,
+  newContent: string
+): Promise<string | undefined> {
+  if (oldContent === newContent) {
+    return undefined;
+  }
+  if (oldContent === "") {
+    // edit() can't match an empty string, so recreate the file
+    const deleted = await backend.delete!(path);
+    if (deleted.error) {
+      return deleted.error;
+    }
+    const written = await backend.write(path, newContent);
+    if (written.error) {
+      // Put the empty file back
+      await backend.write(path, "");
+    }
+    return written.error;
+  }
+  // Matching the whole content also fails if the file changed since it was read
+  return (await backend.edit(path, oldContent, newContent, true)).error;
+}
+
+/**
+ * Apply one planned change. Returns an error message on failure.
+ */
+async function applyChange(backend: BackendProtocol, change: PlannedChange): Promise<string | undefined> {
+  const { path, oldContent, newContent, movedTo } = change;
+  if (oldContent === undefined) {
+    return (await backend.write(path, newContent ?? "")).error;
+  }
+  if (newContent === undefined) {
+    return (await backend.delete!(path)).error;
+  }
+  if (movedTo) {
+    const moved = await backend.move!(path, movedTo);
+    if (moved.error) {
+      return moved.error;
+    }
+    const error = await replaceContent(backend, movedTo, oldContent, newContent);
+    if (error) {
+      await backend.move!(movedTo, path);
+    }
+    return error;
+  }
+  return await replaceContent(backend, path, oldContent, newContent);
+}
+
+/**
+ * Revert a change made by applyChange.
+ */
+async function revertChange(backend: BackendProtocol, change: PlannedChange): Promise<void> {
+  const { path, oldContent, newContent, movedTo } = change;
+  if (oldContent === undefined) {
+    await backend.delete!(path);
+  } else if (newContent === undefined) {
+    await backend.write(path, oldContent);
+  } else {
+    await replaceContent(backend, movedTo ?? path, newContent, oldContent);
+    if (movedTo) {
+      await backend.move!(movedTo, path);
+    }
+  }
+}
+
+/**
+ * Apply planned changes all-or-nothing: if one fails, the ones already made
+ * are reverted. Emits file events only once every change succeeded.
+ */
+async function applyChanges(
+  backend: BackendProtocol,
+  changes: PlannedChange[],
+  unit: string,
+  onEvent?: EventCallback
+): Promise<string> {
+  const needs = (op: "delete" | "move", planned: (change: PlannedChange) => boolean) =>
+    !backend[op] && changes.some(planned);
+  if (needs("delete", (change) => change.newContent === undefined)) {
+    return "Error: Deleting files is not supported by this backend. No files were changed";
+  }
+  // Empty files are recreated as edit() can't match an empty string, and
+  // rolling back deletes created files and recreates emptied ones
+  const canRollBack = changes.length > 1;
+  const needsDelete = ({ oldContent, newContent }: PlannedChange) =>
+    oldContent === "" || (canRollBack && (oldContent === undefined || newContent === ""));
+  if (needs("delete", needsDelete)) {
+    return "Error: Creating or emptying files needs delete support, which this backend lacks. No files were changed";
+  }
+  if (needs("move", (change) => change.movedTo !== undefined)) {
+    return "Error: Moving files is not supported by this backend. No files were changed";
+  }
+
+  const applied: PlannedChange[] = [];
+  for (const change of changes) {
+    const error = await applyChange(backend, change);
+    if (error) {
+      // Revert newest first
+      for (const done of applied.reverse()) {
+        await revertChange(backend, done);
+      }
+      return `Error: ${error.replace(/^Error: /, "")}. No files were changed`;
+    }
+    applied.push(change);
+  }
+
+  const lines: string[] = [];
+  for (const { path, oldContent, newContent, movedTo, occurrences } of changes) {
+    if (oldContent === undefined) {
+      onEvent?.({ type: "file-written", path, content: newContent ?? "" });
+      lines.push(`- Created '${path}'`);
+    } else if (newContent === undefined) {
+      onEvent?.({ type: "file-deleted", path });
+      lines.push(`- Deleted '${path}'`);
+    } else {
+      if (movedTo) {
+        onEvent?.({ type: "file-moved", from: path, to: movedTo });
+        lines.push(`- Moved '${path}' to '${movedTo}'`);
+      }
+      if (occurrences > 0) {
+        onEvent?.({ type: "file-edited", path: movedTo ?? path, occurrences });
+        lines.push(`- Applied ${occurrences} ${unit}(s) to '${movedTo ?? path}'`);
+      }
+    }
+  }
+
+  return `Successfully changed ${changes.length} file(s):\n${lines.join("\n")}`;
+}
+
+/**
+ * Format the errors found while planning changes.
+ */
+function formatPlanErrors(errors: string[]): string {
+  return `Error: No files were changed because of ${errors.length} problem(s):\n${errors
+    .map((error) => `- ${error}`)
+    .join("\n")}`;
+}
+
+/**
+ * Create the multi_edit tool.
+ */
+function createMultiEditTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: MULTI_EDIT_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      edits: z
+        .array(
+          z.object({
+            file_path: z.string().describe("Path to the file to edit (e.g., '/src/main.ts' or 'main.ts')"),
+            old_string: z.string().describe("String to be replaced (must match exactly)"),
+            new_string: z.string().describe("String to replace with"),
+            replace_all: z
+              .boolean()
+              .default(false)
+              .describe("Whether to replace all occurrences"),
+          })
+        )
+        .min(1)
+        .describe("Edits to make, in order"),
+    }),
+    execute: async ({ edits }) => {
+      const resolvedBackend = getBackend(backend, state);
+
+      // Group the edits by file, keeping their numbers for error messages
+      const editsByPath = new Map<string, Array<{ number: number } & (typeof edits)[number]>>();
+      edits.forEach((edit, index) => {
+        const fileEdits = editsByPath.get(edit.file_path) ?? [];
+        fileEdits.push({ number: index + 1, ...edit });
+        editsByPath.set(edit.file_path, fileEdits);
+      });
+
+      const changes: PlannedChange[] = [];
+      const errors: string[] = [];
+      for (const [path, fileEdits] of editsByPath) {
+        const file = await readTextFile(resolvedBackend, path);
+        if ("error" in file) {
+          errors.push(file.error);
+          continue;
+        }
+
+        const oldContent = file.content;
+        let content = oldContent;
+        let occurrences = 0;
+        for (const edit of fileEdits) {
+          const result = edit.old_string
+            ? performStringReplacement(content, edit.old_string, edit.new_string, edit.replace_all ?? false)
+            : "old_string must not be empty";
+          if (typeof result === "string") {
+            errors.push(`Edit ${edit.number} in '${path}': ${result.replace(/^Error: /, "")}`);
+            continue;
+          }
+          content = result[0];
+          occurrences += result[1];
+        }
+        changes.push({ path, oldContent, newContent: content, occurrences });
+      }
+
+      if (errors.length > 0) {
+        return formatPlanErrors(errors);
+      }
+      return await applyChanges(resolvedBackend, changes, "replacement", onEvent);
+    },
+  });
+}
+
+/**
+ * Create the apply_patch tool.
+ */
+function createApplyPatchTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: APPLY_PATCH_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      patch: z.string().describe("Unified diff to apply"),
+    }),
+    execute: async ({ patch }) => {
+      const resolvedBackend = getBackend(backend, state);
+      const filePatches = parseUnifiedDiff(patch);
+      if (typeof filePatches === "string") {
+        return filePatches;
+      }
+
+      const changes: PlannedChange[] = [];
+      const errors: string[] = [];
+      const seen = new Set<string>();
+      for (const { oldPath, newPath, hunks } of filePatches) {
+        const path = (oldPath ?? newPath)!;
+        const movedTo = oldPath !== null && newPath !== null && newPath !== oldPath ? newPath : undefined;
+        const touched = movedTo ? [path, movedTo] : [path];
+        if (touched.some((p) => seen.has(p))) {
+          errors.push(`'${touched.find((p) => seen.has(p))}' is changed more than once in the patch`);
+          continue;
+        }
+        touched.forEach((p) => seen.add(p));
+
+        const file = oldPath === null ? undefined : await readTextFile(resolvedBackend, oldPath);
+        if (file && "error" in file) {
+          errors.push(file.error);
+          continue;
+        }
+        const oldContent = file?.content;
+        const target = oldPath === null ? newPath : movedTo;
+        if (target && (await fileExists(resolvedBackend, target))) {
+          errors.push(`Cannot write to '${target}' because it already exists`);
+          continue;
+        }
+
+        if (newPath === null) {
+          changes.push({ path, oldContent, occurrences: 0 });
+          continue;
+        }
+
+        const newContent = applyHunks(oldContent ?? "", hunks, path);
+        if (Array.isArray(newContent)) {
+          errors.push(...newContent);
+          continue;
+        }
+        changes.push({ path, oldContent, newContent, movedTo, occurrences: hunks.length });
+      }
+
+      if (errors.length > 0) {
+        return formatPlanErrors(errors);
+      }
+      return await applyChanges(resolvedBackend, changes, "hunk", onEvent);
+    },
+  });
+}
+
 /**
  * Options for creating filesystem tools.
  */
@@ -369,6 +889,8 @@ export interface CreateFilesystemToolsOptions {
   onEvent?: EventCallback;
   /** Token limit before evicting large tool results (default: disabled) */
   toolResultEvictionLimit?: number;
+  /** Return images from read_file as image content (default: false) */
+  readImages?: boolean;
 }
 
 /**
@@ -386,13 +908,15 @@ export function createFilesystemTools(
   let backend: BackendProtocol | BackendFactory | undefined;
   let eventCallback: EventCallback | undefined = onEvent;
   let evictionLimit: number | undefined;
+  let readImages = false;
 
-  if (backendOrOptions && typeof backendOrOptions === "object" && "backend" in backendOrOptions) {
+  if (backendOrOptions && typeof backendOrOptions === "object" && !("readRaw" in backendOrOptions)) {
     // New options API
     const options = backendOrOptions as CreateFilesystemToolsOptions;
     backend = options.backend;
     eventCallback = options.onEvent;
     evictionLimit = options.toolResultEvictionLimit;
+    readImages = options.readImages ?? false;
   } else {
     // Old API (backend directly)
     backend = backendOrOptions as BackendProtocol | BackendFactory | undefined;
@@ -404,10 +928,15 @@ export function createFilesystemTools(
 
   return {
     ls: createLsTool(state, resolvedBackend, eventCallback),
-    read_file: createReadFileTool(state, resolvedBackend, evictionLimit, eventCallback),
+    read_file: createReadFileTool(state, resolvedBackend, evictionLimit, eventCallback, readImages),
     write_file: createWriteFileTool(state, resolvedBackend, eventCallback),
     edit_file: createEditFileTool(state, resolvedBackend, eventCallback),
     glob: createGlobTool(state, resolvedBackend, eventCallback),
     grep: createGrepTool(state, resolvedBackend, evictionLimit, eventCallback),
+    delete_file: createDeleteFileTool(state, resolvedBackend, eventCallback),
+    move_file: createMoveFileTool(state, resolvedBackend, eventCallback),
+    copy_file: createCopyFileTool(state, resolvedBackend, eventCallback),
+    multi_edit: createMultiEditTool(state, resolvedBackend, eventCallback),
+    apply_patch: createApplyPatchTool(state, resolvedBackend, eventCallback),
   };
 }
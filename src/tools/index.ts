@@ -11,4 +11,21 @@ export {
   type CreateExecuteToolOptions,
 } from "./execute.ts";
 export { createWebTools, htmlToMarkdown, type CreateWebToolsOptions } from "./web.ts";
+export {
+  TavilySearchProvider,
+  BraveSearchProvider,
+  SearxngSearchProvider,
+  BingSearchProvider,
+  FixtureSearchProvider,
+  type WebSearchProvider,
+  type WebSearchResult,
+  type WebSearchOptions,
+  type TavilySearchProviderOptions,
+  type BraveSearchProviderOptions,
+  type SearxngSearchProviderOptions,
+  type BingSearchProviderOptions,
+  type FixtureSearchProviderOptions,
+} from "./web-search.ts";
+export { WebCache, type WebCacheOptions, type CachedPage } from "./web-cache.ts";
+export { extractContent, type ExtractInput } from "./web-extractors.ts";
 
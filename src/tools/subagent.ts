@@ -2,17 +2,46 @@
  * Subagent tool for task delegation using AI SDK v6 ToolLoopAgent.
  */
 
-import { tool, ToolLoopAgent, stepCountIs, type ToolSet, type LanguageModel } from "ai";
+import {
+  tool,
+  ToolLoopAgent,
+  Output,
+  stepCountIs,
+  type ToolSet,
+  type LanguageModel,
+  type LanguageModelUsage,
+  type TextStreamPart,
+  type LanguageModelMiddleware,
+  wrapLanguageModel,
+} from "ai";
 import { z } from "zod";
 import type {
   SubAgent,
   DeepAgentState,
   BackendProtocol,
   BackendFactory,
+  SandboxBackendProtocol,
   EventCallback,
   InterruptOnConfig,
+  ApprovalPolicyProtocol,
+  PriceTable,
+  StepFinishEvent,
+  TokenUsage,
+  SubagentEventSource,
+  SubagentToolGroup,
+  FileData,
+  FileConflict,
+  NetworkPolicy,
 } from "../types.ts";
-import { applyInterruptConfig } from "../utils/approval.ts";
+import { isSandboxBackend } from "../types.ts";
+import { applyInterruptConfig, applyApprovalPolicy, rejectApprovalRequests } from "../utils/approval.ts";
+import { addTokenUsage, getModelId, toTokenUsage } from "../utils/usage.ts";
+import {
+  applyBudget,
+  budgetExceeded,
+  formatBudgetExceeded,
+  type BudgetTracker,
+} from "../utils/budget.ts";
 import {
   getTaskToolDescription,
   DEFAULT_GENERAL_PURPOSE_DESCRIPTION,
@@ -20,9 +49,24 @@ import {
   TODO_SYSTEM_PROMPT,
   FILESYSTEM_SYSTEM_PROMPT,
   BASE_PROMPT,
+  EXECUTE_SYSTEM_PROMPT,
+  TASK_SYSTEM_PROMPT,
+  STRUCTURED_OUTPUT_PROMPT,
+  buildSkillsPrompt,
 } from "../prompts.ts";
+import { Semaphore } from "../utils/semaphore.ts";
 import { createTodosTool } from "./todos.ts";
 import { createFilesystemTools } from "./filesystem.ts";
+import { createExecuteTool } from "./execute.ts";
+import { createWebTools } from "./web.ts";
+import type { WebSearchProvider } from "./web-search.ts";
+import type { WebCache } from "./web-cache.ts";
+
+/** Step limit of subagents without `maxSteps` (allows substantial work) */
+const DEFAULT_SUBAGENT_MAX_STEPS = 50;
+
+/** Tool groups subagents inherit when `inheritTools` is not set */
+const DEFAULT_INHERITED_TOOLS: SubagentToolGroup[] = ["todos", "filesystem"];
 
 /**
  * Options for creating the subagent tool.
@@ -32,6 +76,10 @@ export interface CreateSubagentToolOptions {
   defaultModel: LanguageModel;
   /** Default tools available to all subagents */
   defaultTools?: ToolSet;
+  /** Default model middleware for subagents (the parent's middleware) */
+  defaultMiddleware?: LanguageModelMiddleware | LanguageModelMiddleware[];
+  /** Skills of the parent agent that subagents can use */
+  skills?: Array<{ name: string; description: string; path: string }>;
   /** List of custom subagent specifications */
   subagents?: SubAgent[];
   /** Whether to include the general-purpose agent */
@@ -44,19 +92,246 @@ export interface CreateSubagentToolOptions {
   onEvent?: EventCallback;
   /** Interrupt config to pass to subagents */
   interruptOn?: InterruptOnConfig;
+  /** Approval policy to apply to subagent tools */
+  approvalPolicy?: ApprovalPolicyProtocol;
+  /** Model prices for the cost of subagent usage */
+  pricing?: PriceTable;
+  /** Budget of the parent run, shared with subagents */
+  budget?: BudgetTracker;
+  /** Nesting depth of the agent the tool belongs to (default: 0, the main agent) */
+  depth?: number;
+  /** Maximum number of subagents running at once; further calls are queued (default: unlimited) */
+  maxConcurrency?: number;
+  /** Slots of the whole run, passed on to nested task tools (default: a new semaphore of `maxConcurrency`) */
+  slots?: Semaphore;
+  /** Slot of the subagent the tool belongs to, lent to its own subagents while they run */
+  parentSlot?: Semaphore;
+  /** Maximum subagent nesting depth (default: 3) */
+  maxDepth?: number;
+  /** Token limit for tool result eviction in inherited web tools */
+  toolResultEvictionLimit?: number;
+  /** Return images from read_file as image content (default: false) */
+  readImages?: boolean;
+  /** Search provider for inherited web tools */
+  webSearchProvider?: WebSearchProvider;
+  /** Network policy for inherited web tools */
+  networkPolicy?: NetworkPolicy;
+  /** Cache for inherited web tools */
+  webCache?: WebCache;
+}
+
+/**
+ * Build the system prompt for a subagent with the given tool groups.
+ */
+function buildSubagentSystemPrompt(
+  customPrompt: string,
+  toolGroups: Set<SubagentToolGroup>,
+  options: {
+    structuredOutput?: boolean;
+    skills?: Array<{ name: string; description: string; path: string }>;
+  } = {}
+): string {
+  const { structuredOutput = false, skills = [] } = options;
+  const parts = [customPrompt, BASE_PROMPT];
+
+  if (toolGroups.has("todos")) {
+    parts.push(TODO_SYSTEM_PROMPT);
+  }
+  if (toolGroups.has("filesystem")) {
+    parts.push(FILESYSTEM_SYSTEM_PROMPT);
+  }
+  if (toolGroups.has("execute")) {
+    parts.push(EXECUTE_SYSTEM_PROMPT);
+  }
+  if (toolGroups.has("task")) {
+    parts.push(TASK_SYSTEM_PROMPT);
+  }
+  if (skills.length > 0) {
+    parts.push(buildSkillsPrompt(skills));
+  }
+  if (structuredOutput) {
+    parts.push(STRUCTURED_OUTPUT_PROMPT);
+  }
+
+  return parts.join("\n\n");
+}
+
+/**
+ * Wrap a subagent's model with its middleware, if any.
+ */
+function applyMiddleware(
+  model: LanguageModel,
+  middleware: LanguageModelMiddleware | LanguageModelMiddleware[] | undefined
+): LanguageModel {
+  const middlewares = middleware === undefined ? [] : Array.isArray(middleware) ? middleware : [middleware];
+  if (middlewares.length === 0) {
+    return model;
+  }
+  return wrapLanguageModel({
+    model: model as any, // Cast required since wrapLanguageModel expects LanguageModelV3
+    middleware: middlewares,
+  }) as LanguageModel;
+}
+
+/**
+ * Tracks the files changed by the running invocations of one task tool.
+ *
+ * Each subagent works on a copy of the parent's files. When it finishes, its
+ * changes are merged into the parent state unless another agent changed the
+ * same file in the meantime. Files written by overlapping invocations are
+ * reported as conflicts, also with backends that write directly (like the
+ * filesystem).
+ */
+class SubagentFileTracker {
+  private seq = 0;
+  private running = new Map<
+    string,
+    { startSeq: number; snapshot: Record<string, FileData>; written: Set<string> }
+  >();
+  /** Path -> invocation ID -> sequence number of its last write */
+  private writes = new Map<string, Map<string, number>>();
+
+  /**
+   * Register a starting invocation. Returns the files it works on.
+   */
+  start(invocationId: string, files: Record<string, FileData>): Record<string, FileData> {
+    this.running.set(invocationId, {
+      startSeq: ++this.seq,
+      snapshot: { ...files },
+      written: new Set(),
+    });
+    return { ...files };
+  }
+
+  recordWrite(invocationId: string, path: string): void {
+    this.running.get(invocationId)?.written.add(path);
+    if (!this.writes.has(path)) {
+      this.writes.set(path, new Map());
+    }
+    this.writes.get(path)!.set(invocationId, ++this.seq);
+  }
+
+  /**
+   * Merge a finished invocation's files into the parent state.
+   * Returns the conflicts found.
+   */
+  finish(
+    invocationId: string,
+    state: DeepAgentState,
+    files: Record<string, FileData>
+  ): FileConflict[] {
+    const run = this.running.get(invocationId);
+    if (!run) {
+      return [];
+    }
+    this.running.delete(invocationId);
+
+    const paths = new Set([...run.written, ...Object.keys(files), ...Object.keys(run.snapshot)]);
+    const merged = { ...state.files };
+    const conflicts: FileConflict[] = [];
+
+    for (const path of paths) {
+      const changedHere = files[path] !== run.snapshot[path];
+      if (!changedHere && !run.written.has(path)) {
+        continue;
+      }
+
+      // Other invocations that wrote the file while this one was running
+      const conflictsWith = [...(this.writes.get(path) ?? [])]
+        .filter(
+          ([other, seq]) =>
+            other !== invocationId && (seq > run.startSeq || this.running.has(other))
+        )
+        .map(([other]) => other);
+
+      if (changedHere) {
+        if (state.files[path] !== run.snapshot[path]) {
+          conflicts.push({ path, conflictsWith, resolution: "kept-existing" });
+          continue;
+        }
+        if (files[path] === undefined) {
+          delete merged[path];
+        } else {
+          merged[path] = files[path];
+        }
+      }
+
+      if (conflictsWith.length > 0) {
+        conflicts.push({ path, conflictsWith, resolution: "overwritten" });
+      }
+    }
+
+    state.files = merged;
+    if (this.running.size === 0) {
+      this.writes.clear();
+    }
+    return conflicts;
+  }
 }
 
 /**
- * Build the system prompt for a subagent.
+ * Forward a subagent's stream as events: text, steps, tool calls and results.
+ * Consumes the whole stream; stream errors are thrown.
  */
-function buildSubagentSystemPrompt(customPrompt: string): string {
-  return `${customPrompt}
+async function forwardSubagentStream(
+  fullStream: AsyncIterable<TextStreamPart<ToolSet>>,
+  onEvent: EventCallback | undefined,
+  getStepUsage: (step: { usage: LanguageModelUsage; response: { modelId: string } }) => TokenUsage
+): Promise<void> {
+  let stepNumber = 0;
+  let toolCalls: StepFinishEvent["toolCalls"] = [];
+  const toolCallIndex = new Map<string, number>();
+
+  for await (const part of fullStream) {
+    switch (part.type) {
+      case "start-step":
+        stepNumber++;
+        toolCalls = [];
+        toolCallIndex.clear();
+        onEvent?.({ type: "step-start", stepNumber });
+        break;
+
+      case "text-delta":
+        if (part.text) {
+          onEvent?.({ type: "text", text: part.text });
+        }
+        break;
+
+      case "tool-call":
+        toolCallIndex.set(part.toolCallId, toolCalls.length);
+        toolCalls.push({ toolName: part.toolName, args: part.input, result: undefined });
+        onEvent?.({
+          type: "tool-call",
+          toolName: part.toolName,
+          toolCallId: part.toolCallId,
+          args: part.input,
+        });
+        break;
 
-${BASE_PROMPT}
+      case "tool-result":
+      case "tool-error": {
+        const result = part.type === "tool-result" ? part.output : String(part.error);
+        const index = toolCallIndex.get(part.toolCallId);
+        if (index !== undefined) {
+          toolCalls[index]!.result = result;
+        }
+        onEvent?.({
+          type: "tool-result",
+          toolName: part.toolName,
+          toolCallId: part.toolCallId,
+          result,
+        });
+        break;
+      }
 
-${TODO_SYSTEM_PROMPT}
+      case "finish-step":
+        onEvent?.({ type: "step-finish", stepNumber, toolCalls, usage: getStepUsage(part) });
+        break;
 
-${FILESYSTEM_SYSTEM_PROMPT}`;
+      case "error":
+        throw part.error;
+    }
+  }
 }
 
 /**
@@ -69,27 +344,80 @@ export function createSubagentTool(
   const {
     defaultModel,
     defaultTools = {},
+    defaultMiddleware,
+    skills = [],
     subagents = [],
     includeGeneralPurposeAgent = true,
     backend,
     taskDescription = null,
     onEvent,
     interruptOn,
+    approvalPolicy,
+    pricing,
+    budget,
+    depth = 0,
+    maxConcurrency = Infinity,
+    slots = new Semaphore(maxConcurrency),
+    parentSlot,
+    maxDepth = 3,
+    toolResultEvictionLimit,
+    readImages,
+    webSearchProvider,
+    networkPolicy,
+    webCache,
   } = options;
 
+  // Shared by all invocations of this tool, so parallel task calls have
+  // their file changes checked against each other
+  const fileTracker = new SubagentFileTracker();
+
+  const getSandbox = (subagentBackend: BackendProtocol | BackendFactory | undefined) =>
+    typeof subagentBackend !== "function" &&
+    subagentBackend !== undefined &&
+    isSandboxBackend(subagentBackend)
+      ? subagentBackend
+      : undefined;
+
+  // Drop tool groups that are unavailable to subagents of this tool:
+  // execute needs a sandbox, task must stay within the depth limit
+  const resolveToolGroups = (
+    groups: SubagentToolGroup[] = DEFAULT_INHERITED_TOOLS,
+    sandbox: SandboxBackendProtocol | undefined
+  ) =>
+    new Set(
+      groups.filter(
+        (group) => (group !== "execute" || sandbox) && (group !== "task" || depth + 1 < maxDepth)
+      )
+    );
+
   // Build subagent registry
   const subagentRegistry: Record<
     string,
-    { systemPrompt: string; tools: ToolSet; model: LanguageModel }
+    {
+      systemPrompt: string;
+      tools: ToolSet;
+      model: LanguageModel;
+      toolGroups: Set<SubagentToolGroup>;
+      backend?: BackendProtocol | BackendFactory;
+      sandbox?: SandboxBackendProtocol;
+      maxSteps: number;
+      outputSchema?: z.ZodType;
+    }
   > = {};
   const subagentDescriptions: string[] = [];
 
   // Add general-purpose agent if enabled
   if (includeGeneralPurposeAgent) {
+    const sandbox = getSandbox(backend);
+    const toolGroups = resolveToolGroups(undefined, sandbox);
     subagentRegistry["general-purpose"] = {
-      systemPrompt: buildSubagentSystemPrompt(DEFAULT_SUBAGENT_PROMPT),
+      systemPrompt: buildSubagentSystemPrompt(DEFAULT_SUBAGENT_PROMPT, toolGroups, { skills }),
       tools: defaultTools,
-      model: defaultModel,
+      model: applyMiddleware(defaultModel, defaultMiddleware),
+      toolGroups,
+      backend,
+      sandbox,
+      maxSteps: DEFAULT_SUBAGENT_MAX_STEPS,
     };
     subagentDescriptions.push(
       `- general-purpose: ${DEFAULT_GENERAL_PURPOSE_DESCRIPTION}`
@@ -98,12 +426,31 @@ export function createSubagentTool(
 
   // Add custom subagents
   for (const subagent of subagents) {
+    const subagentBackend = subagent.backend ?? backend;
+    const sandbox = getSandbox(subagentBackend);
+    const toolGroups = resolveToolGroups(subagent.inheritTools, sandbox);
     subagentRegistry[subagent.name] = {
-      systemPrompt: buildSubagentSystemPrompt(subagent.systemPrompt),
+      systemPrompt: buildSubagentSystemPrompt(subagent.systemPrompt, toolGroups, {
+        structuredOutput: !!subagent.outputSchema,
+        // All of the parent's skills unless the subagent selects some
+        skills: subagent.skills
+          ? skills.filter((skill) => subagent.skills!.includes(skill.name))
+          : skills,
+      }),
       tools: subagent.tools || defaultTools,
-      model: subagent.model || defaultModel,
+      model: applyMiddleware(
+        subagent.model || defaultModel,
+        subagent.middleware ?? defaultMiddleware
+      ),
+      toolGroups,
+      backend: subagentBackend,
+      sandbox,
+      maxSteps: subagent.maxSteps ?? DEFAULT_SUBAGENT_MAX_STEPS,
+      outputSchema: subagent.outputSchema,
     };
-    subagentDescriptions.push(`- ${subagent.name}: ${subagent.description}`);
+    subagentDescriptions.push(
+      `- ${subagent.name}: ${subagent.description}${subagent.outputSchema ? " (returns a JSON object)" : ""}`
+    );
   }
 
   const finalTaskDescription =
@@ -121,7 +468,7 @@ export function createSubagentTool(
           `Name of the agent to use. Available: ${Object.keys(subagentRegistry).join(", ")}`
         ),
     }),
-    execute: async ({ description, subagent_type }) => {
+    execute: async ({ description, subagent_type }, { toolCallId, abortSignal }) => {
       // Validate subagent type
       if (!(subagent_type in subagentRegistry)) {
         const allowedTypes = Object.keys(subagentRegistry)
@@ -136,33 +483,117 @@ export function createSubagentTool(
       const subagentSpec = subagents.find((sa) => sa.name === subagent_type);
       const subagentInterruptOn = subagentSpec?.interruptOn ?? interruptOn;
 
+      // The task tool call identifies this invocation in the parent's stream
+      const invocationId = toolCallId;
+      const subagentDepth = depth + 1;
+      const source: SubagentEventSource = {
+        invocationId,
+        name: subagent_type,
+        depth: subagentDepth,
+      };
+
+      // Wait for a free slot. Nested subagents take a free one of the run or
+      // else the slot of their parent, which waits for them; waiting for the
+      // run's slots there could deadlock with all slots held by parents
+      let release: () => void;
+      try {
+        release =
+          (parentSlot && slots.tryAcquire()) ?? (await (parentSlot ?? slots).acquire(abortSignal));
+      } catch {
+        return "Error: subagent was cancelled while waiting to start";
+      }
+
+      // Record file writes for conflict detection and tag events emitted
+      // inside the subagent (nested subagents keep their own tag)
+      const subagentOnEvent: EventCallback = (event) => {
+        if (
+          event.type === "file-written" ||
+          event.type === "file-edited" ||
+          event.type === "file-deleted"
+        ) {
+          fileTracker.recordWrite(invocationId, event.path);
+        } else if (event.type === "file-moved") {
+          fileTracker.recordWrite(invocationId, event.from);
+          fileTracker.recordWrite(invocationId, event.to);
+        } else if (event.type === "file-copied") {
+          fileTracker.recordWrite(invocationId, event.to);
+        }
+        onEvent?.({ ...event, subagent: event.subagent ?? source });
+      };
+
       // Emit subagent start event
       if (onEvent) {
         onEvent({
           type: "subagent-start",
           name: subagent_type,
           task: description,
+          invocationId,
+          depth: subagentDepth,
         });
       }
 
-      // Create a fresh state for the subagent (shares files but have own todos)
+      // Create a fresh state for the subagent: own todos and a copy of the
+      // files, merged back into the parent when it finishes
       const subagentState: DeepAgentState = {
         todos: [],
-        files: state.files, // Share files with parent
+        files: fileTracker.start(invocationId, state.files),
       };
 
-      // Build tools for subagent (pass event callback for file events)
-      const todosTool = createTodosTool(subagentState, onEvent);
-      const filesystemTools = createFilesystemTools(subagentState, backend, onEvent);
-
-      let allTools: ToolSet = {
-        write_todos: todosTool,
-        ...filesystemTools,
-        ...subagentConfig.tools,
-      };
+      // Build the inherited built-in tools (pass event callback for file events)
+      const { toolGroups, backend: subagentBackend, sandbox } = subagentConfig;
+      let allTools: ToolSet = {};
+      if (toolGroups.has("todos")) {
+        allTools.write_todos = createTodosTool(subagentState, subagentOnEvent);
+      }
+      if (toolGroups.has("filesystem")) {
+        allTools = {
+          ...allTools,
+          ...createFilesystemTools(subagentState, {
+            backend: subagentBackend,
+            onEvent: subagentOnEvent,
+            readImages,
+          }),
+        };
+      }
+      if (toolGroups.has("web")) {
+        allTools = {
+          ...allTools,
+          ...createWebTools(subagentState, {
+            backend: subagentBackend,
+            onEvent: subagentOnEvent,
+            toolResultEvictionLimit,
+            searchProvider: webSearchProvider,
+            networkPolicy,
+            cache: webCache,
+          }),
+        };
+      }
+      if (toolGroups.has("execute") && sandbox) {
+        allTools.execute = createExecuteTool({ backend: sandbox, onEvent: subagentOnEvent });
+      }
+      if (toolGroups.has("task")) {
+        // Nested subagents report through this subagent's events and state
+        allTools.task = createSubagentTool(subagentState, {
+          ...options,
+          backend: subagentBackend,
+          onEvent: subagentOnEvent,
+          depth: subagentDepth,
+          slots,
+          parentSlot: new Semaphore(1),
+        });
+      }
+      allTools = { ...allTools, ...subagentConfig.tools };
 
       // Apply interruptOn config - use subagent's own config if provided, otherwise parent's
       allTools = applyInterruptConfig(allTools, subagentInterruptOn);
+      allTools = applyApprovalPolicy(allTools, approvalPolicy);
+      // Subagents can't be resumed, so calls needing approval fail instead
+      allTools = rejectApprovalRequests(allTools);
+      allTools = applyBudget(allTools, budget);
+
+      // Price each step with the model that actually answered it
+      const getStepUsage = (step: { usage: LanguageModelUsage; response: { modelId: string } }) =>
+        toTokenUsage(step.usage, step.response.modelId || getModelId(subagentConfig.model), pricing);
 
       try {
         // Create and run a ToolLoopAgent for the subagent
@@ -170,40 +601,78 @@ export function createSubagentTool(
           model: subagentConfig.model,
           instructions: subagentConfig.systemPrompt,
           tools: allTools,
-          stopWhen: stepCountIs(50), // Allow substantial work
+          stopWhen: budget
+            ? [stepCountIs(subagentConfig.maxSteps), budgetExceeded(budget)]
+            : stepCountIs(subagentConfig.maxSteps),
+          // Count every step against the run's budget as it finishes
+          onStepFinish: budget ? (step) => budget.addUsage(getStepUsage(step)) : undefined,
+          // Structured subagents finish with a JSON object matching their schema
+          output: subagentConfig.outputSchema
+            ? Output.object({ schema: subagentConfig.outputSchema })
+            : undefined,
         });
 
-        const result = await subagentAgent.generate({ prompt: description });
+        const result = await subagentAgent.stream({ prompt: description, abortSignal });
+        await forwardSubagentStream(result.fullStream, subagentOnEvent, getStepUsage);
+        const text = await result.text;
 
-        // Merge any file changes back to parent state
-        state.files = { ...state.files, ...subagentState.files };
+        // Validate the final answer (unless the budget cut the subagent short)
+        const output =
+          subagentConfig.outputSchema && !budget?.exceeded ? await result.output : undefined;
 
-        const resultText = result.text || "Task completed successfully.";
+        // Merge file changes back to parent state, keeping conflicting changes out
+        const conflicts = fileTracker.finish(invocationId, state, subagentState.files);
+
+        let resultText = text || "Task completed successfully.";
+        if (budget?.exceeded) {
+          const stopped = `Task stopped early: ${formatBudgetExceeded(budget.exceeded)}.`;
+          resultText = text ? `${text}\n\n${stopped}` : stopped;
+        }
+
+        const usage = addTokenUsage(...(await result.steps).map(getStepUsage));
 
         // Emit subagent finish event
         if (onEvent) {
           onEvent({
             type: "subagent-finish",
             name: subagent_type,
+            task: description,
+            invocationId,
+            depth: subagentDepth,
             result: resultText,
+            ...(output !== undefined ? { output } : {}),
+            usage,
+            ...(conflicts.length > 0 ? { conflicts } : {}),
           });
         }
 
-        return resultText;
+        const resultValue = output !== undefined ? output : resultText;
+        if (conflicts.length > 0) {
+          return { result: resultValue, conflicts };
+        }
+        return resultValue;
       } catch (error: unknown) {
         const err = error as Error;
         const errorMessage = `Error executing subagent: ${err.message}`;
 
+        // Keep the files the subagent changed before failing
+        fileTracker.finish(invocationId, state, subagentState.files);
+
         // Emit subagent finish event with error
         if (onEvent) {
           onEvent({
             type: "subagent-finish",
             name: subagent_type,
+            task: description,
+            invocationId,
+            depth: subagentDepth,
             result: errorMessage,
           });
         }
 
         return errorMessage;
+      } finally {
+        release();
       }
     },
   });
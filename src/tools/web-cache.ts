@@ -0,0 +1,200 @@
+/**
+ * Response cache for the fetch_url and web_search tools.
+ */
+
+import { InMemoryStore, type KeyValueStore } from "../backends/persistent.ts";
+import type { WebSearchOptions, WebSearchResult } from "./web-search.ts";
+
+/**
+ * Options for WebCache.
+ */
+export interface WebCacheOptions {
+  /**
+   * Store for cached responses (default: InMemoryStore).
+   * Use a persistent store such as SqliteStore to reuse results across runs.
+   */
+  store?: KeyValueStore;
+  /** Namespace for cache entries in the store (default: ["web-cache"]) */
+  namespace?: string[];
+  /**
+   * How long entries stay fresh, in seconds (default: 3600).
+   * Use Infinity to keep entries until they are cleared.
+   */
+  ttlSeconds?: number;
+  /**
+   * Follow the Cache-Control and Expires headers of fetched pages, using
+   * `ttlSeconds` only for pages without them (default: true).
+   * Search results are always cached for `ttlSeconds`.
+   */
+  respectCacheHeaders?: boolean;
+}
+
+/**
+ * A page fetched by fetch_url.
+ */
+export interface CachedPage {
+  /** Final URL after redirects */
+  url: string;
+  status: number;
+  contentType: string;
+  /** Response body: text, or base64 for binary documents such as PDFs */
+  body: string;
+  encoding?: "base64";
+}
+
+/**
+ * Stored cache entry.
+ */
+interface CacheEntry<T> {
+  value: T;
+  /** Expiry time in milliseconds since the epoch, null for never */
+  expiresAt: number | null;
+}
+
+/**
+ * Lifetime of a response in seconds according to its cache headers, or
+ * undefined if the headers don't say.
+ */
+function headerLifetime(headers: Headers): number | undefined {
+  const cacheControl = headers.get("cache-control")?.toLowerCase() ?? "";
+  if (/(^|,)\s*(no-store|no-cache)\b/.test(cacheControl)) {
+    return 0;
+  }
+
+  const maxAge = /(^|,)\s*max-age=(\d+)/.exec(cacheControl);
+  if (maxAge) {
+    return Number(maxAge[2]);
+  }
+
+  const expires = headers.get("expires");
+  if (expires) {
+    const expiresAt = Date.parse(expires);
+    // Invalid dates mean already expired
+    return Number.isNaN(expiresAt) ? 0 : Math.max(0, (expiresAt - Date.now()) / 1000);
+  }
+
+  return undefined;
+}
+
+/**
+ * Cache for fetched pages and search results, keyed by URL and query.
+ *
+ * Pass the same cache to several agents (or let subagents inherit it) to
+ * share results. Entries are stored through a `KeyValueStore`, so they can
+ * be persisted for reproducible research runs.
+ *
+ * Cached pages are still checked against the network policy of the tool
+ * reading them, so a page cached under a looser policy isn't served under a
+ * stricter one.
+ *
+ * @example Persistent cache
+ * ```typescript
+ * const webCache = new WebCache({
+ *   store: new SqliteStore({ path: './.cache/web.db' }),
+ *   ttlSeconds: 24 * 60 * 60,
+ * });
+ * const agent = createDeepAgent({ model, webCache });
+ * ```
+ */
+export class WebCache {
+  private store: KeyValueStore;
+  private namespace: string[];
+  private ttlSeconds: number;
+  private respectCacheHeaders: boolean;
+
+  constructor(options: WebCacheOptions = {}) {
+    this.store = options.store ?? new InMemoryStore();
+    this.namespace = options.namespace ?? ["web-cache"];
+    this.ttlSeconds = options.ttlSeconds ?? 3600;
+    this.respectCacheHeaders = options.respectCacheHeaders ?? true;
+  }
+
+  /**
+   * Store key for a URL or search. Encoded because stores such as
+   * InMemoryStore use ':' as the namespace separator.
+   */
+  private storeKey(key: string): string {
+    return encodeURIComponent(key);
+  }
+
+  private async get<T>(kind: string, key: string): Promise<T | undefined> {
+    const namespace = [...this.namespace, kind];
+    const entry = (await this.store.get(namespace, this.storeKey(key))) as CacheEntry<T> | undefined;
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await this.store.delete(namespace, this.storeKey(key));
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  private async put<T>(kind: string, key: string, value: T, lifetimeSeconds: number): Promise<void> {
+    if (!(lifetimeSeconds > 0)) {
+      return;
+    }
+    const entry: CacheEntry<T> = {
+      value,
+      expiresAt: Number.isFinite(lifetimeSeconds) ? Date.now() + lifetimeSeconds * 1000 : null,
+    };
+    await this.store.put([...this.namespace, kind], this.storeKey(key), entry as unknown as Record<string, unknown>);
+  }
+
+  private searchKey(providerName: string, query: string, options: WebSearchOptions): string {
+    return JSON.stringify([providerName, query, options.maxResults, options.topic, options.includeRawContent]);
+  }
+
+  /**
+   * Cached page for a URL, if fresh.
+   */
+  async getPage(url: string): Promise<CachedPage | undefined> {
+    return await this.get<CachedPage>("pages", url);
+  }
+
+  /**
+   * Cache a page fetched from a URL, unless its headers forbid caching.
+   * @param headers - Response headers, for Cache-Control and Expires
+   */
+  async putPage(url: string, page: CachedPage, headers?: Headers): Promise<void> {
+    const lifetime =
+      this.respectCacheHeaders && headers ? headerLifetime(headers) ?? this.ttlSeconds : this.ttlSeconds;
+    await this.put("pages", url, page, lifetime);
+  }
+
+  /**
+   * Cached results for a search, if fresh.
+   */
+  async getSearch(
+    providerName: string,
+    query: string,
+    options: WebSearchOptions
+  ): Promise<WebSearchResult[] | undefined> {
+    const entry = await this.get<{ results: WebSearchResult[] }>("searches", this.searchKey(providerName, query, options));
+    return entry?.results;
+  }
+
+  /**
+   * Cache the results of a search.
+   */
+  async putSearch(
+    providerName: string,
+    query: string,
+    options: WebSearchOptions,
+    results: WebSearchResult[]
+  ): Promise<void> {
+    await this.put("searches", this.searchKey(providerName, query, options), { results }, this.ttlSeconds);
+  }
+
+  /**
+   * Remove all cached pages and search results.
+   */
+  async clear(): Promise<void> {
+    for (const kind of ["pages", "searches"]) {
+      const namespace = [...this.namespace, kind];
+      for (const { key } of await this.store.list(namespace)) {
+        await this.store.delete(namespace, key);
+      }
+    }
+  }
+}
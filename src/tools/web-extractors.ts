@@ -0,0 +1,381 @@
+/**
+ * Content extractors for fetch_url: convert fetched documents to Markdown
+ * based on their content type.
+ */
+
+import TurndownService from "turndown";
+import { Readability } from "@mozilla/readability";
+import { JSDOM } from "jsdom";
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+
+/**
+ * A fetched document to extract.
+ */
+export interface ExtractInput {
+  /** Response body */
+  body: Uint8Array;
+  /** Content-Type header, including parameters such as charset */
+  contentType: string;
+  /** URL the document was fetched from */
+  url: string;
+  /** Extract the main article from HTML pages with Readability (default: true) */
+  extractArticle?: boolean;
+}
+
+/**
+ * Extracts Markdown from one kind of document.
+ */
+interface ContentExtractor {
+  /** Kind of document, e.g. "PDF" */
+  name: string;
+  matches(mimeType: string, input: ExtractInput): boolean;
+  extract(input: ExtractInput): Promise<string>;
+}
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+function createTurndown(): TurndownService {
+  return new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+  });
+}
+
+/**
+ * MIME type of a Content-Type header, lowercase and without parameters.
+ */
+function getMimeType(contentType: string): string {
+  return contentType.split(";")[0]!.trim().toLowerCase();
+}
+
+/**
+ * File extension of a URL's path, lowercase and without the dot.
+ */
+function getUrlExtension(url: string): string {
+  try {
+    const match = /\.([a-z0-9]+)$/i.exec(new URL(url).pathname);
+    return match ? match[1]!.toLowerCase() : "";
+  } catch {
+    return "";
+  }
+}
+
+function startsWith(body: Uint8Array, signature: string): boolean {
+  return [...signature].every((char, i) => body[i] === char.charCodeAt(0));
+}
+
+/**
+ * Decode a text body using the charset from its Content-Type (default: UTF-8).
+ */
+export function decodeText(input: Pick<ExtractInput, "body" | "contentType">): string {
+  const charset = /charset=["']?([^;"'\s]+)/i.exec(input.contentType)?.[1];
+  try {
+    return new TextDecoder(charset || "utf-8").decode(input.body);
+  } catch {
+    // Unknown charset
+    return new TextDecoder().decode(input.body);
+  }
+}
+
+/**
+ * Whether a body looks like text: no NUL bytes in the first 8000 bytes.
+ */
+function looksLikeText(body: Uint8Array): boolean {
+  return !body.subarray(0, 8000).includes(0);
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+/**
+ * Convert HTML to Markdown, by default extracting the main article with
+ * Mozilla Readability first. Extracted articles start with their title as a
+ * heading; pages Readability can't extract are converted in full.
+ */
+export function htmlToMarkdown(html: string, url: string, options: { extractArticle?: boolean } = {}): string {
+  let content = html;
+  let title = "";
+
+  if (options.extractArticle ?? true) {
+    try {
+      const article = new Readability(new JSDOM(html, { url }).window.document).parse();
+      if (article?.content) {
+        content = article.content;
+        title = article.title ?? "";
+      }
+    } catch {
+      // Fall back to the full HTML
+    }
+  }
+
+  const markdown = createTurndown().turndown(content);
+  return title ? `# ${title}\n\n${markdown}` : markdown;
+}
+
+const htmlExtractor: ContentExtractor = {
+  name: "HTML",
+  matches: (mimeType, input) =>
+    mimeType === "text/html" ||
+    mimeType === "application/xhtml+xml" ||
+    (mimeType === "" && /^\s*<(!doctype html|html)[\s>]/i.test(new TextDecoder().decode(input.body.subarray(0, 200)))),
+  extract: async (input) => htmlToMarkdown(decodeText(input), input.url, { extractArticle: input.extractArticle }),
+};
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const pdfExtractor: ContentExtractor = {
+  name: "PDF",
+  matches: (mimeType, input) => mimeType === "application/pdf" || startsWith(input.body, "%PDF-"),
+  extract: async (input) => {
+    // pdf.js takes ownership of the buffer, so pass a copy
+    const pdf = await getDocumentProxy(input.body.slice());
+    try {
+      const { info } = await getMeta(pdf);
+      const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+      const title = typeof info?.Title === "string" ? info.Title.trim() : "";
+      const pages = text
+        .map((pageText, i) => `<!-- Page ${i + 1} -->\n\n${pageText.trim()}`)
+        .join("\n\n---\n\n");
+      const header = `${title ? `# ${title}\n\n` : ""}*PDF, ${totalPages} page${totalPages === 1 ? "" : "s"}*`;
+
+      if (text.every((pageText) => pageText.trim() === "")) {
+        return `${header}\n\nNo text found in this PDF. It may contain only scanned images.`;
+      }
+      return `${header}\n\n${pages}`;
+    } finally {
+      await pdf.loadingTask.destroy();
+    }
+  },
+};
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+const docxExtractor: ContentExtractor = {
+  name: "DOCX",
+  matches: (mimeType, input) =>
+    mimeType === DOCX_MIME_TYPE || (getUrlExtension(input.url) === "docx" && startsWith(input.body, "PK")),
+  extract: async (input) => {
+    const { value: html } = await mammoth.convertToHtml({ buffer: Buffer.from(input.body) });
+    return createTurndown().turndown(html);
+  },
+};
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+const jsonExtractor: ContentExtractor = {
+  name: "JSON",
+  matches: (mimeType) => mimeType === "application/json" || mimeType.endsWith("+json"),
+  extract: async (input) => {
+    const text = decodeText(input);
+    try {
+      return "```json\n" + JSON.stringify(JSON.parse(text), null, 2) + "\n```";
+    } catch {
+      // Not valid JSON, show it as is
+      return text;
+    }
+  },
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Parse CSV rows (RFC 4180: quoted fields may contain delimiters, quotes
+ * and line breaks).
+ */
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell !== ""));
+}
+
+function escapeTableCell(cell: string): string {
+  return cell.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>").trim();
+}
+
+const csvExtractor: ContentExtractor = {
+  name: "CSV",
+  matches: (mimeType, input) =>
+    mimeType === "text/csv" ||
+    mimeType === "text/tab-separated-values" ||
+    ["csv", "tsv"].includes(getUrlExtension(input.url)),
+  extract: async (input) => {
+    const isTsv = getMimeType(input.contentType) === "text/tab-separated-values" || getUrlExtension(input.url) === "tsv";
+    const rows = parseCsv(decodeText(input), isTsv ? "\t" : ",");
+    if (rows.length === 0) {
+      return "*Empty table*";
+    }
+
+    const columns = Math.max(...rows.map((r) => r.length));
+    const formatRow = (r: string[]) =>
+      "| " + Array.from({ length: columns }, (_, i) => escapeTableCell(r[i] ?? "")).join(" | ") + " |";
+    const [header, ...body] = rows;
+    return [
+      formatRow(header!),
+      "|" + " --- |".repeat(columns),
+      ...body.map(formatRow),
+      "",
+      `*${body.length} row${body.length === 1 ? "" : "s"}*`,
+    ].join("\n");
+  },
+};
+
+// ============================================================================
+// RSS and Atom feeds
+// ============================================================================
+
+const FEED_MIME_TYPES = ["application/rss+xml", "application/atom+xml", "application/xml", "text/xml"];
+
+/**
+ * Whether an XML body is an RSS or Atom feed.
+ */
+function isFeed(input: ExtractInput): boolean {
+  const start = new TextDecoder().decode(input.body.subarray(0, 1000));
+  return /<(rss|feed|rdf:RDF)[\s>]/.test(start);
+}
+
+const feedExtractor: ContentExtractor = {
+  name: "Feed",
+  matches: (mimeType, input) =>
+    (mimeType === "application/rss+xml" || mimeType === "application/atom+xml") ||
+    (FEED_MIME_TYPES.includes(mimeType) && isFeed(input)),
+  extract: async (input) => {
+    const dom = new JSDOM(decodeText(input), { contentType: "text/xml" });
+    const document = dom.window.document;
+    const turndown = createTurndown();
+
+    const text = (parent: Element | Document, selector: string) =>
+      parent.querySelector(selector)?.textContent?.trim() ?? "";
+    const link = (item: Element) => {
+      // Atom links are attributes, RSS links are text
+      const atomLink =
+        item.querySelector('link[rel="alternate"]') ?? item.querySelector("link:not([rel])");
+      return atomLink?.getAttribute("href") ?? text(item, "link");
+    };
+
+    const channel = document.querySelector("channel") ?? document.documentElement;
+    const items = [...document.querySelectorAll("item, entry")];
+    const lines = [`# ${text(channel, "title") || "Feed"}`, ""];
+    const description = text(channel, "description") || text(channel, "subtitle");
+    if (description) {
+      lines.push(description, "");
+    }
+    lines.push(`*${items.length} item${items.length === 1 ? "" : "s"}*`);
+
+    for (const item of items) {
+      const title = text(item, "title") || "Untitled";
+      const url = link(item);
+      const date = text(item, "pubDate") || text(item, "published") || text(item, "updated");
+      const summary = text(item, "description") || text(item, "summary") || text(item, "content");
+
+      lines.push("", `## ${url ? `[${title}](${url})` : title}`);
+      if (date) {
+        lines.push("", `*${date}*`);
+      }
+      if (summary) {
+        // Summaries are usually escaped HTML
+        lines.push("", turndown.turndown(summary));
+      }
+    }
+
+    return lines.join("\n");
+  },
+};
+
+// ============================================================================
+// Plain text
+// ============================================================================
+
+const textExtractor: ContentExtractor = {
+  name: "Text",
+  matches: (mimeType, input) =>
+    mimeType.startsWith("text/") ||
+    mimeType.endsWith("+xml") ||
+    mimeType === "application/xml" ||
+    mimeType === "application/javascript" ||
+    (mimeType === "" && looksLikeText(input.body)),
+  extract: async (input) => decodeText(input),
+};
+
+/**
+ * Extractors in the order they are tried. PDF comes first because PDFs are
+ * often served with generic content types.
+ */
+const EXTRACTORS: ContentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  htmlExtractor,
+  jsonExtractor,
+  csvExtractor,
+  feedExtractor,
+  textExtractor,
+];
+
+/**
+ * Convert a fetched document to Markdown based on its content type:
+ * HTML (with optional article extraction), PDF, DOCX, JSON, CSV/TSV,
+ * RSS/Atom feeds and plain text.
+ *
+ * @returns Markdown, or an error message starting with "Error:" for
+ * unsupported or broken documents
+ */
+export async function extractContent(input: ExtractInput): Promise<string> {
+  const mimeType = getMimeType(input.contentType);
+  const extractor = EXTRACTORS.find((candidate) => candidate.matches(mimeType, input));
+
+  if (!extractor) {
+    return `Error: Can't extract text from '${input.url}': unsupported content type '${mimeType || "unknown"}' (${input.body.byteLength} bytes)`;
+  }
+
+  try {
+    return await extractor.extract(input);
+  } catch (error) {
+    return `Error: Can't extract text from ${extractor.name} document '${input.url}': ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
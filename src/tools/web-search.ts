@@ -0,0 +1,343 @@
+/**
+ * Web search providers for the web_search tool.
+ *
+ * The web_search tool talks to a `WebSearchProvider`, so agents can search
+ * with Tavily, Brave, SearXNG, Bing, an internal search service, or fixtures
+ * in offline tests.
+ */
+
+import { tavily } from "@tavily/core";
+
+/**
+ * A single web search result.
+ */
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  /** Excerpt or snippet of the page relevant to the query */
+  content: string;
+  /** Relevance score, if the provider reports one */
+  score?: number;
+  /** Full page text, if requested and supported by the provider */
+  rawContent?: string;
+}
+
+/**
+ * Options passed from the web_search tool to a provider.
+ */
+export interface WebSearchOptions {
+  /** Maximum number of results to return */
+  maxResults: number;
+  /** Search topic category. Providers without topics treat all as "general". */
+  topic: "general" | "news" | "finance";
+  /** Include the full page text in results, if supported */
+  includeRawContent: boolean;
+}
+
+/**
+ * Search engine used by the web_search tool.
+ *
+ * Implement this interface to search with any engine or internal service.
+ * Errors should be thrown; the tool reports them to the model.
+ *
+ * @example Internal search endpoint
+ * ```typescript
+ * const intranetSearch: WebSearchProvider = {
+ *   name: "intranet",
+ *   async search(query, { maxResults }) {
+ *     const response = await fetch(`https://search.internal/api?q=${encodeURIComponent(query)}`);
+ *     const { hits } = await response.json();
+ *     return hits.slice(0, maxResults).map((hit: any) => ({
+ *       title: hit.title,
+ *       url: hit.link,
+ *       content: hit.summary,
+ *     }));
+ *   },
+ * };
+ *
+ * const agent = createDeepAgent({ model, webSearchProvider: intranetSearch });
+ * ```
+ */
+export interface WebSearchProvider {
+  /** Provider name, used in error messages */
+  readonly name: string;
+  /**
+   * Search the web.
+   * @param query - Search query
+   * @param options - Result count, topic and raw content options
+   * @returns Results, best match first
+   */
+  search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]>;
+}
+
+/**
+ * Fetch JSON from a search API, throwing on HTTP errors.
+ */
+async function fetchJson(
+  providerName: string,
+  url: URL,
+  headers: Record<string, string>,
+  timeout: number
+): Promise<any> {
+  const response = await fetch(url.toString(), {
+    headers: { Accept: "application/json", ...headers },
+    signal: AbortSignal.timeout(timeout * 1000),
+  });
+  if (!response.ok) {
+    throw new Error(`${providerName} returned HTTP ${response.status} ${response.statusText}`.trim());
+  }
+  return await response.json();
+}
+
+// ============================================================================
+// Tavily
+// ============================================================================
+
+/**
+ * Options for TavilySearchProvider.
+ */
+export interface TavilySearchProviderOptions {
+  /** Tavily API key (defaults to process.env.TAVILY_API_KEY) */
+  apiKey?: string;
+}
+
+/**
+ * Search with the Tavily API.
+ *
+ * @example
+ * ```typescript
+ * const provider = new TavilySearchProvider({ apiKey: 'tvly-...' });
+ * ```
+ */
+export class TavilySearchProvider implements WebSearchProvider {
+  readonly name = "Tavily";
+  private apiKey: string;
+
+  constructor(options: TavilySearchProviderOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.TAVILY_API_KEY;
+    if (!apiKey) {
+      throw new Error("Tavily API key not found. Pass apiKey or set TAVILY_API_KEY.");
+    }
+    this.apiKey = apiKey;
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const response = await tavily({ apiKey: this.apiKey }).search(query, {
+      maxResults: options.maxResults,
+      topic: options.topic,
+      includeRawContent: options.includeRawContent ? "text" : false,
+    });
+
+    return (response.results || []).map((r) => ({
+      title: r.title,
+      url: r.url,
+      content: r.content,
+      score: r.score,
+      rawContent: r.rawContent || undefined,
+    }));
+  }
+}
+
+// ============================================================================
+// Brave
+// ============================================================================
+
+/**
+ * Options for BraveSearchProvider.
+ */
+export interface BraveSearchProviderOptions {
+  /** Brave Search API subscription token */
+  apiKey: string;
+  /** API base URL (default: https://api.search.brave.com/res/v1) */
+  baseUrl?: string;
+  /** Request timeout in seconds (default: 30) */
+  timeout?: number;
+}
+
+/**
+ * Search with the Brave Search API. The "news" topic uses news search.
+ */
+export class BraveSearchProvider implements WebSearchProvider {
+  readonly name = "Brave";
+  private apiKey: string;
+  private baseUrl: string;
+  private timeout: number;
+
+  constructor(options: BraveSearchProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? "https://api.search.brave.com/res/v1").replace(/\/+$/, "");
+    this.timeout = options.timeout ?? 30;
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const isNews = options.topic === "news";
+    const url = new URL(`${this.baseUrl}/${isNews ? "news" : "web"}/search`);
+    url.searchParams.set("q", query);
+    url.searchParams.set("count", String(options.maxResults));
+
+    const data = await fetchJson(this.name, url, { "X-Subscription-Token": this.apiKey }, this.timeout);
+    const results: any[] = (isNews ? data.results : data.web?.results) ?? [];
+
+    return results.slice(0, options.maxResults).map((r) => ({
+      title: r.title ?? "",
+      url: r.url ?? "",
+      content: r.description ?? "",
+    }));
+  }
+}
+
+// ============================================================================
+// SearXNG
+// ============================================================================
+
+/**
+ * Options for SearxngSearchProvider.
+ */
+export interface SearxngSearchProviderOptions {
+  /** Base URL of the SearXNG instance, e.g. "https://searx.example.com" */
+  baseUrl: string;
+  /** Extra request headers, e.g. for an authenticating proxy */
+  headers?: Record<string, string>;
+  /** Request timeout in seconds (default: 30) */
+  timeout?: number;
+}
+
+/**
+ * Search with a SearXNG instance.
+ * The instance must have the JSON output format enabled (`search.formats` in settings.yml).
+ *
+ * @example
+ * ```typescript
+ * const provider = new SearxngSearchProvider({ baseUrl: 'http://localhost:8888' });
+ * ```
+ */
+export class SearxngSearchProvider implements WebSearchProvider {
+  readonly name = "SearXNG";
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private timeout: number;
+
+  constructor(options: SearxngSearchProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.headers = options.headers ?? {};
+    this.timeout = options.timeout ?? 30;
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const url = new URL(`${this.baseUrl}/search`);
+    url.searchParams.set("q", query);
+    url.searchParams.set("format", "json");
+    url.searchParams.set("categories", options.topic === "news" ? "news" : "general");
+
+    const data = await fetchJson(this.name, url, this.headers, this.timeout);
+    const results: any[] = data.results ?? [];
+
+    return results.slice(0, options.maxResults).map((r) => ({
+      title: r.title ?? "",
+      url: r.url ?? "",
+      content: r.content ?? "",
+      score: typeof r.score === "number" ? r.score : undefined,
+    }));
+  }
+}
+
+// ============================================================================
+// Bing
+// ============================================================================
+
+/**
+ * Options for BingSearchProvider.
+ */
+export interface BingSearchProviderOptions {
+  /** Bing Search API subscription key */
+  apiKey: string;
+  /** API base URL (default: https://api.bing.microsoft.com/v7.0) */
+  baseUrl?: string;
+  /** Request timeout in seconds (default: 30) */
+  timeout?: number;
+}
+
+/**
+ * Search with the Bing Web Search API. The "news" topic uses news search.
+ */
+export class BingSearchProvider implements WebSearchProvider {
+  readonly name = "Bing";
+  private apiKey: string;
+  private baseUrl: string;
+  private timeout: number;
+
+  constructor(options: BingSearchProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? "https://api.bing.microsoft.com/v7.0").replace(/\/+$/, "");
+    this.timeout = options.timeout ?? 30;
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const isNews = options.topic === "news";
+    const url = new URL(`${this.baseUrl}/${isNews ? "news/search" : "search"}`);
+    url.searchParams.set("q", query);
+    url.searchParams.set("count", String(options.maxResults));
+
+    const data = await fetchJson(this.name, url, { "Ocp-Apim-Subscription-Key": this.apiKey }, this.timeout);
+    const results: any[] = (isNews ? data.value : data.webPages?.value) ?? [];
+
+    return results.slice(0, options.maxResults).map((r) => ({
+      title: r.name ?? "",
+      url: r.url ?? "",
+      content: (isNews ? r.description : r.snippet) ?? "",
+    }));
+  }
+}
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+/**
+ * Options for FixtureSearchProvider.
+ */
+export interface FixtureSearchProviderOptions {
+  /** Results by query. Queries match case-insensitively, ignoring surrounding whitespace. */
+  fixtures: Record<string, WebSearchResult[]>;
+  /** Results for queries without a fixture (default: no results) */
+  fallback?: WebSearchResult[];
+}
+
+/**
+ * Offline provider that returns fixed results, for tests and demos.
+ * Searched queries are recorded in `queries`.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FixtureSearchProvider({
+ *   fixtures: {
+ *     'bun test runner': [{ title: 'Bun test', url: 'https://bun.sh/docs/cli/test', content: '...' }],
+ *   },
+ * });
+ * const agent = createDeepAgent({ model, webSearchProvider: provider });
+ * ```
+ */
+export class FixtureSearchProvider implements WebSearchProvider {
+  readonly name = "Fixtures";
+  /** Queries searched so far, in order */
+  readonly queries: string[] = [];
+  private fixtures = new Map<string, WebSearchResult[]>();
+  private fallback: WebSearchResult[];
+
+  constructor(options: FixtureSearchProviderOptions) {
+    for (const [query, results] of Object.entries(options.fixtures)) {
+      this.fixtures.set(this.normalize(query), results);
+    }
+    this.fallback = options.fallback ?? [];
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    this.queries.push(query);
+    const results = this.fixtures.get(this.normalize(query)) ?? this.fallback;
+    return results.slice(0, options.maxResults);
+  }
+
+  private normalize(query: string): string {
+    return query.trim().toLowerCase();
+  }
+}
@@ -5,17 +5,21 @@
 
 import { tool } from "ai";
 import { z } from "zod";
-import { tavily } from "@tavily/core";
-import TurndownService from "turndown";
-import { Readability } from "@mozilla/readability";
 import { JSDOM } from "jsdom";
 import type {
   BackendProtocol,
   BackendFactory,
   DeepAgentState,
   EventCallback,
+  NetworkPolicy,
 } from "../types.ts";
 import { evictToolResult } from "../utils/eviction.ts";
+import { isBinaryContent } from "../backends/utils.ts";
+import { StateBackend } from "../backends/state.ts";
+import { getNetworkGuard, type GuardedFetchOptions } from "../utils/network-policy.ts";
+import { TavilySearchProvider, type WebSearchProvider } from "./web-search.ts";
+import type { CachedPage, WebCache } from "./web-cache.ts";
+import { decodeText, extractContent, htmlToMarkdown } from "./web-extractors.ts";
 
 // ============================================================================
 // Helper Functions
@@ -35,47 +39,125 @@ function getBackend(
   return backend;
 }
 
-// ============================================================================
-// HTML to Markdown Utilities
-// ============================================================================
+/**
+ * Fetch a URL, through the network policy if there is one.
+ * Returns an error string if the policy doesn't allow the request.
+ */
+async function policyFetch(
+  networkPolicy: NetworkPolicy | undefined,
+  url: string,
+  init: RequestInit,
+  options?: GuardedFetchOptions
+): Promise<Response | string> {
+  if (!networkPolicy) {
+    return await fetch(url, init);
+  }
+  return await getNetworkGuard(networkPolicy).fetch(url, init, options);
+}
 
 /**
- * Convert HTML to Markdown with article extraction.
- * Uses Mozilla Readability to extract main content, then converts to Markdown.
+ * Reason why the network policy wouldn't let a cached page be fetched again,
+ * if any. Checks both the requested URL and the URL it redirected to.
  */
-function htmlToMarkdown(html: string, url: string): string {
-  try {
-    // Parse HTML with JSDOM
-    const dom = new JSDOM(html, { url });
+async function checkCachedPage(
+  networkPolicy: NetworkPolicy,
+  url: string,
+  page: CachedPage,
+  signal: AbortSignal
+): Promise<string | undefined> {
+  const guard = getNetworkGuard(networkPolicy);
+  for (const pageUrl of new Set([url, page.url])) {
+    const parsed = new URL(pageUrl);
+    const error =
+      (await guard.checkUrl(parsed)) ??
+      (networkPolicy.respectRobotsTxt ? await guard.checkRobotsTxt(parsed, signal) : undefined);
+    if (error) {
+      return error;
+    }
+  }
+  return undefined;
+}
 
-    // Extract article content with Readability
-    const reader = new Readability(dom.window.document);
-    const article = reader.parse();
+/**
+ * Fetch a page for fetch_url and crawl_site, from the cache if possible.
+ * Returns an error string if the network policy doesn't allow the request
+ * (also for cached pages) or the server responds with an HTTP error.
+ * With `waitForRateLimit`, waits for the host's rate limit instead of
+ * failing; the timeout starts once the request can be made.
+ */
+async function fetchPage(
+  url: string,
+  options: {
+    networkPolicy?: NetworkPolicy;
+    cache?: WebCache;
+    timeout: number;
+    waitForRateLimit?: boolean;
+    abortSignal?: AbortSignal;
+  }
+): Promise<{ page: CachedPage; cached: boolean } | string> {
+  const { networkPolicy, cache, timeout, waitForRateLimit, abortSignal } = options;
+
+  const cachedPage = await cache?.getPage(url);
+  if (cachedPage) {
+    const signal = AbortSignal.timeout(timeout * 1000);
+    const error = networkPolicy && (await checkCachedPage(networkPolicy, url, cachedPage, signal));
+    return error || { page: cachedPage, cached: true };
+  }
 
-    if (!article) {
-      // If Readability fails, fall back to body content
-      const bodyContent = dom.window.document.body?.textContent || "";
-      return bodyContent.trim();
-    }
+  if (networkPolicy && waitForRateLimit) {
+    await getNetworkGuard(networkPolicy).waitForRateLimit(new URL(url).host.toLowerCase(), abortSignal);
+  }
+  const signal = AbortSignal.timeout(timeout * 1000);
+
+  const response = await policyFetch(
+    networkPolicy,
+    url,
+    {
+      signal,
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; DeepAgents/1.0)",
+      },
+    },
+    { checkRobotsTxt: true }
+  );
+
+  if (typeof response === "string") {
+    return response;
+  }
 
-    // Convert extracted HTML to Markdown
-    const turndown = new TurndownService({
-      headingStyle: "atx",
-      codeBlockStyle: "fenced",
-    });
+  if (!response.ok) {
+    return `HTTP error: ${response.status} ${response.statusText}`;
+  }
 
-    const markdown = turndown.turndown(article.content || "");
+  const body = new Uint8Array(await response.arrayBuffer());
+  const binary = isBinaryContent(body);
+  const page: CachedPage = {
+    url: response.url || url,
+    status: response.status,
+    contentType: response.headers.get("content-type") || "",
+    body: binary ? Buffer.from(body).toString("base64") : new TextDecoder().decode(body),
+    ...(binary && { encoding: "base64" as const }),
+  };
+  await cache?.putPage(url, page, response.headers);
+  return { page, cached: false };
+}
 
-    // Prepend title if available
-    if (article.title) {
-      return `# ${article.title}\n\n${markdown}`;
-    }
+/**
+ * Response body of a fetched page as bytes.
+ */
+function pageBytes(page: CachedPage): Uint8Array {
+  return page.encoding === "base64" ? Buffer.from(page.body, "base64") : new TextEncoder().encode(page.body);
+}
 
-    return markdown;
-  } catch (error) {
-    // On error, return error message
-    return `Error converting HTML to Markdown: ${error instanceof Error ? error.message : String(error)}`;
+/**
+ * Tool error message for an exception thrown while fetching a URL.
+ */
+function fetchErrorMessage(error: unknown, timeout: number): string {
+  const err = error as Error;
+  if (err.name === "TimeoutError" || err.name === "AbortError") {
+    return `Request timed out after ${timeout} seconds`;
   }
+  return `Error fetching URL: ${err.message}`;
 }
 
 // ============================================================================
@@ -85,7 +167,7 @@ function htmlToMarkdown(html: string, url: string): string {
 /**
  * Tool description for web_search.
  */
-const WEB_SEARCH_TOOL_DESCRIPTION = `Search the web using Tavily API for current information, news, and documentation.
+const WEB_SEARCH_TOOL_DESCRIPTION = `Search the web for current information, news, and documentation.
 
 Returns an array of search results with titles, URLs, relevant excerpts, and relevance scores.
 
@@ -104,10 +186,11 @@ function createWebSearchTool(
     backend?: BackendProtocol | BackendFactory;
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
-    tavilyApiKey: string;
+    searchProvider: WebSearchProvider;
+    cache?: WebCache;
   }
 ) {
-  const { backend, onEvent, toolResultEvictionLimit, tavilyApiKey } = options;
+  const { backend, onEvent, toolResultEvictionLimit, searchProvider, cache } = options;
 
   return tool({
     description: WEB_SEARCH_TOOL_DESCRIPTION,
@@ -138,25 +221,28 @@ function createWebSearchTool(
       }
 
       try {
-        // Initialize Tavily client
-        const tvly = tavily({ apiKey: tavilyApiKey });
-
-        // Perform search
-        const response = await tvly.search(query, {
+        // Perform search, unless the results are cached
+        const searchOptions = {
           maxResults: max_results,
           topic,
-          includeRawContent: include_raw_content ? "text" : false,
-        });
+          includeRawContent: include_raw_content,
+        };
+        let results = await cache?.getSearch(searchProvider.name, query, searchOptions);
+        const cached = results !== undefined;
+        if (!results) {
+          results = await searchProvider.search(query, searchOptions);
+          await cache?.putSearch(searchProvider.name, query, searchOptions, results);
+        }
 
         // Format results
-        const results = response.results || [];
         const formattedResults = results
           .map(
-            (r: any, i: number) =>
+            (r, i) =>
               `## Result ${i + 1}: ${r.title}\n` +
               `URL: ${r.url}\n` +
               `Score: ${r.score?.toFixed(2) || "N/A"}\n` +
-              `Content: ${r.content}\n`
+              `Content: ${r.content}\n` +
+              (r.rawContent ? `Raw content:\n${r.rawContent}\n` : "")
           )
           .join("\n---\n\n");
 
@@ -168,6 +254,7 @@ function createWebSearchTool(
             type: "web-search-finish",
             query,
             resultCount: results.length,
+            ...(cache && { cached }),
           });
         }
 
@@ -189,7 +276,7 @@ function createWebSearchTool(
         return output;
       } catch (error: unknown) {
         const err = error as Error;
-        const errorMessage = `Web search error: ${err.message}`;
+        const errorMessage = `Web search error (${searchProvider.name}): ${err.message}`;
 
         // Emit finish event with 0 results (error case)
         if (onEvent) {
@@ -225,9 +312,10 @@ function createHttpRequestTool(
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
     defaultTimeout: number;
+    networkPolicy?: NetworkPolicy;
   }
 ) {
-  const { backend, onEvent, toolResultEvictionLimit, defaultTimeout } = options;
+  const { backend, onEvent, toolResultEvictionLimit, defaultTimeout, networkPolicy } = options;
 
   return tool({
     description: HTTP_REQUEST_TOOL_DESCRIPTION,
@@ -292,7 +380,17 @@ function createHttpRequestTool(
         }
 
         // Execute request
-        const response = await fetch(urlObj.toString(), requestOptions);
+        const response = await policyFetch(networkPolicy, urlObj.toString(), requestOptions);
+        if (typeof response === "string") {
+          if (onEvent) {
+            onEvent({
+              type: "http-request-finish",
+              url,
+              statusCode: 0,
+            });
+          }
+          return response;
+        }
 
         // Parse response
         const contentType = response.headers.get("content-type") || "";
@@ -371,11 +469,12 @@ function createHttpRequestTool(
 const FETCH_URL_TOOL_DESCRIPTION = `Fetch web page content and convert HTML to clean Markdown format.
 
 Uses Mozilla Readability to extract main article content and Turndown to convert to Markdown.
+PDF and DOCX documents are converted to text, JSON is pretty-printed, CSV becomes a table, and RSS/Atom feeds become a list of items.
 
 Returns the page content as formatted Markdown, suitable for analysis and summarization.
 
 IMPORTANT AGENT INSTRUCTIONS:
-- Use this tool to read documentation, articles, and web pages
+- Use this tool to read documentation, articles, web pages, papers and reports
 - The content is already cleaned and formatted as Markdown
 - Cite the URL when referencing fetched content`;
 
@@ -389,9 +488,11 @@ function createFetchUrlTool(
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
     defaultTimeout: number;
+    networkPolicy?: NetworkPolicy;
+    cache?: WebCache;
   }
 ) {
-  const { backend, onEvent, toolResultEvictionLimit, defaultTimeout } = options;
+  const { backend, onEvent, toolResultEvictionLimit, defaultTimeout, networkPolicy, cache } = options;
 
   return tool({
     description: FETCH_URL_TOOL_DESCRIPTION,
@@ -418,67 +519,44 @@ function createFetchUrlTool(
       }
 
       try {
-        // Fetch HTML
-        const response = await fetch(url, {
-          signal: AbortSignal.timeout(timeout * 1000),
-          headers: {
-            "User-Agent": "Mozilla/5.0 (compatible; DeepAgents/1.0)",
-          },
-        });
-
-        if (!response.ok) {
-          const errorMsg = `HTTP error: ${response.status} ${response.statusText}`;
+        const fetched = await fetchPage(url, { networkPolicy, cache, timeout });
 
+        if (typeof fetched === "string") {
           if (onEvent) {
             onEvent({
               type: "fetch-url-finish",
-              url: response.url,
+              url,
               success: false,
             });
           }
-
-          return errorMsg;
+          return fetched;
         }
 
-        const html = await response.text();
-
-        // Parse DOM
-        const dom = new JSDOM(html, { url });
+        const { page, cached } = fetched;
 
-        let contentToConvert = html;
-
-        // Extract article content if requested
-        if (extract_article) {
-          try {
-            const reader = new Readability(dom.window.document);
-            const article = reader.parse();
-
-            if (article && article.content) {
-              contentToConvert = article.content;
-            }
-          } catch (readabilityError) {
-            // If Readability fails, fall back to full HTML
-            console.warn("Readability extraction failed, using full HTML");
-          }
-        }
-
-        // Convert to Markdown
-        const turndownService = new TurndownService({
-          headingStyle: "atx",
-          codeBlockStyle: "fenced",
+        // Convert HTML, PDF, DOCX, JSON, CSV, feeds, ... to Markdown
+        const markdown = await extractContent({
+          body: pageBytes(page),
+          contentType: page.contentType,
+          url,
+          extractArticle: extract_article,
         });
-
-        const markdown = turndownService.turndown(contentToConvert);
+        const success = !markdown.startsWith("Error:");
 
         // Emit finish event
         if (onEvent) {
           onEvent({
             type: "fetch-url-finish",
-            url: response.url,
-            success: true,
+            url: page.url,
+            success,
+            ...(cache && { cached }),
           });
         }
 
+        if (!success) {
+          return markdown;
+        }
+
         // Evict large content
         if (toolResultEvictionLimit && toolResultEvictionLimit > 0 && backend) {
           const resolvedBackend = getBackend(backend, state);
@@ -497,15 +575,6 @@ function createFetchUrlTool(
 
         return markdown;
       } catch (error: unknown) {
-        const err = error as Error;
-        let errorMessage: string;
-
-        if (err.name === "TimeoutError" || err.name === "AbortError") {
-          errorMessage = `Request timed out after ${timeout} seconds`;
-        } else {
-          errorMessage = `Error fetching URL: ${err.message}`;
-        }
-
         // Emit error finish event
         if (onEvent) {
           onEvent({
@@ -515,12 +584,288 @@ function createFetchUrlTool(
           });
         }
 
-        return errorMessage;
+        return fetchErrorMessage(error, timeout);
       }
     },
   });
 }
 
+/**
+ * Tool description for crawl_site.
+ */
+const CRAWL_SITE_TOOL_DESCRIPTION = `Crawl a website from a starting URL and save its pages as Markdown files.
+
+Follows links to pages on the same origin breadth-first, up to a link depth and page limit. Each page is converted to Markdown and written to the output directory, along with an _index.md listing the title, URL and file of every page.
+
+IMPORTANT AGENT INSTRUCTIONS:
+- Use this tool to read documentation sites and other multi-page sources; use fetch_url for a single page
+- After crawling, use glob and grep on the output directory to find what you need, then read_file only the relevant pages
+- Cite page URLs (listed in _index.md and at the top of each file) when referencing crawled content`;
+
+/**
+ * Extensions of links crawl_site doesn't follow: images, media, archives and assets.
+ */
+const CRAWL_SKIPPED_EXTENSIONS =
+  /\.(png|jpe?g|gif|svg|webp|ico|bmp|mp3|mp4|webm|mov|avi|zip|tar|gz|tgz|rar|7z|exe|dmg|iso|css|js|mjs|woff2?|ttf|eot)$/i;
+
+/**
+ * URL of a page without its fragment, to recognize pages already crawled.
+ */
+function crawlKey(url: URL): string {
+  const key = new URL(url);
+  key.hash = "";
+  return key.href;
+}
+
+function sanitizePathSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  // Leading dots would make "." and ".." segments or hidden files
+  return decoded.replace(/[^a-zA-Z0-9._-]+/g, "_").replace(/^\.+/, "_") || "_";
+}
+
+/**
+ * File for a crawled page, relative to the output directory. Mirrors the
+ * URL path: "/" becomes "index.md", "/guide/" becomes "guide/index.md" and
+ * "/guide/setup.html" becomes "guide/setup.md".
+ */
+function crawlFilePath(url: URL): string {
+  let pathname = url.pathname;
+  if (pathname.endsWith("/")) {
+    pathname += "index";
+  }
+  const segments = pathname
+    .replace(/\.(html?|md)$/i, "")
+    .split("/")
+    .filter(Boolean)
+    .map(sanitizePathSegment);
+  if (url.search) {
+    segments[segments.length - 1] += `_${sanitizePathSegment(url.search.slice(1))}`;
+  }
+  return `${segments.join("/")}.md`;
+}
+
+/**
+ * Title and same-origin links of a crawled HTML page.
+ */
+function parseCrawledPage(html: string, url: string, origin: string): { title: string; links: URL[] } {
+  const document = new JSDOM(html, { url }).window.document;
+  const links: URL[] = [];
+
+  for (const anchor of document.querySelectorAll("a[href]")) {
+    let link: URL;
+    try {
+      link = new URL(anchor.getAttribute("href")!, url);
+    } catch {
+      continue;
+    }
+    if (link.origin === origin && !CRAWL_SKIPPED_EXTENSIONS.test(link.pathname)) {
+      links.push(link);
+    }
+  }
+
+  return { title: document.title.trim(), links };
+}
+
+/**
+ * Create the crawl_site tool.
+ */
+function createCrawlSiteTool(
+  state: DeepAgentState,
+  options: {
+    backend?: BackendProtocol | BackendFactory;
+    onEvent?: EventCallback;
+    defaultTimeout: number;
+    networkPolicy?: NetworkPolicy;
+    cache?: WebCache;
+  }
+) {
+  const { backend, onEvent, defaultTimeout, networkPolicy, cache } = options;
+
+  return tool({
+    description: CRAWL_SITE_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      url: z.string().url().describe("The URL to start crawling from (must be valid HTTP/HTTPS URL)"),
+      max_depth: z
+        .number()
+        .int()
+        .min(0)
+        .max(5)
+        .default(2)
+        .describe("How many links to follow from the starting page (0 crawls only the starting page)"),
+      max_pages: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of pages to fetch"),
+      output_dir: z
+        .string()
+        .optional()
+        .describe("Directory to write the Markdown files to (default: /crawl/<hostname>)"),
+      timeout: z
+        .number()
+        .default(defaultTimeout)
+        .describe("Request timeout per page in seconds"),
+    }),
+    execute: async ({ url, max_depth, max_pages, output_dir, timeout }, { abortSignal }) => {
+      const startUrl = new URL(url);
+      if (startUrl.protocol !== "http:" && startUrl.protocol !== "https:") {
+        return `Error: Only http and https URLs can be crawled, got '${url}'`;
+      }
+
+      const resolvedBackend = getBackend(backend, state) ?? new StateBackend(state);
+      const outputDir = (output_dir ?? `/crawl/${startUrl.hostname}`).replace(/\/+$/, "");
+      if ((await resolvedBackend.lsInfo(outputDir)).length > 0) {
+        return `Error: Output directory '${outputDir}' already contains files. Choose another output_dir.`;
+      }
+
+      const pages: { url: string; title: string; path: string }[] = [];
+      const failures: { url: string; error: string }[] = [];
+      const usedPaths = new Set<string>();
+      const seen = new Set([crawlKey(startUrl)]);
+      const queue: { url: URL; depth: number }[] = [{ url: startUrl, depth: 0 }];
+
+      // Failed pages count towards the limit too, so broken links can't
+      // make a crawl run indefinitely
+      while (queue.length > 0 && pages.length + failures.length < max_pages && !abortSignal?.aborted) {
+        const { url: pageUrl, depth } = queue.shift()!;
+        const href = crawlKey(pageUrl);
+
+        onEvent?.({ type: "fetch-url-start", url: href });
+
+        let markdown = "";
+        let error: string | undefined;
+        let title = "";
+        let links: URL[] = [];
+        let finalUrl = href;
+        let cached = false;
+        try {
+          // Pages wait for the rate limit rather than fail
+          const fetched = await fetchPage(href, {
+            networkPolicy,
+            cache,
+            timeout,
+            waitForRateLimit: true,
+            abortSignal,
+          });
+          if (typeof fetched === "string") {
+            error = fetched;
+          } else {
+            const { page } = fetched;
+            finalUrl = page.url;
+            cached = fetched.cached;
+
+            if (/^(text\/html|application\/xhtml\+xml)\b/i.test(page.contentType)) {
+              // Pages that aren't UTF-8 are cached as base64
+              const html = decodeText({ body: pageBytes(page), contentType: page.contentType });
+              markdown = htmlToMarkdown(html, finalUrl);
+              ({ title, links } = parseCrawledPage(html, finalUrl, startUrl.origin));
+            } else {
+              // PDFs, plain text, ... linked from the site
+              markdown = await extractContent({ body: pageBytes(page), contentType: page.contentType, url: finalUrl });
+              if (markdown.startsWith("Error:")) {
+                error = markdown;
+              }
+            }
+          }
+        } catch (fetchError: unknown) {
+          error = fetchErrorMessage(fetchError, timeout);
+        }
+
+        onEvent?.({
+          type: "fetch-url-finish",
+          url: finalUrl,
+          success: error === undefined,
+          ...(cache && error === undefined && { cached }),
+        });
+        if (error !== undefined) {
+          failures.push({ url: href, error });
+          continue;
+        }
+
+        // Pages reached through a redirect count as crawled under both URLs
+        seen.add(crawlKey(new URL(finalUrl)));
+
+        let relativePath = crawlFilePath(new URL(finalUrl));
+        for (let n = 2; usedPaths.has(relativePath); n++) {
+          relativePath = crawlFilePath(new URL(finalUrl)).replace(/\.md$/, `-${n}.md`);
+        }
+        usedPaths.add(relativePath);
+
+        const filePath = `${outputDir}/${relativePath}`;
+        const content = `<!-- Source: ${finalUrl} -->\n\n${markdown}\n`;
+        const writeResult = await resolvedBackend.write(filePath, content);
+        if (writeResult.error) {
+          failures.push({ url: href, error: writeResult.error });
+          continue;
+        }
+        onEvent?.({ type: "file-written", path: filePath, content });
+
+        title ||= /^# (.+)$/m.exec(markdown)?.[1]?.trim() || new URL(finalUrl).pathname;
+        pages.push({ url: finalUrl, title, path: relativePath });
+
+        if (depth < max_depth) {
+          for (const link of links) {
+            const key = crawlKey(link);
+            if (!seen.has(key)) {
+              seen.add(key);
+              queue.push({ url: link, depth: depth + 1 });
+            }
+          }
+        }
+      }
+
+      if (pages.length === 0) {
+        return `Error: Couldn't crawl '${url}': ${failures[0]?.error ?? "no pages fetched"}`;
+      }
+
+      // Write the index
+      const indexPath = `${outputDir}/_index.md`;
+      const indexLines = [
+        `# Crawl of ${startUrl.href}`,
+        "",
+        `${pages.length} page${pages.length === 1 ? "" : "s"}, up to ${max_depth} link${max_depth === 1 ? "" : "s"} deep.`,
+        "",
+        ...pages.map((page) => `- [${page.title}](${page.path}): ${page.url}`),
+      ];
+      if (failures.length > 0) {
+        indexLines.push("", "## Failed", "", ...failures.map((failure) => `- ${failure.url}: ${failure.error}`));
+      }
+      const indexContent = indexLines.join("\n") + "\n";
+      const indexResult = await resolvedBackend.write(indexPath, indexContent);
+      if (indexResult.error) {
+        return `Error: Crawled ${pages.length} pages into '${outputDir}' but couldn't write the index: ${indexResult.error}`;
+      }
+      onEvent?.({ type: "file-written", path: indexPath, content: indexContent });
+
+      const lines = [
+        `Crawled ${pages.length} page${pages.length === 1 ? "" : "s"} from ${startUrl.href} into ${outputDir}` +
+          (failures.length > 0 ? ` (${failures.length} failed, see the index)` : ""),
+        `Index: ${indexPath}`,
+      ];
+      if (queue.length > 0) {
+        lines.push(
+          `Stopped at the limit of ${max_pages} pages with ${queue.length} more link${queue.length === 1 ? "" : "s"} to follow.`
+        );
+      }
+      lines.push(
+        "",
+        `Use glob and grep on ${outputDir} to find relevant content, then read_file the pages you need.`,
+        "",
+        "Files:",
+        ...pages.map((page) => `- ${outputDir}/${page.path}`)
+      );
+      return lines.join("\n");
+    },
+  });
+}
+
 // ============================================================================
 // Main Factory Function
 // ============================================================================
@@ -529,21 +874,36 @@ function createFetchUrlTool(
  * Options for creating web tools.
  */
 export interface CreateWebToolsOptions {
-  /** Backend for filesystem operations (for eviction) */
+  /** Backend for filesystem operations (for eviction and crawl_site output) */
   backend?: BackendProtocol | BackendFactory;
   /** Callback for emitting events */
   onEvent?: EventCallback;
   /** Token limit before evicting large tool results (default: disabled) */
   toolResultEvictionLimit?: number;
+  /**
+   * Search provider for web_search. Takes precedence over `tavilyApiKey`.
+   * Without one, Tavily is used if an API key is available.
+   */
+  searchProvider?: WebSearchProvider;
   /** Tavily API key (defaults to process.env.TAVILY_API_KEY) */
   tavilyApiKey?: string;
   /** Default timeout for HTTP requests in seconds (default: 30) */
   defaultTimeout?: number;
+  /**
+   * Restrictions on the URLs http_request, fetch_url and crawl_site may request
+   * (default: none). Tools sharing a policy object share its rate limits.
+   */
+  networkPolicy?: NetworkPolicy;
+  /**
+   * Cache for fetch_url and crawl_site pages and web_search results (default: none).
+   * Tools sharing a cache reuse each other's results.
+   */
+  cache?: WebCache;
 }
 
 /**
- * Create all web tools (web_search, http_request, fetch_url).
- * Tools are only created if TAVILY_API_KEY is available.
+ * Create all web tools (web_search, http_request, fetch_url, crawl_site).
+ * Tools are only created if a search provider is given or TAVILY_API_KEY is available.
  */
 export function createWebTools(
   state: DeepAgentState,
@@ -555,21 +915,48 @@ export function createWebTools(
     toolResultEvictionLimit,
     tavilyApiKey = process.env.TAVILY_API_KEY,
     defaultTimeout = 30,
+    networkPolicy,
+    cache,
   } = options || {};
 
-  // Return empty object if no Tavily API key
-  if (!tavilyApiKey) {
+  let searchProvider = options?.searchProvider;
+  if (!searchProvider && tavilyApiKey) {
+    searchProvider = new TavilySearchProvider({ apiKey: tavilyApiKey });
+  }
+
+  // Return empty object if there is no search provider
+  if (!searchProvider) {
     console.warn(
-      "Tavily API key not found. Web tools (web_search, fetch_url, http_request) will not be available. " +
-      "Set TAVILY_API_KEY environment variable to enable web tools."
+      "Tavily API key not found. Web tools (web_search, fetch_url, http_request, crawl_site) will not be available. " +
+      "Set TAVILY_API_KEY environment variable or pass a webSearchProvider to enable web tools."
     );
     return {};
   }
 
   return {
-    web_search: createWebSearchTool(state, { backend, onEvent, toolResultEvictionLimit, tavilyApiKey }),
-    http_request: createHttpRequestTool(state, { backend, onEvent, toolResultEvictionLimit, defaultTimeout }),
-    fetch_url: createFetchUrlTool(state, { backend, onEvent, toolResultEvictionLimit, defaultTimeout }),
+    web_search: createWebSearchTool(state, { backend, onEvent, toolResultEvictionLimit, searchProvider, cache }),
+    http_request: createHttpRequestTool(state, {
+      backend,
+      onEvent,
+      toolResultEvictionLimit,
+      defaultTimeout,
+      networkPolicy,
+    }),
+    fetch_url: createFetchUrlTool(state, {
+      backend,
+      onEvent,
+      toolResultEvictionLimit,
+      defaultTimeout,
+      networkPolicy,
+      cache,
+    }),
+    crawl_site: createCrawlSiteTool(state, {
+      backend,
+      onEvent,
+      defaultTimeout,
+      networkPolicy,
+      cache,
+    }),
   };
 }
 
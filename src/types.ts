@@ -3,7 +3,16 @@
  */
 
 import type { ToolSet, ModelMessage, LanguageModel, LanguageModelMiddleware } from "ai";
-import type { BaseCheckpointSaver, ResumeOptions } from "./checkpointer/types.ts";
+import type { z } from "zod";
+import type {
+  BaseCheckpointSaver,
+  ResumeOptions,
+  ResumeDecision,
+  InterruptData,
+  ThreadMetadata,
+} from "./checkpointer/types.ts";
+import type { WebSearchProvider } from "./tools/web-search.ts";
+import type { WebCache } from "./tools/web-cache.ts";
 
 // Re-export for convenience
 export type { ModelMessage, LanguageModel };
@@ -58,12 +67,16 @@ export interface TodoItem {
  * File data structure used by backends.
  */
 export interface FileData {
-  /** Lines of text content */
+  /** Lines of text content, or a single base64 string for binary files */
   content: string[];
   /** ISO format timestamp of creation */
   created_at: string;
   /** ISO format timestamp of last modification */
   modified_at: string;
+  /** How `content` is encoded (default: "utf-8") */
+  encoding?: "utf-8" | "base64";
+  /** MIME type of binary files (e.g., "image/png") */
+  mimeType?: string;
 }
 
 /**
@@ -114,6 +127,28 @@ export interface EditResult {
   occurrences?: number;
 }
 
+/**
+ * Result from backend delete operations.
+ */
+export interface DeleteResult {
+  /** Error message on failure, undefined on success */
+  error?: string;
+  /** File path of deleted file, undefined on failure */
+  path?: string;
+}
+
+/**
+ * Result from backend move and copy operations.
+ */
+export interface MoveResult {
+  /** Error message on failure, undefined on success */
+  error?: string;
+  /** Source file path, undefined on failure */
+  from?: string;
+  /** Destination file path, undefined on failure */
+  to?: string;
+}
+
 /**
  * Shared state for deep agent operations.
  * This is passed to tools and modified during execution.
@@ -163,6 +198,19 @@ export interface DeepAgentState {
  * };
  * ```
  */
+/**
+ * Built-in tool groups a subagent can inherit from its parent.
+ *
+ * - `todos`: `write_todos`
+ * - `filesystem`: `ls`, `read_file`, `write_file`, `edit_file`, `multi_edit`,
+ *   `apply_patch`, `delete_file`, `move_file`, `copy_file`, `glob`, `grep`
+ * - `execute`: `execute` (only with a sandbox backend)
+ * - `web`: `web_search`, `http_request`, `fetch_url`, `crawl_site` (only when web tools are
+ *   configured)
+ * - `task`: nested subagents (up to `maxSubagentDepth`)
+ */
+export type SubagentToolGroup = "todos" | "filesystem" | "execute" | "web" | "task";
+
 export interface SubAgent {
   /** 
    * Unique name identifier for the subagent. Used when the main agent delegates tasks.
@@ -193,8 +241,61 @@ export interface SubAgent {
   /** 
    * Optional interrupt configuration for this subagent.
    * If not provided, uses the parent agent's interruptOn config.
+   * Subagents cannot pause for approval: calls that need it return an
+   * error to the subagent instead of running.
    */
   interruptOn?: InterruptOnConfig;
+  /**
+   * Optional zod schema for the subagent's final answer.
+   * The subagent must finish with an object matching the schema, which is
+   * returned to the parent as the `task` tool result (JSON) and as `output`
+   * on the `subagent-finish` event.
+   *
+   * @example
+   * ```typescript
+   * outputSchema: z.object({
+   *   severity: z.enum(['low', 'medium', 'high']),
+   *   summary: z.string(),
+   * })
+   * ```
+   */
+  outputSchema?: z.ZodType;
+  /**
+   * Built-in tool groups this subagent inherits from the parent agent.
+   * Its custom `tools` are always added.
+   *
+   * @default ["todos", "filesystem"]
+   * @example
+   * ```typescript
+   * // An implementer that can run tests and delegate further
+   * inheritTools: ['todos', 'filesystem', 'execute', 'task'],
+   * ```
+   */
+  inheritTools?: SubagentToolGroup[];
+  /**
+   * Maximum number of steps (model calls) for this subagent.
+   *
+   * @default 50
+   */
+  maxSteps?: number;
+  /**
+   * Optional backend for this subagent's file, web and execute tools.
+   * If not provided, the subagent uses the parent agent's backend.
+   * Use a sandbox for subagents that run commands, or a separate
+   * `StateBackend` as a scratch space.
+   */
+  backend?: BackendProtocol | BackendFactory;
+  /**
+   * Optional model middleware for this subagent.
+   * If not provided, the parent agent's `middleware` is applied; pass `[]`
+   * to run the subagent's model without middleware.
+   */
+  middleware?: LanguageModelMiddleware | LanguageModelMiddleware[];
+  /**
+   * Names of the parent agent's skills this subagent can use.
+   * If not provided, the subagent gets all of the parent's skills.
+   */
+  skills?: string[];
 }
 
 /**
@@ -280,6 +381,61 @@ export interface DynamicApprovalConfig {
  */
 export type InterruptOnConfig = Record<string, boolean | DynamicApprovalConfig>;
 
+/**
+ * Where an approval rule applies and is stored.
+ *
+ * - `session`: Kept in memory for the lifetime of the policy object
+ * - `project`: Saved in `[git-root]/.deepagents/approval-policy.json`. Allow
+ *   rules only apply once the user trusts them (see `ApprovalPolicyOptions`)
+ * - `user`: Saved in `~/.deepagents/[agentId/]approval-policy.json`
+ */
+export type ApprovalRuleScope = "session" | "project" | "user";
+
+/**
+ * Rule that approves or rejects tool calls without asking.
+ *
+ * @example
+ * ```typescript
+ * // Run test commands without approval
+ * { toolName: 'execute', action: 'allow', args: { command: '^npm test' }, scope: 'project' }
+ *
+ * // Allow writes under /src/
+ * { toolName: 'write_file', action: 'allow', args: { file_path: '^/src/' }, scope: 'session' }
+ * ```
+ */
+export interface ApprovalRule {
+  /** Tool name the rule applies to, or `*` for all tools */
+  toolName: string;
+  /** `allow` runs matching calls without approval, `deny` rejects them */
+  action: "allow" | "deny";
+  /**
+   * Argument patterns as regular expressions, keyed by argument name.
+   * All patterns must match. Non-string values are matched as JSON.
+   * Without patterns, the rule matches every call of the tool.
+   */
+  args?: Record<string, string>;
+  /** Where the rule applies and is stored */
+  scope: ApprovalRuleScope;
+  /** ISO 8601 timestamp when the rule was created */
+  createdAt?: string;
+}
+
+/**
+ * Protocol for approval policies consulted before tool calls.
+ *
+ * Policies are applied on top of `interruptOn`: a matching `allow` rule skips
+ * the approval request, a matching `deny` rule rejects the call (also for
+ * tools that don't require approval).
+ */
+export interface ApprovalPolicyProtocol {
+  /**
+   * Find the rule that decides a tool call.
+   *
+   * @returns The matching rule (deny rules win), or undefined to fall back to `interruptOn`
+   */
+  evaluate(toolName: string, args: unknown): Promise<ApprovalRule | undefined>;
+}
+
 /**
  * Configuration parameters for creating a Deep Agent.
  *
@@ -395,6 +551,65 @@ export interface CreateDeepAgentParams {
    * Example: `toolResultEvictionLimit: 20000` evicts results over 20k tokens.
    */
   toolResultEvictionLimit?: number;
+
+  /**
+   * Optional flag to return images (PNG, JPEG, GIF, WebP) read with `read_file`
+   * as image content parts (default: false).
+   *
+   * Enable this for vision-capable models so agents can look at screenshots
+   * and charts. When disabled, images are described as binary files.
+   */
+  readImages?: boolean;
+
+  /**
+   * Optional search provider for the web_search tool.
+   *
+   * Defaults to Tavily when `TAVILY_API_KEY` is set. Web tools are only
+   * available when a provider is configured one way or the other.
+   *
+   * @example Self-hosted SearXNG
+   * ```typescript
+   * const agent = createDeepAgent({
+   *   model,
+   *   webSearchProvider: new SearxngSearchProvider({ baseUrl: 'http://localhost:8888' }),
+   * });
+   * ```
+   */
+  webSearchProvider?: WebSearchProvider;
+
+  /**
+   * Optional restrictions on the URLs `http_request` and `fetch_url` may
+   * request: allowed and denied hosts, private networks, robots.txt, rate
+   * limits and response size (default: no restrictions).
+   *
+   * Subagents with web tools share the policy and its rate limits.
+   *
+   * @example
+   * ```typescript
+   * const agent = createDeepAgent({
+   *   model,
+   *   networkPolicy: { denyHosts: ['*.internal.example.com'], maxResponseBytes: 5_000_000 },
+   * });
+   * ```
+   */
+  networkPolicy?: NetworkPolicy;
+
+  /**
+   * Optional cache for `fetch_url` pages and `web_search` results
+   * (default: no caching).
+   *
+   * Subagents share the agent's cache. Use a persistent `KeyValueStore`
+   * to reuse results across runs.
+   *
+   * @example
+   * ```typescript
+   * const agent = createDeepAgent({
+   *   model,
+   *   webCache: new WebCache({ ttlSeconds: 600 }),
+   * });
+   * ```
+   */
+  webCache?: WebCache;
   
   /** 
    * Optional flag to enable prompt caching for improved performance (Anthropic only, default: false).
@@ -434,6 +649,32 @@ export interface CreateDeepAgentParams {
    * ```
    */
   interruptOn?: InterruptOnConfig;
+
+  /**
+   * Optional approval policy with persistent allow/deny rules.
+   *
+   * Consulted before every tool call, on top of `interruptOn`. Matching
+   * `allow` rules skip the approval request, matching `deny` rules reject
+   * the call without running it.
+   *
+   * @example
+   * ```typescript
+   * const approvalPolicy = new ApprovalPolicy({ agentId: 'my-agent' });
+   * await approvalPolicy.addRule({
+   *   toolName: 'execute',
+   *   action: 'allow',
+   *   args: { command: '^npm test' },
+   *   scope: 'project',
+   * });
+   *
+   * const agent = createDeepAgent({
+   *   model: anthropic('claude-sonnet-4-20250514'),
+   *   interruptOn: { execute: true },
+   *   approvalPolicy,
+   * });
+   * ```
+   */
+  approvalPolicy?: ApprovalPolicyProtocol;
   
   /**
    * Optional checkpointer for persisting agent state between invocations.
@@ -453,6 +694,59 @@ export interface CreateDeepAgentParams {
    */
   checkpointer?: BaseCheckpointSaver;
 
+  /**
+   * Prices per model, used to compute the cost of token usage.
+   * 
+   * Keys are model IDs; a key also matches model IDs it is a prefix of
+   * (e.g. `claude-sonnet-4` matches `claude-sonnet-4-20250514`). Usage of
+   * models without a price has no `cost`.
+   * 
+   * @example
+   * ```typescript
+   * pricing: {
+   *   'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+   *   'claude-haiku-4-5': { input: 1, output: 5 },
+   * }
+   * ```
+   */
+  pricing?: PriceTable;
+
+  /**
+   * Limits on the resources of a run, including subagents spawned via the
+   * `task` tool. When a limit is reached the run stops after the current step
+   * with a `budget-exceeded` event (and a checkpoint, if configured).
+   * 
+   * @example
+   * ```typescript
+   * budget: {
+   *   maxTokens: 500_000,
+   *   maxCost: 2, // USD, requires `pricing`
+   *   maxDurationMs: 10 * 60 * 1000,
+   *   maxToolCalls: { web_search: 20 },
+   * }
+   * ```
+   */
+  budget?: BudgetConfig;
+
+  /**
+   * Maximum number of subagents running at the same time, counted across
+   * all nesting levels. Further `task` calls wait in a queue until a
+   * subagent finishes; a subagent waiting for its own subagents lends them
+   * its slot.
+   * 
+   * @default unlimited
+   */
+  maxConcurrentSubagents?: number;
+
+  /**
+   * Maximum nesting depth of subagents. Subagents of the main agent are at
+   * depth 1; a subagent only gets the `task` tool (see `SubAgent.inheritTools`)
+   * while its own subagents would stay within the limit.
+   *
+   * @default 3
+   */
+  maxSubagentDepth?: number;
+
   /**
    * Optional directory to load skills from.
    * Skills are SKILL.md files with YAML frontmatter in subdirectories.
@@ -573,6 +867,13 @@ export interface CreateDeepAgentParams {
  * ```
  */
 export interface BackendProtocol {
+  /**
+   * Directory on the local disk that paths resolve against, for backends
+   * whose absolute paths are real paths on disk (e.g. a FilesystemBackend
+   * without virtualMode). Undefined for backends with virtual paths.
+   */
+  readonly rootDir?: string;
+
   /**
    * Structured listing with file metadata.
    * @param path - Directory path to list (use '.' for root)
@@ -643,6 +944,45 @@ export interface BackendProtocol {
     newString: string,
     replaceAll?: boolean
   ): EditResult | Promise<EditResult>;
+
+  /**
+   * Delete a file. Optional: backends without it don't support deletion.
+   * @param filePath - Path to the file to delete
+   * @returns DeleteResult with path on success, or error message on failure
+   */
+  delete?(filePath: string): DeleteResult | Promise<DeleteResult>;
+
+  /**
+   * Move (rename) a file. Fails if the destination already exists.
+   * Optional: backends without it don't support moving files.
+   * @param fromPath - Path of the file to move
+   * @param toPath - New path of the file
+   * @returns MoveResult with both paths on success, or error message on failure
+   */
+  move?(fromPath: string, toPath: string): MoveResult | Promise<MoveResult>;
+
+  /**
+   * Copy a file. Fails if the destination already exists.
+   * Optional: backends without it don't support copying files.
+   * @param fromPath - Path of the file to copy
+   * @param toPath - Path of the copy
+   * @returns MoveResult with both paths on success, or error message on failure
+   */
+  copy?(fromPath: string, toPath: string): MoveResult | Promise<MoveResult>;
+
+  /**
+   * Create a new binary file. Fails if the file already exists.
+   * Optional: backends without it only store text files.
+   * @param filePath - Path where the file should be created
+   * @param data - File content
+   * @param mimeType - MIME type (default: guessed from the file extension)
+   * @returns WriteResult with path on success, or error message on failure
+   */
+  writeBinary?(
+    filePath: string,
+    data: Uint8Array,
+    mimeType?: string
+  ): WriteResult | Promise<WriteResult>;
 }
 
 /**
@@ -843,6 +1183,175 @@ export function isSandboxBackend(
   );
 }
 
+/**
+ * Restrictions enforced by `PolicyBackend` and `PolicySandbox`.
+ *
+ * Paths are normalized to absolute paths and matched as globs (e.g.
+ * `/src/**`, `**\/.env`); paths that leave the root with `..` are denied.
+ * Commands are matched as regular expressions.
+ * Deny rules win over allow rules.
+ *
+ * @example Safe view of a project for untrusted subagents
+ * ```typescript
+ * const policy: BackendPolicy = {
+ *   readOnly: true,
+ *   denyPaths: ['**\/.env', '/secrets/**'],
+ *   maxFileSize: 1_000_000,
+ * };
+ * ```
+ */
+export interface BackendPolicy {
+  /** Reject `write`, `writeBinary`, `edit`, `delete`, `move` and `copy` */
+  readOnly?: boolean;
+  /** Only these paths may be accessed (default: all paths) */
+  allowPaths?: string[];
+  /** These paths may not be accessed */
+  denyPaths?: string[];
+  /** Maximum size in bytes of files read or written */
+  maxFileSize?: number;
+  /** Only commands matching one of these patterns may be executed (default: all commands) */
+  allowCommands?: string[];
+  /** Commands matching one of these patterns may not be executed */
+  denyCommands?: string[];
+}
+
+/**
+ * Restrictions on the URLs `http_request`, `fetch_url` and `crawl_site` may request.
+ *
+ * Hosts are matched case-insensitively as globs (e.g. `example.com`,
+ * `*.example.com`). Deny rules win over allow rules. Every redirect is
+ * checked like the original URL. Violations are returned as tool errors.
+ *
+ * @example Public documentation sites only
+ * ```typescript
+ * const policy: NetworkPolicy = {
+ *   allowHosts: ['docs.python.org', '*.mozilla.org'],
+ *   respectRobotsTxt: true,
+ *   rateLimit: { requests: 10, perSeconds: 60 },
+ *   maxResponseBytes: 2_000_000,
+ * };
+ * ```
+ */
+export interface NetworkPolicy {
+  /** Only these hosts may be requested (default: all hosts) */
+  allowHosts?: string[];
+  /** These hosts may not be requested */
+  denyHosts?: string[];
+  /**
+   * Block hosts that are or resolve to loopback, private, link-local
+   * (e.g. cloud metadata at 169.254.169.254) and other non-public addresses.
+   * Requests connect to the checked address (default: true)
+   */
+  blockPrivateNetworks?: boolean;
+  /** Don't let `fetch_url` and `crawl_site` fetch pages that the site's robots.txt disallows (default: false) */
+  respectRobotsTxt?: boolean;
+  /**
+   * Maximum number of requests per host in a time window, shared by the web
+   * tools. Requests over the limit fail; `crawl_site` waits instead
+   */
+  rateLimit?: {
+    requests: number;
+    perSeconds: number;
+  };
+  /** Maximum size in bytes of a response body */
+  maxResponseBytes?: number;
+}
+
+// ============================================================================
+// Usage and Cost
+// ============================================================================
+
+/**
+ * Token usage reported by the model provider.
+ */
+export interface TokenUsage {
+  /** Input (prompt) tokens, including cached tokens */
+  inputTokens: number;
+  /** Output (completion) tokens, including reasoning tokens */
+  outputTokens: number;
+  /** Total tokens */
+  totalTokens: number;
+  /** Input tokens read from the provider's prompt cache */
+  cachedInputTokens: number;
+  /** Input tokens written to the provider's prompt cache */
+  cacheWriteTokens: number;
+  /** Output tokens used for reasoning */
+  reasoningTokens: number;
+  /** Cost in USD, if the model has a price in the price table */
+  cost?: number;
+}
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  /** Price of input tokens */
+  input: number;
+  /** Price of output tokens (including reasoning tokens) */
+  output: number;
+  /** Price of cached input tokens (defaults to `input`) */
+  cachedInput?: number;
+  /** Price of tokens written to the prompt cache (defaults to `input`) */
+  cacheWrite?: number;
+}
+
+/**
+ * Model prices keyed by model ID (or model ID prefix).
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Token usage of one subagent invocation.
+ */
+export interface SubagentUsage {
+  /** Subagent type */
+  name: string;
+  /** Task given to the subagent */
+  task: string;
+  /** Usage of all steps of the subagent */
+  usage: TokenUsage;
+}
+
+/**
+ * Token usage of an agent run.
+ */
+export interface RunUsage {
+  /** Usage of the whole run (main agent and all subagents) */
+  total: TokenUsage;
+  /** Usage of the main agent's model calls (steps and summarization) */
+  agent: TokenUsage;
+  /** Usage per subagent invocation, in completion order */
+  subagents: SubagentUsage[];
+}
+
+/**
+ * Resource limits of an agent run.
+ */
+export interface BudgetConfig {
+  /** Maximum total tokens (input and output) of the run */
+  maxTokens?: number;
+  /** Maximum cost in USD (only usage of models in the price table counts) */
+  maxCost?: number;
+  /** Maximum wall-clock time of the run in milliseconds */
+  maxDurationMs?: number;
+  /** Maximum number of calls per tool name */
+  maxToolCalls?: Record<string, number>;
+}
+
+/**
+ * The budget limit that stopped a run.
+ */
+export interface BudgetExceeded {
+  /** Which limit was reached */
+  reason: "tokens" | "cost" | "time" | "tool-calls";
+  /** The configured limit */
+  limit: number;
+  /** The amount used when the limit was reached */
+  used: number;
+  /** Tool whose call limit was reached (for `tool-calls`) */
+  toolName?: string;
+}
+
 // ============================================================================
 // Event Types for Streaming
 // ============================================================================
@@ -874,6 +1383,8 @@ export interface StepFinishEvent {
     args: unknown;
     result: unknown;
   }>;
+  /** Token usage of the step's model call (subagents called in the step excluded) */
+  usage?: TokenUsage;
 }
 
 /**
@@ -931,6 +1442,32 @@ export interface FileEditedEvent {
   occurrences: number;
 }
 
+/**
+ * Event emitted when a file is deleted.
+ */
+export interface FileDeletedEvent {
+  type: "file-deleted";
+  path: string;
+}
+
+/**
+ * Event emitted when a file is moved.
+ */
+export interface FileMovedEvent {
+  type: "file-moved";
+  from: string;
+  to: string;
+}
+
+/**
+ * Event emitted when a file is copied.
+ */
+export interface FileCopiedEvent {
+  type: "file-copied";
+  from: string;
+  to: string;
+}
+
 /**
  * Event emitted when a file is read.
  */
@@ -1015,6 +1552,8 @@ export interface WebSearchFinishEvent {
   query: string;
   /** Number of results returned */
   resultCount: number;
+  /** Whether the results came from the web cache (set when a cache is configured) */
+  cached?: boolean;
 }
 
 /**
@@ -1057,6 +1596,8 @@ export interface FetchUrlFinishEvent {
   url: string;
   /** Whether extraction was successful */
   success: boolean;
+  /** Whether the page came from the web cache (set when a cache is configured) */
+  cached?: boolean;
 }
 
 /**
@@ -1066,6 +1607,30 @@ export interface SubagentStartEvent {
   type: "subagent-start";
   name: string;
   task: string;
+  /** ID of this subagent invocation (the `task` tool call ID) */
+  invocationId: string;
+  /** Nesting depth of the subagent (1 for subagents of the main agent) */
+  depth: number;
+}
+
+/**
+ * A file changed by a subagent while another agent changed it too.
+ */
+export interface FileConflict {
+  /** File path */
+  path: string;
+  /**
+   * Invocation IDs of the other subagents that wrote the file while this one
+   * ran (empty if the main agent changed it)
+   */
+  conflictsWith: string[];
+  /**
+   * `kept-existing`: this subagent's version was not merged into the state,
+   * the other agent's version was kept. `overwritten`: this subagent's write
+   * went through (e.g. directly to disk) and may have replaced the other
+   * agent's changes.
+   */
+  resolution: "kept-existing" | "overwritten";
 }
 
 /**
@@ -1074,7 +1639,19 @@ export interface SubagentStartEvent {
 export interface SubagentFinishEvent {
   type: "subagent-finish";
   name: string;
+  /** Task given to the subagent */
+  task: string;
+  /** ID of this subagent invocation (matches `subagent-start`) */
+  invocationId: string;
+  /** Nesting depth of the subagent (1 for subagents of the main agent) */
+  depth: number;
   result: string;
+  /** Validated final answer of subagents with an `outputSchema` */
+  output?: unknown;
+  /** Token usage of the subagent's steps */
+  usage?: TokenUsage;
+  /** Files this subagent and a parallel agent both changed */
+  conflicts?: FileConflict[];
 }
 
 /**
@@ -1101,8 +1678,13 @@ export interface DoneEvent {
   type: "done";
   state: DeepAgentState;
   text?: string;
-  /** Updated conversation history including the assistant's response */
+  /**
+   * Updated conversation history including the assistant's response:
+   * tool calls, tool results and text of every step of the run
+   */
   messages?: ModelMessage[];
+  /** Token usage and cost of the run, including subagents */
+  usage?: RunUsage;
 }
 
 /**
@@ -1137,6 +1719,40 @@ export interface ApprovalResponseEvent {
   approvalId: string;
   /** Whether the tool was approved */
   approved: boolean;
+  /** The tool call ID the decision applies to */
+  toolCallId?: string;
+  /** Edited arguments the tool was executed with (for `edit` decisions) */
+  modifiedArgs?: unknown;
+}
+
+/**
+ * Event emitted when the agent pauses for tool approval.
+ *
+ * Emitted instead of `done` when a tool in `interruptOn` needs approval and no
+ * approval callback was provided. When a checkpointer and threadId
+ * are configured, the interrupt is saved in the checkpoint and the run can be
+ * continued later by calling `streamWithEvents` with `resume`.
+ */
+export interface InterruptEvent {
+  type: "interrupt";
+  /** Thread ID the interrupt was saved under (if checkpointing is enabled) */
+  threadId?: string;
+  /** The pending tool calls awaiting a decision */
+  interrupt: InterruptData;
+  /** Conversation history up to and including the pending tool call */
+  messages: ModelMessage[];
+  /** Token usage and cost of the run until the interrupt */
+  usage?: RunUsage;
+}
+
+/**
+ * Event emitted when a run stops because a budget limit was reached.
+ * A `done` event with the messages so far follows.
+ */
+export interface BudgetExceededEvent extends BudgetExceeded {
+  type: "budget-exceeded";
+  /** Token usage and cost of the run */
+  usage: RunUsage;
 }
 
 /**
@@ -1166,7 +1782,7 @@ export interface CheckpointLoadedEvent {
 /**
  * Union type of all possible Deep Agent events.
  */
-export type DeepAgentEvent =
+export type DeepAgentEvent = (
   | TextEvent
   | StepStartEvent
   | StepFinishEvent
@@ -1176,6 +1792,9 @@ export type DeepAgentEvent =
   | FileWriteStartEvent
   | FileWrittenEvent
   | FileEditedEvent
+  | FileDeletedEvent
+  | FileMovedEvent
+  | FileCopiedEvent
   | FileReadEvent
   | LsEvent
   | GlobEvent
@@ -1194,10 +1813,32 @@ export type DeepAgentEvent =
   | UserMessageEvent
   | ApprovalRequestedEvent
   | ApprovalResponseEvent
+  | InterruptEvent
+  | BudgetExceededEvent
   | CheckpointSavedEvent
   | CheckpointLoadedEvent
   | DoneEvent
-  | ErrorEvent;
+  | ErrorEvent
+) & {
+  /**
+   * Set on events emitted while a subagent runs (its text, steps, tool calls
+   * and tool events), identifying the innermost subagent that emitted it.
+   * Events of the main agent don't have it.
+   */
+  subagent?: SubagentEventSource;
+};
+
+/**
+ * Identifies the subagent invocation an event was emitted by.
+ */
+export interface SubagentEventSource {
+  /** ID of the subagent invocation (as in `subagent-start`) */
+  invocationId: string;
+  /** Subagent type */
+  name: string;
+  /** Nesting depth (1 for subagents of the main agent) */
+  depth: number;
+}
 
 /**
  * Callback function for handling Deep Agent events.
@@ -1219,9 +1860,17 @@ export interface StreamWithEventsOptions {
   prompt?: string;  // Make optional for resume-only calls
   /** Maximum number of steps for the agent loop */
   maxSteps?: number;
+  /**
+   * Budget for this run. Fields override the agent's `budget`;
+   * `maxToolCalls` entries are merged per tool.
+   */
+  budget?: BudgetConfig;
   /** Shared state for todos and files */
   state?: DeepAgentState;
-  /** Conversation history for multi-turn conversations */
+  /**
+   * Conversation history for multi-turn conversations (e.g. `messages` of the
+   * previous `done` event). Ignored when a checkpoint is loaded for `threadId`.
+   */
   messages?: ModelMessage[];
   /** Signal to abort the generation */
   abortSignal?: AbortSignal;
@@ -1233,21 +1882,45 @@ export interface StreamWithEventsOptions {
    * - Resume from interrupts
    */
   threadId?: string;
+  /**
+   * Thread metadata to save with checkpoints (merged into existing metadata).
+   * Defaults: `title` from the first prompt, `model` from the agent's model.
+   */
+  metadata?: ThreadMetadata;
   /**
    * Resume options for continuing from an interrupt.
-   * Use when resuming from a tool approval request.
+   * Use when resuming from a tool approval request. Requires `threadId`
+   * and a checkpointer holding the pending interrupt.
    */
   resume?: ResumeOptions;
   /**
    * Callback to handle tool approval requests.
-   * Return true to approve, false to deny.
-   * If not provided, tools requiring approval will be auto-denied.
+   * Return true to approve, false to deny, or a `ResumeDecision` such as
+   * `{ type: 'edit', modifiedArgs }` to run the tool with edited arguments.
+   * When a step has several tool calls that need approval, the callback is
+   * called once per call, in order (see `onApprovalBatchRequest`).
+   * If neither callback is provided, the agent pauses when a tool requires
+   * approval: it emits an `interrupt` event, saves the interrupt in the
+   * checkpoint (when a `threadId` and checkpointer are configured) and ends the run.
    */
   onApprovalRequest?: (request: {
     approvalId: string;
     toolCallId: string;
     toolName: string;
     args: unknown;
-  }) => Promise<boolean>;
+  }) => Promise<boolean | ResumeDecision>;
+  /**
+   * Callback to handle all approval requests of a step at once.
+   * Return one decision per request, in the same order. Takes precedence
+   * over `onApprovalRequest`.
+   */
+  onApprovalBatchRequest?: (
+    requests: Array<{
+      approvalId: string;
+      toolCallId: string;
+      toolName: string;
+      args: unknown;
+    }>
+  ) => Promise<Array<boolean | ResumeDecision>>;
 }
 
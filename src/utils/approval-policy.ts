@@ -0,0 +1,415 @@
+/**
+ * Persistent approval policies: allow/deny rules for tool calls.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type {
+  ApprovalRule,
+  ApprovalRuleScope,
+  ApprovalPolicyProtocol,
+} from "../types.ts";
+import { findGitRoot } from "./project-detection.ts";
+
+/**
+ * File name of saved approval rules inside a `.deepagents` directory.
+ */
+export const APPROVAL_POLICY_FILENAME = "approval-policy.json";
+
+/**
+ * File name of the project allow rules the user trusts, next to the user rules.
+ */
+const TRUSTED_PROJECT_RULES_FILENAME = "trusted-project-rules.json";
+
+/**
+ * Options for ApprovalPolicy.
+ */
+export interface ApprovalPolicyOptions {
+  /**
+   * Agent identifier. User rules are stored at
+   * ~/.deepagents/{agentId}/approval-policy.json (or ~/.deepagents/ without it).
+   */
+  agentId?: string;
+
+  /**
+   * Optional custom path for user-level .deepagents directory.
+   * Defaults to os.homedir() + '/.deepagents'.
+   */
+  userDeepagentsDir?: string;
+
+  /**
+   * Working directory used to find the project (git root).
+   * Defaults to process.cwd(). Project rules are disabled outside a git repository.
+   */
+  workingDirectory?: string;
+
+  /** Initial session rules */
+  rules?: Array<Omit<ApprovalRule, "scope">>;
+
+  /**
+   * Called when the project's approval-policy.json contains allow rules that
+   * were not saved by this user, e.g. rules shipped with a cloned repository.
+   * Return true to trust and apply them. Without this callback such rules are
+   * ignored; project deny rules always apply.
+   */
+  trustProjectRules?: (
+    projectPath: string,
+    rules: Array<Omit<ApprovalRule, "scope">>
+  ) => Promise<boolean>;
+}
+
+/**
+ * Content of a saved approval policy file.
+ */
+interface ApprovalPolicyFile {
+  version: 1;
+  rules: Array<Omit<ApprovalRule, "scope">>;
+}
+
+/**
+ * Content of the file recording trusted project allow rules.
+ */
+interface TrustedProjectRulesFile {
+  version: 1;
+  /** Fingerprints of trusted rules by project path */
+  projects: Record<string, string[]>;
+}
+
+/**
+ * Tool arguments that hold file paths.
+ */
+const PATH_ARGUMENTS = ["file_path", "path", "source_path", "destination_path"];
+
+/**
+ * Normalize path arguments, so "/src/../etc/passwd" can't match a rule for
+ * "^/src/".
+ */
+function normalizeArgs(args: unknown): unknown {
+  if (!args || typeof args !== "object") {
+    return args;
+  }
+  const normalized: Record<string, unknown> = { ...(args as Record<string, unknown>) };
+  for (const name of PATH_ARGUMENTS) {
+    const value = normalized[name];
+    if (typeof value === "string" && value !== "") {
+      normalized[name] = path.posix.normalize(value);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Fingerprint of what a rule allows or denies, ignoring metadata.
+ */
+function ruleFingerprint(rule: Omit<ApprovalRule, "scope">): string {
+  return createHash("sha256")
+    .update(JSON.stringify([rule.toolName, rule.action, rule.args ?? {}]))
+    .digest("hex");
+}
+
+/**
+ * Check whether a rule matches a tool call.
+ */
+function matchesRule(rule: ApprovalRule, toolName: string, args: unknown): boolean {
+  if (rule.toolName !== "*" && rule.toolName !== toolName) {
+    return false;
+  }
+
+  for (const [name, pattern] of Object.entries(rule.args ?? {})) {
+    const value = args && typeof args === "object" ? (args as Record<string, unknown>)[name] : undefined;
+    if (value === undefined) {
+      return false;
+    }
+
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    try {
+      if (!new RegExp(pattern).test(text)) {
+        return false;
+      }
+    } catch {
+      // Invalid patterns never match
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Rule-based approval policy with session, project and user scopes.
+ *
+ * Session rules live in memory. Project rules are saved next to the project
+ * `.deepagents/` directory and user rules next to the user's agent directory,
+ * so "always allow" answers survive restarts. Deny rules take precedence over
+ * allow rules regardless of scope.
+ *
+ * Because the project file is part of the repository, project allow rules
+ * only apply if this user saved them (recorded in the user directory) or
+ * `trustProjectRules` approves them. Otherwise a cloned repository could
+ * auto-approve its own commands.
+ *
+ * @example
+ * ```typescript
+ * const policy = new ApprovalPolicy({ agentId: 'my-agent' });
+ * await policy.addRule({
+ *   toolName: 'write_file',
+ *   action: 'allow',
+ *   args: { file_path: '^/src/' },
+ *   scope: 'session',
+ * });
+ *
+ * await policy.evaluate('write_file', { file_path: '/src/index.ts' }); // allow rule
+ * ```
+ */
+export class ApprovalPolicy implements ApprovalPolicyProtocol {
+  private options: ApprovalPolicyOptions;
+  private rules: ApprovalRule[];
+  private loaded: Promise<void> | null = null;
+  private projectFile: string | null = null;
+  private projectRoot: string | null = null;
+  /** Project allow rules that are kept in the file but not applied */
+  private untrustedProjectRules: Array<Omit<ApprovalRule, "scope">> = [];
+
+  constructor(options: ApprovalPolicyOptions = {}) {
+    this.options = options;
+    this.rules = (options.rules ?? []).map((rule) => ({ ...rule, scope: "session" }));
+  }
+
+  /**
+   * Path of the user-level policy file.
+   */
+  private getUserFile(): string {
+    const baseUserDir = this.options.userDeepagentsDir || path.join(os.homedir(), ".deepagents");
+    return path.join(baseUserDir, this.options.agentId ?? "", APPROVAL_POLICY_FILENAME);
+  }
+
+  /**
+   * Path of the file recording trusted project allow rules.
+   */
+  private getTrustFile(): string {
+    return path.join(path.dirname(this.getUserFile()), TRUSTED_PROJECT_RULES_FILENAME);
+  }
+
+  private async readTrustFile(): Promise<TrustedProjectRulesFile> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.getTrustFile(), "utf-8")) as TrustedProjectRulesFile;
+      return data.projects && typeof data.projects === "object" ? data : { version: 1, projects: {} };
+    } catch {
+      // Missing or unreadable file - nothing trusted yet
+      return { version: 1, projects: {} };
+    }
+  }
+
+  /**
+   * Record project allow rules as trusted by this user.
+   */
+  private async trustRules(rules: Array<Omit<ApprovalRule, "scope">>): Promise<void> {
+    if (!this.projectRoot || rules.length === 0) {
+      return;
+    }
+    const data = await this.readTrustFile();
+    const trusted = new Set(data.projects[this.projectRoot] ?? []);
+    for (const rule of rules) {
+      trusted.add(ruleFingerprint(rule));
+    }
+    data.projects[this.projectRoot] = [...trusted];
+
+    await fs.mkdir(path.dirname(this.getTrustFile()), { recursive: true });
+    await fs.writeFile(this.getTrustFile(), JSON.stringify(data, null, 2), "utf-8");
+  }
+
+  /**
+   * Load saved project and user rules (once).
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const gitRoot = await findGitRoot(this.options.workingDirectory);
+        if (gitRoot) {
+          this.projectRoot = gitRoot;
+          this.projectFile = path.join(gitRoot, ".deepagents", APPROVAL_POLICY_FILENAME);
+        }
+
+        let projectRules = this.projectFile ? await this.readFile(this.projectFile) : [];
+        const userRules = await this.readFile(this.getUserFile());
+
+        // Only apply project allow rules the user trusts
+        const trusted = new Set(gitRoot ? (await this.readTrustFile()).projects[gitRoot] ?? [] : []);
+        const untrusted = projectRules.filter(
+          (rule) => rule.action === "allow" && !trusted.has(ruleFingerprint(rule))
+        );
+        if (untrusted.length > 0) {
+          if (gitRoot && (await this.options.trustProjectRules?.(gitRoot, untrusted))) {
+            await this.trustRules(untrusted);
+          } else {
+            this.untrustedProjectRules = untrusted;
+            projectRules = projectRules.filter((rule) => !untrusted.includes(rule));
+          }
+        }
+
+        this.rules = [
+          ...this.rules,
+          ...projectRules.map((rule) => ({ ...rule, scope: "project" as const })),
+          ...userRules.map((rule) => ({ ...rule, scope: "user" as const })),
+        ];
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(filePath: string): Promise<Array<Omit<ApprovalRule, "scope">>> {
+    try {
+      const content = await fs.readFile(filePath, "utf-8");
+      const data = JSON.parse(content) as ApprovalPolicyFile;
+      return Array.isArray(data.rules) ? data.rules : [];
+    } catch {
+      // Missing or unreadable file - no saved rules
+      return [];
+    }
+  }
+
+  /**
+   * Write all rules of a persistent scope to its file.
+   */
+  private async saveScope(scope: Exclude<ApprovalRuleScope, "session">): Promise<void> {
+    const filePath = scope === "project" ? this.projectFile : this.getUserFile();
+    if (!filePath) {
+      throw new Error("Project approval rules require a git repository");
+    }
+
+    const data: ApprovalPolicyFile = {
+      version: 1,
+      rules: [
+        ...this.rules
+          .filter((rule) => rule.scope === scope)
+          .map(({ scope: _scope, ...rule }) => rule),
+        // Keep rules this user doesn't trust in the file, still unapplied
+        ...(scope === "project" ? this.untrustedProjectRules : []),
+      ],
+    };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+  }
+
+  /**
+   * Find the rule that decides a tool call.
+   *
+   * @returns The first matching deny rule, else the first matching allow rule
+   */
+  async evaluate(toolName: string, args: unknown): Promise<ApprovalRule | undefined> {
+    await this.ensureLoaded();
+
+    const normalizedArgs = normalizeArgs(args);
+    const matching = this.rules.filter((rule) => matchesRule(rule, toolName, normalizedArgs));
+    return matching.find((rule) => rule.action === "deny") ?? matching[0];
+  }
+
+  /**
+   * Add a rule. Project and user rules are saved immediately.
+   *
+   * @throws Error if an argument pattern is not a valid regular expression
+   */
+  async addRule(rule: ApprovalRule): Promise<void> {
+    for (const [name, pattern] of Object.entries(rule.args ?? {})) {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        throw new Error(
+          `Invalid pattern for argument '${name}': ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    await this.ensureLoaded();
+    this.rules.push({ createdAt: new Date().toISOString(), ...rule });
+
+    if (rule.scope !== "session") {
+      await this.saveScope(rule.scope);
+    }
+    if (rule.scope === "project" && rule.action === "allow") {
+      await this.trustRules([rule]);
+    }
+  }
+
+  /**
+   * Get all rules, optionally filtered by scope.
+   */
+  async getRules(scope?: ApprovalRuleScope): Promise<ApprovalRule[]> {
+    await this.ensureLoaded();
+    return this.rules.filter((rule) => !scope || rule.scope === scope);
+  }
+
+  /**
+   * Remove all rules of a scope (and its saved file content).
+   */
+  async clearRules(scope: ApprovalRuleScope): Promise<void> {
+    await this.ensureLoaded();
+    this.rules = this.rules.filter((rule) => rule.scope !== scope);
+    if (scope === "project") {
+      this.untrustedProjectRules = [];
+    }
+
+    if (scope === "user" || (scope === "project" && this.projectFile)) {
+      await this.saveScope(scope);
+    }
+  }
+}
+
+/**
+ * Escape a string for use as a literal in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build an "always allow" rule from a tool call a user approved.
+ *
+ * - Calls with a `command` argument allow exactly that command
+ * - Calls with a `file_path` argument allow the file's directory, or only
+ *   the file for files in the root directory
+ * - Other calls allow the tool
+ */
+export function suggestApprovalRule(
+  toolName: string,
+  args: unknown,
+  scope: ApprovalRuleScope
+): ApprovalRule {
+  const values = args && typeof args === "object" ? (args as Record<string, unknown>) : {};
+
+  if (typeof values.command === "string") {
+    return {
+      toolName,
+      action: "allow",
+      args: { command: `^${escapeRegExp(values.command)}$` },
+      scope,
+    };
+  }
+
+  if (typeof values.file_path === "string") {
+    // Same normalization as evaluate()
+    const filePath = path.posix.normalize(values.file_path);
+    const dir = path.posix.dirname(filePath);
+    // Never allow the whole filesystem
+    const pattern =
+      dir === "/" || dir === "." || dir.split("/").includes("..")
+        ? `^${escapeRegExp(filePath)}$`
+        : `^${escapeRegExp(`${dir}/`)}`;
+    return { toolName, action: "allow", args: { file_path: pattern }, scope };
+  }
+
+  return { toolName, action: "allow", scope };
+}
+
+/**
+ * Describe a rule in one line (for logs and the CLI).
+ */
+export function formatApprovalRule(rule: ApprovalRule): string {
+  const patterns = Object.entries(rule.args ?? {})
+    .map(([name, pattern]) => `${name}=/${pattern}/`)
+    .join(" ");
+  return `${rule.action} ${rule.toolName}${patterns ? ` ${patterns}` : ""} (${rule.scope})`;
+}
@@ -2,8 +2,13 @@
  * Unit tests for approval utility functions.
  */
 import { test, expect, describe } from "bun:test";
-import { applyInterruptConfig, hasApprovalTools } from "./approval";
-import { tool } from "ai";
+import {
+  applyInterruptConfig,
+  hasApprovalTools,
+  validateToolArgs,
+  applyEditedToolArgs,
+} from "./approval";
+import { tool, type ModelMessage } from "ai";
 import { z } from "zod";
 
 // Create a mock tool for testing using AI SDK v6 tool() API
@@ -168,3 +173,44 @@ describe("hasApprovalTools", () => {
     ).toBe(true);
   });
 });
+
+describe("validateToolArgs", () => {
+  test("returns parsed arguments for valid input", async () => {
+    const result = await validateToolArgs(createMockTool("test"), { arg: "ok" });
+
+    expect(result).toEqual({ success: true, value: { arg: "ok" } });
+  });
+
+  test("returns an error for input that does not match the schema", async () => {
+    const result = await validateToolArgs(createMockTool("test"), { arg: 42 });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("applyEditedToolArgs", () => {
+  const messages: ModelMessage[] = [
+    { role: "user", content: "Write a file" },
+    {
+      role: "assistant",
+      content: [
+        { type: "tool-call", toolCallId: "call-1", toolName: "write_file", input: { file_path: "/a.md" } },
+        { type: "tool-call", toolCallId: "call-2", toolName: "write_file", input: { file_path: "/b.md" } },
+      ],
+    },
+  ];
+
+  test("returns messages unchanged when nothing was edited", () => {
+    expect(applyEditedToolArgs(messages, new Map())).toBe(messages);
+  });
+
+  test("replaces the input of edited tool calls only", () => {
+    const result = applyEditedToolArgs(messages, new Map([["call-2", { file_path: "/c.md" }]]));
+    const content = result[1]!.content as Array<{ input: unknown }>;
+
+    expect(content[0]!.input).toEqual({ file_path: "/a.md" });
+    expect(content[1]!.input).toEqual({ file_path: "/c.md" });
+    // Original history is not modified
+    expect((messages[1]!.content as Array<{ input: unknown }>)[1]!.input).toEqual({ file_path: "/b.md" });
+  });
+});
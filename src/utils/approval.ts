@@ -2,18 +2,105 @@
  * Utilities for applying tool approval configuration.
  */
 
-import { tool, type ToolSet } from "ai";
-import type { InterruptOnConfig, DynamicApprovalConfig } from "../types.ts";
+import {
+  tool,
+  asSchema,
+  type Tool,
+  type ToolSet,
+  type ContentPart,
+  type ModelMessage,
+  type ToolResultPart,
+  type ToolExecutionOptions,
+  type ToolCallOptions,
+} from "ai";
+import type {
+  InterruptOnConfig,
+  DynamicApprovalConfig,
+  EventCallback,
+  ApprovalPolicyProtocol,
+} from "../types.ts";
+import type { InterruptData, ResumeDecision } from "../checkpointer/types.ts";
 
 /**
  * Callback type for requesting approval from the user.
+ *
+ * Return `true`/`false` to approve or deny, or a `ResumeDecision` to edit
+ * the arguments before the tool runs.
  */
 export type ApprovalCallback = (request: {
   approvalId: string;
   toolCallId: string;
   toolName: string;
   args: unknown;
-}) => Promise<boolean>;
+}) => Promise<boolean | ResumeDecision>;
+
+/**
+ * Normalize an approval callback answer into a decision.
+ */
+function toDecision(answer: boolean | ResumeDecision): ResumeDecision {
+  if (typeof answer === "boolean") {
+    return { type: answer ? "approve" : "deny" };
+  }
+  return answer;
+}
+
+/**
+ * Validate edited arguments against a tool's input schema.
+ *
+ * @returns The parsed arguments (with schema defaults applied) or an error message
+ */
+export async function validateToolArgs(
+  targetTool: Tool,
+  args: unknown
+): Promise<{ success: true; value: unknown } | { success: false; error: string }> {
+  const schema = asSchema(targetTool.inputSchema);
+  if (!schema.validate) {
+    return { success: true, value: args };
+  }
+
+  const result = await schema.validate(args);
+  if (result.success) {
+    return { success: true, value: result.value };
+  }
+  return { success: false, error: result.error.message };
+}
+
+/**
+ * Replace the input of edited tool calls in a message history.
+ *
+ * Keeps the conversation consistent with what actually ran, so the model
+ * (and anyone reading the history) sees the edited arguments.
+ *
+ * @param messages - Conversation history
+ * @param editedArgs - Map of tool call ID to the arguments the tool ran with
+ * @returns New message array (original messages are not modified)
+ */
+export function applyEditedToolArgs(
+  messages: ModelMessage[],
+  editedArgs: Map<string, unknown>
+): ModelMessage[] {
+  if (editedArgs.size === 0) {
+    return messages;
+  }
+
+  return messages.map((message) => {
+    if (message.role !== "assistant" || typeof message.content === "string") {
+      return message;
+    }
+    if (!message.content.some((part) => part.type === "tool-call" && editedArgs.has(part.toolCallId))) {
+      return message;
+    }
+
+    return {
+      ...message,
+      content: message.content.map((part) =>
+        part.type === "tool-call" && editedArgs.has(part.toolCallId)
+          ? { ...part, input: editedArgs.get(part.toolCallId) }
+          : part
+      ),
+    };
+  });
+}
 
 /**
  * Check if approval is needed based on config.
@@ -100,23 +187,119 @@ export function applyInterruptConfig(
   return result;
 }
 
+/**
+ * Apply an approval policy on top of a toolset's `needsApproval` settings.
+ *
+ * Call after `applyInterruptConfig`. Calls matching an `allow` rule skip the
+ * approval request; calls matching a `deny` rule are rejected without running,
+ * including tools that don't require approval. Rules are evaluated at call
+ * time, so rules added mid-run apply to the next call.
+ *
+ * @param tools - Toolset with interruptOn already applied
+ * @param policy - Approval policy to consult (returns tools unchanged if undefined)
+ * @returns New toolset consulting the policy
+ */
+export function applyApprovalPolicy(
+  tools: ToolSet,
+  policy?: ApprovalPolicyProtocol
+): ToolSet {
+  if (!policy) {
+    return tools;
+  }
+
+  const result: ToolSet = {};
+
+  for (const [name, existingTool] of Object.entries(tools)) {
+    const originalExecute = existingTool.execute;
+    if (!originalExecute) {
+      result[name] = existingTool;
+      continue;
+    }
+
+    const needsApproval = existingTool.needsApproval;
+
+    result[name] = {
+      ...existingTool,
+      needsApproval: async (args: unknown, options: ToolCallOptions) => {
+        // Matching rules decide without asking (deny is rejected in execute)
+        if (await policy.evaluate(name, args)) {
+          return false;
+        }
+        if (typeof needsApproval === "function") {
+          return needsApproval(args, options);
+        }
+        return needsApproval ?? false;
+      },
+      execute: async (args: unknown, options: ToolExecutionOptions) => {
+        const rule = await policy.evaluate(name, args);
+        if (rule?.action === "deny") {
+          return `Tool execution denied by approval policy (${rule.scope} rule). The ${name} tool was not executed.`;
+        }
+        return originalExecute(args, options);
+      },
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Reject tool calls that need approval instead of requesting it.
+ *
+ * For subagents, which cannot pause for approval: a call that would need
+ * approval returns an error for the model without running, other calls run
+ * as usual. Call after `applyInterruptConfig` and `applyApprovalPolicy`.
+ *
+ * @param tools - Toolset with approval settings applied
+ * @returns New toolset that never requests approval
+ */
+export function rejectApprovalRequests(tools: ToolSet): ToolSet {
+  const result: ToolSet = {};
+
+  for (const [name, existingTool] of Object.entries(tools)) {
+    const { needsApproval, execute: originalExecute, ...rest } = existingTool;
+    if (!needsApproval || !originalExecute) {
+      result[name] = existingTool;
+      continue;
+    }
+
+    result[name] = {
+      ...rest,
+      execute: async (args: unknown, options: ToolExecutionOptions) => {
+        const needed =
+          typeof needsApproval === "function" ? await needsApproval(args, options) : needsApproval;
+        if (needed) {
+          return `Error: the ${name} tool requires approval, which is not available in subagents. The ${name} tool was not executed.`;
+        }
+        return originalExecute(args, options);
+      },
+    };
+  }
+
+  return result;
+}
+
 /**
  * Wrap tools with approval checking that intercepts execution.
  *
  * Unlike applyInterruptConfig which just sets needsApproval metadata,
  * this actually wraps the execute function to request approval before running.
+ * Each call is approved on its own as it executes; `DeepAgent.streamWithEvents`
+ * instead collects all approvals of a step into one batch.
  *
  * If no approval callback is provided, tools requiring approval will be auto-denied.
  *
  * @param tools - The original toolset
  * @param interruptOn - Configuration mapping tool names to approval settings
  * @param onApprovalRequest - Callback to request approval from user (optional)
+ * @param onEvent - Optional callback for emitting approval events
  * @returns New toolset with wrapped execute functions
  */
 export function wrapToolsWithApproval(
   tools: ToolSet,
   interruptOn: InterruptOnConfig | undefined,
-  onApprovalRequest: ApprovalCallback | undefined
+  onApprovalRequest: ApprovalCallback | undefined,
+  onEvent?: EventCallback
 ): ToolSet {
   if (!interruptOn) {
     return tools;
@@ -158,18 +341,48 @@ export function wrapToolsWithApproval(
             const approvalId = generateApprovalId();
             const toolCallId = options?.toolCallId || approvalId;
 
-            // Request approval from user
-            const approved = await onApprovalRequest({
+            onEvent?.({
+              type: "approval-requested",
               approvalId,
               toolCallId,
               toolName: name,
               args,
             });
 
-            if (!approved) {
+            // Request approval from user
+            const decision = toDecision(
+              await onApprovalRequest({
+                approvalId,
+                toolCallId,
+                toolName: name,
+                args,
+              })
+            );
+
+            if (decision.type === "deny") {
+              onEvent?.({ type: "approval-response", approvalId, toolCallId, approved: false });
               // User denied - return an error message instead of executing
               return `Tool execution denied by user. The ${name} tool was not executed.`;
             }
+
+            if (decision.type === "edit") {
+              const validated = await validateToolArgs(existingTool, decision.modifiedArgs);
+              if (!validated.success) {
+                onEvent?.({ type: "approval-response", approvalId, toolCallId, approved: false });
+                return `Edited arguments for ${name} are invalid: ${validated.error}. The ${name} tool was not executed.`;
+              }
+
+              onEvent?.({
+                type: "approval-response",
+                approvalId,
+                toolCallId,
+                approved: true,
+                modifiedArgs: validated.value,
+              });
+              return originalExecute(validated.value as typeof args, options);
+            }
+
+            onEvent?.({ type: "approval-response", approvalId, toolCallId, approved: true });
           }
 
           // Approved or no approval needed - execute the tool
@@ -200,8 +413,9 @@ export function createInterruptData(
   toolCallId: string,
   toolName: string,
   args: unknown,
-  step: number
-): import("../checkpointer/types.ts").InterruptData {
+  step: number,
+  approvalId?: string
+): InterruptData {
   return {
     toolCall: {
       toolCallId,
@@ -209,5 +423,206 @@ export function createInterruptData(
       args,
     },
     step,
+    ...(approvalId ? { approvalId } : {}),
+  };
+}
+
+/**
+ * Create interrupt data for all tool calls of a step that require approval.
+ *
+ * The first call is also stored as `toolCall`, so readers that only know
+ * about single interrupts keep working.
+ */
+export function createBatchInterruptData(
+  approvals: PendingApproval[],
+  step: number
+): InterruptData {
+  const [first] = approvals;
+  if (!first) {
+    throw new Error("Cannot create interrupt data without pending approvals");
+  }
+
+  return {
+    ...createInterruptData(first.toolCallId, first.toolName, first.args, step, first.approvalId),
+    toolCalls: approvals.map(({ approvalId, toolCallId, toolName, args }) => ({
+      toolCallId,
+      toolName,
+      args,
+      approvalId,
+    })),
   };
 }
+
+/**
+ * Get the pending tool calls of an interrupt, in order.
+ */
+export function getInterruptToolCalls(interrupt: InterruptData): PendingApproval[] {
+  const toolCalls = interrupt.toolCalls ?? [{ ...interrupt.toolCall, approvalId: interrupt.approvalId }];
+
+  return toolCalls.map((toolCall) => ({
+    approvalId: toolCall.approvalId ?? toolCall.toolCallId,
+    toolCallId: toolCall.toolCallId,
+    toolName: toolCall.toolName,
+    args: toolCall.args,
+  }));
+}
+
+/**
+ * Match resume decisions to pending tool calls.
+ *
+ * Decisions with a `toolCallId` are matched by ID; the others are matched by
+ * position. Tool calls without a decision get `undefined` (denied).
+ */
+export function matchResumeDecisions(
+  approvals: PendingApproval[],
+  decisions: ResumeDecision[]
+): Array<ResumeDecision | undefined> {
+  const byId = new Map<string, ResumeDecision>();
+  for (const decision of decisions) {
+    if (decision.toolCallId) {
+      byId.set(decision.toolCallId, decision);
+    }
+  }
+
+  return approvals.map((approval, index) => {
+    const decision = byId.get(approval.toolCallId);
+    if (decision) {
+      return decision;
+    }
+    const positional = decisions[index];
+    return positional && !positional.toolCallId ? positional : undefined;
+  });
+}
+
+/**
+ * A tool call the AI SDK stopped on because it requires approval.
+ */
+export interface PendingApproval {
+  approvalId: string;
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+}
+
+/**
+ * Collect tool calls waiting for approval from the content of the last step.
+ *
+ * When a tool has `needsApproval` set and is not wrapped with an approval
+ * callback, the AI SDK does not execute it. Instead it records a
+ * `tool-approval-request` part and ends the loop.
+ *
+ * @param content - Content parts of the final step
+ * @returns Pending approvals in the order the model requested them
+ */
+export function getPendingApprovals(content: ContentPart<ToolSet>[]): PendingApproval[] {
+  const pending: PendingApproval[] = [];
+
+  for (const part of content) {
+    if (part.type === "tool-approval-request") {
+      pending.push({
+        approvalId: part.approvalId,
+        toolCallId: part.toolCall.toolCallId,
+        toolName: part.toolCall.toolName,
+        args: part.toolCall.input,
+      });
+    }
+  }
+
+  return pending;
+}
+
+/**
+ * Convert a raw tool return value into a tool result output.
+ */
+function toToolResultOutput(output: unknown): ToolResultPart["output"] {
+  if (typeof output === "string") {
+    return { type: "text", value: output };
+  }
+  return { type: "json", value: (output ?? null) as never };
+}
+
+/**
+ * Result of resolving an interrupted tool call.
+ */
+export interface ResolvedInterrupt {
+  /** Whether the tool call was approved and executed */
+  approved: boolean;
+  /** Validated arguments the tool ran with, for `edit` decisions */
+  modifiedArgs?: unknown;
+  /** Tool output (or denial message) returned to the model */
+  output: unknown;
+  /** Tool result part to append to the conversation history */
+  part: ToolResultPart;
+}
+
+/**
+ * Resolve an interrupted tool call with the user's decision.
+ *
+ * Approved calls run the tool's own execute function (approval has already
+ * been given, so no callback is consulted). Edited calls run with the
+ * decision's `modifiedArgs` once they pass the tool's input schema. Denied
+ * calls return the same denial message as `wrapToolsWithApproval`, so the
+ * model sees a consistent result either way.
+ *
+ * @param tools - Toolset of the agent (unwrapped)
+ * @param toolCall - The pending tool call
+ * @param decision - The user's decision (missing decisions deny the call)
+ * @param options - Messages and abort signal passed to the tool
+ * @returns The decision outcome and the tool result for the history
+ */
+export async function resolveInterrupt(
+  tools: ToolSet,
+  toolCall: InterruptData["toolCall"],
+  decision: ResumeDecision | undefined,
+  options: { messages: ModelMessage[]; abortSignal?: AbortSignal }
+): Promise<ResolvedInterrupt> {
+  const { toolCallId, toolName } = toolCall;
+
+  const toResolved = (
+    approved: boolean,
+    output: unknown,
+    resultOutput: ToolResultPart["output"],
+    modifiedArgs?: unknown
+  ): ResolvedInterrupt => ({
+    approved,
+    modifiedArgs,
+    output,
+    part: { type: "tool-result", toolCallId, toolName, output: resultOutput },
+  });
+
+  if (!decision || decision.type === "deny") {
+    const output = `Tool execution denied by user. The ${toolName} tool was not executed.`;
+    return toResolved(false, output, toToolResultOutput(output));
+  }
+
+  const pendingTool = tools[toolName];
+  if (!pendingTool?.execute) {
+    const output = `Error: Tool '${toolName}' is not available and could not be executed.`;
+    return toResolved(false, output, { type: "error-text", value: output });
+  }
+
+  let args = toolCall.args;
+  let modifiedArgs: unknown;
+
+  if (decision.type === "edit") {
+    const validated = await validateToolArgs(pendingTool, decision.modifiedArgs);
+    if (!validated.success) {
+      const output = `Edited arguments for ${toolName} are invalid: ${validated.error}. The ${toolName} tool was not executed.`;
+      return toResolved(false, output, toToolResultOutput(output));
+    }
+    args = validated.value;
+    modifiedArgs = validated.value;
+  }
+
+  try {
+    const output = await pendingTool.execute(args as never, {
+      toolCallId,
+      messages: options.messages,
+      abortSignal: options.abortSignal,
+    });
+    return toResolved(true, output, toToolResultOutput(output), modifiedArgs);
+  } catch (error) {
+    const output = `Error executing ${toolName}: ${error instanceof Error ? error.message : String(error)}`;
+    return toResolved(true, output, { type: "error-text", value: output }, modifiedArgs);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Budget limits for agent runs.
+ *
+ * A BudgetTracker is shared by the main agent and its subagents, so every
+ * model call and tool call of a run counts towards the same limits.
+ */
+
+import type { StopCondition, ToolExecutionOptions, ToolSet } from "ai";
+import type { BudgetConfig, BudgetExceeded, TokenUsage } from "../types.js";
+import { addTokenUsage, emptyTokenUsage } from "./usage.js";
+
+/**
+ * Merge a per-run budget into the agent's budget.
+ * Fields of `override` win; `maxToolCalls` entries are merged per tool.
+ */
+export function mergeBudgets(
+  base: BudgetConfig | undefined,
+  override: BudgetConfig | undefined
+): BudgetConfig | undefined {
+  if (!base || !override) {
+    return override ?? base;
+  }
+  return {
+    ...base,
+    ...override,
+    maxToolCalls: { ...base.maxToolCalls, ...override.maxToolCalls },
+  };
+}
+
+/**
+ * Describe the limit that stopped a run.
+ */
+export function formatBudgetExceeded(exceeded: BudgetExceeded): string {
+  switch (exceeded.reason) {
+    case "tokens":
+      return `token budget of ${exceeded.limit} exhausted (${exceeded.used} used)`;
+    case "cost":
+      return `cost budget of $${exceeded.limit} exhausted ($${exceeded.used.toFixed(4)} used)`;
+    case "time":
+      return `time budget of ${exceeded.limit}ms exhausted (${exceeded.used}ms elapsed)`;
+    case "tool-calls":
+      return `limit of ${exceeded.limit} ${exceeded.toolName} calls reached`;
+  }
+}
+
+/**
+ * Tracks the resources used by a run against a budget.
+ *
+ * Once a limit is reached the tracker stays exceeded: stop conditions end
+ * the agent loops after the current step and further tool calls are rejected.
+ */
+export class BudgetTracker {
+  private budget: BudgetConfig;
+  private startTime: number;
+  private usage: TokenUsage = emptyTokenUsage();
+  private toolCalls: Record<string, number> = {};
+  private exceededLimit?: BudgetExceeded;
+
+  constructor(budget: BudgetConfig, startTime: number = Date.now()) {
+    this.budget = budget;
+    this.startTime = startTime;
+  }
+
+  /**
+   * The limit that was reached, if any.
+   */
+  get exceeded(): BudgetExceeded | undefined {
+    return this.exceededLimit;
+  }
+
+  /**
+   * Usage of all model calls recorded so far.
+   */
+  get totalUsage(): TokenUsage {
+    return this.usage;
+  }
+
+  /**
+   * Record the usage of a model call.
+   */
+  addUsage(usage: TokenUsage): void {
+    this.usage = addTokenUsage(this.usage, usage);
+
+    const { maxTokens, maxCost } = this.budget;
+    if (maxTokens !== undefined && this.usage.totalTokens >= maxTokens) {
+      this.exceed({ reason: "tokens", limit: maxTokens, used: this.usage.totalTokens });
+    } else if (maxCost !== undefined && (this.usage.cost ?? 0) >= maxCost) {
+      this.exceed({ reason: "cost", limit: maxCost, used: this.usage.cost ?? 0 });
+    }
+  }
+
+  /**
+   * Check the time limit and return the limit that was reached, if any.
+   */
+  check(): BudgetExceeded | undefined {
+    const { maxDurationMs } = this.budget;
+    if (maxDurationMs !== undefined) {
+      const elapsed = Date.now() - this.startTime;
+      if (elapsed >= maxDurationMs) {
+        this.exceed({ reason: "time", limit: maxDurationMs, used: elapsed });
+      }
+    }
+    return this.exceededLimit;
+  }
+
+  /**
+   * Count a tool call.
+   * Returns the reached limit if the call must not run.
+   */
+  startToolCall(toolName: string): BudgetExceeded | undefined {
+    const exceeded = this.check();
+    if (exceeded) {
+      return exceeded;
+    }
+
+    const limit = this.budget.maxToolCalls?.[toolName];
+    const used = this.toolCalls[toolName] ?? 0;
+    if (limit !== undefined && used >= limit) {
+      this.exceed({ reason: "tool-calls", limit, used, toolName });
+      return this.exceededLimit;
+    }
+
+    this.toolCalls[toolName] = used + 1;
+    return undefined;
+  }
+
+  private exceed(exceeded: BudgetExceeded): void {
+    // Keep the first limit that was reached
+    this.exceededLimit ??= exceeded;
+  }
+}
+
+/**
+ * Stop condition that ends an agent loop once the budget is exceeded.
+ */
+export function budgetExceeded(tracker: BudgetTracker): StopCondition<any> {
+  return () => tracker.check() !== undefined;
+}
+
+/**
+ * Wrap tools so each call counts against the budget.
+ * Calls over a limit (or after the budget ran out) are not executed and
+ * return an error message instead.
+ *
+ * @param tools - Toolset to wrap
+ * @param tracker - Budget tracker of the run (returns tools unchanged if undefined)
+ */
+export function applyBudget(tools: ToolSet, tracker?: BudgetTracker): ToolSet {
+  if (!tracker) {
+    return tools;
+  }
+
+  const result: ToolSet = {};
+
+  for (const [name, existingTool] of Object.entries(tools)) {
+    const originalExecute = existingTool.execute;
+    if (!originalExecute) {
+      result[name] = existingTool;
+      continue;
+    }
+
+    result[name] = {
+      ...existingTool,
+      execute: async (args: unknown, options: ToolExecutionOptions) => {
+        const exceeded = tracker.startToolCall(name);
+        if (exceeded) {
+          return `Error: Budget exceeded: ${formatBudgetExceeded(exceeded)}. The ${name} tool was not executed.`;
+        }
+        return originalExecute(args, options);
+      },
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,60 @@
+/**
+ * Queue for events emitted by tools while the agent loop is streaming.
+ */
+
+import type { DeepAgentEvent } from "../types.js";
+
+/**
+ * FIFO queue of events that can be awaited.
+ *
+ * Tools (and subagents) push events while the model stream is paused on a
+ * tool call; `drainUntil` yields them as they arrive instead of waiting for
+ * the next chunk of the stream.
+ */
+export class EventQueue {
+  private events: DeepAgentEvent[] = [];
+  private notify?: () => void;
+
+  get length(): number {
+    return this.events.length;
+  }
+
+  push(event: DeepAgentEvent): void {
+    this.events.push(event);
+    this.notify?.();
+  }
+
+  shift(): DeepAgentEvent | undefined {
+    return this.events.shift();
+  }
+
+  /**
+   * Yield queued events as they are pushed until `promise` settles, then
+   * yield the remaining events and return (or throw) its result.
+   */
+  async *drainUntil<T>(promise: Promise<T>): AsyncGenerator<DeepAgentEvent, T, unknown> {
+    const settled = promise.then(
+      () => true,
+      () => true
+    );
+
+    while (true) {
+      while (this.events.length > 0) {
+        yield this.events.shift()!;
+      }
+
+      const pushed = new Promise<false>((resolve) => {
+        this.notify = () => resolve(false);
+      });
+      const done = await Promise.race([settled, pushed]);
+      this.notify = undefined;
+
+      if (done) {
+        while (this.events.length > 0) {
+          yield this.events.shift()!;
+        }
+        return await promise;
+      }
+    }
+  }
+}
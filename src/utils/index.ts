@@ -22,13 +22,56 @@ export {
   type SummarizationOptions,
   type SummarizationResult,
 } from "./summarization.js";
+export {
+  emptyTokenUsage,
+  getModelId,
+  findModelPrice,
+  calculateCost,
+  toTokenUsage,
+  addTokenUsage,
+  createRunUsage,
+} from "./usage.js";
+export {
+  BudgetTracker,
+  applyBudget,
+  budgetExceeded,
+  mergeBudgets,
+  formatBudgetExceeded,
+} from "./budget.js";
 export {
   parseModelString,
 } from "./model-parser.js";
 export {
   applyInterruptConfig,
+  applyApprovalPolicy,
   wrapToolsWithApproval,
   hasApprovalTools,
+  getPendingApprovals,
+  resolveInterrupt,
+  getInterruptToolCalls,
+  matchResumeDecisions,
+  validateToolArgs,
+  applyEditedToolArgs,
   type ApprovalCallback,
+  type PendingApproval,
+  type ResolvedInterrupt,
 } from "./approval.js";
+export {
+  parseUnifiedDiff,
+  applyHunks,
+  type FilePatch,
+  type PatchHunk,
+} from "./patch.js";
+export {
+  ApprovalPolicy,
+  suggestApprovalRule,
+  formatApprovalRule,
+  APPROVAL_POLICY_FILENAME,
+  type ApprovalPolicyOptions,
+} from "./approval-policy.js";
+export {
+  NetworkGuard,
+  getNetworkGuard,
+  type GuardedFetchOptions,
+} from "./network-policy.js";
 
@@ -0,0 +1,505 @@
+/**
+ * Network policy enforcement for the http_request and fetch_url tools.
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import micromatch from "micromatch";
+import type { NetworkPolicy } from "../types.ts";
+
+/**
+ * User agent token matched against robots.txt groups.
+ */
+const ROBOTS_USER_AGENT = "deepagents";
+
+/**
+ * Maximum number of redirects followed for one request.
+ */
+const MAX_REDIRECTS = 10;
+
+/**
+ * Request headers dropped when a redirect leads to another origin.
+ */
+const CREDENTIAL_HEADERS = ["authorization", "proxy-authorization", "cookie", "x-api-key"];
+
+/**
+ * Non-public IPv4 ranges as [network, prefix length].
+ */
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata services
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split(".").reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return PRIVATE_IPV4_RANGES.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+/**
+ * Split an IPv6 address into its eight 16-bit groups.
+ */
+function parseIPv6(ip: string): number[] {
+  let address = ip.toLowerCase().replace(/%.*$/, "");
+
+  // A trailing dotted IPv4 address makes up the last two groups
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(address);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number) as [number, number, number, number];
+    address = `${address.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const parse = (part: string) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const [head = "", tail] = address.split("::");
+  if (tail === undefined) {
+    return parse(head);
+  }
+  const high = parse(head);
+  const low = parse(tail);
+  return [...high, ...new Array<number>(8 - high.length - low.length).fill(0), ...low];
+}
+
+/**
+ * Format two 16-bit groups as a dotted IPv4 address.
+ */
+function groupsToIPv4(high: number, low: number): string {
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+}
+
+function isPrivateIPv6(ip: string): boolean {
+  const groups = parseIPv6(ip);
+  const [first = 0, second = 0] = groups;
+  const zeros = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0);
+
+  // Unspecified (::) and loopback (::1)
+  if (zeros(0, 7) && groups[7]! <= 1) {
+    return true;
+  }
+
+  // Addresses with an embedded IPv4 address are checked by that address:
+  // IPv4-compatible (::a.b.c.d), IPv4-mapped (::ffff:a.b.c.d), NAT64
+  // (64:ff9b::/96) and 6to4 (2002::/16)
+  const compatible = zeros(0, 6);
+  const mapped = zeros(0, 5) && groups[5] === 0xffff;
+  const nat64 = first === 0x64 && second === 0xff9b && zeros(2, 6);
+  if (compatible || mapped || nat64) {
+    return isPrivateIPv4(groupsToIPv4(groups[6]!, groups[7]!));
+  }
+  if (first === 0x2002) {
+    return isPrivateIPv4(groupsToIPv4(second, groups[2]!));
+  }
+
+  // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public.
+ */
+function isPrivateAddress(ip: string): boolean {
+  return isIP(ip) === 4 ? isPrivateIPv4(ip) : isPrivateIPv6(ip);
+}
+
+/**
+ * A robots.txt Allow or Disallow rule.
+ */
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/**
+ * Rules from robots.txt that apply to our user agent: those of the most
+ * specific matching group, or of the `*` group.
+ */
+function parseRobotsTxt(text: string): RobotsRule[] {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === "allow" || field === "disallow") && current) {
+      // An empty Disallow allows everything
+      if (value !== "") {
+        current.rules.push({ allow: field === "allow", path: value });
+      }
+    }
+  }
+
+  // Agents are lowercased, so the product token matches case-insensitively
+  const ours = groups.filter((group) => group.agents.includes(ROBOTS_USER_AGENT));
+  const matching = ours.length > 0 ? ours : groups.filter((group) => group.agents.includes("*"));
+  return matching.flatMap((group) => group.rules);
+}
+
+/**
+ * Whether a robots.txt rule path (with `*` and `$` wildcards) matches a URL path.
+ */
+function robotsRuleMatches(rulePath: string, path: string): boolean {
+  const anchored = rulePath.endsWith("$");
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Whether robots.txt rules allow a URL path. The longest matching rule wins,
+ * and Allow wins ties.
+ */
+function isAllowedByRobots(rules: RobotsRule[], path: string): boolean {
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!robotsRuleMatches(rule.path, path)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+/**
+ * Outcome of checking a URL against the policy.
+ */
+interface HostCheck {
+  /** Reason why the URL may not be requested */
+  error?: string;
+
+  /** Checked address of the host, when its name had to be resolved */
+  address?: string;
+}
+
+/**
+ * Options for a request made through NetworkGuard.fetch.
+ */
+export interface GuardedFetchOptions {
+  /** Check robots.txt if the policy asks for it */
+  checkRobotsTxt?: boolean;
+}
+
+/**
+ * Enforces a NetworkPolicy for web requests.
+ *
+ * Keeps per-host request history for rate limits and caches robots.txt
+ * rules. Use `getNetworkGuard()` to share one guard per policy.
+ */
+export class NetworkGuard {
+  private requestTimes = new Map<string, number[]>();
+  private robotsRules = new Map<string, Promise<RobotsRule[]>>();
+
+  constructor(private policy: NetworkPolicy) {}
+
+  /**
+   * Reason why a URL may not be requested, if any. Resolves host names to
+   * check for private addresses.
+   */
+  async checkUrl(url: URL): Promise<string | undefined> {
+    return (await this.checkHost(url)).error;
+  }
+
+  private async checkHost(url: URL): Promise<HostCheck> {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return { error: `Error: Only http and https URLs are allowed by network policy, got '${url.protocol}'` };
+    }
+
+    // IPv6 hosts are wrapped in brackets
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+    const { allowHosts, denyHosts, blockPrivateNetworks = true } = this.policy;
+    if (denyHosts && micromatch.isMatch(host, denyHosts, { nocase: true })) {
+      return { error: `Error: Requests to host '${host}' are denied by network policy` };
+    }
+    if (allowHosts && !micromatch.isMatch(host, allowHosts, { nocase: true })) {
+      return { error: `Error: Requests to host '${host}' are not allowed by network policy` };
+    }
+
+    if (!blockPrivateNetworks) {
+      return {};
+    }
+    if (isIP(host)) {
+      return isPrivateAddress(host)
+        ? { error: `Error: Requests to private address '${host}' are blocked by network policy` }
+        : {};
+    }
+
+    let addresses: string[];
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+    } catch (error) {
+      return {
+        error: `Error: Could not resolve host '${host}': ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    const privateAddress = addresses.find(isPrivateAddress);
+    if (privateAddress) {
+      return {
+        error: `Error: Host '${host}' resolves to private address '${privateAddress}', which is blocked by network policy`,
+      };
+    }
+    return { address: addresses[0] };
+  }
+
+  /**
+   * Request a URL, connecting to the address `checkHost` checked if there is
+   * one. Otherwise fetch would resolve the host again, and a DNS server
+   * answering with a private address the second time could bypass the check.
+   */
+  private request(url: URL, init: RequestInit, address?: string): Promise<Response> {
+    if (!address) {
+      return fetch(url.toString(), init);
+    }
+
+    const pinned = new URL(url);
+    pinned.hostname = isIP(address) === 6 ? `[${address}]` : address;
+    const headers = new Headers(init.headers);
+    headers.set("Host", url.host);
+    const pinnedInit: BunFetchRequestInit = { ...init, headers };
+    if (url.protocol === "https:") {
+      // Send SNI for, and verify the certificate against, the host name
+      pinnedInit.tls = { serverName: url.hostname };
+    }
+    return fetch(pinned.toString(), pinnedInit);
+  }
+
+  /**
+   * Record a request to a host, or return why the rate limit doesn't allow it.
+   */
+  checkRateLimit(host: string): string | undefined {
+    const { rateLimit } = this.policy;
+    if (!rateLimit) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const windowMs = rateLimit.perSeconds * 1000;
+    const times = (this.requestTimes.get(host) ?? []).filter((time) => now - time < windowMs);
+    if (times.length >= rateLimit.requests) {
+      const retryAfter = Math.ceil((times[0]! + windowMs - now) / 1000);
+      this.requestTimes.set(host, times);
+      return (
+        `Error: Rate limit for host '${host}' reached ` +
+        `(${rateLimit.requests} requests per ${rateLimit.perSeconds} seconds). Try again in ${retryAfter} seconds`
+      );
+    }
+
+    times.push(now);
+    this.requestTimes.set(host, times);
+    return undefined;
+  }
+
+  /**
+   * Wait until the rate limit allows another request to a host. Doesn't
+   * record a request; `fetch` does that. Rejects if the signal aborts.
+   */
+  async waitForRateLimit(host: string, signal?: AbortSignal): Promise<void> {
+    const { rateLimit } = this.policy;
+    if (!rateLimit) {
+      return;
+    }
+
+    const windowMs = rateLimit.perSeconds * 1000;
+    for (;;) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      const times = (this.requestTimes.get(host) ?? []).filter((time) => now - time < windowMs);
+      if (times.length < rateLimit.requests) {
+        return;
+      }
+      // Until the oldest request leaves the window
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, times[0]! + windowMs - now);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+  }
+
+  /**
+   * Reason why robots.txt doesn't allow fetching a URL, if any.
+   * Sites without a readable robots.txt allow everything.
+   */
+  async checkRobotsTxt(url: URL, signal?: AbortSignal): Promise<string | undefined> {
+    let rules = this.robotsRules.get(url.origin);
+    if (!rules) {
+      rules = this.fetchRobotsRules(url.origin, signal);
+      this.robotsRules.set(url.origin, rules);
+    }
+
+    if (!isAllowedByRobots(await rules, url.pathname + url.search)) {
+      return `Error: robots.txt of ${url.origin} disallows fetching '${url.pathname}'`;
+    }
+    return undefined;
+  }
+
+  private async fetchRobotsRules(origin: string, signal?: AbortSignal): Promise<RobotsRule[]> {
+    try {
+      const url = new URL("/robots.txt", origin);
+      const { error, address } = await this.checkHost(url);
+      if (error) {
+        return [];
+      }
+      const response = await this.request(url, { signal, redirect: "error" }, address);
+      return response.ok ? parseRobotsTxt(await response.text()) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Reason why a response is too large, if any. Checks Content-Length first,
+   * then reads at most `maxResponseBytes` of the body. Returns a response
+   * with the buffered body otherwise.
+   */
+  private async limitResponseSize(response: Response, url: string): Promise<Response | string> {
+    const { maxResponseBytes } = this.policy;
+    if (maxResponseBytes === undefined) {
+      return response;
+    }
+
+    const tooLarge = `Error: Response from '${url}' is larger than the ${maxResponseBytes} bytes allowed by network policy`;
+    const contentLength = Number(response.headers.get("content-length"));
+    if (contentLength > maxResponseBytes) {
+      await response.body?.cancel();
+      return tooLarge;
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        size += value.byteLength;
+        if (size > maxResponseBytes) {
+          await reader.cancel();
+          return tooLarge;
+        }
+        chunks.push(value);
+      }
+    }
+
+    const limited = new Response(Buffer.concat(chunks), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    Object.defineProperty(limited, "url", { value: response.url || url });
+    return limited;
+  }
+
+  /**
+   * Fetch a URL if the policy allows it, following redirects manually so
+   * every hop is checked. Credential headers are dropped on redirects to
+   * another origin. Returns an error string on violations.
+   */
+  async fetch(
+    url: string,
+    init: RequestInit = {},
+    options: GuardedFetchOptions = {}
+  ): Promise<Response | string> {
+    let currentUrl = new URL(url);
+    let currentInit: RequestInit = { ...init, redirect: "manual" };
+
+    for (let redirects = 0; ; redirects++) {
+      const { error: hostError, address } = await this.checkHost(currentUrl);
+      const error =
+        hostError ??
+        (options.checkRobotsTxt && this.policy.respectRobotsTxt
+          ? await this.checkRobotsTxt(currentUrl, init.signal ?? undefined)
+          : undefined) ??
+        this.checkRateLimit(currentUrl.host.toLowerCase());
+      if (error) {
+        return error;
+      }
+
+      const response = await this.request(currentUrl, currentInit, address);
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) {
+        // Also replaces the address of pinned requests with the URL
+        Object.defineProperty(response, "url", { value: currentUrl.toString() });
+        return await this.limitResponseSize(response, currentUrl.toString());
+      }
+
+      if (redirects >= MAX_REDIRECTS) {
+        await response.body?.cancel();
+        return `Error: Too many redirects requesting '${url}'`;
+      }
+      await response.body?.cancel();
+
+      // Like browsers, switch to GET for 303s and for POSTs redirected with 301/302
+      const method = (currentInit.method ?? "GET").toUpperCase();
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === "POST")) {
+        currentInit = { ...currentInit, method: method === "HEAD" ? "HEAD" : "GET", body: undefined };
+      }
+      const nextUrl = new URL(location, currentUrl);
+      if (nextUrl.origin !== currentUrl.origin) {
+        const headers = new Headers(currentInit.headers);
+        for (const header of CREDENTIAL_HEADERS) {
+          headers.delete(header);
+        }
+        currentInit = { ...currentInit, headers };
+      }
+      currentUrl = nextUrl;
+    }
+  }
+}
+
+const guards = new WeakMap<NetworkPolicy, NetworkGuard>();
+
+/**
+ * Guard for a policy. Tools using the same policy object share rate limits
+ * and cached robots.txt rules, also across agent runs.
+ */
+export function getNetworkGuard(policy: NetworkPolicy): NetworkGuard {
+  let guard = guards.get(policy);
+  if (!guard) {
+    guard = new NetworkGuard(policy);
+    guards.set(policy, guard);
+  }
+  return guard;
+}
@@ -0,0 +1,226 @@
+/**
+ * Unified diff parsing and application for the apply_patch tool.
+ */
+
+/**
+ * One `@@` hunk of a unified diff.
+ */
+export interface PatchHunk {
+  /** The `@@ ... @@` header line */
+  header: string;
+  /**
+   * Line in the original file where the hunk starts (1-based; for hunks that
+   * only add lines, the line they are inserted after). Undefined for bare
+   * `@@` headers, which are located by their context alone.
+   */
+  oldStart?: number;
+  /** Hunk lines, each prefixed with ' ', '-' or '+' */
+  lines: string[];
+  /** The original file has no newline at the end */
+  noNewlineOld: boolean;
+  /** The changed file has no newline at the end */
+  noNewlineNew: boolean;
+}
+
+/**
+ * Changes to one file in a unified diff.
+ */
+export interface FilePatch {
+  /** Path before the change, null for new files */
+  oldPath: string | null;
+  /** Path after the change, null for deleted files */
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Path from a `---`/`+++` header line: drops timestamps and git's `a/`/`b/`
+ * prefixes. Returns null for `/dev/null`.
+ */
+function parseHeaderPath(line: string, gitPrefix: string): string | null {
+  const path = line.slice(4).split("\t")[0]!.trim();
+  if (path === "/dev/null") {
+    return null;
+  }
+  return path.startsWith(gitPrefix) ? path.slice(gitPrefix.length) : path;
+}
+
+function isFileHeader(lines: string[], i: number): boolean {
+  return lines[i]!.startsWith("--- ") && (lines[i + 1]?.startsWith("+++ ") ?? false);
+}
+
+/**
+ * Parse a unified diff into per-file patches.
+ * Hunk line counts are not checked, so hand-written diffs with wrong counts
+ * still parse. Returns an error string if the diff has no usable changes.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] | string {
+  const lines = patch.split("\n");
+  const files: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (isFileHeader(lines, i)) {
+      current = {
+        oldPath: parseHeaderPath(line, "a/"),
+        newPath: parseHeaderPath(lines[i + 1]!, "b/"),
+        hunks: [],
+      };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    if (!line.startsWith("@@")) {
+      // Skip `diff --git`, `index` and other extended header lines
+      i++;
+      continue;
+    }
+
+    if (!current) {
+      return `Error: Hunk '${line}' comes before any '--- path' and '+++ path' file header`;
+    }
+
+    const match = HUNK_HEADER.exec(line);
+    const hunk: PatchHunk = {
+      header: line,
+      oldStart: match ? Number(match[1]) : undefined,
+      lines: [],
+      noNewlineOld: false,
+      noNewlineNew: false,
+    };
+    // Empty lines are context lines whose trailing space was stripped,
+    // unless they are the blank lines at the end of the hunk
+    let blankLines = 0;
+    i++;
+
+    while (i < lines.length && !lines[i]!.startsWith("@@") && !isFileHeader(lines, i)) {
+      const body = lines[i]!;
+      if (body.startsWith("diff ")) {
+        break;
+      }
+      if (body === "") {
+        blankLines++;
+      } else if (body.startsWith("\\")) {
+        // "\ No newline at end of file" applies to the previous line
+        const previous = hunk.lines[hunk.lines.length - 1]?.[0];
+        if (previous !== "+") hunk.noNewlineOld = true;
+        if (previous !== "-") hunk.noNewlineNew = true;
+      } else if (" -+".includes(body[0]!)) {
+        hunk.lines.push(...Array<string>(blankLines).fill(" "), body);
+        blankLines = 0;
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    if (hunk.lines.length === 0) {
+      return `Error: Hunk '${line}' in '${current.newPath ?? current.oldPath}' has no lines`;
+    }
+    current.hunks.push(hunk);
+  }
+
+  if (files.length === 0) {
+    return "Error: No file changes found. Expected a unified diff with '--- path' and '+++ path' headers followed by '@@' hunks";
+  }
+
+  for (const file of files) {
+    if (file.oldPath === null && file.newPath === null) {
+      return "Error: A file header has '/dev/null' as both the old and the new path";
+    }
+    if (file.hunks.length === 0 && file.newPath !== null && file.oldPath === file.newPath) {
+      return `Error: No hunks found for '${file.newPath}'`;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Find where `needle` occurs in `lines`, starting at `from` and preferring
+ * the position closest to `expected`. Returns -1 if not found.
+ */
+function findLines(
+  lines: string[],
+  needle: string[],
+  expected: number,
+  from: number,
+  equals: (a: string, b: string) => boolean
+): number {
+  const last = lines.length - needle.length;
+  const matchesAt = (pos: number) => needle.every((line, j) => equals(lines[pos + j]!, line));
+
+  for (let distance = 0; ; distance++) {
+    const before = expected - distance;
+    const after = expected + distance;
+    if (before < from && after > last) {
+      return -1;
+    }
+    if (after >= from && after <= last && matchesAt(after)) {
+      return after;
+    }
+    if (distance > 0 && before >= from && before <= last && matchesAt(before)) {
+      return before;
+    }
+  }
+}
+
+/**
+ * Apply hunks to file content, in order.
+ * Hunks may have moved since the diff was made: each is searched for near
+ * its line number, first exactly and then ignoring trailing whitespace.
+ * Returns the new content, or one error message per hunk that does not apply.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[], path: string): string | string[] {
+  let endsWithNewline = content === "" || content.endsWith("\n");
+  const lines = content === "" ? [] : (endsWithNewline ? content.slice(0, -1) : content).split("\n");
+  const errors: string[] = [];
+  // Maps line numbers of the original file to the current lines
+  let offset = 0;
+  // Hunks must apply in order without overlapping
+  let from = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldLines = hunk.lines.filter((line) => line[0] !== "+").map((line) => line.slice(1));
+    const newLines = hunk.lines.filter((line) => line[0] !== "-").map((line) => line.slice(1));
+    const base =
+      hunk.oldStart === undefined ? from - offset : oldLines.length > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const expected = Math.max(base + offset, from);
+
+    let position = findLines(lines, oldLines, expected, from, (a, b) => a === b);
+    if (position === -1) {
+      position = findLines(lines, oldLines, expected, from, (a, b) => a.trimEnd() === b.trimEnd());
+    }
+
+    if (position === -1) {
+      const firstLine = oldLines.find((line) => line.trim() !== "") ?? oldLines[0] ?? "";
+      errors.push(
+        `Hunk ${index + 1} (${hunk.header}) in '${path}' does not apply: ` +
+          `the lines it changes were not found near line ${expected + 1} ` +
+          `(first line: '${firstLine}'). Read the file again and update the hunk's context and '-' lines`
+      );
+      return;
+    }
+
+    lines.splice(position, oldLines.length, ...newLines);
+    offset = position + newLines.length - (base + oldLines.length);
+    from = position + newLines.length;
+
+    if (hunk.noNewlineNew) {
+      endsWithNewline = false;
+    } else if (hunk.noNewlineOld) {
+      endsWithNewline = true;
+    }
+  });
+
+  if (errors.length > 0) {
+    return errors;
+  }
+  return lines.join("\n") + (endsWithNewline && lines.length > 0 ? "\n" : "");
+}
@@ -0,0 +1,83 @@
+/**
+ * Counting semaphore for limiting concurrent work.
+ */
+
+/**
+ * Limits how many tasks run at once; waiting tasks are started in FIFO order.
+ */
+export class Semaphore {
+  private available: number;
+  private waiting: Array<() => void> = [];
+
+  /**
+   * @param limit - Maximum concurrent holders (Infinity for no limit)
+   */
+  constructor(limit: number) {
+    if (!(limit >= 1)) {
+      throw new Error(`Concurrency limit must be at least 1, got ${limit}`);
+    }
+    this.available = limit;
+  }
+
+  /**
+   * Number of tasks waiting for a slot.
+   */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Wait for a slot. Resolves with a function that releases it.
+   * Rejects with the signal's reason if aborted while waiting.
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+
+    if (this.available > 0) {
+      this.available--;
+      return this.createRelease();
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(this.createRelease());
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((waiter) => waiter !== start);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(start);
+    });
+  }
+
+  /**
+   * Take a slot if one is free right now, without waiting.
+   * Returns the function that releases it, or undefined if none is free.
+   */
+  tryAcquire(): (() => void) | undefined {
+    if (this.available > 0) {
+      this.available--;
+      return this.createRelease();
+    }
+    return undefined;
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = this.waiting.shift();
+      if (next) {
+        // Hand the slot over to the next waiter
+        next();
+      } else {
+        this.available++;
+      }
+    };
+  }
+}
@@ -5,7 +5,7 @@
  * to prevent context overflow while preserving important context.
  */
 
-import { generateText, type LanguageModel } from "ai";
+import { generateText, type LanguageModel, type LanguageModelUsage } from "ai";
 import type { ModelMessage } from "../types.js";
 import { estimateTokens } from "./eviction.js";
 
@@ -44,6 +44,10 @@ export interface SummarizationResult {
   tokensBefore?: number;
   /** Token count after processing */
   tokensAfter?: number;
+  /** Provider usage of the summary model call (when summarized) */
+  usage?: LanguageModelUsage;
+  /** ID of the model that wrote the summary (when summarized) */
+  modelId?: string;
 }
 
 /**
@@ -117,7 +121,7 @@ function formatMessagesForSummary(messages: ModelMessage[]): string {
 async function generateSummary(
   messages: ModelMessage[],
   model: LanguageModel
-): Promise<string> {
+): Promise<{ text: string; usage: LanguageModelUsage; modelId: string }> {
   const conversationText = formatMessagesForSummary(messages);
 
   const result = await generateText({
@@ -133,7 +137,7 @@ Keep the summary focused and avoid redundancy. The summary should allow someone
     prompt: `Please summarize the following conversation:\n\n${conversationText}`,
   });
 
-  return result.text;
+  return { text: result.text, usage: result.usage, modelId: result.response.modelId };
 }
 
 /**
@@ -202,7 +206,7 @@ export async function summarizeIfNeeded(
   // Create summary message
   const summaryMessage: ModelMessage = {
     role: "system",
-    content: `[Previous conversation summary]\n${summary}\n\n[End of summary - recent messages follow]`,
+    content: `[Previous conversation summary]\n${summary.text}\n\n[End of summary - recent messages follow]`,
   } as ModelMessage;
 
   // Combine summary with recent messages
@@ -214,6 +218,8 @@ export async function summarizeIfNeeded(
     messages: newMessages,
     tokensBefore,
     tokensAfter,
+    usage: summary.usage,
+    modelId: summary.modelId,
   };
 }
 
@@ -0,0 +1,128 @@
+/**
+ * Token usage and cost accounting.
+ */
+
+import type { LanguageModel, LanguageModelUsage } from "ai";
+import type { ModelPrice, PriceTable, RunUsage, SubagentUsage, TokenUsage } from "../types.js";
+
+/**
+ * Create a usage record with all counts at zero.
+ */
+export function emptyTokenUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cachedInputTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+  };
+}
+
+/**
+ * Get the model ID of a language model.
+ */
+export function getModelId(model: LanguageModel): string {
+  return typeof model === "string" ? model : model.modelId;
+}
+
+/**
+ * Find the price of a model.
+ *
+ * Uses the exact model ID if present, else the longest key that the model ID
+ * starts with.
+ */
+export function findModelPrice(
+  modelId: string,
+  prices: PriceTable | undefined
+): ModelPrice | undefined {
+  if (!prices) {
+    return undefined;
+  }
+  if (prices[modelId]) {
+    return prices[modelId];
+  }
+
+  const key = Object.keys(prices)
+    .filter((prefix) => modelId.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+}
+
+/**
+ * Compute the cost of token usage in USD.
+ */
+export function calculateCost(usage: TokenUsage, price: ModelPrice): number {
+  const uncachedInput = Math.max(
+    0,
+    usage.inputTokens - usage.cachedInputTokens - usage.cacheWriteTokens
+  );
+  const cost =
+    uncachedInput * price.input +
+    usage.cachedInputTokens * (price.cachedInput ?? price.input) +
+    usage.cacheWriteTokens * (price.cacheWrite ?? price.input) +
+    usage.outputTokens * price.output;
+  return cost / 1_000_000;
+}
+
+/**
+ * Convert provider usage of a model call to a TokenUsage with cost.
+ *
+ * @param usage - Usage reported by the AI SDK
+ * @param modelId - Model that was called (for the price lookup)
+ * @param prices - Optional price table
+ */
+export function toTokenUsage(
+  usage: LanguageModelUsage | undefined,
+  modelId: string,
+  prices?: PriceTable
+): TokenUsage {
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+  const result: TokenUsage = {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage?.totalTokens ?? inputTokens + outputTokens,
+    cachedInputTokens: usage?.inputTokenDetails?.cacheReadTokens ?? usage?.cachedInputTokens ?? 0,
+    cacheWriteTokens: usage?.inputTokenDetails?.cacheWriteTokens ?? 0,
+    reasoningTokens: usage?.outputTokenDetails?.reasoningTokens ?? usage?.reasoningTokens ?? 0,
+  };
+
+  const price = findModelPrice(modelId, prices);
+  if (price) {
+    result.cost = calculateCost(result, price);
+  }
+  return result;
+}
+
+/**
+ * Add up usage records.
+ *
+ * `cost` is the sum of the known costs, and undefined if no record has a cost.
+ */
+export function addTokenUsage(...usages: TokenUsage[]): TokenUsage {
+  const total = emptyTokenUsage();
+  for (const usage of usages) {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.totalTokens += usage.totalTokens;
+    total.cachedInputTokens += usage.cachedInputTokens;
+    total.cacheWriteTokens += usage.cacheWriteTokens;
+    total.reasoningTokens += usage.reasoningTokens;
+    if (usage.cost !== undefined) {
+      total.cost = (total.cost ?? 0) + usage.cost;
+    }
+  }
+  return total;
+}
+
+/**
+ * Combine main agent and subagent usage into the usage of a run.
+ */
+export function createRunUsage(agent: TokenUsage, subagents: SubagentUsage[]): RunUsage {
+  return {
+    total: addTokenUsage(agent, ...subagents.map((s) => s.usage)),
+    agent,
+    subagents,
+  };
+}
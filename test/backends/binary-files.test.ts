@@ -0,0 +1,122 @@
+/**
+ * Tests for storing and reading binary files across backends.
+ */
+
+import { test, expect, describe, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StateBackend } from "../../src/backends/state.ts";
+import { FilesystemBackend } from "../../src/backends/filesystem.ts";
+import { PersistentBackend, InMemoryStore } from "../../src/backends/persistent.ts";
+import { CompositeBackend } from "../../src/backends/composite.ts";
+import { LocalSandbox } from "../../src/backends/local-sandbox.ts";
+import { fileDataToBytes, isBinaryContent } from "../../src/backends/utils.ts";
+import { createFilesystemTools } from "../../src/tools/filesystem.ts";
+import type { BackendProtocol, DeepAgentState } from "../../src/types.ts";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "binary-files-"));
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// PNG signature followed by bytes that are not valid UTF-8
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe]);
+
+const options = { toolCallId: "call-1", messages: [] };
+
+test("isBinaryContent > detects NUL bytes and invalid UTF-8", () => {
+  expect(isBinaryContent(new TextEncoder().encode("héllo\n"))).toBe(false);
+  expect(isBinaryContent(new Uint8Array([0x61, 0x00, 0x62]))).toBe(true);
+  expect(isBinaryContent(new Uint8Array([0xc3, 0x28]))).toBe(true);
+});
+
+const backends: Array<[string, () => BackendProtocol]> = [
+  ["StateBackend", () => new StateBackend({ todos: [], files: {} })],
+  [
+    "FilesystemBackend",
+    () => new FilesystemBackend({ rootDir: fs.mkdtempSync(path.join(tmpDir, "fs-")), virtualMode: true }),
+  ],
+  ["PersistentBackend", () => new PersistentBackend({ store: new InMemoryStore() })],
+];
+
+describe.each(backends)("%s", (_name, createBackend) => {
+  test("stores binary files byte for byte", async () => {
+    const backend = createBackend();
+    expect(await backend.writeBinary!("/image.png", PNG, "image/png")).toEqual({ path: "/image.png" });
+    expect((await backend.writeBinary!("/image.png", PNG)).error).toContain("already exists");
+
+    const fileData = await backend.readRaw("/image.png");
+    expect(fileData).toMatchObject({ encoding: "base64", mimeType: "image/png" });
+    expect(fileDataToBytes(fileData)).toEqual(PNG);
+    expect((await backend.lsInfo("/")).find((info) => info.path.endsWith("image.png"))?.size).toBe(PNG.length);
+  });
+
+  test("describes binary files instead of reading or editing them", async () => {
+    const backend = createBackend();
+    await backend.writeBinary!("/image.png", PNG, "image/png");
+    await backend.write("/notes.txt", "PNG notes");
+
+    expect(await backend.read("/image.png")).toContain("Binary file '/image.png' (image/png, 11 bytes)");
+    expect((await backend.edit("/image.png", "PNG", "JPG")).error).toContain("Binary file");
+    expect((await backend.grepRaw("PNG", "/")) as unknown[]).toHaveLength(1);
+
+    // Copies keep the bytes
+    await backend.copy!("/image.png", "/copy.png");
+    expect(fileDataToBytes(await backend.readRaw("/copy.png"))).toEqual(PNG);
+  });
+});
+
+test("LocalSandbox > reads binary files as base64", async () => {
+  const cwd = fs.mkdtempSync(path.join(tmpDir, "sandbox-"));
+  const sandbox = new LocalSandbox({ cwd });
+  const filePath = path.join(cwd, "image.png");
+
+  expect(await sandbox.writeBinary(filePath, PNG)).toEqual({ path: filePath });
+  expect(new Uint8Array(fs.readFileSync(filePath))).toEqual(PNG);
+
+  const fileData = await sandbox.readRaw(filePath);
+  expect(fileData).toMatchObject({ encoding: "base64", mimeType: "image/png" });
+  expect(fileDataToBytes(fileData)).toEqual(PNG);
+  expect(await sandbox.read(filePath)).toContain("Binary file");
+  expect((await sandbox.edit(filePath, "PNG", "JPG")).error).toContain("Binary file");
+});
+
+test("CompositeBackend > moves binary files across routes", async () => {
+  const rootDir = fs.mkdtempSync(path.join(tmpDir, "composite-"));
+  const state: DeepAgentState = { todos: [], files: {} };
+  const backend = new CompositeBackend(new StateBackend(state), {
+    "/disk/": new FilesystemBackend({ rootDir, virtualMode: true }),
+  });
+
+  await backend.writeBinary("/image.png", PNG, "image/png");
+  expect(await backend.move("/image.png", "/disk/image.png")).toEqual({
+    from: "/image.png",
+    to: "/disk/image.png",
+  });
+  expect(state.files["/image.png"]).toBeUndefined();
+  expect(new Uint8Array(fs.readFileSync(path.join(rootDir, "image.png")))).toEqual(PNG);
+});
+
+test("read_file > returns images as image content with readImages", async () => {
+  const state: DeepAgentState = { todos: [], files: {} };
+  await new StateBackend(state).writeBinary("/chart.png", PNG, "image/png");
+
+  const textOnly = createFilesystemTools(state);
+  expect(await textOnly.read_file.execute!({ file_path: "/chart.png", offset: 0, limit: 2000 }, options)).toContain(
+    "Binary file"
+  );
+
+  const tools = createFilesystemTools(state, { readImages: true });
+  const output = await tools.read_file.execute!({ file_path: "/chart.png", offset: 0, limit: 2000 }, options);
+  expect(output).toMatchObject({ type: "image", path: "/chart.png", mimeType: "image/png" });
+
+  expect(tools.read_file.toModelOutput!(output as never)).toEqual({
+    type: "content",
+    value: [
+      { type: "text", text: "Image '/chart.png' (image/png):" },
+      { type: "image-data", data: Buffer.from(PNG).toString("base64"), mediaType: "image/png" },
+    ],
+  });
+});
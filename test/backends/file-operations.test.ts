@@ -0,0 +1,157 @@
+/**
+ * Tests for deleting, moving and copying files across backends.
+ */
+
+import { test, expect, describe, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StateBackend } from "../../src/backends/state.ts";
+import { FilesystemBackend } from "../../src/backends/filesystem.ts";
+import { PersistentBackend, InMemoryStore } from "../../src/backends/persistent.ts";
+import { CompositeBackend } from "../../src/backends/composite.ts";
+import { createFilesystemTools } from "../../src/tools/filesystem.ts";
+import { createDeepAgent } from "../../src/agent.ts";
+import type { BackendProtocol, DeepAgentEvent, DeepAgentState } from "../../src/types.ts";
+import { createMockModel } from "../helpers/mock-model.ts";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "file-operations-"));
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const backends: Array<[string, () => BackendProtocol]> = [
+  ["StateBackend", () => new StateBackend({ todos: [], files: {} })],
+  [
+    "FilesystemBackend",
+    () => new FilesystemBackend({ rootDir: fs.mkdtempSync(path.join(tmpDir, "fs-")), virtualMode: true }),
+  ],
+  ["PersistentBackend", () => new PersistentBackend({ store: new InMemoryStore() })],
+];
+
+describe.each(backends)("%s", (_name, createBackend) => {
+  test("deletes files", async () => {
+    const backend = createBackend();
+    await backend.write("/notes.md", "hello");
+
+    expect(await backend.delete!("/notes.md")).toEqual({ path: "/notes.md" });
+    expect(await backend.read("/notes.md")).toContain("Error");
+    expect((await backend.delete!("/notes.md")).error).toContain("not found");
+  });
+
+  test("moves files without overwriting", async () => {
+    const backend = createBackend();
+    await backend.write("/a.txt", "first");
+    await backend.write("/b.txt", "second");
+
+    expect((await backend.move!("/a.txt", "/b.txt")).error).toContain("already exists");
+    expect((await backend.move!("/missing.txt", "/c.txt")).error).toContain("not found");
+
+    expect(await backend.move!("/a.txt", "/dir/c.txt")).toEqual({ from: "/a.txt", to: "/dir/c.txt" });
+    expect(await backend.read("/dir/c.txt")).toContain("first");
+    expect(await backend.read("/a.txt")).toContain("Error");
+  });
+
+  test("copies files without overwriting", async () => {
+    const backend = createBackend();
+    await backend.write("/a.txt", "first");
+
+    expect(await backend.copy!("/a.txt", "/b.txt")).toEqual({ from: "/a.txt", to: "/b.txt" });
+    expect((await backend.copy!("/a.txt", "/b.txt")).error).toContain("already exists");
+
+    // The copy is independent of the original
+    await backend.edit("/b.txt", "first", "changed");
+    expect(await backend.read("/a.txt")).toContain("first");
+    expect(await backend.read("/b.txt")).toContain("changed");
+  });
+});
+
+test("CompositeBackend > moves files across routes", async () => {
+  const state: DeepAgentState = { todos: [], files: {} };
+  const store = new InMemoryStore();
+  const backend = new CompositeBackend(new StateBackend(state), {
+    "/memories/": new PersistentBackend({ store }),
+  });
+
+  await backend.write("/draft.md", "remember this");
+  expect(await backend.move("/draft.md", "/memories/draft.md")).toEqual({
+    from: "/draft.md",
+    to: "/memories/draft.md",
+  });
+  expect(state.files["/draft.md"]).toBeUndefined();
+  expect(await backend.read("/memories/draft.md")).toContain("remember this");
+
+  expect(await backend.copy("/memories/draft.md", "/copy.md")).toEqual({
+    from: "/memories/draft.md",
+    to: "/copy.md",
+  });
+  expect(await backend.read("/copy.md")).toContain("remember this");
+  expect((await backend.move("/copy.md", "/memories/draft.md")).error).toContain("already exists");
+  expect(state.files["/copy.md"]).toBeDefined();
+});
+
+test("filesystem tools > emit events and report unsupported backends", async () => {
+  const state: DeepAgentState = { todos: [], files: {} };
+  const events: DeepAgentEvent[] = [];
+  const tools = createFilesystemTools(state, {
+    backend: (s) => new StateBackend(s),
+    onEvent: (event) => events.push(event),
+  });
+  const options = { toolCallId: "call-1", messages: [] };
+
+  await tools.write_file.execute!({ file_path: "/a.txt", content: "text" }, options);
+  expect(
+    await tools.copy_file.execute!({ source_path: "/a.txt", destination_path: "/b.txt" }, options)
+  ).toBe("Successfully copied '/a.txt' to '/b.txt'");
+  expect(
+    await tools.move_file.execute!({ source_path: "/b.txt", destination_path: "/c.txt" }, options)
+  ).toBe("Successfully moved '/b.txt' to '/c.txt'");
+  expect(await tools.delete_file.execute!({ file_path: "/a.txt" }, options)).toBe(
+    "Successfully deleted '/a.txt'"
+  );
+
+  expect(Object.keys(state.files)).toEqual(["/c.txt"]);
+  // After the file-write-start and file-written events
+  expect(events.slice(2)).toEqual([
+    { type: "file-copied", from: "/a.txt", to: "/b.txt" },
+    { type: "file-moved", from: "/b.txt", to: "/c.txt" },
+    { type: "file-deleted", path: "/a.txt" },
+  ]);
+
+  // Backends without the optional operations
+  const basic = Object.assign(new StateBackend(state), { delete: undefined });
+  const limited = createFilesystemTools(state, basic);
+  expect(await limited.delete_file.execute!({ file_path: "/c.txt" }, options)).toContain(
+    "not supported"
+  );
+});
+
+test("delete_file > can require approval with interruptOn", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      {
+        toolCalls: [{ toolCallId: "call-1", toolName: "delete_file", input: { file_path: "/a.txt" } }],
+      },
+      { text: "Kept the file." },
+    ]),
+    interruptOn: { delete_file: true },
+  });
+
+  const state: DeepAgentState = { todos: [], files: {} };
+  await new StateBackend(state).write("/a.txt", "keep me");
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({
+    prompt: "Delete a.txt",
+    state,
+    onApprovalRequest: async () => false,
+  })) {
+    events.push(event);
+  }
+
+  expect(events.find((e) => e.type === "approval-requested")).toMatchObject({ toolName: "delete_file" });
+  expect(events.some((e) => e.type === "file-deleted")).toBe(false);
+  const done = events.find((e) => e.type === "done");
+  expect(done?.type === "done" && done.state.files["/a.txt"]).toBeTruthy();
+});
@@ -185,6 +185,26 @@ describe("LocalSandbox", () => {
     });
   });
 
+  describe("delete(), move() and copy()", () => {
+    test("copies, moves and deletes files", async () => {
+      const source = path.join(testDir, "transfer-source.txt");
+      const copy = path.join(testDir, "transfer-copy.txt");
+      const moved = path.join(testDir, "nested", "transfer-moved.txt");
+      await sandbox.write(source, "content");
+
+      expect(await sandbox.copy(source, copy)).toEqual({ from: source, to: copy });
+      expect((await sandbox.copy(source, copy)).error).toContain("already exists");
+
+      expect(await sandbox.move(copy, moved)).toEqual({ from: copy, to: moved });
+      expect(fs.existsSync(copy)).toBe(false);
+      expect(fs.readFileSync(moved, "utf-8")).toBe("content");
+
+      expect(await sandbox.delete(moved)).toEqual({ path: moved });
+      expect(fs.existsSync(moved)).toBe(false);
+      expect((await sandbox.delete(moved)).error).toContain("not found");
+    });
+  });
+
   describe("options", () => {
     test("respects custom environment variables", async () => {
       const customSandbox = new LocalSandbox({
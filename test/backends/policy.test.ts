@@ -0,0 +1,170 @@
+/**
+ * Tests for policy-enforcing backend wrappers.
+ */
+
+import { test, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PolicyBackend, PolicySandbox, withPolicy } from "../../src/backends/policy.ts";
+import { StateBackend } from "../../src/backends/state.ts";
+import { FilesystemBackend } from "../../src/backends/filesystem.ts";
+import { createFilesystemTools } from "../../src/tools/filesystem.ts";
+import type { DeepAgentState, ExecuteResponse, SandboxBackendProtocol } from "../../src/types.ts";
+
+function createState(files: Record<string, string>): DeepAgentState {
+  const state: DeepAgentState = { todos: [], files: {} };
+  const backend = new StateBackend(state);
+  for (const [path, content] of Object.entries(files)) {
+    backend.write(path, content);
+  }
+  return state;
+}
+
+/** State-backed sandbox that records the commands it runs */
+class FakeSandbox extends StateBackend implements SandboxBackendProtocol {
+  readonly id = "fake-sandbox";
+  commands: string[] = [];
+
+  async execute(command: string): Promise<ExecuteResponse> {
+    this.commands.push(command);
+    return { output: "ok", exitCode: 0, truncated: false };
+  }
+}
+
+test("PolicyBackend > read-only mode rejects writes and edits", async () => {
+  const state = createState({ "/notes.md": "hello" });
+  const backend = new PolicyBackend(new StateBackend(state), { readOnly: true });
+
+  expect(await backend.read("/notes.md")).toContain("hello");
+  expect((await backend.write("/new.md", "text")).error).toContain("read-only");
+  expect((await backend.edit("/notes.md", "hello", "bye")).error).toContain("read-only");
+  expect(Object.keys(state.files)).toEqual(["/notes.md"]);
+});
+
+test("PolicyBackend > hides and rejects paths outside the allowed globs", async () => {
+  const state = createState({
+    "/src/app.ts": "const secret = process.env.KEY;",
+    "/src/.env": "KEY=secret",
+    "/docs/readme.md": "secret docs",
+  });
+  const backend = new PolicyBackend(new StateBackend(state), {
+    allowPaths: ["/src/**"],
+    denyPaths: ["**/.env"],
+  });
+
+  expect(await backend.read("/src/.env")).toBe("Error: Access to '/src/.env' is denied by policy");
+  expect(await backend.read("/docs/readme.md")).toBe(
+    "Error: Access to '/docs/readme.md' is not allowed by policy"
+  );
+  expect((await backend.write("/docs/new.md", "text")).error).toContain("not allowed");
+  await expect(backend.readRaw("/src/.env")).rejects.toThrow("denied by policy");
+
+  expect((await backend.globInfo("**/*")).map((f) => f.path)).toEqual(["/src/app.ts"]);
+  const matches = await backend.grepRaw("secret", "/");
+  expect(typeof matches !== "string" && matches.map((m) => m.path)).toEqual(["/src/app.ts"]);
+  expect((await backend.lsInfo("/src/")).map((f) => f.path)).toEqual(["/src/app.ts"]);
+});
+
+test("PolicyBackend > normalizes paths before matching them", async () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "policy-"));
+  afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+  fs.mkdirSync(path.join(rootDir, "secrets"));
+  fs.writeFileSync(path.join(rootDir, "secrets", "key"), "TOP-SECRET");
+  fs.mkdirSync(path.join(rootDir, "src"));
+  fs.writeFileSync(path.join(rootDir, "src", "app.ts"), "app");
+
+  const backend = new PolicyBackend(new FilesystemBackend({ rootDir, virtualMode: true }), {
+    denyPaths: ["/secrets/**"],
+  });
+
+  for (const filePath of ["/./secrets/key", "secrets/key", "./secrets/key", "/src/../secrets/key", "//secrets/key"]) {
+    expect(await backend.read(filePath)).toBe(`Error: Access to '${filePath}' is denied by policy`);
+    expect((await backend.write(filePath.replace("key", "new"), "x")).error).toContain("denied by policy");
+    expect((await backend.move("/src/app.ts", filePath.replace("key", "moved"))).error).toContain("denied");
+  }
+  for (const filePath of ["../secrets/key", "/src/../../secrets/key"]) {
+    expect(await backend.read(filePath)).toContain("paths may not leave the root");
+    expect((await backend.delete(filePath)).error).toContain("paths may not leave the root");
+  }
+
+  expect(await backend.read("src/app.ts")).toContain("app");
+  expect((await backend.lsInfo("/./secrets")).map((f) => f.path)).toEqual([]);
+  const matches = await backend.grepRaw("SECRET", "secrets");
+  expect(typeof matches !== "string" && matches).toEqual([]);
+  expect(fs.readdirSync(path.join(rootDir, "secrets"))).toEqual(["key"]);
+});
+
+test("PolicyBackend > resolves real paths against the root of backends on disk", async () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "policy-"));
+  afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+  fs.mkdirSync(path.join(rootDir, "secrets"));
+  fs.writeFileSync(path.join(rootDir, "secrets", "key"), "TOP-SECRET");
+  fs.mkdirSync(path.join(rootDir, "src"));
+  fs.writeFileSync(path.join(rootDir, "src", "app.ts"), "app");
+
+  // Without virtualMode, absolute paths are real paths on disk
+  const backend = new PolicyBackend(new FilesystemBackend({ rootDir }), { denyPaths: ["/secrets/**"] });
+  const secret = path.join(rootDir, "secrets", "key");
+
+  expect(await backend.read(secret)).toBe(`Error: Access to '${secret}' is denied by policy`);
+  expect(await backend.read("secrets/key")).toBe("Error: Access to 'secrets/key' is denied by policy");
+  expect((await backend.write(path.join(rootDir, "secrets", "new"), "x")).error).toContain("denied by policy");
+  expect(await backend.lsInfo(path.join(rootDir, "secrets"))).toEqual([]);
+  expect((await backend.lsInfo("/")).map((f) => f.path)).toEqual([
+    path.join(rootDir, "secrets") + path.sep,
+    path.join(rootDir, "src") + path.sep,
+  ]);
+  expect((await backend.globInfo("**/*")).map((f) => f.path)).toEqual([path.join(rootDir, "src", "app.ts")]);
+  const matches = await backend.grepRaw("SECRET", rootDir);
+  expect(typeof matches !== "string" && matches).toEqual([]);
+
+  // Paths outside the root, including ones that look like policy paths
+  for (const filePath of ["/src/app.ts", path.join(rootDir, "..", "other"), "../other"]) {
+    expect(await backend.read(filePath)).toContain("paths may not leave the root");
+  }
+  expect(await backend.read(path.join(rootDir, "src", "app.ts"))).toContain("app");
+  expect(await backend.read("src/app.ts")).toContain("app");
+});
+
+test("PolicyBackend > limits the size of files read and written", async () => {
+  const state = createState({ "/small.txt": "12345", "/large.txt": "x".repeat(100) });
+  const backend = new PolicyBackend(new StateBackend(state), { maxFileSize: 10 });
+
+  expect(await backend.read("/small.txt")).toContain("12345");
+  expect(await backend.read("/large.txt")).toContain("100 bytes, more than the 10 bytes allowed");
+  expect((await backend.write("/big.txt", "x".repeat(11))).error).toContain("11 bytes");
+  expect((await backend.edit("/small.txt", "5", "5678901")).error).toContain("11 bytes");
+  expect((await backend.edit("/small.txt", "5", "567890")).error).toBeUndefined();
+});
+
+test("PolicySandbox > checks commands against allow and deny patterns", async () => {
+  const sandbox = new FakeSandbox({ todos: [], files: {} });
+  const backend = withPolicy(sandbox, {
+    allowCommands: ["^npm test\\b"],
+    denyCommands: ["[;&|]"],
+  });
+
+  expect(backend).toBeInstanceOf(PolicySandbox);
+  expect(backend.id).toBe("fake-sandbox");
+  expect((await backend.execute("npm test")).exitCode).toBe(0);
+  expect(await backend.execute("npm test && rm -rf /")).toEqual({
+    output: "Error: Command denied by policy: npm test && rm -rf /",
+    exitCode: 126,
+    truncated: false,
+  });
+  expect((await backend.execute("rm -rf /")).output).toBe("Error: Command not allowed by policy: rm -rf /");
+  expect(sandbox.commands).toEqual(["npm test"]);
+});
+
+test("withPolicy > violations surface as normal tool output", async () => {
+  const state = createState({});
+  const tools = createFilesystemTools(state, withPolicy((s) => new StateBackend(s), { readOnly: true }));
+
+  const result = await tools.write_file.execute!(
+    { file_path: "/notes.md", content: "hello" },
+    { toolCallId: "call-1", messages: [] }
+  );
+  expect(result).toContain("read-only");
+  expect(state.files).toEqual({});
+});
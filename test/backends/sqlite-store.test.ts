@@ -0,0 +1,98 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import { SqliteStore } from "../../src/backends/sqlite-store.ts";
+import { PersistentBackend } from "../../src/backends/persistent.ts";
+import { KeyValueStoreSaver } from "../../src/checkpointer/kv-saver.ts";
+
+describe("SqliteStore", () => {
+  const testDir = path.join(process.cwd(), ".test-sqlite-store");
+  let store: SqliteStore;
+
+  beforeEach(() => {
+    store = new SqliteStore();
+  });
+
+  afterEach(() => {
+    store.close();
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test("put, get and delete values", async () => {
+    await store.put(["ns"], "key", { value: 1 });
+    expect(await store.get(["ns"], "key")).toEqual({ value: 1 });
+
+    await store.put(["ns"], "key", { value: 2 });
+    expect(await store.get(["ns"], "key")).toEqual({ value: 2 });
+
+    await store.delete(["ns"], "key");
+    expect(await store.get(["ns"], "key")).toBeUndefined();
+  });
+
+  test("list returns only direct children of a namespace", async () => {
+    await store.put(["a"], "one", { n: 1 });
+    await store.put(["a"], "two", { n: 2 });
+    await store.put(["a", "b"], "three", { n: 3 });
+    await store.put(["a:b"], "four", { n: 4 });
+
+    expect(await store.list(["a"])).toEqual([
+      { key: "one", value: { n: 1 } },
+      { key: "two", value: { n: 2 } },
+    ]);
+    expect(await store.list(["a", "b"])).toEqual([{ key: "three", value: { n: 3 } }]);
+  });
+
+  test("rejects invalid table names", () => {
+    expect(() => new SqliteStore({ tableName: "kv; DROP TABLE x" })).toThrow(
+      "Invalid SQLite table name"
+    );
+  });
+
+  test("stores data across connections to the same file", async () => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const dbPath = path.join(testDir, "store.db");
+
+    const first = new SqliteStore({ path: dbPath });
+    await first.put(["ns"], "key", { value: "shared" });
+    first.close();
+
+    const second = new SqliteStore({ path: dbPath });
+    try {
+      expect(await second.get(["ns"], "key")).toEqual({ value: "shared" });
+    } finally {
+      second.close();
+    }
+  });
+
+  test("works as PersistentBackend store", async () => {
+    const backend = new PersistentBackend({ store, namespace: "project" });
+
+    expect((await backend.write("/notes.md", "hello\nworld")).error).toBeUndefined();
+    expect((await backend.edit("/notes.md", "world", "sqlite")).error).toBeUndefined();
+    expect(await backend.read("/notes.md")).toContain("sqlite");
+
+    const files = await backend.globInfo("*.md");
+    expect(files.map((f) => f.path)).toEqual(["/notes.md"]);
+
+    // A new backend over the same store sees the file
+    const other = new PersistentBackend({ store, namespace: "project" });
+    expect((await other.readRaw("/notes.md")).content).toEqual(["hello", "sqlite"]);
+  });
+
+  test("works as KeyValueStoreSaver store", async () => {
+    const saver = new KeyValueStoreSaver({ store });
+    await saver.save({
+      threadId: "thread-1",
+      step: 1,
+      messages: [],
+      state: { todos: [], files: {} },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    expect((await saver.load("thread-1"))?.step).toBe(1);
+    expect(await saver.list()).toEqual(["thread-1"]);
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Tests for pausing on tool approval and resuming from a checkpoint.
+ *
+ * Uses a scripted mock model, so no API key is required.
+ */
+
+import { test, expect } from "bun:test";
+import { createDeepAgent, MemorySaver } from "../../src/index.ts";
+import type { DeepAgentEvent } from "../../src/index.ts";
+import { createMockModel } from "../helpers/mock-model.ts";
+
+async function collect(stream: AsyncGenerator<DeepAgentEvent>): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+const writeCall = {
+  toolCalls: [
+    {
+      toolCallId: "call-1",
+      toolName: "write_file",
+      input: { file_path: "/notes.md", content: "hello" },
+    },
+  ],
+};
+
+test("Interrupt > pauses and saves interrupt when no approval callback is given", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([writeCall]),
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  const events = await collect(
+    agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" })
+  );
+
+  const interrupt = events.find((e) => e.type === "interrupt");
+  expect(interrupt).toBeDefined();
+  expect(events.some((e) => e.type === "done")).toBe(false);
+  expect(events.some((e) => e.type === "file-written")).toBe(false);
+
+  const checkpoint = await checkpointer.load("t1");
+  expect(checkpoint?.interrupt?.toolCall.toolCallId).toBe("call-1");
+  expect(checkpoint?.interrupt?.toolCall.toolName).toBe("write_file");
+  expect(checkpoint?.state.files["/notes.md"]).toBeUndefined();
+});
+
+test("Interrupt > resume with approve runs the pending tool call and continues", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([writeCall, { text: "All done." }]),
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "t1",
+      resume: { decisions: [{ type: "approve" }] },
+    })
+  );
+
+  const response = events.find((e) => e.type === "approval-response");
+  expect(response).toMatchObject({ approved: true });
+  expect(events.some((e) => e.type === "file-written")).toBe(true);
+
+  const done = events.find((e) => e.type === "done");
+  expect(done).toBeDefined();
+  if (done?.type === "done") {
+    expect(done.text).toBe("All done.");
+    expect(done.state.files["/notes.md"]?.content).toEqual(["hello"]);
+  }
+
+  const checkpoint = await checkpointer.load("t1");
+  expect(checkpoint?.interrupt).toBeUndefined();
+});
+
+test("Interrupt > resume with deny does not run the tool", async () => {
+  const checkpointer = new MemorySaver();
+  const model = createMockModel([writeCall, { text: "Okay, skipped." }]);
+  const agent = createDeepAgent({
+    model,
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "t1",
+      resume: { decisions: [{ type: "deny" }] },
+    })
+  );
+
+  expect(events.find((e) => e.type === "approval-response")).toMatchObject({ approved: false });
+  expect(events.some((e) => e.type === "file-written")).toBe(false);
+
+  const done = events.find((e) => e.type === "done");
+  if (done?.type === "done") {
+    expect(done.state.files["/notes.md"]).toBeUndefined();
+  }
+
+  // The model saw the denial as the tool result
+  const lastPrompt = JSON.stringify(model.doStreamCalls.at(-1)?.prompt);
+  expect(lastPrompt).toContain("Tool execution denied by user");
+});
+
+test("Interrupt > resume without pending interrupt yields an error", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([]),
+    checkpointer: new MemorySaver(),
+  });
+
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "missing",
+      resume: { decisions: [{ type: "approve" }] },
+    })
+  );
+
+  expect(events[0]?.type).toBe("error");
+});
+
+test("Interrupt > resume that fails yields an error event", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([writeCall]),
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+
+  // Malformed decisions, e.g. from a client sending the wrong shape
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "t1",
+      resume: { decisions: null as never },
+    })
+  );
+
+  expect(events.at(-1)?.type).toBe("error");
+  expect((await checkpointer.load("t1"))?.interrupt).toBeDefined();
+});
+
+test("Interrupt > resume with edit runs the tool with edited arguments", async () => {
+  const checkpointer = new MemorySaver();
+  const model = createMockModel([writeCall, { text: "Written." }]);
+  const agent = createDeepAgent({
+    model,
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+
+  const modifiedArgs = { file_path: "/docs/notes.md", content: "hello" };
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "t1",
+      resume: { decisions: [{ type: "edit", modifiedArgs }] },
+    })
+  );
+
+  expect(events.find((e) => e.type === "approval-response")).toMatchObject({
+    approved: true,
+    toolCallId: "call-1",
+    modifiedArgs,
+  });
+
+  const done = events.find((e) => e.type === "done");
+  if (done?.type === "done") {
+    expect(done.state.files["/docs/notes.md"]?.content).toEqual(["hello"]);
+    expect(done.state.files["/notes.md"]).toBeUndefined();
+  }
+
+  // The history sent to the model reflects the edited call
+  const lastPrompt = JSON.stringify(model.doStreamCalls.at(-1)?.prompt);
+  expect(lastPrompt).toContain("/docs/notes.md");
+});
+
+test("Interrupt > resume with invalid edited arguments does not run the tool", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([writeCall, { text: "Okay." }]),
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "t1",
+      resume: { decisions: [{ type: "edit", modifiedArgs: { file_path: 42 } }] },
+    })
+  );
+
+  expect(events.find((e) => e.type === "approval-response")).toMatchObject({ approved: false });
+  expect(events.some((e) => e.type === "file-written")).toBe(false);
+  const result = events.find((e) => e.type === "tool-result");
+  expect(String(result?.type === "tool-result" && result.result)).toContain("invalid");
+});
+
+test("Interrupt > approval callback can edit arguments", async () => {
+  const model = createMockModel([writeCall, { text: "Written." }]);
+  const agent = createDeepAgent({
+    model,
+    interruptOn: { write_file: true },
+  });
+
+  const events = await collect(
+    agent.streamWithEvents({
+      prompt: "Write notes",
+      onApprovalRequest: async () => ({
+        type: "edit",
+        modifiedArgs: { file_path: "/edited.md", content: "hello" },
+      }),
+    })
+  );
+
+  expect(events.find((e) => e.type === "approval-response")).toMatchObject({
+    approved: true,
+    modifiedArgs: { file_path: "/edited.md", content: "hello" },
+  });
+
+  const done = events.find((e) => e.type === "done");
+  if (done?.type === "done") {
+    expect(done.state.files["/edited.md"]).toBeDefined();
+    expect(done.state.files["/notes.md"]).toBeUndefined();
+  }
+
+  const lastPrompt = JSON.stringify(model.doStreamCalls.at(-1)?.prompt);
+  expect(lastPrompt).toContain("/edited.md");
+});
+
+const batchWriteCall = {
+  toolCalls: [
+    { toolCallId: "call-1", toolName: "write_file", input: { file_path: "/a.md", content: "a" } },
+    { toolCallId: "call-2", toolName: "write_file", input: { file_path: "/b.md", content: "b" } },
+    { toolCallId: "call-3", toolName: "write_file", input: { file_path: "/c.md", content: "c" } },
+  ],
+};
+
+test("Interrupt > parallel tool calls are saved as one batch", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([batchWriteCall]),
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  const events = await collect(
+    agent.streamWithEvents({ prompt: "Write files", threadId: "t1" })
+  );
+
+  expect(events.filter((e) => e.type === "approval-requested")).toHaveLength(3);
+  expect(events.filter((e) => e.type === "interrupt")).toHaveLength(1);
+
+  const checkpoint = await checkpointer.load("t1");
+  expect(checkpoint?.interrupt?.toolCalls?.map((call) => call.toolCallId)).toEqual([
+    "call-1",
+    "call-2",
+    "call-3",
+  ]);
+});
+
+test("Interrupt > resume applies one decision per pending tool call", async () => {
+  const checkpointer = new MemorySaver();
+  const model = createMockModel([batchWriteCall, { text: "Done writing." }]);
+  const agent = createDeepAgent({
+    model,
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write files", threadId: "t1" }));
+
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "t1",
+      resume: {
+        decisions: [
+          { type: "approve" },
+          { type: "deny" },
+          { type: "edit", modifiedArgs: { file_path: "/d.md", content: "d" } },
+        ],
+      },
+    })
+  );
+
+  expect(
+    events
+      .filter((e) => e.type === "approval-response")
+      .map((e) => e.type === "approval-response" && [e.toolCallId, e.approved])
+  ).toEqual([
+    ["call-1", true],
+    ["call-2", false],
+    ["call-3", true],
+  ]);
+
+  const done = events.find((e) => e.type === "done");
+  expect(done).toBeDefined();
+  if (done?.type === "done") {
+    expect(Object.keys(done.state.files).sort()).toEqual(["/a.md", "/d.md"]);
+  }
+
+  // All three results were sent back to the model in one tool message
+  const prompt = model.doStreamCalls.at(-1)?.prompt ?? [];
+  const toolMessages = prompt.filter((message) => message.role === "tool");
+  expect(toolMessages).toHaveLength(1);
+  expect(toolMessages[0]?.content).toHaveLength(3);
+});
+
+test("Interrupt > resume matches decisions by tool call ID", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([batchWriteCall, { text: "Done." }]),
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write files", threadId: "t1" }));
+
+  const events = await collect(
+    agent.streamWithEvents({
+      threadId: "t1",
+      resume: { decisions: [{ type: "approve", toolCallId: "call-3" }] },
+    })
+  );
+
+  const done = events.find((e) => e.type === "done");
+  if (done?.type === "done") {
+    expect(Object.keys(done.state.files)).toEqual(["/c.md"]);
+  }
+});
+
+test("Interrupt > batch approval callback is called once per step", async () => {
+  const batches: string[][] = [];
+  const agent = createDeepAgent({
+    model: createMockModel([batchWriteCall, { text: "Done." }]),
+    interruptOn: { write_file: true },
+  });
+
+  const events = await collect(
+    agent.streamWithEvents({
+      prompt: "Write files",
+      onApprovalBatchRequest: async (requests) => {
+        batches.push(requests.map((request) => request.toolCallId));
+        return [true, false, true];
+      },
+    })
+  );
+
+  expect(batches).toEqual([["call-1", "call-2", "call-3"]]);
+
+  const done = events.find((e) => e.type === "done");
+  expect(done).toBeDefined();
+  if (done?.type === "done") {
+    expect(Object.keys(done.state.files).sort()).toEqual(["/a.md", "/c.md"]);
+  }
+});
+
+test("Interrupt > forked thread can take another branch from the same interrupt", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([writeCall, { text: "Written." }, { text: "Skipped." }]),
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+  const [paused] = await checkpointer.listVersions("t1");
+  expect(paused?.hasInterrupt).toBe(true);
+
+  await checkpointer.fork("t1", paused!.step, "t1-branch");
+
+  await collect(
+    agent.streamWithEvents({ threadId: "t1", resume: { decisions: [{ type: "approve" }] } })
+  );
+  await collect(
+    agent.streamWithEvents({ threadId: "t1-branch", resume: { decisions: [{ type: "deny" }] } })
+  );
+
+  expect((await checkpointer.load("t1"))?.state.files["/notes.md"]).toBeDefined();
+  expect((await checkpointer.load("t1-branch"))?.state.files["/notes.md"]).toBeUndefined();
+});
@@ -136,3 +136,53 @@ test("KeyValueStoreSaver > handles complex state", async () => {
   expect(loaded?.messages).toHaveLength(2);
 });
 
+
+test("KeyValueStoreSaver > keeps a version per step", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+  await saver.save({ ...createTestCheckpoint("thread-1", 3), messages: [] });
+
+  const versions = await saver.listVersions("thread-1");
+  expect(versions.map((v) => v.step)).toEqual([1, 2, 3]);
+  expect(versions[2]?.messagesCount).toBe(0);
+
+  const step2 = await saver.loadVersion("thread-1", 2);
+  expect(step2?.step).toBe(2);
+  expect(await saver.loadVersion("thread-1", 4)).toBeUndefined();
+
+  // Latest checkpoint is unchanged
+  expect((await saver.load("thread-1"))?.step).toBe(3);
+});
+
+test("KeyValueStoreSaver > fork copies history up to a step into a new thread", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+  await saver.save(createTestCheckpoint("thread-1", 3));
+
+  const forked = await saver.fork("thread-1", 2, "thread-2");
+  expect(forked.threadId).toBe("thread-2");
+  expect(forked.parent).toEqual({ threadId: "thread-1", step: 2 });
+
+  expect((await saver.load("thread-2"))?.step).toBe(2);
+  expect((await saver.listVersions("thread-2")).map((v) => v.step)).toEqual([1, 2]);
+
+  // Original thread is untouched
+  expect((await saver.load("thread-1"))?.step).toBe(3);
+  expect((await saver.listVersions("thread-1")).map((v) => v.step)).toEqual([1, 2, 3]);
+});
+
+test("KeyValueStoreSaver > fork rejects unknown steps and existing threads", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-2", 1));
+
+  await expect(saver.fork("thread-1", 5, "thread-3")).rejects.toThrow("No checkpoint at step 5");
+  await expect(saver.fork("thread-1", 1, "thread-2")).rejects.toThrow("already exists");
+});
+
+test("KeyValueStoreSaver > delete removes all versions", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+  await saver.delete("thread-1");
+
+  expect(await saver.listVersions("thread-1")).toEqual([]);
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the message history recorded in done events and checkpoints.
+ *
+ * Uses a scripted mock model, so no API key is required.
+ */
+
+import { test, expect } from "bun:test";
+import { createDeepAgent, MemorySaver } from "../../src/index.ts";
+import type { ModelMessage } from "ai";
+import type { Checkpoint, DeepAgentEvent } from "../../src/index.ts";
+import { createMockModel } from "../helpers/mock-model.ts";
+
+async function collect(stream: AsyncGenerator<DeepAgentEvent>): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+const turns = [
+  {
+    toolCalls: [
+      {
+        toolCallId: "call-1",
+        toolName: "write_file",
+        input: { file_path: "/notes.md", content: "hello" },
+      },
+    ],
+  },
+  { text: "Wrote the notes." },
+];
+
+function partTypes(messages: ModelMessage[]): string[] {
+  return messages.flatMap((message) =>
+    typeof message.content === "string"
+      ? [`${message.role}:text`]
+      : message.content.map((part) => `${message.role}:${part.type}`)
+  );
+}
+
+test("Message history > done event includes tool calls and tool results", async () => {
+  const agent = createDeepAgent({ model: createMockModel(turns) });
+
+  const events = await collect(agent.streamWithEvents({ prompt: "Write notes" }));
+
+  const done = events.find((e) => e.type === "done");
+  expect(done?.type).toBe("done");
+  if (done?.type === "done") {
+    expect(partTypes(done.messages ?? [])).toEqual([
+      "user:text",
+      "assistant:tool-call",
+      "tool:tool-result",
+      "assistant:text",
+    ]);
+  }
+});
+
+test("Message history > step and final checkpoints include the response messages", async () => {
+  const saved: Checkpoint[] = [];
+  const checkpointer = new MemorySaver();
+  const originalSave = checkpointer.save.bind(checkpointer);
+  checkpointer.save = async (checkpoint) => {
+    saved.push(structuredClone(checkpoint));
+    await originalSave(checkpoint);
+  };
+
+  const agent = createDeepAgent({ model: createMockModel(turns), checkpointer });
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+
+  // First step checkpoint already knows which tool ran
+  expect(partTypes(saved[0]?.messages ?? [])).toEqual([
+    "user:text",
+    "assistant:tool-call",
+    "tool:tool-result",
+  ]);
+
+  const checkpoint = await checkpointer.load("t1");
+  expect(partTypes(checkpoint?.messages ?? [])).toEqual([
+    "user:text",
+    "assistant:tool-call",
+    "tool:tool-result",
+    "assistant:text",
+  ]);
+});
+
+test("Message history > follow-up turns send the previous tool calls to the model", async () => {
+  const checkpointer = new MemorySaver();
+  const model = createMockModel([...turns, { text: "Yes, /notes.md." }]);
+  const agent = createDeepAgent({ model, checkpointer });
+
+  await collect(agent.streamWithEvents({ prompt: "Write notes", threadId: "t1" }));
+  await collect(agent.streamWithEvents({ prompt: "Did you write a file?", threadId: "t1" }));
+
+  const lastPrompt = model.doStreamCalls.at(-1)?.prompt ?? [];
+  expect(lastPrompt.some((message) => message.role === "tool")).toBe(true);
+  expect(JSON.stringify(lastPrompt)).toContain("call-1");
+});
+
+test("Message history > messages option is used as history without a checkpoint", async () => {
+  const model = createMockModel([...turns, { text: "Yes." }]);
+  const agent = createDeepAgent({ model });
+
+  const first = await collect(agent.streamWithEvents({ prompt: "Write notes" }));
+  const done = first.find((e) => e.type === "done");
+  const messages = done?.type === "done" ? done.messages : undefined;
+
+  await collect(agent.streamWithEvents({ prompt: "Follow up", messages }));
+
+  const lastPrompt = JSON.stringify(model.doStreamCalls.at(-1)?.prompt);
+  expect(lastPrompt).toContain("Write notes");
+  expect(lastPrompt).toContain("call-1");
+});
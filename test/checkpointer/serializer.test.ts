@@ -0,0 +1,260 @@
+import { test, expect, afterEach } from "bun:test";
+import { copyFileSync, existsSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { createCipheriv, randomBytes } from "node:crypto";
+import {
+  CHECKPOINT_SCHEMA_VERSION,
+  JsonCheckpointSerializer,
+} from "../../src/checkpointer/serializer.ts";
+import { FileSaver } from "../../src/checkpointer/file-saver.ts";
+import { KeyValueStoreSaver } from "../../src/checkpointer/kv-saver.ts";
+import { InMemoryStore } from "../../src/backends/persistent.ts";
+import type { Checkpoint } from "../../src/checkpointer/types.ts";
+
+const TEST_DIR = "./.test-serializer-checkpoints";
+
+const SECRET = "sk-live-very-secret-token";
+
+const createTestCheckpoint = (threadId: string, step = 1): Checkpoint => ({
+  threadId,
+  step,
+  messages: [{ role: "user", content: `Use the key ${SECRET} ${"to deploy ".repeat(50)}` }],
+  state: {
+    todos: [],
+    files: {
+      "/.env": {
+        content: [`API_KEY=${SECRET}`],
+        created_at: new Date().toISOString(),
+        modified_at: new Date().toISOString(),
+      },
+    },
+  },
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+afterEach(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+});
+
+test("JsonCheckpointSerializer > plain JSON includes the schema version", async () => {
+  const serializer = new JsonCheckpointSerializer();
+  const checkpoint = createTestCheckpoint("thread-1");
+  const data = await serializer.serialize(checkpoint);
+
+  expect(JSON.parse(data).schemaVersion).toBe(CHECKPOINT_SCHEMA_VERSION);
+  expect(await serializer.deserialize(data)).toEqual(checkpoint);
+});
+
+test("JsonCheckpointSerializer > gzip and brotli round-trip and shrink data", async () => {
+  const checkpoint = createTestCheckpoint("thread-1");
+  const plain = await new JsonCheckpointSerializer().serialize(checkpoint);
+
+  for (const compression of ["gzip", "brotli"] as const) {
+    const serializer = new JsonCheckpointSerializer({ compression });
+    const data = await serializer.serialize(checkpoint);
+    expect(data.length).toBeLessThan(plain.length);
+    expect(JSON.parse(data).compression).toBe(compression);
+    expect(await serializer.deserialize(data)).toEqual(checkpoint);
+  }
+});
+
+test("JsonCheckpointSerializer > encryption hides content and needs the key", async () => {
+  const key = randomBytes(32);
+  const serializer = new JsonCheckpointSerializer({ encryptionKey: key, compression: "gzip" });
+  const checkpoint = createTestCheckpoint("thread-1");
+
+  const data = await serializer.serialize(checkpoint);
+  expect(data).not.toContain(SECRET);
+  expect(data).not.toContain("thread-1");
+  expect(await serializer.deserialize(data, { threadId: "thread-1" })).toEqual(checkpoint);
+
+  // Base64 keys work too
+  const fromBase64 = new JsonCheckpointSerializer({ encryptionKey: key.toString("base64") });
+  expect(await fromBase64.deserialize(data, { threadId: "thread-1", step: 1 })).toEqual(checkpoint);
+
+  await expect(new JsonCheckpointSerializer().deserialize(data)).rejects.toThrow(
+    "no encryption key"
+  );
+  await expect(
+    new JsonCheckpointSerializer({ encryptionKey: randomBytes(32) }).deserialize(data, { threadId: "thread-1" })
+  ).rejects.toThrow("Failed to decrypt checkpoint");
+});
+
+test("JsonCheckpointSerializer > encrypted checkpoints only load from their thread and step", async () => {
+  const serializer = new JsonCheckpointSerializer({ encryptionKey: randomBytes(32) });
+  const data = await serializer.serialize(createTestCheckpoint("thread-1", 2));
+
+  expect((await serializer.deserialize(data, { threadId: "thread-1", step: 2 })).step).toBe(2);
+  await expect(serializer.deserialize(data, { threadId: "thread-2" })).rejects.toThrow(
+    "saved to another thread or step"
+  );
+  await expect(serializer.deserialize(data, { threadId: "thread-1", step: 1 })).rejects.toThrow(
+    "saved to another thread or step"
+  );
+  // The step in the envelope is authenticated too
+  const envelope = JSON.parse(data);
+  envelope.encryption.step = 1;
+  await expect(serializer.deserialize(JSON.stringify(envelope), { threadId: "thread-1" })).rejects.toThrow(
+    "saved to another thread or step"
+  );
+  await expect(serializer.deserialize(data)).rejects.toThrow("only be loaded with their thread ID");
+
+  // Savers bind to a location of their choice
+  const moved = await serializer.serialize(createTestCheckpoint("thread-1", 2), { threadId: "file-1" });
+  expect((await serializer.deserialize(moved, { threadId: "file-1" })).threadId).toBe("thread-1");
+});
+
+test("JsonCheckpointSerializer > rejects keys that are not 32 bytes", () => {
+  expect(() => new JsonCheckpointSerializer({ encryptionKey: randomBytes(16) })).toThrow(
+    "must be 32 bytes"
+  );
+});
+
+test("JsonCheckpointSerializer > reads plain checkpoints without a key", async () => {
+  const plain = await new JsonCheckpointSerializer().serialize(createTestCheckpoint("thread-1"));
+  const serializer = new JsonCheckpointSerializer({ compression: "brotli" });
+
+  expect((await serializer.deserialize(plain)).threadId).toBe("thread-1");
+});
+
+test("JsonCheckpointSerializer > with a key, reads plain checkpoints only with allowPlaintext", async () => {
+  const key = randomBytes(32);
+  const checkpoint = createTestCheckpoint("thread-1");
+  const plain = await new JsonCheckpointSerializer().serialize(checkpoint);
+  const compressed = await new JsonCheckpointSerializer({ compression: "gzip" }).serialize(checkpoint);
+
+  // Encrypted the way checkpoints were before they were bound to their location
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const payload = Buffer.concat([cipher.update(plain, "utf-8"), cipher.final()]);
+  const unbound = JSON.stringify({
+    format: "deepagents-checkpoint",
+    schemaVersion: CHECKPOINT_SCHEMA_VERSION,
+    encryption: { algorithm: "aes-256-gcm", iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64") },
+    data: payload.toString("base64"),
+  });
+
+  const strict = new JsonCheckpointSerializer({ encryptionKey: key });
+  await expect(strict.deserialize(plain, { threadId: "thread-1" })).rejects.toThrow("not encrypted");
+  await expect(strict.deserialize(compressed, { threadId: "thread-1" })).rejects.toThrow("not encrypted");
+  await expect(strict.deserialize(unbound, { threadId: "thread-1" })).rejects.toThrow(
+    "not bound to its thread and step"
+  );
+
+  const migrating = new JsonCheckpointSerializer({ encryptionKey: key, allowPlaintext: true });
+  for (const data of [plain, compressed, unbound]) {
+    expect(await migrating.deserialize(data, { threadId: "thread-1" })).toEqual(checkpoint);
+  }
+});
+
+test("JsonCheckpointSerializer > migrates unversioned checkpoints", async () => {
+  // Checkpoint written before versioning, with a single-call interrupt
+  const legacy = {
+    ...createTestCheckpoint("thread-1"),
+    interrupt: {
+      toolCall: { toolCallId: "call-1", toolName: "write_file", args: { file_path: "/a" } },
+      step: 1,
+      approvalId: "approval-1",
+    },
+  };
+
+  const loaded = await new JsonCheckpointSerializer().deserialize(JSON.stringify(legacy));
+  expect(loaded).not.toHaveProperty("schemaVersion");
+  expect(loaded.interrupt?.toolCalls).toEqual([
+    { toolCallId: "call-1", toolName: "write_file", args: { file_path: "/a" }, approvalId: "approval-1" },
+  ]);
+});
+
+test("JsonCheckpointSerializer > applies custom migrations", async () => {
+  const legacy = { ...createTestCheckpoint("thread-1"), state: { todos: [] } };
+  const serializer = new JsonCheckpointSerializer({
+    migrations: { 0: (data) => ({ ...data, state: { files: {}, ...(data.state as object) } }) },
+  });
+
+  const loaded = await serializer.deserialize(JSON.stringify(legacy));
+  expect(loaded.state.files).toEqual({});
+});
+
+test("JsonCheckpointSerializer > rejects newer schema versions", async () => {
+  const future = JSON.stringify({ ...createTestCheckpoint("thread-1"), schemaVersion: 99 });
+  await expect(new JsonCheckpointSerializer().deserialize(future)).rejects.toThrow(
+    "newer than supported"
+  );
+});
+
+test("FileSaver > writes encrypted checkpoint files", async () => {
+  const serializer = new JsonCheckpointSerializer({ encryptionKey: randomBytes(32) });
+  const saver = new FileSaver({ dir: TEST_DIR, serializer });
+
+  await saver.save(createTestCheckpoint("thread-1"));
+
+  expect(readFileSync(join(TEST_DIR, "thread-1.json"), "utf-8")).not.toContain(SECRET);
+  expect(readFileSync(join(TEST_DIR, "thread-1.history", "1.json"), "utf-8")).not.toContain(SECRET);
+  expect((await saver.load("thread-1"))?.state.files["/.env"]?.content).toEqual([
+    `API_KEY=${SECRET}`,
+  ]);
+
+  // A saver without the key fails loudly instead of starting a new session
+  await expect(new FileSaver({ dir: TEST_DIR }).load("thread-1")).rejects.toThrow("encrypted");
+});
+
+test("FileSaver > rejects encrypted checkpoints copied to another thread", async () => {
+  const serializer = new JsonCheckpointSerializer({ encryptionKey: randomBytes(32) });
+  const saver = new FileSaver({ dir: TEST_DIR, serializer });
+  await saver.save(createTestCheckpoint("user:1"));
+  await saver.save(createTestCheckpoint("user:2"));
+
+  expect((await saver.listThreads()).map((thread) => thread.threadId).sort()).toEqual(["user:1", "user:2"]);
+
+  copyFileSync(join(TEST_DIR, "user%3A1.json"), join(TEST_DIR, "user%3A2.json"));
+  await expect(saver.load("user:2")).rejects.toThrow("saved to another thread or step");
+});
+
+test("FileSaver > binds encrypted checkpoints to the thread ID, not its file name", async () => {
+  const serializer = new JsonCheckpointSerializer({ encryptionKey: randomBytes(32) });
+  const saver = new FileSaver({ dir: TEST_DIR, serializer });
+  await saver.save(createTestCheckpoint("user:1"));
+  await saver.save(createTestCheckpoint("user_1"));
+
+  // IDs that used to share a file name keep their own files
+  expect((await saver.load("user:1"))?.threadId).toBe("user:1");
+  expect((await saver.load("user_1"))?.threadId).toBe("user_1");
+
+  copyFileSync(join(TEST_DIR, "user_1.json"), join(TEST_DIR, "user%3A1.json"));
+  await expect(saver.load("user:1")).rejects.toThrow("saved to another thread or step");
+});
+
+test("FileSaver > rejects a latest checkpoint replaced with an older version", async () => {
+  const serializer = new JsonCheckpointSerializer({ encryptionKey: randomBytes(32) });
+  const saver = new FileSaver({ dir: TEST_DIR, serializer });
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+
+  copyFileSync(join(TEST_DIR, "thread-1.history", "1.json"), join(TEST_DIR, "thread-1.json"));
+  await expect(saver.load("thread-1")).rejects.toThrow("older than its history");
+
+  // Saving an earlier step on purpose rewinds the thread
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  expect((await saver.load("thread-1"))?.step).toBe(1);
+  expect((await saver.listVersions("thread-1")).map((version) => version.step)).toEqual([1]);
+});
+
+test("KeyValueStoreSaver > loads checkpoints stored as plain records", async () => {
+  const store = new InMemoryStore();
+  const checkpoint = createTestCheckpoint("thread-1");
+  await store.put(["default", "checkpoints"], "thread-1", checkpoint as unknown as Record<string, unknown>);
+
+  const saver = new KeyValueStoreSaver({
+    store,
+    serializer: new JsonCheckpointSerializer({ compression: "gzip" }),
+  });
+  expect(await saver.load("thread-1")).toEqual(checkpoint);
+
+  await saver.save(createTestCheckpoint("thread-2"));
+  const stored = await store.get(["default", "checkpoints"], "thread-2");
+  expect(JSON.stringify(stored)).not.toContain(SECRET);
+  expect((await saver.load("thread-2"))?.threadId).toBe("thread-2");
+});
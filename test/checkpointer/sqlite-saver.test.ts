@@ -0,0 +1,115 @@
+import { test, expect, afterEach } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Database } from "bun:sqlite";
+import { SqliteSaver } from "../../src/checkpointer/sqlite-saver.ts";
+import { createTestCheckpoint, testCheckpointSaver } from "../helpers/checkpoint-saver-suite.ts";
+
+// Savers in one test share an in-memory database, like agents sharing a file
+let database: Database | undefined;
+
+afterEach(() => {
+  database?.close();
+  database = undefined;
+});
+
+testCheckpointSaver("SqliteSaver", (namespace) => {
+  database ??= new Database(":memory:");
+  return new SqliteSaver({ database, namespace });
+});
+
+test("SqliteSaver > tracks thread sizes in bytes, also for tables of older versions", async () => {
+  database = new Database(":memory:");
+  const old = JSON.stringify({ ...createTestCheckpoint("old"), messages: [{ role: "user", content: "é" }] });
+  // Tables as created before sizes were stored
+  database.exec(`
+    CREATE TABLE checkpoint_versions (
+      namespace TEXT NOT NULL, thread_id TEXT NOT NULL, step INTEGER NOT NULL, data TEXT NOT NULL,
+      messages_count INTEGER NOT NULL, has_interrupt INTEGER NOT NULL, created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL, PRIMARY KEY (namespace, thread_id, step)
+    ) WITHOUT ROWID;
+    CREATE TABLE checkpoint_threads (
+      namespace TEXT NOT NULL, thread_id TEXT NOT NULL, latest_step INTEGER NOT NULL,
+      updated_at TEXT NOT NULL, PRIMARY KEY (namespace, thread_id)
+    ) WITHOUT ROWID;
+    INSERT INTO checkpoint_threads VALUES ('default', 'old', 1, '2025-01-01T00:00:00.000Z');
+  `);
+  database.run(
+    "INSERT INTO checkpoint_versions VALUES ('default', 'old', 1, ?, 1, 0, '', '2025-01-01T00:00:00.000Z')",
+    [old]
+  );
+  const saver = new SqliteSaver({ database });
+  const sizes = () =>
+    database!.query<{ thread_id: string; size_bytes: number }, []>(
+      "SELECT thread_id, size_bytes FROM checkpoint_threads ORDER BY thread_id"
+    ).all();
+
+  // Bytes, not characters: "é" is two bytes in UTF-8
+  const oldBytes = Buffer.byteLength(old);
+  expect(oldBytes).toBe(old.length + 1);
+  expect(sizes()).toEqual([{ thread_id: "old", size_bytes: oldBytes }]);
+
+  const checkpoint = { ...createTestCheckpoint("new", 1), messages: [{ role: "user" as const, content: "ü".repeat(10) }] };
+  await saver.save(checkpoint);
+  await saver.save({ ...checkpoint, step: 2 });
+  // Saving a step again replaces its size
+  await saver.save({ ...checkpoint, step: 2, messages: [] });
+
+  const versions = database.query<{ data: string }, []>(
+    "SELECT data FROM checkpoint_versions WHERE thread_id = 'new'"
+  ).all();
+  const expected = versions.reduce((sum, row) => sum + Buffer.byteLength(row.data), 0);
+  expect(sizes()).toEqual([
+    { thread_id: "new", size_bytes: expected },
+    { thread_id: "old", size_bytes: oldBytes },
+  ]);
+  expect((await saver.listThreads()).find((t) => t.threadId === "new")?.sizeBytes).toBe(expected);
+
+  const result = await saver.prune({ maxTotalBytes: expected });
+  expect(result).toEqual({ deleted: ["old"], remaining: 1, totalBytes: expected });
+});
+
+const writerScript = path.join(import.meta.dir, "..", "fixtures", "sqlite-saver-writer.ts");
+
+/**
+ * Run the writer script in a separate process.
+ */
+function spawnWriter(dbPath: string, threadId: string, firstStep: number, count: number, stride: number) {
+  return Bun.spawn(
+    [process.execPath, writerScript, dbPath, threadId, String(firstStep), String(count), String(stride)],
+    { stdout: "pipe", stderr: "pipe" }
+  );
+}
+
+test("SqliteSaver > processes writing to the same thread wait for each other and lose no steps", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sqlite-saver-"));
+  const dbPath = path.join(dir, "checkpoints.db");
+  const saver = new SqliteSaver({ path: dbPath });
+  const settings = new Database(dbPath);
+
+  try {
+    expect(settings.query<{ journal_mode: string }, []>("PRAGMA journal_mode").get()?.journal_mode).toBe("wal");
+
+    // Hold the write lock, so both writers have to wait for it (busy_timeout)
+    // instead of failing with SQLITE_BUSY
+    settings.exec("BEGIN IMMEDIATE");
+    const writers = [spawnWriter(dbPath, "thread-1", 1, 20, 2), spawnWriter(dbPath, "thread-1", 2, 20, 2)];
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(writers.every((writer) => writer.exitCode === null)).toBe(true);
+    settings.exec("COMMIT");
+
+    const exitCodes = await Promise.all(writers.map((writer) => writer.exited));
+    const errors = await Promise.all(writers.map((writer) => new Response(writer.stderr).text()));
+    expect({ exitCodes, errors }).toEqual({ exitCodes: [0, 0], errors: ["", ""] });
+
+    const steps = (await saver.listVersions("thread-1")).map((version) => version.step);
+    expect(steps).toEqual(Array.from({ length: 40 }, (_, i) => i + 1));
+    expect([39, 40]).toContain((await saver.load("thread-1"))!.step);
+    expect(await saver.list()).toEqual(["thread-1"]);
+  } finally {
+    settings.close();
+    saver.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}, 30_000);
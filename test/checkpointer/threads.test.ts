@@ -0,0 +1,241 @@
+/**
+ * Tests for thread metadata, listings and retention policies.
+ */
+
+import { test, expect, describe, afterAll } from "bun:test";
+import * as fs from "node:fs";
+import {
+  createDeepAgent,
+  FileSaver,
+  InMemoryStore,
+  KeyValueStoreSaver,
+  MemorySaver,
+  SqliteSaver,
+  listThreads,
+  queryThreads,
+  selectThreadsToPrune,
+  updateThreadMetadata,
+} from "../../src/index.ts";
+import type {
+  Checkpoint,
+  DeepAgentEvent,
+  RetentionPolicy,
+  SearchableCheckpointSaver,
+  ThreadInfo,
+  ThreadMetadata,
+  VersionedCheckpointSaver,
+} from "../../src/index.ts";
+import { createMockModel } from "../helpers/mock-model.ts";
+
+const TEST_DIR = "./.test-thread-checkpoints";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createTestCheckpoint = (threadId: string, metadata?: ThreadMetadata, step = 1): Checkpoint => ({
+  threadId,
+  step,
+  messages: [{ role: "user", content: "test" }],
+  state: { todos: [], files: {} },
+  metadata,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+const createThreadInfo = (threadId: string, overrides: Partial<ThreadInfo> = {}): ThreadInfo => ({
+  threadId,
+  tags: [],
+  custom: {},
+  step: 1,
+  messagesCount: 1,
+  hasInterrupt: false,
+  sizeBytes: 100,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+afterAll(() => {
+  if (fs.existsSync(TEST_DIR)) {
+    fs.rmSync(TEST_DIR, { recursive: true });
+  }
+});
+
+describe("queryThreads", () => {
+  const threads = [
+    createThreadInfo("a", { title: "Fix login bug", tags: ["bug"], updatedAt: "2026-01-03T00:00:00.000Z" }),
+    createThreadInfo("b", { title: "Write docs", tags: ["docs"], updatedAt: "2026-01-01T00:00:00.000Z" }),
+    createThreadInfo("c", { title: "Bug triage", tags: ["bug", "ops"], updatedAt: "2026-01-02T00:00:00.000Z" }),
+  ];
+
+  test("sorts by most recently updated by default", () => {
+    expect(queryThreads(threads).map((t) => t.threadId)).toEqual(["a", "c", "b"]);
+  });
+
+  test("searches thread ID, title and tags case-insensitively", () => {
+    expect(queryThreads(threads, { search: "BUG" }).map((t) => t.threadId)).toEqual(["a", "c"]);
+    expect(queryThreads(threads, { search: "docs" }).map((t) => t.threadId)).toEqual(["b"]);
+  });
+
+  test("filters by tags and update time", () => {
+    expect(queryThreads(threads, { tags: ["bug", "ops"] }).map((t) => t.threadId)).toEqual(["c"]);
+    expect(
+      queryThreads(threads, { updatedAfter: new Date("2026-01-02T00:00:00.000Z") }).map((t) => t.threadId)
+    ).toEqual(["a", "c"]);
+  });
+
+  test("sorts by other fields and pages results", () => {
+    expect(
+      queryThreads(threads, { sortBy: "title", order: "asc" }).map((t) => t.threadId)
+    ).toEqual(["c", "a", "b"]);
+    expect(queryThreads(threads, { offset: 1, limit: 1 }).map((t) => t.threadId)).toEqual(["c"]);
+  });
+});
+
+describe("selectThreadsToPrune", () => {
+  const now = Date.parse("2026-02-01T00:00:00.000Z");
+  const usage = [
+    { threadId: "old", updatedAt: new Date(now - 40 * DAY).toISOString(), sizeBytes: 100 },
+    { threadId: "mid", updatedAt: new Date(now - 10 * DAY).toISOString(), sizeBytes: 300 },
+    { threadId: "new", updatedAt: new Date(now - 1 * DAY).toISOString(), sizeBytes: 200 },
+  ];
+
+  test("removes expired threads", () => {
+    expect(selectThreadsToPrune(usage, { ttlMs: 30 * DAY }, { now })).toEqual(["old"]);
+  });
+
+  test("removes least recently updated threads over maxThreads", () => {
+    expect(selectThreadsToPrune(usage, { maxThreads: 1 }, { now })).toEqual(["old", "mid"]);
+  });
+
+  test("removes least recently updated threads over maxTotalBytes", () => {
+    expect(selectThreadsToPrune(usage, { maxTotalBytes: 500 }, { now })).toEqual(["old"]);
+    expect(selectThreadsToPrune(usage, { maxTotalBytes: 250 }, { now })).toEqual(["old", "mid"]);
+  });
+
+  test("never removes kept threads", () => {
+    expect(selectThreadsToPrune(usage, { maxThreads: 1 }, { now, keep: ["old"] })).toEqual([
+      "mid",
+      "new",
+    ]);
+  });
+});
+
+const savers: Array<
+  [string, (retention?: RetentionPolicy) => SearchableCheckpointSaver & VersionedCheckpointSaver]
+> = [
+  ["MemorySaver", (retention) => new MemorySaver({ retention })],
+  ["FileSaver", (retention) => new FileSaver({ dir: `${TEST_DIR}/${crypto.randomUUID()}`, retention })],
+  ["KeyValueStoreSaver", (retention) => new KeyValueStoreSaver({ store: new InMemoryStore(), retention })],
+  ["SqliteSaver", (retention) => new SqliteSaver({ retention })],
+];
+
+describe.each(savers)("%s threads", (_name, createSaver) => {
+  test("listThreads returns metadata and usage", async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1", { title: "First", tags: ["a"], model: "test-model" }));
+    await saver.save(createTestCheckpoint("thread-1", { title: "First", tags: ["a"], model: "test-model" }, 2));
+    await saver.save(createTestCheckpoint("thread-2", { title: "Second", custom: { owner: "ops" } }));
+
+    const threads = await saver.listThreads({ sortBy: "title", order: "asc" });
+    expect(threads.map((t) => t.threadId)).toEqual(["thread-1", "thread-2"]);
+    expect(threads[0]).toMatchObject({
+      title: "First",
+      tags: ["a"],
+      model: "test-model",
+      step: 2,
+      messagesCount: 1,
+      hasInterrupt: false,
+    });
+    expect(threads[1]?.custom).toEqual({ owner: "ops" });
+    // Two versions take more space than one
+    expect(threads[0]!.sizeBytes).toBeGreaterThan(threads[1]!.sizeBytes);
+
+    expect((await saver.listThreads({ search: "sec" })).map((t) => t.threadId)).toEqual(["thread-2"]);
+  });
+
+  test("retention prunes the oldest threads after save", async () => {
+    const saver = createSaver({ maxThreads: 2, pruneEvery: 1 });
+    for (const threadId of ["thread-1", "thread-2", "thread-3"]) {
+      await saver.save(createTestCheckpoint(threadId));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    expect((await saver.list()).sort()).toEqual(["thread-2", "thread-3"]);
+  });
+
+  test("retention prunes on the first save and then every pruneEvery saves", async () => {
+    const saver = createSaver({ maxThreads: 1, pruneEvery: 3 });
+    for (const threadId of ["thread-1", "thread-2", "thread-3"]) {
+      await saver.save(createTestCheckpoint(threadId));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect((await saver.list()).sort()).toEqual(["thread-1", "thread-2", "thread-3"]);
+
+    await saver.save(createTestCheckpoint("thread-4"));
+    expect(await saver.list()).toEqual(["thread-4"]);
+  });
+
+  test("retention doesn't prune either thread while forking", async () => {
+    const saver = createSaver({ maxThreads: 1, pruneEvery: 1 });
+    await saver.save(createTestCheckpoint("thread-1", undefined, 1));
+    await saver.save(createTestCheckpoint("thread-1", undefined, 2));
+
+    const forked = await saver.fork("thread-1", 2, "thread-2");
+    expect(forked.step).toBe(2);
+    expect((await saver.listVersions("thread-2")).map((version) => version.step)).toEqual([1, 2]);
+    expect((await saver.list()).sort()).toEqual(["thread-1", "thread-2"]);
+  });
+
+  test("prune applies a policy on demand", async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1"));
+    await saver.save(createTestCheckpoint("thread-2"));
+
+    const result = await saver.prune({ maxTotalBytes: 0 });
+    expect(result.deleted.sort()).toEqual(["thread-1", "thread-2"]);
+    expect(result.remaining).toBe(0);
+    expect(await saver.list()).toEqual([]);
+  });
+});
+
+test("updateThreadMetadata merges into the latest checkpoint", async () => {
+  const saver = new MemorySaver();
+  await saver.save(createTestCheckpoint("thread-1", { title: "Old", custom: { a: 1 } }));
+
+  await updateThreadMetadata(saver, "thread-1", { title: "New", custom: { b: 2 } });
+
+  const [thread] = await listThreads(saver);
+  expect(thread?.title).toBe("New");
+  expect(thread?.custom).toEqual({ a: 1, b: 2 });
+
+  await expect(updateThreadMetadata(saver, "missing", { title: "x" })).rejects.toThrow("not found");
+});
+
+test("Agent saves thread metadata with checkpoints", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([{ text: "Hi!" }, { text: "Again!" }]),
+    checkpointer,
+  });
+
+  const run = async (prompt: string, metadata?: ThreadMetadata) => {
+    const events: DeepAgentEvent[] = [];
+    for await (const event of agent.streamWithEvents({ prompt, threadId: "thread-1", metadata })) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  await run("Summarize   the release notes", { tags: ["release"] });
+  const first = (await checkpointer.listThreads())[0];
+  expect(first?.title).toBe("Summarize the release notes");
+  expect(first?.tags).toEqual(["release"]);
+  expect(first?.model).toBe("mock-model-id");
+
+  // Later runs keep the title and creation time
+  await run("And now the changelog");
+  const second = (await checkpointer.listThreads())[0];
+  expect(second?.title).toBe("Summarize the release notes");
+  expect(second?.createdAt).toBe(first!.createdAt);
+  expect(second?.tags).toEqual(["release"]);
+});
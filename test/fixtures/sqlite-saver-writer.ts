@@ -0,0 +1,27 @@
+/**
+ * Saves checkpoints to a SqliteSaver database file from a separate process.
+ *
+ * Usage: bun sqlite-saver-writer.ts <path> <threadId> <firstStep> <count> <stride>
+ */
+
+import { SqliteSaver } from "../../src/checkpointer/sqlite-saver.ts";
+
+const [path, threadId, firstStep, count, stride] = process.argv.slice(2);
+const saver = new SqliteSaver({ path });
+
+try {
+  for (let i = 0; i < Number(count); i++) {
+    const step = Number(firstStep) + i * Number(stride);
+    const now = new Date().toISOString();
+    await saver.save({
+      threadId: threadId!,
+      step,
+      messages: [{ role: "user", content: `step ${step}` }],
+      state: { todos: [], files: {} },
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+} finally {
+  saver.close();
+}
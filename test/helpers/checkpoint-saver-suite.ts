@@ -0,0 +1,199 @@
+/**
+ * Conformance tests shared by checkpoint saver implementations.
+ */
+
+import { test, expect } from "bun:test";
+import type { Checkpoint, VersionedCheckpointSaver } from "../../src/checkpointer/types.ts";
+
+export const createTestCheckpoint = (threadId: string, step = 1): Checkpoint => ({
+  threadId,
+  step,
+  messages: [{ role: "user", content: "test" }],
+  state: { todos: [], files: {} },
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Register the tests every versioned checkpoint saver must pass.
+ *
+ * @param name - Saver name, used as the test name prefix
+ * @param createSaver - Create a saver for the current test. Savers created in
+ *   the same test with different namespaces must share their storage, if the
+ *   saver supports sharing it.
+ */
+export function testCheckpointSaver(
+  name: string,
+  createSaver: (namespace?: string) => VersionedCheckpointSaver
+): void {
+  test(`${name} > save and load checkpoint`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1"));
+
+    const loaded = await saver.load("thread-1");
+    expect(loaded).toBeDefined();
+    expect(loaded?.threadId).toBe("thread-1");
+    expect(loaded?.step).toBe(1);
+  });
+
+  test(`${name} > load returns undefined for non-existent thread`, async () => {
+    expect(await createSaver().load("non-existent")).toBeUndefined();
+  });
+
+  test(`${name} > list returns all thread IDs`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1"));
+    await saver.save(createTestCheckpoint("thread-2"));
+
+    expect((await saver.list()).sort()).toEqual(["thread-1", "thread-2"]);
+  });
+
+  test(`${name} > delete removes checkpoint`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1"));
+    await saver.delete("thread-1");
+
+    expect(await saver.load("thread-1")).toBeUndefined();
+  });
+
+  test(`${name} > exists returns correct value`, async () => {
+    const saver = createSaver();
+    expect(await saver.exists("thread-1")).toBe(false);
+
+    await saver.save(createTestCheckpoint("thread-1"));
+    expect(await saver.exists("thread-1")).toBe(true);
+
+    await saver.delete("thread-1");
+    expect(await saver.exists("thread-1")).toBe(false);
+  });
+
+  test(`${name} > namespace isolates checkpoints`, async () => {
+    const saver1 = createSaver("ns1");
+    const saver2 = createSaver("ns2");
+
+    await saver1.save(createTestCheckpoint("thread-1"));
+
+    expect(await saver1.exists("thread-1")).toBe(true);
+    expect(await saver2.exists("thread-1")).toBe(false);
+    expect(await saver1.list()).toEqual(["thread-1"]);
+    expect(await saver2.list()).toEqual([]);
+  });
+
+  test(`${name} > overwrites existing checkpoint`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1", 1));
+    await saver.save(createTestCheckpoint("thread-1", 2));
+
+    expect((await saver.load("thread-1"))?.step).toBe(2);
+    expect(await saver.list()).toEqual(["thread-1"]);
+  });
+
+  test(`${name} > updatedAt is set on save`, async () => {
+    const saver = createSaver();
+    const checkpoint = createTestCheckpoint("thread-1");
+    const originalUpdatedAt = checkpoint.updatedAt;
+
+    // Wait a bit to ensure timestamp changes
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await saver.save(checkpoint);
+    const loaded = await saver.load("thread-1");
+
+    expect(loaded?.updatedAt).toBeDefined();
+    expect(loaded?.updatedAt).not.toBe(originalUpdatedAt);
+  });
+
+  test(`${name} > handles complex state`, async () => {
+    const saver = createSaver();
+    const checkpoint: Checkpoint = {
+      ...createTestCheckpoint("complex-thread", 5),
+      messages: [
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Hi there!" },
+      ],
+      state: {
+        todos: [
+          { id: "1", content: "Task 1", status: "completed" },
+          { id: "2", content: "Task 2", status: "in_progress" },
+        ],
+        files: {
+          "/test.txt": {
+            content: ["line 1", "line 2"],
+            created_at: new Date().toISOString(),
+            modified_at: new Date().toISOString(),
+          },
+        },
+      },
+    };
+
+    await saver.save(checkpoint);
+    const loaded = await saver.load("complex-thread");
+
+    expect(loaded?.state.todos).toHaveLength(2);
+    expect(loaded?.state.files["/test.txt"]?.content).toEqual(["line 1", "line 2"]);
+    expect(loaded?.messages).toHaveLength(2);
+  });
+
+  test(`${name} > keeps a version per step`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1", 1));
+    await saver.save(createTestCheckpoint("thread-1", 2));
+    await saver.save({ ...createTestCheckpoint("thread-1", 3), messages: [] });
+
+    const versions = await saver.listVersions("thread-1");
+    expect(versions.map((v) => v.step)).toEqual([1, 2, 3]);
+    expect(versions[2]?.messagesCount).toBe(0);
+
+    const step2 = await saver.loadVersion("thread-1", 2);
+    expect(step2?.step).toBe(2);
+    expect(await saver.loadVersion("thread-1", 4)).toBeUndefined();
+
+    // Latest checkpoint is unchanged
+    expect((await saver.load("thread-1"))?.step).toBe(3);
+  });
+
+  test(`${name} > load returns the last saved step`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1", 3));
+    await saver.save(createTestCheckpoint("thread-1", 2));
+
+    expect((await saver.load("thread-1"))?.step).toBe(2);
+    expect((await saver.listVersions("thread-1")).map((v) => v.step)).toEqual([2, 3]);
+  });
+
+  test(`${name} > fork copies history up to a step into a new thread`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1", 1));
+    await saver.save(createTestCheckpoint("thread-1", 2));
+    await saver.save(createTestCheckpoint("thread-1", 3));
+
+    const forked = await saver.fork("thread-1", 2, "thread-2");
+    expect(forked.threadId).toBe("thread-2");
+    expect(forked.parent).toEqual({ threadId: "thread-1", step: 2 });
+
+    expect((await saver.load("thread-2"))?.step).toBe(2);
+    expect((await saver.listVersions("thread-2")).map((v) => v.step)).toEqual([1, 2]);
+
+    // Original thread is untouched
+    expect((await saver.load("thread-1"))?.step).toBe(3);
+    expect((await saver.listVersions("thread-1")).map((v) => v.step)).toEqual([1, 2, 3]);
+  });
+
+  test(`${name} > fork rejects unknown steps and existing threads`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1", 1));
+    await saver.save(createTestCheckpoint("thread-2", 1));
+
+    await expect(saver.fork("thread-1", 5, "thread-3")).rejects.toThrow("No checkpoint at step 5");
+    await expect(saver.fork("thread-1", 1, "thread-2")).rejects.toThrow("already exists");
+  });
+
+  test(`${name} > delete removes all versions`, async () => {
+    const saver = createSaver();
+    await saver.save(createTestCheckpoint("thread-1", 1));
+    await saver.save(createTestCheckpoint("thread-1", 2));
+    await saver.delete("thread-1");
+
+    expect(await saver.listVersions("thread-1")).toEqual([]);
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Mock language model helpers for testing agent loops without an API key.
+ */
+
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+
+/**
+ * A scripted model turn: either plain text or one or more tool calls.
+ */
+export type MockTurn =
+  | { text: string }
+  | { toolCalls: Array<{ toolCallId: string; toolName: string; input: unknown }> };
+
+const usage = {
+  inputTokens: { total: 10, noCache: 10, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 5, text: 5, reasoning: 0 },
+};
+
+function turnToChunks(turn: MockTurn) {
+  const chunks: any[] = [{ type: "stream-start", warnings: [] }];
+
+  if ("text" in turn) {
+    chunks.push(
+      { type: "text-start", id: "t1" },
+      { type: "text-delta", id: "t1", delta: turn.text },
+      { type: "text-end", id: "t1" },
+      { type: "finish", finishReason: "stop", usage }
+    );
+  } else {
+    for (const call of turn.toolCalls) {
+      chunks.push({
+        type: "tool-call",
+        toolCallId: call.toolCallId,
+        toolName: call.toolName,
+        input: JSON.stringify(call.input),
+      });
+    }
+    chunks.push({ type: "finish", finishReason: "tool-calls", usage });
+  }
+
+  return chunks;
+}
+
+function turnToContent(turn: MockTurn) {
+  if ("text" in turn) {
+    return {
+      content: [{ type: "text", text: turn.text }] as any[],
+      finishReason: "stop" as const,
+    };
+  }
+  return {
+    content: turn.toolCalls.map((call) => ({
+      type: "tool-call",
+      toolCallId: call.toolCallId,
+      toolName: call.toolName,
+      input: JSON.stringify(call.input),
+    })) as any[],
+    finishReason: "tool-calls" as const,
+  };
+}
+
+/**
+ * Create a mock model that plays back the given turns, one per model call.
+ * Calls beyond the scripted turns answer with a plain "Done." text.
+ * Streaming and non-streaming calls share the same script.
+ */
+export function createMockModel(turns: MockTurn[]) {
+  let call = 0;
+  return new MockLanguageModelV3({
+    doGenerate: async () => {
+      const turn = turns[call++] ?? { text: "Done." };
+      return { ...turnToContent(turn), usage, warnings: [] };
+    },
+    doStream: async () => {
+      const turn = turns[call++] ?? { text: "Done." };
+      return {
+        stream: simulateReadableStream({ chunks: turnToChunks(turn) }),
+      };
+    },
+  });
+}
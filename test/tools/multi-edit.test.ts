@@ -0,0 +1,215 @@
+/**
+ * Tests for the multi_edit and apply_patch tools.
+ */
+
+import { test, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StateBackend } from "../../src/backends/state.ts";
+import { FilesystemBackend } from "../../src/backends/filesystem.ts";
+import { createFilesystemTools } from "../../src/tools/filesystem.ts";
+import type { BackendProtocol, DeepAgentEvent, DeepAgentState } from "../../src/types.ts";
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "multi-edit-"));
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const options = { toolCallId: "call-1", messages: [] };
+
+async function setup(backend: BackendProtocol, files: Record<string, string>) {
+  for (const [filePath, content] of Object.entries(files)) {
+    await backend.write(filePath, content);
+  }
+  const events: DeepAgentEvent[] = [];
+  const state: DeepAgentState = { todos: [], files: {} };
+  const tools = createFilesystemTools(state, { backend, onEvent: (event) => events.push(event) });
+  return { tools, events };
+}
+
+test("multi_edit > applies edits to several files in order", async () => {
+  const backend = new StateBackend({ todos: [], files: {} });
+  const { tools, events } = await setup(backend, {
+    "/a.ts": "const a = 1;\nconst b = a;\n",
+    "/b.ts": "import { a } from './a';\n",
+  });
+
+  const result = await tools.multi_edit.execute!(
+    {
+      edits: [
+        { file_path: "/a.ts", old_string: "const a", new_string: "const first", replace_all: false },
+        { file_path: "/b.ts", old_string: "{ a }", new_string: "{ first }", replace_all: false },
+        { file_path: "/a.ts", old_string: "= a;", new_string: "= first;", replace_all: false },
+      ],
+    },
+    options
+  );
+
+  expect(result).toContain("Successfully changed 2 file(s)");
+  expect(await backend.read("/a.ts")).toContain("const b = first;");
+  expect(await backend.read("/b.ts")).toContain("import { first }");
+  expect(events).toEqual([
+    { type: "file-edited", path: "/a.ts", occurrences: 2 },
+    { type: "file-edited", path: "/b.ts", occurrences: 1 },
+  ]);
+});
+
+test("multi_edit > changes nothing if one edit fails", async () => {
+  const backend = new StateBackend({ todos: [], files: {} });
+  const { tools, events } = await setup(backend, { "/a.ts": "one\ntwo\n", "/b.ts": "three\n" });
+
+  const result = await tools.multi_edit.execute!(
+    {
+      edits: [
+        { file_path: "/a.ts", old_string: "one", new_string: "1", replace_all: false },
+        { file_path: "/b.ts", old_string: "four", new_string: "4", replace_all: false },
+      ],
+    },
+    options
+  );
+
+  expect(result).toContain("No files were changed");
+  expect(result).toContain("- Edit 2 in '/b.ts': String not found in file: 'four'");
+  expect(await backend.read("/a.ts")).toContain("one");
+  expect(events).toEqual([]);
+});
+
+test("apply_patch > edits, creates, renames and deletes files on disk", async () => {
+  const rootDir = fs.mkdtempSync(path.join(tmpDir, "fs-"));
+  const backend = new FilesystemBackend({ rootDir, virtualMode: true });
+  const { tools, events } = await setup(backend, {
+    "/src/a.ts": "export const a = 1;\nexport const b = 2;\n",
+    "/src/old.ts": "export const old = true;\n",
+    "/src/unused.ts": "unused\n",
+  });
+
+  const result = await tools.apply_patch.execute!(
+    {
+      patch: `--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,3 @@
+ export const a = 1;
+-export const b = 2;
++export const b = 3;
++export const c = 4;
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1 @@
++export const created = true;
+--- a/src/old.ts
++++ b/src/renamed.ts
+@@ -1 +1 @@
+-export const old = true;
++export const renamed = true;
+--- a/src/unused.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-unused
+`,
+    },
+    options
+  );
+
+  expect(result).toContain("Successfully changed 4 file(s)");
+  expect(fs.readFileSync(path.join(rootDir, "src/a.ts"), "utf-8")).toBe(
+    "export const a = 1;\nexport const b = 3;\nexport const c = 4;\n"
+  );
+  expect(fs.readFileSync(path.join(rootDir, "src/new.ts"), "utf-8")).toBe("export const created = true;\n");
+  expect(fs.readFileSync(path.join(rootDir, "src/renamed.ts"), "utf-8")).toBe("export const renamed = true;\n");
+  expect(fs.existsSync(path.join(rootDir, "src/old.ts"))).toBe(false);
+  expect(fs.existsSync(path.join(rootDir, "src/unused.ts"))).toBe(false);
+  expect(events.map((e) => e.type)).toEqual([
+    "file-edited",
+    "file-written",
+    "file-moved",
+    "file-edited",
+    "file-deleted",
+  ]);
+});
+
+test("apply_patch > reverts applied files when a later change fails", async () => {
+  const backend = new StateBackend({ todos: [], files: {} });
+  const { tools } = await setup(backend, { "/a.txt": "a\n", "/b.txt": "b\n" });
+
+  // Fails while writing, after the first file was already edited
+  backend.edit = (async (filePath: string, ...args: [string, string, boolean?]) =>
+    filePath === "/b.txt"
+      ? { error: "Error: disk full" }
+      : StateBackend.prototype.edit.call(backend, filePath, ...args)) as StateBackend["edit"];
+
+  const result = await tools.apply_patch.execute!(
+    {
+      patch: `--- /a.txt
++++ /a.txt
+@@ -1 +1 @@
+-a
++A
+--- /b.txt
++++ /b.txt
+@@ -1 +1 @@
+-b
++B
+`,
+    },
+    options
+  );
+
+  expect(result).toBe("Error: disk full. No files were changed");
+  expect(await backend.read("/a.txt")).toContain("a");
+  expect(await backend.read("/a.txt")).not.toContain("A");
+});
+
+test("apply_patch > refuses changes it could not roll back without delete", async () => {
+  const backend = new StateBackend({ todos: [], files: {} });
+  const { tools } = await setup(backend, { "/a.txt": "a\n" });
+  Object.assign(backend, { delete: undefined });
+
+  const result = await tools.apply_patch.execute!(
+    {
+      patch: `--- /a.txt
++++ /a.txt
+@@ -1 +1 @@
+-a
++A
+--- /dev/null
++++ /new.txt
+@@ -0,0 +1 @@
++new
+`,
+    },
+    options
+  );
+
+  expect(result).toBe(
+    "Error: Creating or emptying files needs delete support, which this backend lacks. No files were changed"
+  );
+  expect(await backend.read("/a.txt")).toContain("a");
+  expect(await backend.read("/a.txt")).not.toContain("A");
+  expect(await backend.read("/new.txt")).toContain("not found");
+});
+
+test("apply_patch > keeps an empty file when filling it fails", async () => {
+  const backend = new StateBackend({ todos: [], files: {} });
+  const { tools } = await setup(backend, { "/empty.txt": "" });
+
+  // Fails to write the new content after the empty file was deleted
+  const write = backend.write.bind(backend);
+  backend.write = (filePath: string, content: string) =>
+    content ? { error: "Error: disk full" } : write(filePath, content);
+
+  const result = await tools.apply_patch.execute!(
+    {
+      patch: `--- /empty.txt
++++ /empty.txt
+@@ -0,0 +1 @@
++filled
+`,
+    },
+    options
+  );
+
+  expect(result).toBe("Error: disk full. No files were changed");
+  expect(await backend.readRaw("/empty.txt")).toBeDefined();
+});
@@ -0,0 +1,553 @@
+/**
+ * Tests for the subagent (task) tool.
+ */
+
+import { test, expect } from "bun:test";
+import { tool, type LanguageModelMiddleware } from "ai";
+import { z } from "zod";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createDeepAgent } from "../../src/agent.ts";
+import { LocalSandbox } from "../../src/backends/local-sandbox.ts";
+import { StateBackend } from "../../src/backends/state.ts";
+import type { DeepAgentEvent, DeepAgentState } from "../../src/types.ts";
+import { createMockModel, type MockTurn } from "../helpers/mock-model.ts";
+
+const taskCall = (toolCallId: string, subagent_type: string): MockTurn => ({
+  toolCalls: [
+    {
+      toolCallId,
+      toolName: "task",
+      input: { description: "Look into it", subagent_type },
+    },
+  ],
+});
+
+test("streamWithEvents > streams subagent events tagged with invocation and depth", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      taskCall("call-1", "general-purpose"),
+      // Subagent turns
+      {
+        toolCalls: [
+          {
+            toolCallId: "todo-1",
+            toolName: "write_todos",
+            input: { todos: [{ id: "1", content: "Investigate", status: "in_progress" }] },
+          },
+        ],
+      },
+      { text: "Found the answer." },
+      // Main agent
+      { text: "Summary." },
+    ]),
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Investigate" })) {
+    events.push(event);
+  }
+
+  const types = events.map((e) => e.type);
+  const start = types.indexOf("subagent-start");
+  const finish = types.indexOf("subagent-finish");
+  expect(events[start]).toMatchObject({ invocationId: "call-1", depth: 1, name: "general-purpose" });
+  expect(events[finish]).toMatchObject({ invocationId: "call-1", depth: 1, result: "Found the answer." });
+
+  // Everything between start and finish comes from the subagent (tool events
+  // can arrive before the call that triggered them, as tools run eagerly)
+  const nested = events.slice(start + 1, finish);
+  expect(nested.map((e) => e.type).sort()).toEqual([
+    "step-finish",
+    "step-finish",
+    "step-start",
+    "step-start",
+    "text",
+    "todos-changed",
+    "tool-call",
+    "tool-result",
+  ]);
+  for (const event of nested) {
+    expect(event.subagent).toEqual({ invocationId: "call-1", name: "general-purpose", depth: 1 });
+  }
+
+  // The main agent's text and state are not mixed with the subagent's
+  const mainText = events.flatMap((e) => (e.type === "text" && !e.subagent ? [e.text] : []));
+  expect(mainText.join("")).toBe("Summary.");
+  const done = events.find((e) => e.type === "done");
+  expect(done?.type === "done" && done.state.todos).toEqual([]);
+});
+
+test("streamWithEvents > yields subagent events while the subagent is running", async () => {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const agent = createDeepAgent({
+    model: createMockModel([
+      taskCall("call-1", "researcher"),
+      {
+        toolCalls: [{ toolCallId: "wait-1", toolName: "wait_for_consumer", input: {} }],
+      },
+      { text: "Done waiting." },
+      { text: "All done." },
+    ]),
+    includeGeneralPurposeAgent: false,
+    subagents: [
+      {
+        name: "researcher",
+        description: "Researches things",
+        systemPrompt: "You research things.",
+        tools: {
+          // Blocks until the consumer has seen the call, so the run would hang
+          // if subagent events were only delivered after the task finished
+          wait_for_consumer: tool({
+            description: "Wait",
+            inputSchema: z.object({}),
+            execute: async () => {
+              await released;
+              return "released";
+            },
+          }),
+        },
+      },
+    ],
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Research" })) {
+    events.push(event);
+    if (event.type === "tool-call" && event.subagent?.name === "researcher") {
+      release();
+    }
+  }
+
+  expect(events.find((e) => e.type === "subagent-finish")).toMatchObject({
+    result: "Done waiting.",
+  });
+  expect(events.at(-1)?.type).toBe("done");
+});
+
+test("streamWithEvents > queues subagents beyond the concurrency limit", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      {
+        toolCalls: [
+          { toolCallId: "call-1", toolName: "task", input: { description: "First", subagent_type: "general-purpose" } },
+          { toolCallId: "call-2", toolName: "task", input: { description: "Second", subagent_type: "general-purpose" } },
+        ],
+      },
+      { text: "First done." },
+      { text: "Second done." },
+      { text: "Both done." },
+    ]),
+    maxConcurrentSubagents: 1,
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Do both" })) {
+    events.push(event);
+  }
+
+  // The second subagent only starts once the first has finished
+  const lifecycle = events.flatMap((e) =>
+    e.type === "subagent-start" || e.type === "subagent-finish" ? [`${e.type}:${e.invocationId}`] : []
+  );
+  expect(lifecycle).toEqual([
+    "subagent-start:call-1",
+    "subagent-finish:call-1",
+    "subagent-start:call-2",
+    "subagent-finish:call-2",
+  ]);
+});
+
+test("streamWithEvents > counts nested subagents against the concurrency limit", async () => {
+  // Each worker holds its probe for a while and records how many overlap
+  let running = 0;
+  let maxRunning = 0;
+  const probe = tool({
+    description: "Probe",
+    inputSchema: z.object({}),
+    execute: async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      running--;
+      return "probed";
+    },
+  });
+  const worker = (name: string) => ({
+    name,
+    description: "Probes",
+    systemPrompt: "You probe.",
+    model: createMockModel([
+      { toolCalls: [{ toolCallId: `probe-${name}`, toolName: "probe", input: {} }] },
+      { text: "Probed." },
+    ]),
+    tools: { probe },
+  });
+
+  const agent = createDeepAgent({
+    model: createMockModel([
+      {
+        toolCalls: [
+          { toolCallId: "call-1", toolName: "task", input: { description: "Delegate", subagent_type: "lead" } },
+          { toolCallId: "call-2", toolName: "task", input: { description: "Probe", subagent_type: "worker-a" } },
+        ],
+      },
+      { text: "All done." },
+    ]),
+    includeGeneralPurposeAgent: false,
+    subagents: [
+      {
+        name: "lead",
+        description: "Splits up work",
+        systemPrompt: "You delegate.",
+        inheritTools: ["task"],
+        model: createMockModel([
+          {
+            toolCalls: [
+              { toolCallId: "call-3", toolName: "task", input: { description: "Probe", subagent_type: "worker-b" } },
+              { toolCallId: "call-4", toolName: "task", input: { description: "Probe", subagent_type: "worker-c" } },
+            ],
+          },
+          { text: "Delegated." },
+        ]),
+      },
+      worker("worker-a"),
+      worker("worker-b"),
+      worker("worker-c"),
+    ],
+    maxConcurrentSubagents: 2,
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Probe everything" })) {
+    events.push(event);
+  }
+
+  // The lead lends its slot to one nested subagent at a time
+  expect(maxRunning).toBe(2);
+  const finishes = events.flatMap((e) => (e.type === "subagent-finish" ? [e] : []));
+  expect(finishes).toHaveLength(4);
+  for (const finish of finishes) {
+    expect(finish.result).not.toStartWith("Error");
+  }
+});
+
+test("streamWithEvents > subagent calls that need approval fail with an error", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      taskCall("call-1", "general-purpose"),
+      {
+        toolCalls: [
+          { toolCallId: "write-1", toolName: "write_file", input: { file_path: "/notes.md", content: "Notes" } },
+          { toolCallId: "todo-1", toolName: "write_todos", input: { todos: [] } },
+        ],
+      },
+      { text: "Could not write." },
+      { text: "Done." },
+    ]),
+    interruptOn: { write_file: true },
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Write notes" })) {
+    events.push(event);
+  }
+
+  // The model gets an error instead of waiting for an approval that can't come
+  const result = (id: string) =>
+    events.find((e) => e.type === "tool-result" && e.toolCallId === id && e.subagent);
+  expect(result("write-1")).toMatchObject({
+    result: expect.stringContaining("requires approval, which is not available in subagents"),
+  });
+  expect(result("todo-1")).toBeDefined();
+  expect(events.find((e) => e.type === "subagent-finish")).toMatchObject({ result: "Could not write." });
+  const done = events.find((e) => e.type === "done");
+  expect(done?.type === "done" && done.state.files["/notes.md"]).toBeFalsy();
+});
+
+test("streamWithEvents > reports conflicts when parallel subagents write the same file", async () => {
+  // Holds both subagents until each has started, so their work overlaps
+  let arrived = 0;
+  let release!: () => void;
+  const bothStarted = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const writeNotes: MockTurn = {
+    toolCalls: [{ toolCallId: "write-1", toolName: "write_file", input: { file_path: "/notes.md", content: "Notes" } }],
+  };
+  const agent = createDeepAgent({
+    model: createMockModel([
+      {
+        toolCalls: [
+          { toolCallId: "call-1", toolName: "task", input: { description: "Write notes", subagent_type: "writer" } },
+          { toolCallId: "call-2", toolName: "task", input: { description: "Write notes", subagent_type: "writer" } },
+        ],
+      },
+      { toolCalls: [{ toolCallId: "wait-1", toolName: "wait_for_both", input: {} }] },
+      { toolCalls: [{ toolCallId: "wait-1", toolName: "wait_for_both", input: {} }] },
+      writeNotes,
+      writeNotes,
+      { text: "Written." },
+      { text: "Written." },
+      { text: "Done." },
+    ]),
+    includeGeneralPurposeAgent: false,
+    subagents: [
+      {
+        name: "writer",
+        description: "Writes notes",
+        systemPrompt: "You write notes.",
+        tools: {
+          wait_for_both: tool({
+            description: "Wait",
+            inputSchema: z.object({}),
+            execute: async () => {
+              if (++arrived === 2) release();
+              await bothStarted;
+              return "go";
+            },
+          }),
+        },
+      },
+    ],
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Write notes twice" })) {
+    events.push(event);
+  }
+
+  const finishes = events.flatMap((e) => (e.type === "subagent-finish" ? [e] : []));
+  expect(finishes).toHaveLength(2);
+  const [first, second] = finishes;
+
+  // The first subagent to finish wins, the other's version is not merged
+  expect(second!.conflicts).toEqual([
+    { path: "/notes.md", conflictsWith: [first!.invocationId], resolution: "kept-existing" },
+  ]);
+
+  const done = events.find((e) => e.type === "done");
+  if (done?.type !== "done") throw new Error("Expected done event");
+  expect(Object.keys(done.state.files)).toEqual(["/notes.md"]);
+
+  // The conflict is reported to the model as part of the task result
+  const taskResult = (done.messages ?? [])
+    .flatMap((m) => (m.role === "tool" ? m.content : []))
+    .find((part) => part.type === "tool-result" && part.toolCallId === second!.invocationId);
+  expect(taskResult).toMatchObject({
+    output: { type: "json", value: { result: "Written.", conflicts: [{ path: "/notes.md" }] } },
+  });
+});
+
+const triageAgent = {
+  name: "triage",
+  description: "Triages bug reports",
+  systemPrompt: "You triage bug reports.",
+  outputSchema: z.object({
+    severity: z.enum(["low", "medium", "high"]),
+    summary: z.string(),
+  }),
+};
+
+test("streamWithEvents > returns the validated output of structured subagents", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      taskCall("call-1", "triage"),
+      { text: '{"severity":"high","summary":"Crash on startup"}' },
+      { text: "It's a high severity crash." },
+    ]),
+    includeGeneralPurposeAgent: false,
+    subagents: [triageAgent],
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Triage the report" })) {
+    events.push(event);
+  }
+
+  const output = { severity: "high", summary: "Crash on startup" };
+  expect(events.find((e) => e.type === "subagent-finish")).toMatchObject({ output });
+
+  // The parent receives the object as JSON
+  const done = events.find((e) => e.type === "done");
+  if (done?.type !== "done") throw new Error("Expected done event");
+  const taskResult = (done.messages ?? [])
+    .flatMap((m) => (m.role === "tool" ? m.content : []))
+    .find((part) => part.type === "tool-result" && part.toolCallId === "call-1");
+  expect(taskResult).toMatchObject({ output: { type: "json", value: output } });
+});
+
+test("streamWithEvents > reports an error when a structured subagent's answer does not match", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      taskCall("call-1", "triage"),
+      { text: '{"severity":"urgent"}' },
+      { text: "Triage failed." },
+    ]),
+    includeGeneralPurposeAgent: false,
+    subagents: [triageAgent],
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Triage the report" })) {
+    events.push(event);
+  }
+
+  const finish = events.find((e) => e.type === "subagent-finish");
+  if (finish?.type !== "subagent-finish") throw new Error("Expected subagent-finish event");
+  expect(finish.result).toStartWith("Error executing subagent:");
+  expect(finish.output).toBeUndefined();
+});
+
+const toolNames = (model: ReturnType<typeof createMockModel>, call: number) =>
+  (model.doStreamCalls[call]?.tools ?? []).map((t) => t.name);
+
+test("streamWithEvents > subagents inherit the tool groups they ask for", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subagent-tools-"));
+  try {
+    const model = createMockModel([
+      taskCall("call-1", "implementer"),
+      { toolCalls: [{ toolCallId: "exec-1", toolName: "execute", input: { command: "echo tests passed" } }] },
+      { text: "Tests pass." },
+      taskCall("call-2", "general-purpose"),
+      { text: "Looked." },
+      { text: "All done." },
+    ]);
+    const agent = createDeepAgent({
+      model,
+      backend: new LocalSandbox({ cwd: dir }),
+      subagents: [
+        {
+          name: "implementer",
+          description: "Implements and tests changes",
+          systemPrompt: "You implement changes.",
+          inheritTools: ["filesystem", "execute"],
+        },
+      ],
+    });
+
+    const events: DeepAgentEvent[] = [];
+    for await (const event of agent.streamWithEvents({ prompt: "Implement it" })) {
+      events.push(event);
+    }
+
+    expect(toolNames(model, 1)).toContain("execute");
+    expect(toolNames(model, 1)).toContain("read_file");
+    expect(toolNames(model, 1)).not.toContain("write_todos");
+    expect(events.find((e) => e.type === "execute-finish")).toMatchObject({
+      exitCode: 0,
+      subagent: { invocationId: "call-1", name: "implementer" },
+    });
+
+    // Without inheritTools, subagents get todos and filesystem tools only
+    expect(toolNames(model, 4)).toContain("write_todos");
+    expect(toolNames(model, 4)).not.toContain("execute");
+    expect(toolNames(model, 4)).not.toContain("task");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("streamWithEvents > nests subagents up to the depth limit", async () => {
+  const model = createMockModel([
+    taskCall("call-1", "lead"),
+    taskCall("call-2", "lead"),
+    { text: "Inner." },
+    { text: "Outer." },
+    { text: "All done." },
+  ]);
+  const agent = createDeepAgent({
+    model,
+    includeGeneralPurposeAgent: false,
+    subagents: [
+      {
+        name: "lead",
+        description: "Splits up work",
+        systemPrompt: "You delegate.",
+        inheritTools: ["todos", "filesystem", "task"],
+      },
+    ],
+    maxSubagentDepth: 2,
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Plan it" })) {
+    events.push(event);
+  }
+
+  // The nested subagent is started by the first one and tagged with it
+  const starts = events.flatMap((e) => (e.type === "subagent-start" ? [e] : []));
+  expect(starts).toHaveLength(2);
+  expect(starts[1]).toMatchObject({
+    invocationId: "call-2",
+    depth: 2,
+    subagent: { invocationId: "call-1", depth: 1 },
+  });
+  expect(events.find((e) => e.type === "subagent-finish" && e.invocationId === "call-1")).toMatchObject({
+    result: "Outer.",
+  });
+
+  // Only the subagent at depth 1 can delegate further
+  expect(toolNames(model, 1)).toContain("task");
+  expect(toolNames(model, 2)).not.toContain("task");
+});
+
+test("streamWithEvents > applies per-subagent step limits, backends and middleware", async () => {
+  // Counts the model calls that pass through the parent's middleware
+  let middlewareCalls = 0;
+  const countingMiddleware: LanguageModelMiddleware = {
+    specificationVersion: "v3",
+    wrapStream: async ({ doStream }) => {
+      middlewareCalls++;
+      return doStream();
+    },
+  };
+
+  const scratch: DeepAgentState = { todos: [], files: {} };
+  const writeDraft = (id: string): MockTurn => ({
+    toolCalls: [{ toolCallId: id, toolName: "write_file", input: { file_path: `/${id}.md`, content: "Draft" } }],
+  });
+
+  const agent = createDeepAgent({
+    model: createMockModel([
+      taskCall("call-1", "drafter"),
+      // The drafter stops after two steps, without a final answer
+      writeDraft("draft-1"),
+      writeDraft("draft-2"),
+      { text: "Drafted." },
+    ]),
+    middleware: countingMiddleware,
+    includeGeneralPurposeAgent: false,
+    subagents: [
+      {
+        name: "drafter",
+        description: "Writes drafts",
+        systemPrompt: "You write drafts.",
+        maxSteps: 2,
+        backend: new StateBackend(scratch),
+        middleware: [],
+      },
+    ],
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Draft it" })) {
+    events.push(event);
+  }
+
+  const subagentSteps = events.filter((e) => e.type === "step-finish" && e.subagent);
+  expect(subagentSteps).toHaveLength(2);
+
+  // The drafter wrote to its own backend, not the parent's files
+  expect(Object.keys(scratch.files)).toEqual(["/draft-1.md", "/draft-2.md"]);
+  const done = events.find((e) => e.type === "done");
+  expect(done?.type === "done" && done.state.files).toEqual({});
+
+  // Only the main agent's calls went through the middleware
+  expect(middlewareCalls).toBe(2);
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for caching fetch_url pages and web_search results.
+ */
+
+import { test, expect, afterEach, mock } from "bun:test";
+import { WebCache } from "../../src/tools/web-cache.ts";
+import { createWebTools } from "../../src/tools/web.ts";
+import { FixtureSearchProvider } from "../../src/tools/web-search.ts";
+import { InMemoryStore } from "../../src/backends/persistent.ts";
+import type { DeepAgentEvent, NetworkPolicy } from "../../src/types.ts";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+/**
+ * Mock fetch to return an HTML page with the given headers. Counts requests.
+ */
+function mockPage(headers: Record<string, string> = {}) {
+  const requests: string[] = [];
+  (globalThis.fetch as any) = mock(async (url: any) => {
+    requests.push(String(url));
+    return new Response(`<html><body><p>Visit ${requests.length}</p></body></html>`, {
+      headers: { "Content-Type": "text/html", ...headers },
+    });
+  });
+  return requests;
+}
+
+function createTools(cache: WebCache, events: DeepAgentEvent[] = [], networkPolicy?: NetworkPolicy) {
+  return createWebTools({ todos: [], files: {} }, {
+    searchProvider: new FixtureSearchProvider({
+      fixtures: { "bun": [{ title: "Bun", url: "https://bun.sh", content: "A JavaScript runtime" }] },
+    }),
+    onEvent: (event) => events.push(event),
+    cache,
+    networkPolicy,
+  });
+}
+
+const fetchArgs = (url: string) => [{ url, timeout: 30, extract_article: false }, { toolCallId: "call-1" }] as const;
+
+test("fetch_url > serves repeated fetches from the cache, also to other tools sharing it", async () => {
+  const requests = mockPage();
+  const cache = new WebCache();
+  const events: DeepAgentEvent[] = [];
+
+  const first = await createTools(cache, events).fetch_url.execute(...fetchArgs("https://example.com/a"));
+  // E.g. a subagent's tools
+  const second = await createTools(cache, events).fetch_url.execute(...fetchArgs("https://example.com/a"));
+
+  expect(first).toContain("Visit 1");
+  expect(second).toBe(first);
+  expect(requests).toHaveLength(1);
+  expect(events.filter((e) => e.type === "fetch-url-finish")).toEqual([
+    { type: "fetch-url-finish", url: "https://example.com/a", success: true, cached: false },
+    { type: "fetch-url-finish", url: "https://example.com/a", success: true, cached: true },
+  ]);
+});
+
+test("fetch_url > checks cached pages against the network policy", async () => {
+  const requests = mockPage();
+  const cache = new WebCache();
+  const page = { status: 200, contentType: "text/html", body: "<html><body><p>Cached secret</p></body></html>" };
+  // Cached by tools without a policy, the second one after a redirect
+  await cache.putPage("https://internal.example.com/", { ...page, url: "https://internal.example.com/" });
+  await cache.putPage("http://93.184.216.34/moved", { ...page, url: "http://169.254.169.254/latest" });
+
+  const strict = createTools(cache, [], { denyHosts: ["internal.example.com"] });
+  expect(await strict.fetch_url.execute(...fetchArgs("https://internal.example.com/"))).toBe(
+    "Error: Requests to host 'internal.example.com' are denied by network policy"
+  );
+  expect(await strict.fetch_url.execute(...fetchArgs("http://93.184.216.34/moved"))).toBe(
+    "Error: Requests to private address '169.254.169.254' are blocked by network policy"
+  );
+
+  expect(await createTools(cache).fetch_url.execute(...fetchArgs("https://internal.example.com/"))).toContain(
+    "Cached secret"
+  );
+  expect(requests).toEqual([]);
+});
+
+test("fetch_url > follows cache headers unless told not to", async () => {
+  const requests = mockPage({ "Cache-Control": "no-store" });
+  const tools = createTools(new WebCache());
+  await tools.fetch_url.execute(...fetchArgs("https://example.com/live"));
+  await tools.fetch_url.execute(...fetchArgs("https://example.com/live"));
+  expect(requests).toHaveLength(2);
+
+  const ignoring = createTools(new WebCache({ respectCacheHeaders: false }));
+  await ignoring.fetch_url.execute(...fetchArgs("https://example.com/live"));
+  await ignoring.fetch_url.execute(...fetchArgs("https://example.com/live"));
+  expect(requests).toHaveLength(3);
+});
+
+test("WebCache > expires entries after their lifetime", async () => {
+  const cache = new WebCache({ ttlSeconds: 60 });
+  const page = { url: "https://example.com", status: 200, contentType: "text/html", body: "<p>hi</p>" };
+
+  await cache.putPage("https://example.com", page, new Headers({ "Cache-Control": "public, max-age=1" }));
+  expect(await cache.getPage("https://example.com")).toEqual(page);
+
+  const now = Date.now();
+  const spy = mock(() => now + 2000);
+  const originalNow = Date.now;
+  Date.now = spy;
+  try {
+    expect(await cache.getPage("https://example.com")).toBeUndefined();
+  } finally {
+    Date.now = originalNow;
+  }
+});
+
+test("web_search > caches results per provider and query in the given store", async () => {
+  const store = new InMemoryStore();
+  const events: DeepAgentEvent[] = [];
+  const cache = new WebCache({ store });
+  const tools = createTools(cache, events);
+  const search = (max_results: number) =>
+    tools.web_search.execute(
+      { query: "bun", max_results, topic: "general", include_raw_content: false },
+      { toolCallId: "call-1" }
+    );
+
+  const first = await search(5);
+  expect(await search(5)).toBe(first);
+  await search(3);
+
+  expect(events.filter((e) => e.type === "web-search-finish").map((e) => "cached" in e && e.cached)).toEqual([
+    false,
+    true,
+    false,
+  ]);
+  expect(await store.list(["web-cache", "searches"])).toHaveLength(2);
+
+  await cache.clear();
+  expect(await store.list(["web-cache", "searches"])).toHaveLength(0);
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for crawling sites into Markdown files with crawl_site.
+ */
+
+import { test, expect, afterEach, mock } from "bun:test";
+import { createWebTools } from "../../src/tools/web.ts";
+import { FixtureSearchProvider } from "../../src/tools/web-search.ts";
+import { StateBackend } from "../../src/backends/state.ts";
+import type { DeepAgentEvent, DeepAgentState, NetworkPolicy } from "../../src/types.ts";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+/**
+ * Mock fetch to serve HTML pages by URL, 404 for anything else.
+ * Records requested URLs.
+ */
+function mockSite(pages: Record<string, string>) {
+  const requested: string[] = [];
+  (globalThis.fetch as any) = mock(async (url: any) => {
+    requested.push(String(url));
+    const html = pages[String(url)];
+    if (html === undefined) {
+      return new Response("Not found", { status: 404, statusText: "Not Found" });
+    }
+    return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+  });
+  return requested;
+}
+
+const readText = (backend: StateBackend, path: string) => backend.readRaw(path).content.join("\n");
+
+const page = (title: string, body: string) =>
+  `<html><head><title>${title}</title></head><body><p>${body}</p></body></html>`;
+
+function createCrawler(options: { networkPolicy?: NetworkPolicy; events?: DeepAgentEvent[] } = {}) {
+  const state: DeepAgentState = { todos: [], files: {} };
+  const backend = new StateBackend(state);
+  const tools = createWebTools(state, {
+    searchProvider: new FixtureSearchProvider({ fixtures: {} }),
+    backend,
+    onEvent: (event) => options.events?.push(event),
+    networkPolicy: options.networkPolicy,
+  });
+  const crawl = (args: { url: string; max_depth?: number; max_pages?: number; output_dir?: string }) =>
+    tools.crawl_site.execute(
+      { max_depth: 2, max_pages: 20, timeout: 30, ...args },
+      { toolCallId: "call-1" }
+    ) as Promise<string>;
+  return { crawl, backend };
+}
+
+test("crawl_site > writes same-origin pages up to the depth limit with an index", async () => {
+  const requested = mockSite({
+    "https://docs.example.com/": page(
+      "Home",
+      `Welcome. <a href="/guide/">Guide</a> <a href="https://other.com/">Other</a>
+       <a href="/logo.png">Logo</a> <a href="#top">Top</a>`
+    ),
+    "https://docs.example.com/guide/": page(
+      "Guide",
+      `Start here. <a href="setup.html#install">Setup</a> <a href="/">Home</a>`
+    ),
+    "https://docs.example.com/guide/setup.html": page("Setup", `Install it. <a href="/deep">Deeper</a>`),
+  });
+  const events: DeepAgentEvent[] = [];
+  const { crawl, backend } = createCrawler({ events });
+
+  const result = await crawl({ url: "https://docs.example.com/" });
+
+  expect(result).toStartWith(
+    "Crawled 3 pages from https://docs.example.com/ into /crawl/docs.example.com\n" +
+      "Index: /crawl/docs.example.com/_index.md"
+  );
+  expect(result).toContain("- /crawl/docs.example.com/guide/setup.md");
+  // Other origins, assets, fragments and pages past the depth limit are skipped
+  expect(requested).toEqual([
+    "https://docs.example.com/",
+    "https://docs.example.com/guide/",
+    "https://docs.example.com/guide/setup.html",
+  ]);
+
+  expect(readText(backend, "/crawl/docs.example.com/_index.md")).toContain(
+    "- [Home](index.md): https://docs.example.com/\n" +
+      "- [Guide](guide/index.md): https://docs.example.com/guide/\n" +
+      "- [Setup](guide/setup.md): https://docs.example.com/guide/setup.html"
+  );
+  const setup = readText(backend, "/crawl/docs.example.com/guide/setup.md");
+  expect(setup).toStartWith("<!-- Source: https://docs.example.com/guide/setup.html -->");
+  expect(setup).toContain("Install it.");
+  expect(backend.grepRaw("Start here", "/crawl")).toEqual([
+    { path: "/crawl/docs.example.com/guide/index.md", line: 5, text: expect.stringContaining("Start here") },
+  ]);
+
+  expect(events.filter((e) => e.type === "fetch-url-finish")).toHaveLength(3);
+  expect(events.filter((e) => e.type === "file-written").map((e) => "path" in e && e.path)).toEqual([
+    "/crawl/docs.example.com/index.md",
+    "/crawl/docs.example.com/guide/index.md",
+    "/crawl/docs.example.com/guide/setup.md",
+    "/crawl/docs.example.com/_index.md",
+  ]);
+});
+
+test("crawl_site > stops at the page limit, lists failures and keeps existing output", async () => {
+  mockSite({
+    "https://example.com/docs": page(
+      "Docs",
+      `<a href="/docs/a">A</a> <a href="/docs/missing">Missing</a> <a href="/docs/b">B</a> <a href="/docs/c">C</a>`
+    ),
+    "https://example.com/docs/a": page("A", "Page A"),
+    "https://example.com/docs/b": page("B", "Page B"),
+    "https://example.com/docs/c": page("C", "Page C"),
+  });
+  const { crawl, backend } = createCrawler();
+
+  const result = await crawl({ url: "https://example.com/docs", max_pages: 4, output_dir: "/research/docs/" });
+
+  expect(result).toContain("Crawled 3 pages from https://example.com/docs into /research/docs (1 failed, see the index)");
+  expect(result).toContain("Stopped at the limit of 4 pages with 1 more link to follow.");
+  expect(readText(backend, "/research/docs/_index.md")).toContain(
+    "## Failed\n\n- https://example.com/docs/missing: HTTP error: 404 Not Found"
+  );
+
+  expect(await crawl({ url: "https://example.com/docs", output_dir: "/research/docs" })).toBe(
+    "Error: Output directory '/research/docs' already contains files. Choose another output_dir."
+  );
+});
+
+test("crawl_site > decodes pages with the charset of their Content-Type", async () => {
+  const html = page("Café", `Crème brûlée <a href="/menu">Menu</a>`);
+  (globalThis.fetch as any) = mock(async (url: any) =>
+    String(url) === "https://bistro.example.com/"
+      ? new Response(Buffer.from(html, "latin1"), { headers: { "Content-Type": "text/html; charset=iso-8859-1" } })
+      : new Response(page("Menu", "Soupe"), { headers: { "Content-Type": "text/html" } })
+  );
+  const { crawl, backend } = createCrawler();
+
+  expect(await crawl({ url: "https://bistro.example.com/" })).toContain("Crawled 2 pages");
+  expect(readText(backend, "/crawl/bistro.example.com/index.md")).toContain("Crème brûlée");
+  expect(readText(backend, "/crawl/bistro.example.com/_index.md")).toContain(
+    "- [Café](index.md): https://bistro.example.com/"
+  );
+});
+
+test("crawl_site > applies the network policy to every page", async () => {
+  // A public address, so the test doesn't depend on DNS
+  const site = "http://93.184.216.34";
+  mockSite({
+    [`${site}/robots.txt`]: "User-agent: *\nDisallow: /private/\n",
+    [`${site}/`]: page("Home", `<a href="/private/notes">Notes</a> <a href="/public">Public</a>`),
+    [`${site}/public`]: page("Public", "Open to all"),
+  });
+  const { crawl, backend } = createCrawler({ networkPolicy: { respectRobotsTxt: true } });
+
+  expect(await crawl({ url: `${site}/` })).toContain("Crawled 2 pages");
+  expect(readText(backend, "/crawl/93.184.216.34/_index.md")).toContain(
+    `- ${site}/private/notes: Error: robots.txt of ${site} disallows fetching '/private/notes'`
+  );
+
+  expect(await crawl({ url: "http://169.254.169.254/", output_dir: "/metadata" })).toContain(
+    "Error: Couldn't crawl 'http://169.254.169.254/': Error: Requests to private address '169.254.169.254' are blocked"
+  );
+});
+
+test("crawl_site > waits for the rate limit instead of failing pages", async () => {
+  const site = "http://93.184.216.34";
+  const requested = mockSite({
+    [`${site}/`]: page("Home", `<a href="/a">A</a> <a href="/b">B</a>`),
+    [`${site}/a`]: page("A", "First"),
+    [`${site}/b`]: page("B", "Second"),
+  });
+  const { crawl } = createCrawler({ networkPolicy: { rateLimit: { requests: 2, perSeconds: 0.2 } } });
+
+  const started = Date.now();
+  const result = await crawl({ url: `${site}/` });
+
+  expect(result).toContain("Crawled 3 pages");
+  expect(result).not.toContain("failed");
+  expect(requested).toHaveLength(3);
+  // The third page waited for the first request to leave the window
+  expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+});
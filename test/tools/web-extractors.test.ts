@@ -0,0 +1,146 @@
+/**
+ * Tests for converting fetched documents to Markdown by content type.
+ */
+
+import { test, expect, afterEach, mock } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import { extractContent, htmlToMarkdown } from "../../src/tools/web-extractors.ts";
+import { createWebTools } from "../../src/tools/web.ts";
+import { FixtureSearchProvider } from "../../src/tools/web-search.ts";
+import { WebCache } from "../../src/tools/web-cache.ts";
+import { StateBackend } from "../../src/backends/state.ts";
+import type { DeepAgentState } from "../../src/types.ts";
+
+const fixturesDir = path.join(import.meta.dir, "..", "fixtures");
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+test("extractContent > extracts text from PDFs page by page", async () => {
+  const markdown = await extractContent({
+    body: new Uint8Array(fs.readFileSync(path.join(fixturesDir, "sample.pdf"))),
+    // Often served with a generic type
+    contentType: "application/octet-stream",
+    url: "https://example.com/paper",
+  });
+
+  expect(markdown).toStartWith("# Sample Paper\n\n*PDF, 2 pages*");
+  expect(markdown).toContain("<!-- Page 1 -->\n\nAttention is all you need");
+  expect(markdown).toContain("<!-- Page 2 -->\n\nResults on page two");
+});
+
+test("extractContent > converts DOCX documents to Markdown", async () => {
+  const markdown = await extractContent({
+    body: new Uint8Array(fs.readFileSync(path.join(fixturesDir, "sample.docx"))),
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    url: "https://example.com/report.docx",
+  });
+
+  expect(markdown).toBe("# Quarterly Report\n\nRevenue grew by **12%**.");
+});
+
+test("extractContent > pretty-prints JSON and turns CSV into a table", async () => {
+  expect(
+    await extractContent({ body: encode('{"a":1,"b":[true]}'), contentType: "application/json", url: "https://x/a" })
+  ).toBe('```json\n{\n  "a": 1,\n  "b": [\n    true\n  ]\n}\n```');
+
+  expect(
+    await extractContent({
+      body: encode('name,notes\r\nAda,"first, programmer"\nLinus,"says ""hi"" | bye"\n'),
+      contentType: "text/csv; charset=utf-8",
+      url: "https://x/people",
+    })
+  ).toBe(
+    '| name | notes |\n| --- | --- |\n| Ada | first, programmer |\n| Linus | says "hi" \\| bye |\n\n*2 rows*'
+  );
+});
+
+test("extractContent > lists RSS and Atom feed items", async () => {
+  const rss = await extractContent({
+    body: encode(`<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <title>Engineering Blog</title>
+  <description>Posts</description>
+  <item>
+    <title>Release 2.0</title>
+    <link>https://blog.example.com/2-0</link>
+    <pubDate>Mon, 06 Jan 2025 10:00:00 GMT</pubDate>
+    <description>&lt;p&gt;It is &lt;b&gt;out&lt;/b&gt;&lt;/p&gt;</description>
+  </item>
+</channel></rss>`),
+    contentType: "application/xml",
+    url: "https://blog.example.com/feed",
+  });
+  expect(rss).toBe(
+    "# Engineering Blog\n\nPosts\n\n*1 item*\n\n## [Release 2.0](https://blog.example.com/2-0)\n\n" +
+      "*Mon, 06 Jan 2025 10:00:00 GMT*\n\nIt is **out**"
+  );
+
+  const atom = await extractContent({
+    body: encode(`<feed xmlns="http://www.w3.org/2005/Atom"><title>Changelog</title>
+  <entry><title>v1.1</title><link href="https://example.com/v1.1"/><updated>2025-01-01</updated></entry>
+</feed>`),
+    contentType: "application/atom+xml",
+    url: "https://example.com/atom",
+  });
+  expect(atom).toContain("## [v1.1](https://example.com/v1.1)\n\n*2025-01-01*");
+});
+
+test("htmlToMarkdown > extracts the article with its title unless told not to", async () => {
+  const html =
+    "<html><head><title>Release notes</title></head><body><nav><a href='/'>Home</a></nav>" +
+    `<article><h2>Version 2</h2><p>${"Faster builds and smaller bundles. ".repeat(20)}</p></article></body></html>`;
+
+  const article = htmlToMarkdown(html, "https://example.com/notes");
+  expect(article).toStartWith("# Release notes\n\n## Version 2");
+  expect(article).not.toContain("[Home]");
+
+  const full = htmlToMarkdown(html, "https://example.com/notes", { extractArticle: false });
+  expect(full).toContain("[Home](/)");
+  expect(full).toContain("## Version 2");
+});
+
+test("extractContent > reports unsupported and broken documents", async () => {
+  expect(
+    await extractContent({ body: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0]), contentType: "image/png", url: "https://x/a.png" })
+  ).toBe("Error: Can't extract text from 'https://x/a.png': unsupported content type 'image/png' (5 bytes)");
+
+  expect(
+    await extractContent({ body: encode("not a pdf"), contentType: "application/pdf", url: "https://x/broken.pdf" })
+  ).toStartWith("Error: Can't extract text from PDF document 'https://x/broken.pdf'");
+});
+
+test("fetch_url > extracts PDFs, caches them and evicts large results", async () => {
+  const pdf = fs.readFileSync(path.join(fixturesDir, "sample.pdf"));
+  let requests = 0;
+  (globalThis.fetch as any) = mock(async () => {
+    requests++;
+    return new Response(pdf, { headers: { "Content-Type": "application/pdf" } });
+  });
+
+  const state: DeepAgentState = { todos: [], files: {} };
+  const backend = new StateBackend(state);
+  const tools = createWebTools(state, {
+    searchProvider: new FixtureSearchProvider({ fixtures: {} }),
+    cache: new WebCache(),
+    backend,
+    toolResultEvictionLimit: 10,
+  });
+  const fetchPaper = (toolCallId: string) =>
+    tools.fetch_url.execute(
+      { url: "https://example.com/paper.pdf", timeout: 30, extract_article: true },
+      { toolCallId }
+    );
+
+  expect(await fetchPaper("call-1")).toContain("/large_tool_results/");
+  await fetchPaper("call-2");
+  expect(requests).toBe(1);
+
+  const [evicted] = backend.lsInfo("/large_tool_results");
+  expect(await backend.read(evicted!.path)).toContain("Attention is all you need");
+});
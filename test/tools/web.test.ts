@@ -3,6 +3,13 @@
  */
 import { test, expect, describe, beforeEach, mock } from "bun:test";
 import { createWebTools } from "../../src/tools/web.ts";
+import {
+  BingSearchProvider,
+  BraveSearchProvider,
+  FixtureSearchProvider,
+  SearxngSearchProvider,
+  type WebSearchProvider,
+} from "../../src/tools/web-search.ts";
 import type { DeepAgentState, DeepAgentEvent } from "../../src/types.ts";
 import { StateBackend } from "../../src/backends/state.ts";
 
@@ -146,13 +153,14 @@ describe("createWebTools - Tool Creation", () => {
     process.env.TAVILY_API_KEY = originalKey;
   });
 
-  test("returns all three tools when API key provided", () => {
+  test("returns all four tools when API key provided", () => {
     const tools = createWebTools(mockState, { tavilyApiKey: "tvly-test-key" });
 
-    expect(Object.keys(tools)).toHaveLength(3);
+    expect(Object.keys(tools)).toHaveLength(4);
     expect("web_search" in tools).toBe(true);
     expect("http_request" in tools).toBe(true);
     expect("fetch_url" in tools).toBe(true);
+    expect("crawl_site" in tools).toBe(true);
   });
 
   test("tools have correct input schemas", () => {
@@ -599,13 +607,118 @@ describe("web_search tool", () => {
     expect(tools.web_search.description).toContain("Search the web");
   });
 
-  // Note: Full integration tests for web_search would require mocking the
-  // @tavily/core module, which is complex. The tool structure is validated above.
-  // In a production environment, you would:
-  // 1. Mock the tavily() function using a test framework that supports module mocking
-  // 2. Test event emission (web-search-start, web-search-finish)
-  // 3. Test result formatting
-  // 4. Test error handling
+  test("is created with a search provider and no API key", () => {
+    const originalKey = process.env.TAVILY_API_KEY;
+    delete process.env.TAVILY_API_KEY;
+
+    const tools = createWebTools(createMockState(), {
+      searchProvider: new FixtureSearchProvider({ fixtures: {} }),
+    });
+    expect(Object.keys(tools)).toEqual(["web_search", "http_request", "fetch_url", "crawl_site"]);
+
+    process.env.TAVILY_API_KEY = originalKey;
+  });
+
+  test("formats provider results and emits events", async () => {
+    const provider = new FixtureSearchProvider({
+      fixtures: {
+        "bun test runner": [
+          { title: "Bun test", url: "https://bun.sh/docs/cli/test", content: "Jest-compatible runner", score: 0.9 },
+          { title: "Other", url: "https://example.com", content: "Unrelated" },
+        ],
+      },
+    });
+    const { events, onEvent } = createEventCollector();
+    const tools = createWebTools(createMockState(), { searchProvider: provider, onEvent });
+
+    const result = await tools.web_search.execute(
+      { query: "  Bun Test Runner ", max_results: 1, topic: "general", include_raw_content: false },
+      { toolCallId: "test-search-1" }
+    );
+
+    expect(result).toContain('Found 1 results for query: "  Bun Test Runner "');
+    expect(result).toContain("## Result 1: Bun test\nURL: https://bun.sh/docs/cli/test\nScore: 0.90");
+    expect(result).not.toContain("Unrelated");
+    expect(provider.queries).toEqual(["  Bun Test Runner "]);
+    expect(events).toEqual([
+      { type: "web-search-start", query: "  Bun Test Runner " },
+      { type: "web-search-finish", query: "  Bun Test Runner ", resultCount: 1 },
+    ]);
+  });
+
+  test("reports provider errors", async () => {
+    const provider: WebSearchProvider = {
+      name: "Internal",
+      search: async () => {
+        throw new Error("service unavailable");
+      },
+    };
+    const tools = createWebTools(createMockState(), { searchProvider: provider });
+
+    const result = await tools.web_search.execute(
+      { query: "anything", max_results: 5, topic: "general", include_raw_content: false },
+      { toolCallId: "test-search-2" }
+    );
+    expect(result).toBe("Web search error (Internal): service unavailable");
+  });
+});
+
+describe("web search providers", () => {
+  const searchOptions = { maxResults: 2, topic: "general" as const, includeRawContent: false };
+
+  function captureFetch(data: any, status = 200) {
+    const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+    (globalThis.fetch as any) = mock(async (url: any, options: any) => {
+      requests.push({ url: String(url), headers: options?.headers ?? {} });
+      return new Response(JSON.stringify(data), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      }) as any;
+    });
+    return requests;
+  }
+
+  test("SearxngSearchProvider queries the JSON API", async () => {
+    const requests = captureFetch({
+      results: [
+        { title: "A", url: "https://a.example", content: "first", score: 2 },
+        { title: "B", url: "https://b.example", content: "second" },
+        { title: "C", url: "https://c.example", content: "third" },
+      ],
+    });
+
+    const provider = new SearxngSearchProvider({ baseUrl: "http://searx.local/" });
+    const results = await provider.search("deep agents", { ...searchOptions, topic: "news" });
+
+    expect(requests[0]!.url).toBe("http://searx.local/search?q=deep+agents&format=json&categories=news");
+    expect(results).toEqual([
+      { title: "A", url: "https://a.example", content: "first", score: 2 },
+      { title: "B", url: "https://b.example", content: "second", score: undefined },
+    ]);
+  });
+
+  test("BraveSearchProvider sends the subscription token", async () => {
+    const requests = captureFetch({
+      web: { results: [{ title: "A", url: "https://a.example", description: "first" }] },
+    });
+
+    const results = await new BraveSearchProvider({ apiKey: "brave-key" }).search("query", searchOptions);
+
+    expect(requests[0]!.url).toBe("https://api.search.brave.com/res/v1/web/search?q=query&count=2");
+    expect(requests[0]!.headers["X-Subscription-Token"]).toBe("brave-key");
+    expect(results).toEqual([{ title: "A", url: "https://a.example", content: "first" }]);
+  });
+
+  test("BingSearchProvider maps web pages and reports HTTP errors", async () => {
+    captureFetch({ webPages: { value: [{ name: "A", url: "https://a.example", snippet: "first" }] } });
+    const provider = new BingSearchProvider({ apiKey: "bing-key" });
+    expect(await provider.search("query", searchOptions)).toEqual([
+      { title: "A", url: "https://a.example", content: "first" },
+    ]);
+
+    captureFetch({ error: "denied" }, 401);
+    await expect(provider.search("query", searchOptions)).rejects.toThrow("Bing returned HTTP 401");
+  });
 });
 
 // ============================================================================
@@ -0,0 +1,164 @@
+/**
+ * Tests for budget limits.
+ */
+
+import { test, expect } from "bun:test";
+import { BudgetTracker, mergeBudgets } from "../../src/utils/budget.ts";
+import { toTokenUsage } from "../../src/utils/usage.ts";
+import { createDeepAgent } from "../../src/agent.ts";
+import { MemorySaver } from "../../src/checkpointer/memory-saver.ts";
+import type { DeepAgentEvent } from "../../src/types.ts";
+import { createMockModel, type MockTurn } from "../helpers/mock-model.ts";
+
+const usage = (inputTokens: number, outputTokens: number) =>
+  toTokenUsage({ inputTokens, outputTokens } as any, "mock-model-id", {
+    "mock-model-id": { input: 3, output: 15 },
+  });
+
+const writeTodos = (id: string): MockTurn => ({
+  toolCalls: [
+    {
+      toolCallId: `call-${id}`,
+      toolName: "write_todos",
+      input: { todos: [{ id, content: `Todo ${id}`, status: "pending" }] },
+    },
+  ],
+});
+
+async function collect(stream: AsyncGenerator<DeepAgentEvent>) {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+test("BudgetTracker > stops on token and cost limits", () => {
+  const tokens = new BudgetTracker({ maxTokens: 100 });
+  tokens.addUsage(usage(40, 20));
+  expect(tokens.exceeded).toBeUndefined();
+  tokens.addUsage(usage(30, 10));
+  expect(tokens.exceeded).toEqual({ reason: "tokens", limit: 100, used: 100 });
+
+  const cost = new BudgetTracker({ maxCost: 0.001 });
+  cost.addUsage(usage(100, 100)); // $0.0018
+  expect(cost.exceeded?.reason).toBe("cost");
+  expect(cost.totalUsage.cost).toBeCloseTo(0.0018);
+});
+
+test("BudgetTracker > counts tool calls per tool", () => {
+  const tracker = new BudgetTracker({ maxToolCalls: { web_search: 2 } });
+
+  expect(tracker.startToolCall("web_search")).toBeUndefined();
+  expect(tracker.startToolCall("web_search")).toBeUndefined();
+  expect(tracker.startToolCall("read_file")).toBeUndefined();
+  expect(tracker.startToolCall("web_search")).toEqual({
+    reason: "tool-calls",
+    limit: 2,
+    used: 2,
+    toolName: "web_search",
+  });
+
+  // Once exceeded, every further call is rejected
+  expect(tracker.startToolCall("read_file")?.reason).toBe("tool-calls");
+});
+
+test("BudgetTracker > checks elapsed time", () => {
+  const tracker = new BudgetTracker({ maxDurationMs: 1000 }, Date.now() - 5000);
+  expect(tracker.check()?.reason).toBe("time");
+  expect(tracker.startToolCall("ls")?.reason).toBe("time");
+});
+
+test("mergeBudgets > run budget overrides agent budget per field and tool", () => {
+  expect(
+    mergeBudgets(
+      { maxTokens: 1000, maxCost: 1, maxToolCalls: { web_search: 20, fetch_url: 10 } },
+      { maxCost: 0.5, maxToolCalls: { web_search: 5 } }
+    )
+  ).toEqual({ maxTokens: 1000, maxCost: 0.5, maxToolCalls: { web_search: 5, fetch_url: 10 } });
+  expect(mergeBudgets(undefined, { maxTokens: 10 })).toEqual({ maxTokens: 10 });
+  expect(mergeBudgets(undefined, undefined)).toBeUndefined();
+});
+
+test("streamWithEvents > stops cleanly when a tool call limit is reached", async () => {
+  const checkpointer = new MemorySaver();
+  const agent = createDeepAgent({
+    model: createMockModel([writeTodos("1"), writeTodos("2"), writeTodos("3")]),
+    budget: { maxToolCalls: { write_todos: 1 } },
+    checkpointer,
+  });
+
+  const events = await collect(agent.streamWithEvents({ prompt: "Plan", threadId: "thread-1" }));
+
+  const types = events.map((e) => e.type);
+  expect(types).not.toContain("error");
+  expect(types.filter((t) => t === "step-finish")).toHaveLength(2);
+
+  const exceeded = events.find((e) => e.type === "budget-exceeded");
+  if (exceeded?.type !== "budget-exceeded") throw new Error("Expected budget-exceeded event");
+  expect(exceeded.reason).toBe("tool-calls");
+  expect(exceeded.toolName).toBe("write_todos");
+  expect(exceeded.usage.total.totalTokens).toBe(30);
+
+  const done = events.find((e) => e.type === "done");
+  if (done?.type !== "done") throw new Error("Expected done event");
+  expect(types.indexOf("budget-exceeded")).toBeLessThan(types.indexOf("done"));
+  // Only the first call ran
+  expect(done.state.todos.map((t) => t.id)).toEqual(["1"]);
+
+  const checkpoint = await checkpointer.load("thread-1");
+  expect(checkpoint?.step).toBe(2);
+  expect(checkpoint?.messages).toEqual(done.messages);
+});
+
+test("streamWithEvents > run budget stops on tokens", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([writeTodos("1"), writeTodos("2"), writeTodos("3")]),
+  });
+
+  const events = await collect(
+    agent.streamWithEvents({ prompt: "Plan", budget: { maxTokens: 15 } })
+  );
+
+  expect(events.filter((e) => e.type === "step-finish")).toHaveLength(1);
+  expect(events.find((e) => e.type === "budget-exceeded")).toMatchObject({
+    reason: "tokens",
+    limit: 15,
+    used: 15,
+  });
+});
+
+test("streamWithEvents > subagents share the run budget", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      {
+        toolCalls: [
+          {
+            toolCallId: "task-1",
+            toolName: "task",
+            input: { description: "Research forever", subagent_type: "general-purpose" },
+          },
+        ],
+      },
+      // Subagent steps
+      writeTodos("1"),
+      writeTodos("2"),
+      writeTodos("3"),
+    ]),
+    budget: { maxTokens: 30 },
+  });
+
+  const events = await collect(agent.streamWithEvents({ prompt: "Research" }));
+
+  // The parent's step is counted when it finishes (after the task call),
+  // so the subagent stops after its second step
+  const subagentFinish = events.find((e) => e.type === "subagent-finish");
+  if (subagentFinish?.type !== "subagent-finish") throw new Error("Expected subagent-finish event");
+  expect(subagentFinish.result).toContain("Task stopped early: token budget of 30 exhausted");
+  expect(subagentFinish.usage?.totalTokens).toBe(30);
+
+  // ...and so does the main agent
+  expect(events.filter((e) => e.type === "step-finish" && !e.subagent)).toHaveLength(1);
+  const exceeded = events.find((e) => e.type === "budget-exceeded");
+  expect(exceeded).toMatchObject({ reason: "tokens", used: 30 });
+});
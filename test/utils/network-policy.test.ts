@@ -0,0 +1,207 @@
+/**
+ * Tests for network policy enforcement in http_request and fetch_url.
+ */
+
+import { test, expect, afterEach, mock } from "bun:test";
+import * as dns from "node:dns/promises";
+import { NetworkGuard } from "../../src/utils/network-policy.ts";
+import { createWebTools } from "../../src/tools/web.ts";
+import { FixtureSearchProvider } from "../../src/tools/web-search.ts";
+import type { DeepAgentEvent } from "../../src/types.ts";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+/**
+ * Mock fetch with a handler per URL. Records requested URLs.
+ */
+function mockFetch(handler: (url: string, init?: RequestInit) => Response) {
+  const requested: string[] = [];
+  (globalThis.fetch as any) = mock(async (url: any, init?: RequestInit) => {
+    requested.push(String(url));
+    return handler(String(url), init);
+  });
+  return requested;
+}
+
+// A public address, so tests don't depend on DNS
+const PUBLIC = "http://93.184.216.34";
+
+test("NetworkGuard > blocks private addresses, including after DNS and in IPv6 form", async () => {
+  const guard = new NetworkGuard({});
+
+  for (const url of [
+    "http://169.254.169.254/latest/meta-data/",
+    "http://10.1.2.3/",
+    "http://[::1]:8080/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://[::127.0.0.1]/", // IPv4-compatible
+    "http://[64:ff9b::7f00:1]/", // NAT64 of 127.0.0.1
+    "http://[2002:a9fe:a9fe::]/", // 6to4 of 169.254.169.254
+    "http://[fd12::1]/",
+    "http://2130706433/", // 127.0.0.1 in decimal
+  ]) {
+    expect(await guard.checkUrl(new URL(url))).toContain("blocked by network policy");
+  }
+  expect(await guard.checkUrl(new URL("http://localhost:3000/"))).toContain("resolves to private address");
+  expect(await guard.checkUrl(new URL(`${PUBLIC}/`))).toBeUndefined();
+  for (const url of ["http://[64:ff9b::5db8:d822]/", "http://[2002:5db8:d822::1]/", "http://[2606:4700::1111]/"]) {
+    expect(await guard.checkUrl(new URL(url))).toBeUndefined();
+  }
+  expect(await guard.checkUrl(new URL("file:///etc/passwd"))).toContain("Only http and https");
+
+  const permissive = new NetworkGuard({ blockPrivateNetworks: false });
+  expect(await permissive.checkUrl(new URL("http://127.0.0.1/"))).toBeUndefined();
+});
+
+test("NetworkGuard > applies host allow and deny lists", async () => {
+  const guard = new NetworkGuard({
+    allowHosts: ["*.example.com", "example.com"],
+    denyHosts: ["admin.example.com"],
+    blockPrivateNetworks: false,
+  });
+
+  expect(await guard.checkUrl(new URL("https://Docs.Example.com/a"))).toBeUndefined();
+  expect(await guard.checkUrl(new URL("https://example.com/"))).toBeUndefined();
+  expect(await guard.checkUrl(new URL("https://admin.example.com/"))).toBe(
+    "Error: Requests to host 'admin.example.com' are denied by network policy"
+  );
+  expect(await guard.checkUrl(new URL("https://example.org/"))).toBe(
+    "Error: Requests to host 'example.org' are not allowed by network policy"
+  );
+});
+
+test("NetworkGuard > checks every redirect", async () => {
+  const requested = mockFetch((url) =>
+    url.startsWith(PUBLIC)
+      ? new Response(null, { status: 302, headers: { Location: "http://169.254.169.254/latest" } })
+      : new Response("secret")
+  );
+
+  const result = await new NetworkGuard({}).fetch(`${PUBLIC}/redirect`);
+  expect(result).toContain("'169.254.169.254' are blocked");
+  expect(requested).toEqual([`${PUBLIC}/redirect`]);
+});
+
+test("NetworkGuard > connects to the address it checked", async () => {
+  // Rebinding DNS: public for the check, private for any later lookup
+  const lookups: string[] = [];
+  mock.module("node:dns/promises", () => ({
+    ...dns,
+    lookup: async (host: string) => {
+      lookups.push(host);
+      return [{ address: lookups.length === 1 ? "93.184.216.34" : "127.0.0.1", family: 4 }];
+    },
+  }));
+  const inits: RequestInit[] = [];
+  const requested = mockFetch((_url, init) => {
+    inits.push(init!);
+    return new Response("ok");
+  });
+
+  try {
+    const response = await new NetworkGuard({}).fetch("https://rebind.example.com/page?q=1");
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).url).toBe("https://rebind.example.com/page?q=1");
+    expect(lookups).toEqual(["rebind.example.com"]);
+    expect(requested).toEqual(["https://93.184.216.34/page?q=1"]);
+    expect(new Headers(inits[0]!.headers).get("Host")).toBe("rebind.example.com");
+    expect((inits[0] as BunFetchRequestInit).tls).toEqual({ serverName: "rebind.example.com" });
+  } finally {
+    mock.module("node:dns/promises", () => dns);
+  }
+});
+
+test("NetworkGuard > drops credentials on redirects to another origin", async () => {
+  const headers: Record<string, Headers> = {};
+  mockFetch((url, init) => {
+    headers[url] = new Headers(init?.headers);
+    if (url === `${PUBLIC}/start`) {
+      return new Response(null, { status: 302, headers: { Location: "/same-origin" } });
+    }
+    if (url === `${PUBLIC}/same-origin`) {
+      return new Response(null, { status: 307, headers: { Location: "http://93.184.216.35/other" } });
+    }
+    return new Response("ok");
+  });
+
+  await new NetworkGuard({}).fetch(`${PUBLIC}/start`, {
+    headers: { Authorization: "Bearer secret", Cookie: "session=1", "X-Api-Key": "key", Accept: "text/plain" },
+  });
+
+  expect(headers[`${PUBLIC}/same-origin`]?.get("Authorization")).toBe("Bearer secret");
+  const other = headers["http://93.184.216.35/other"]!;
+  expect([other.get("Authorization"), other.get("Cookie"), other.get("X-Api-Key")]).toEqual([null, null, null]);
+  expect(other.get("Accept")).toBe("text/plain");
+});
+
+test("NetworkGuard > limits requests per host", async () => {
+  mockFetch(() => new Response("ok"));
+  const guard = new NetworkGuard({ rateLimit: { requests: 2, perSeconds: 60 } });
+
+  expect(await guard.fetch(`${PUBLIC}/1`)).toBeInstanceOf(Response);
+  expect(await guard.fetch(`${PUBLIC}/2`)).toBeInstanceOf(Response);
+  expect(await guard.fetch(`${PUBLIC}/3`)).toMatch(
+    /^Error: Rate limit for host '93\.184\.216\.34' reached \(2 requests per 60 seconds\)\. Try again in \d+ seconds$/
+  );
+  expect(await guard.fetch("http://93.184.216.35/1")).toBeInstanceOf(Response);
+});
+
+test("NetworkGuard > rejects responses over the size limit", async () => {
+  mockFetch((url) =>
+    url.endsWith("/declared")
+      ? new Response("x".repeat(100), { headers: { "Content-Length": "100" } })
+      : new Response(new Blob(["x".repeat(100)]).stream())
+  );
+  const guard = new NetworkGuard({ maxResponseBytes: 50 });
+
+  expect(await guard.fetch(`${PUBLIC}/declared`)).toContain("larger than the 50 bytes allowed");
+  expect(await guard.fetch(`${PUBLIC}/streamed`)).toContain("larger than the 50 bytes allowed");
+});
+
+test("fetch_url > respects robots.txt and reports violations as tool errors", async () => {
+  mockFetch((url) => {
+    if (url.endsWith("/robots.txt")) {
+      // The product token matches in full, so the "agents" group doesn't apply
+      return new Response(
+        "User-agent: *\nDisallow: /\n\nUser-agent: DeepAgents\nDisallow: /private/\nAllow: /private/public$\n" +
+          "\nUser-agent: agents\nDisallow: /docs\n"
+      );
+    }
+    return new Response("<html><body><p>Page content</p></body></html>", {
+      headers: { "Content-Type": "text/html" },
+    });
+  });
+
+  const events: DeepAgentEvent[] = [];
+  const tools = createWebTools({ todos: [], files: {} }, {
+    searchProvider: new FixtureSearchProvider({ fixtures: {} }),
+    onEvent: (event) => events.push(event),
+    networkPolicy: { respectRobotsTxt: true },
+  });
+  const fetchUrl = (url: string) =>
+    tools.fetch_url.execute({ url, timeout: 30, extract_article: false }, { toolCallId: "call-1" });
+
+  expect(await fetchUrl(`${PUBLIC}/docs`)).toContain("Page content");
+  expect(await fetchUrl(`${PUBLIC}/private/public`)).toContain("Page content");
+  expect(await fetchUrl(`${PUBLIC}/private/notes`)).toBe(
+    `Error: robots.txt of ${PUBLIC} disallows fetching '/private/notes'`
+  );
+  expect(events.at(-1)).toEqual({ type: "fetch-url-finish", url: `${PUBLIC}/private/notes`, success: false });
+
+  // http_request ignores robots.txt but not the rest of the policy
+  const response = await tools.http_request.execute(
+    { url: `${PUBLIC}/private/notes`, method: "GET", timeout: 30 },
+    { toolCallId: "call-2" }
+  );
+  expect(response).toContain("Status: 200");
+  expect(
+    await tools.http_request.execute(
+      { url: "http://169.254.169.254/latest/meta-data/", method: "GET", timeout: 30 },
+      { toolCallId: "call-3" }
+    )
+  ).toContain("blocked by network policy");
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for unified diff parsing and application.
+ */
+
+import { test, expect } from "bun:test";
+import { applyHunks, parseUnifiedDiff, type FilePatch } from "../../src/utils/patch.ts";
+
+function parse(patch: string): FilePatch[] {
+  const files = parseUnifiedDiff(patch);
+  if (typeof files === "string") throw new Error(files);
+  return files;
+}
+
+test("parseUnifiedDiff > reads file headers, git prefixes and hunks", () => {
+  const files = parse(`diff --git a/src/a.ts b/src/a.ts
+index 83db48f..bf269f4 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,2 @@
+ one
+-two
++TWO
+--- /dev/null
++++ /new.md
+@@ -0,0 +1 @@
++hello
+`);
+
+  expect(files).toHaveLength(2);
+  expect(files[0]).toMatchObject({ oldPath: "src/a.ts", newPath: "src/a.ts" });
+  expect(files[0]!.hunks[0]).toMatchObject({ oldStart: 1, lines: [" one", "-two", "+TWO"] });
+  expect(files[1]).toMatchObject({ oldPath: null, newPath: "/new.md" });
+});
+
+test("parseUnifiedDiff > reports diffs without changes", () => {
+  expect(parseUnifiedDiff("just some text")).toContain("No file changes found");
+  expect(parseUnifiedDiff("@@ -1 +1 @@\n-a\n+b")).toContain("before any '--- path'");
+});
+
+test("applyHunks > applies hunks that moved and keeps the trailing newline", () => {
+  const [file] = parse(`--- /a.txt
++++ /a.txt
+@@ -2,3 +2,3 @@
+ b
+-c
++C
+ d
+@@ -8,2 +8,3 @@
+ h
++inserted
+ i
+`);
+  // Two lines were added at the top since the diff was made
+  const content = "new1\nnew2\na\nb\nc\nd\ne\nf\ng\nh\ni\n";
+
+  expect(applyHunks(content, file!.hunks, "/a.txt")).toBe(
+    "new1\nnew2\na\nb\nC\nd\ne\nf\ng\nh\ninserted\ni\n"
+  );
+});
+
+test("applyHunks > reports each hunk that does not apply", () => {
+  const [file] = parse(`--- /a.txt
++++ /a.txt
+@@ -1,1 +1,1 @@
+-missing
++x
+@@ -2,1 +2,1 @@
+-b
++B
+@@ -3,1 +3,1 @@
+-also missing
++y
+`);
+
+  const errors = applyHunks("a\nb\nc", file!.hunks, "/a.txt");
+  expect(errors).toEqual([
+    expect.stringContaining("Hunk 1 (@@ -1,1 +1,1 @@) in '/a.txt' does not apply"),
+    expect.stringContaining("Hunk 3 (@@ -3,1 +3,1 @@) in '/a.txt' does not apply"),
+  ]);
+});
+
+test("applyHunks > handles missing newlines at the end of the file", () => {
+  const [file] = parse(`--- /a.txt
++++ /a.txt
+@@ -1,2 +1,2 @@
+ a
+-b
+\\ No newline at end of file
++b
+`);
+
+  expect(applyHunks("a\nb", file!.hunks, "/a.txt")).toBe("a\nb\n");
+});
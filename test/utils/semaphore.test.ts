@@ -0,0 +1,55 @@
+/**
+ * Tests for the concurrency semaphore.
+ */
+
+import { test, expect } from "bun:test";
+import { Semaphore } from "../../src/utils/semaphore.ts";
+
+test("Semaphore > starts waiting tasks in order as slots are released", async () => {
+  const semaphore = new Semaphore(1);
+  const order: string[] = [];
+
+  const releaseFirst = await semaphore.acquire();
+  const second = semaphore.acquire().then((release) => {
+    order.push("second");
+    return release;
+  });
+  const third = semaphore.acquire().then((release) => {
+    order.push("third");
+    return release;
+  });
+  expect(semaphore.queued).toBe(2);
+
+  releaseFirst();
+  (await second)();
+  (await third)();
+  expect(order).toEqual(["second", "third"]);
+  expect(semaphore.queued).toBe(0);
+});
+
+test("Semaphore > aborting removes a waiting task from the queue", async () => {
+  const semaphore = new Semaphore(1);
+  const release = await semaphore.acquire();
+  const controller = new AbortController();
+
+  const waiting = semaphore.acquire(controller.signal);
+  controller.abort(new Error("cancelled"));
+  await expect(waiting).rejects.toThrow("cancelled");
+  expect(semaphore.queued).toBe(0);
+
+  release();
+  // The slot is free again
+  const next = await semaphore.acquire();
+  next();
+  expect(() => new Semaphore(0)).toThrow("Concurrency limit must be at least 1");
+});
+
+test("Semaphore > tryAcquire only takes a free slot", async () => {
+  const semaphore = new Semaphore(1);
+  const release = semaphore.tryAcquire();
+  expect(release).toBeDefined();
+  expect(semaphore.tryAcquire()).toBeUndefined();
+
+  release!();
+  expect(semaphore.tryAcquire()).toBeDefined();
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for token usage and cost accounting.
+ */
+
+import { test, expect } from "bun:test";
+import {
+  addTokenUsage,
+  calculateCost,
+  findModelPrice,
+  toTokenUsage,
+} from "../../src/utils/usage.ts";
+import { createDeepAgent } from "../../src/agent.ts";
+import type { DeepAgentEvent, PriceTable } from "../../src/types.ts";
+import { createMockModel } from "../helpers/mock-model.ts";
+
+const pricing: PriceTable = {
+  "mock-model-id": { input: 3, output: 15 },
+};
+
+// Each mock model call uses 10 input and 5 output tokens
+const MOCK_CALL_COST = (10 * 3 + 5 * 15) / 1_000_000;
+
+test("findModelPrice > prefers exact matches, then the longest prefix", () => {
+  const prices: PriceTable = {
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-sonnet-4-5": { input: 4, output: 20 },
+    "gpt-4o": { input: 2.5, output: 10 },
+  };
+
+  expect(findModelPrice("gpt-4o", prices)?.input).toBe(2.5);
+  expect(findModelPrice("claude-sonnet-4-5-20250929", prices)?.input).toBe(4);
+  expect(findModelPrice("claude-sonnet-4-20250514", prices)?.input).toBe(3);
+  expect(findModelPrice("o3", prices)).toBeUndefined();
+  expect(findModelPrice("gpt-4o", undefined)).toBeUndefined();
+});
+
+test("calculateCost > prices cached input separately", () => {
+  const usage = toTokenUsage(
+    {
+      inputTokens: 1_000_000,
+      inputTokenDetails: { noCacheTokens: 200_000, cacheReadTokens: 600_000, cacheWriteTokens: 200_000 },
+      outputTokens: 100_000,
+      outputTokenDetails: { textTokens: 60_000, reasoningTokens: 40_000 },
+      totalTokens: 1_100_000,
+    },
+    "model"
+  );
+
+  expect(usage.cachedInputTokens).toBe(600_000);
+  expect(usage.cacheWriteTokens).toBe(200_000);
+  expect(usage.reasoningTokens).toBe(40_000);
+  expect(usage.cost).toBeUndefined();
+
+  // 0.2M * 3 + 0.6M * 0.3 + 0.2M * 3.75 + 0.1M * 15
+  expect(calculateCost(usage, { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 })).toBeCloseTo(3.03);
+  // Without cache prices, cached tokens cost as much as regular input
+  expect(calculateCost(usage, { input: 3, output: 15 })).toBeCloseTo(4.5);
+});
+
+test("addTokenUsage > sums counts and known costs", () => {
+  const priced = toTokenUsage({ inputTokens: 10, outputTokens: 5 } as any, "mock-model-id", pricing);
+  const unpriced = toTokenUsage({ inputTokens: 10, outputTokens: 5 } as any, "other-model", pricing);
+
+  const total = addTokenUsage(priced, unpriced);
+  expect(total.inputTokens).toBe(20);
+  expect(total.totalTokens).toBe(30);
+  expect(total.cost).toBeCloseTo(MOCK_CALL_COST);
+
+  expect(addTokenUsage(unpriced, unpriced).cost).toBeUndefined();
+});
+
+test("streamWithEvents > reports usage per step, subagent and run", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([
+      {
+        toolCalls: [
+          {
+            toolCallId: "call-1",
+            toolName: "task",
+            input: { description: "Research the topic", subagent_type: "general-purpose" },
+          },
+        ],
+      },
+      // Subagent answer
+      { text: "Findings." },
+      { text: "All done." },
+    ]),
+    pricing,
+  });
+
+  const events: DeepAgentEvent[] = [];
+  for await (const event of agent.streamWithEvents({ prompt: "Research something" })) {
+    events.push(event);
+  }
+
+  // Main agent steps (the subagent's step is tagged)
+  const steps = events.flatMap((e) => (e.type === "step-finish" && !e.subagent ? [e] : []));
+  expect(steps).toHaveLength(2);
+  for (const step of steps) {
+    expect(step.usage?.inputTokens).toBe(10);
+    expect(step.usage?.outputTokens).toBe(5);
+    expect(step.usage?.cost).toBeCloseTo(MOCK_CALL_COST);
+  }
+
+  const subagentFinish = events.find((e) => e.type === "subagent-finish");
+  expect(subagentFinish?.type === "subagent-finish" && subagentFinish.usage?.totalTokens).toBe(15);
+
+  const done = events.find((e) => e.type === "done");
+  if (done?.type !== "done") throw new Error("Expected done event");
+  expect(done.usage?.agent.inputTokens).toBe(20);
+  expect(done.usage?.subagents).toEqual([
+    { name: "general-purpose", task: "Research the topic", usage: expect.objectContaining({ inputTokens: 10 }) },
+  ]);
+  expect(done.usage?.total.inputTokens).toBe(30);
+  expect(done.usage?.total.outputTokens).toBe(15);
+  expect(done.usage?.total.cost).toBeCloseTo(3 * MOCK_CALL_COST);
+});
+
+test("generate > attaches run usage to the result", async () => {
+  const agent = createDeepAgent({
+    model: createMockModel([{ text: "Hello!" }]),
+    pricing,
+  });
+
+  const result = await agent.generate({ prompt: "Hi" });
+  expect(result.runUsage.total.inputTokens).toBe(10);
+  expect(result.runUsage.total.cost).toBeCloseTo(MOCK_CALL_COST);
+  expect(result.runUsage.subagents).toEqual([]);
+});